@@ -0,0 +1,19 @@
+-- Database Migration V10 - Multi-File Documents
+-- Lets one document (e.g. a pay stub photographed page by page) keep several stored files
+-- Run this in Supabase SQL Editor after V9
+
+-- ============================================================================
+-- STEP 1: Add file_paths to documents
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'documents' AND column_name = 'file_paths'
+  ) THEN
+    ALTER TABLE documents
+    ADD COLUMN file_paths TEXT[]; -- Storage paths in page order; file_path keeps the first one
+    RAISE NOTICE 'Added file_paths column to documents';
+  END IF;
+END $$;
@@ -0,0 +1,61 @@
+-- Database Migration V11 - Financial Declaration
+-- Monthly income sources and the full expense category list for each spouse's Utah Financial Declaration
+-- Run this in Supabase SQL Editor after V10
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS financial_declaration_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  spouse_number INTEGER NOT NULL CHECK (spouse_number IN (1, 2)),
+
+  item_type TEXT NOT NULL CHECK (item_type IN ('income', 'deduction', 'expense')),
+  category TEXT NOT NULL, -- Key from the category lists in financialDeclarationService.ts
+  monthly_amount DECIMAL(12, 2),
+  notes TEXT,
+
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+  UNIQUE (user_id, spouse_number, item_type, category)
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_financial_declaration_items_user_id ON financial_declaration_items(user_id);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE financial_declaration_items ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'financial_declaration_items' AND policyname = 'Users can view their own financial declaration items') THEN
+    CREATE POLICY "Users can view their own financial declaration items" ON financial_declaration_items
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'financial_declaration_items' AND policyname = 'Users can insert their own financial declaration items') THEN
+    CREATE POLICY "Users can insert their own financial declaration items" ON financial_declaration_items
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'financial_declaration_items' AND policyname = 'Users can update their own financial declaration items') THEN
+    CREATE POLICY "Users can update their own financial declaration items" ON financial_declaration_items
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'financial_declaration_items' AND policyname = 'Users can delete their own financial declaration items') THEN
+    CREATE POLICY "Users can delete their own financial declaration items" ON financial_declaration_items
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
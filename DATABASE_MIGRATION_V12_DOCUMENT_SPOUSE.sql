@@ -0,0 +1,19 @@
+-- Database Migration V12 - Document Spouse
+-- Records whose document each upload is, so its income, employers and expenses go to that spouse's rows
+-- Run this in Supabase SQL Editor after V11
+
+-- ============================================================================
+-- STEP 1: Add spouse_number to documents
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'documents' AND column_name = 'spouse_number'
+  ) THEN
+    ALTER TABLE documents
+    ADD COLUMN spouse_number INTEGER CHECK (spouse_number IN (1, 2)); -- NULL for older uploads, treated as spouse 1
+    RAISE NOTICE 'Added spouse_number column to documents';
+  END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- Database Migration V13 - Joint Return Income Split
+-- Records how a married-filing-jointly return's income was divided between the spouses
+-- Run this in Supabase SQL Editor after V12
+
+-- ============================================================================
+-- STEP 1: Add split_method and split_percentage to income
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'income' AND column_name = 'split_method'
+  ) THEN
+    ALTER TABLE income
+    ADD COLUMN split_method TEXT CHECK (split_method IN ('w2', 'manual')); -- NULL when the income isn't from a joint return
+    RAISE NOTICE 'Added split_method column to income';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'income' AND column_name = 'split_percentage'
+  ) THEN
+    ALTER TABLE income
+    ADD COLUMN split_percentage DECIMAL(5,2); -- This spouse's share of the joint return's total income
+    RAISE NOTICE 'Added split_percentage column to income';
+  END IF;
+END $$;
@@ -0,0 +1,64 @@
+-- Database Migration V14 - Bank Transactions
+-- Transaction lines from bank statements, categorized into Financial Declaration expense categories
+-- Run this in Supabase SQL Editor after V13
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bank_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL, -- Bank statement the transaction came from
+  spouse_number INTEGER NOT NULL CHECK (spouse_number IN (1, 2)),
+
+  transaction_date DATE,
+  description TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL, -- Negative for money out
+  running_balance DECIMAL(12, 2),
+  category TEXT, -- Expense category key from financialDeclarationService.ts, or 'income' / 'transfer' / 'cash'
+  is_recurring BOOLEAN DEFAULT false NOT NULL,
+  recurrence_frequency TEXT CHECK (recurrence_frequency IN ('weekly', 'biweekly', 'semimonthly', 'monthly', 'yearly')),
+
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_user_id ON bank_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_document_id ON bank_transactions(document_id);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_transactions' AND policyname = 'Users can view their own bank transactions') THEN
+    CREATE POLICY "Users can view their own bank transactions" ON bank_transactions
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_transactions' AND policyname = 'Users can insert their own bank transactions') THEN
+    CREATE POLICY "Users can insert their own bank transactions" ON bank_transactions
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_transactions' AND policyname = 'Users can update their own bank transactions') THEN
+    CREATE POLICY "Users can update their own bank transactions" ON bank_transactions
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bank_transactions' AND policyname = 'Users can delete their own bank transactions') THEN
+    CREATE POLICY "Users can delete their own bank transactions" ON bank_transactions
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
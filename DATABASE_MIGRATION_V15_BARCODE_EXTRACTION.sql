@@ -0,0 +1,15 @@
+-- Database Migration V15 - Barcode Extraction Method
+-- Allows 'barcode' as the extraction method for values read from a driver's license PDF417 barcode
+-- Run this in Supabase SQL Editor after V14
+
+-- ============================================================================
+-- STEP 1: Widen the extraction_method checks
+-- ============================================================================
+
+ALTER TABLE extracted_data DROP CONSTRAINT IF EXISTS extracted_data_extraction_method_check;
+ALTER TABLE extracted_data
+ADD CONSTRAINT extracted_data_extraction_method_check CHECK (extraction_method IN ('regex', 'gemini', 'barcode'));
+
+ALTER TABLE field_provenance DROP CONSTRAINT IF EXISTS field_provenance_extraction_method_check;
+ALTER TABLE field_provenance
+ADD CONSTRAINT field_provenance_extraction_method_check CHECK (extraction_method IN ('regex', 'gemini', 'barcode'));
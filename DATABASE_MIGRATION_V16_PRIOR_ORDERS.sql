@@ -0,0 +1,83 @@
+-- Database Migration V16 - Prior Court Orders
+-- One row per uploaded prior court order (custody, support or protective) with its case details and terms
+-- Run this in Supabase SQL Editor after V15
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS prior_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL UNIQUE, -- Court order the row was read from
+
+  -- Case
+  case_number TEXT,
+  court_name TEXT,
+  county TEXT,
+  state TEXT,
+  judge_name TEXT,
+  petitioner_name TEXT,
+  respondent_name TEXT,
+  order_types TEXT[], -- ['custody', 'support', 'protective']
+  order_date DATE,
+  expiration_date DATE, -- Protective orders
+
+  -- Support (monthly)
+  child_support_amount DECIMAL(10, 2),
+  alimony_amount DECIMAL(10, 2),
+  support_payor_name TEXT,
+
+  -- Custody and parent-time
+  legal_custody TEXT CHECK (legal_custody IN ('sole', 'joint')),
+  physical_custody TEXT CHECK (physical_custody IN ('sole', 'joint')),
+  parent_time_schedule TEXT,
+
+  -- Restricted contact (protective orders)
+  restrained_party_name TEXT,
+  protected_party_names TEXT[],
+  no_contact BOOLEAN,
+  stay_away_distance_feet INTEGER,
+  contact_restrictions TEXT[],
+
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_prior_orders_user_id ON prior_orders(user_id);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE prior_orders ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'prior_orders' AND policyname = 'Users can view their own prior orders') THEN
+    CREATE POLICY "Users can view their own prior orders" ON prior_orders
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'prior_orders' AND policyname = 'Users can insert their own prior orders') THEN
+    CREATE POLICY "Users can insert their own prior orders" ON prior_orders
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'prior_orders' AND policyname = 'Users can update their own prior orders') THEN
+    CREATE POLICY "Users can update their own prior orders" ON prior_orders
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'prior_orders' AND policyname = 'Users can delete their own prior orders') THEN
+    CREATE POLICY "Users can delete their own prior orders" ON prior_orders
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
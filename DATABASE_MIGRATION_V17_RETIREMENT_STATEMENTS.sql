@@ -0,0 +1,45 @@
+-- Database Migration V17 - Retirement Statements
+-- Adds the retirementStatement document type and records a retirement account's statement date
+-- and the marital/separate portions of its balance
+-- Run this in Supabase SQL Editor after V16
+
+-- ============================================================================
+-- STEP 1: Add balance_as_of, marital_portion and separate_portion to assets
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'balance_as_of'
+  ) THEN
+    ALTER TABLE assets
+    ADD COLUMN balance_as_of DATE; -- Statement date of approximate_value
+    RAISE NOTICE 'Added balance_as_of column to assets';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'marital_portion'
+  ) THEN
+    ALTER TABLE assets
+    ADD COLUMN marital_portion DECIMAL(12,2); -- Part of the balance earned during the marriage
+    RAISE NOTICE 'Added marital_portion column to assets';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'separate_portion'
+  ) THEN
+    ALTER TABLE assets
+    ADD COLUMN separate_portion DECIMAL(12,2); -- Part of the balance from before the marriage
+    RAISE NOTICE 'Added separate_portion column to assets';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Update document type comment
+-- ============================================================================
+
+COMMENT ON COLUMN documents.document_type IS 
+  'Document type: driversLicense, taxReturn, payStub, bankStatement, w2, 1099, marriageCertificate, priorCourtOrder, profitAndLoss, retirementStatement';
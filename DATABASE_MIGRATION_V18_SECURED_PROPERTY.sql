@@ -0,0 +1,54 @@
+-- Database Migration V18 - Homes, Vehicles and Their Loans
+-- Adds the mortgageStatement, propertyTaxNotice, vehicleTitle and autoLoanStatement document types,
+-- records a home's address and a vehicle's VIN, and links a mortgage or auto loan to the asset it is secured by
+-- Run this in Supabase SQL Editor after V17
+
+-- ============================================================================
+-- STEP 1: Add property_address and vin to assets
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'property_address'
+  ) THEN
+    ALTER TABLE assets
+    ADD COLUMN property_address TEXT; -- Homes
+    RAISE NOTICE 'Added property_address column to assets';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'vin'
+  ) THEN
+    ALTER TABLE assets
+    ADD COLUMN vin TEXT; -- Vehicles
+    RAISE NOTICE 'Added vin column to assets';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Add secured_asset_id to debts
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'debts' AND column_name = 'secured_asset_id'
+  ) THEN
+    ALTER TABLE debts
+    ADD COLUMN secured_asset_id UUID REFERENCES assets(id) ON DELETE SET NULL; -- Home or vehicle the loan is secured by
+    RAISE NOTICE 'Added secured_asset_id column to debts';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_debts_secured_asset_id ON debts(secured_asset_id);
+
+-- ============================================================================
+-- STEP 3: Update document type comment
+-- ============================================================================
+
+COMMENT ON COLUMN documents.document_type IS
+  'Document type: driversLicense, taxReturn, payStub, bankStatement, w2, 1099, marriageCertificate, priorCourtOrder, profitAndLoss, retirementStatement, mortgageStatement, propertyTaxNotice, vehicleTitle, autoLoanStatement';
@@ -0,0 +1,20 @@
+-- Database Migration V19 - Official Child Support Schedule Flag
+-- Records whether a saved child support worksheet was calculated from the statutory Utah Code 78B-12-301 table
+-- or from the platform's estimated schedule - only official worksheets are autofilled into MyCase and the form packet
+-- Run this in Supabase SQL Editor after V18
+
+-- ============================================================================
+-- STEP 1: Add schedule_official to child_support_calculations
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'child_support_calculations' AND column_name = 'schedule_official'
+  ) THEN
+    ALTER TABLE child_support_calculations
+    ADD COLUMN schedule_official BOOLEAN NOT NULL DEFAULT false; -- Worksheets saved before V19 used the estimated schedule
+    RAISE NOTICE 'Added schedule_official column to child_support_calculations';
+  END IF;
+END $$;
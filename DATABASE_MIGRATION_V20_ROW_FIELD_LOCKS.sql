@@ -0,0 +1,29 @@
+-- Database Migration V20 - Field Locks for Assets, Debts and Employers
+-- Assets, debts and employers have one row per item, so a lock on one of their columns also records which row it belongs to
+-- Run this in Supabase SQL Editor after V19
+
+-- ============================================================================
+-- STEP 1: Add row_id to field_locks
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'field_locks' AND column_name = 'row_id'
+  ) THEN
+    ALTER TABLE field_locks
+    ADD COLUMN row_id TEXT NOT NULL DEFAULT ''; -- Asset, debt or employer id, '' for single-row tables
+    RAISE NOTICE 'Added row_id column to field_locks';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Make row_id part of the lock key
+-- ============================================================================
+
+ALTER TABLE field_locks DROP CONSTRAINT IF EXISTS field_locks_user_id_table_name_column_name_spouse_number_key;
+ALTER TABLE field_locks DROP CONSTRAINT IF EXISTS field_locks_user_id_table_name_column_name_spouse_number_row_id_key;
+ALTER TABLE field_locks
+  ADD CONSTRAINT field_locks_user_id_table_name_column_name_spouse_number_row_id_key
+  UNIQUE (user_id, table_name, column_name, spouse_number, row_id);
@@ -0,0 +1,29 @@
+-- Database Migration V21 - Provenance for Children, Employers, Assets and Debts
+-- These tables have one row per item, so a provenance record also names the row its value was written to
+-- Run this in Supabase SQL Editor after V20
+
+-- ============================================================================
+-- STEP 1: Add row_id to field_provenance
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'field_provenance' AND column_name = 'row_id'
+  ) THEN
+    ALTER TABLE field_provenance
+    ADD COLUMN row_id TEXT NOT NULL DEFAULT ''; -- Child, employer, asset or debt id, '' for single-row tables
+    RAISE NOTICE 'Added row_id column to field_provenance';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Make row_id part of the provenance key
+-- ============================================================================
+
+ALTER TABLE field_provenance DROP CONSTRAINT IF EXISTS field_provenance_user_id_table_name_column_name_spouse_number_key;
+ALTER TABLE field_provenance DROP CONSTRAINT IF EXISTS field_provenance_user_id_table_name_column_name_spouse_number_row_id_key;
+ALTER TABLE field_provenance
+  ADD CONSTRAINT field_provenance_user_id_table_name_column_name_spouse_number_row_id_key
+  UNIQUE (user_id, table_name, column_name, spouse_number, row_id);
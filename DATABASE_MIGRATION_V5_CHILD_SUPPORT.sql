@@ -0,0 +1,78 @@
+-- Database Migration V5 - Child Support Calculations
+-- Stores the latest Utah child support worksheet result per user
+-- Run this in Supabase SQL Editor after V4
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS child_support_calculations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+
+  schedule_version TEXT NOT NULL, -- Version of src/data/utahChildSupportSchedule.json
+  custody_worksheet TEXT NOT NULL CHECK (custody_worksheet IN ('sole', 'joint', 'split')),
+  number_of_children INTEGER NOT NULL DEFAULT 0,
+
+  -- Income (monthly gross)
+  spouse1_monthly_income DECIMAL(10,2) NOT NULL DEFAULT 0,
+  spouse2_monthly_income DECIMAL(10,2) NOT NULL DEFAULT 0,
+  combined_monthly_income DECIMAL(10,2) NOT NULL DEFAULT 0,
+  spouse1_income_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+  spouse2_income_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+
+  -- Obligation
+  base_combined_obligation DECIMAL(10,2) NOT NULL DEFAULT 0,
+  adjusted_combined_obligation DECIMAL(10,2) NOT NULL DEFAULT 0, -- Base x 1.5 for joint custody
+  spouse1_share DECIMAL(10,2) NOT NULL DEFAULT 0,
+  spouse2_share DECIMAL(10,2) NOT NULL DEFAULT 0,
+  spouse1_obligation DECIMAL(10,2) NOT NULL DEFAULT 0,
+  spouse2_obligation DECIMAL(10,2) NOT NULL DEFAULT 0,
+  obligor_spouse_number INTEGER CHECK (obligor_spouse_number IN (1, 2)),
+  monthly_support_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+  -- Parent-time (average annual overnights across children)
+  spouse1_annual_overnights INTEGER,
+  spouse2_annual_overnights INTEGER,
+
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_child_support_calculations_user_id ON child_support_calculations(user_id);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE child_support_calculations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'child_support_calculations' AND policyname = 'Users can view their own child support calculations') THEN
+    CREATE POLICY "Users can view their own child support calculations" ON child_support_calculations
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'child_support_calculations' AND policyname = 'Users can insert their own child support calculations') THEN
+    CREATE POLICY "Users can insert their own child support calculations" ON child_support_calculations
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'child_support_calculations' AND policyname = 'Users can update their own child support calculations') THEN
+    CREATE POLICY "Users can update their own child support calculations" ON child_support_calculations
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'child_support_calculations' AND policyname = 'Users can delete their own child support calculations') THEN
+    CREATE POLICY "Users can delete their own child support calculations" ON child_support_calculations
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,62 @@
+-- Database Migration V6 - Property Division
+-- Stores the proposed division of each asset and debt between the spouses
+-- Run this in Supabase SQL Editor after V5
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS property_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Exactly one of asset_id / debt_id is set
+  asset_id UUID REFERENCES assets(id) ON DELETE CASCADE UNIQUE,
+  debt_id UUID REFERENCES debts(id) ON DELETE CASCADE UNIQUE,
+
+  assigned_to TEXT NOT NULL CHECK (assigned_to IN ('spouse1', 'spouse2', 'split')),
+  spouse1_percentage DECIMAL(5,2) CHECK (spouse1_percentage BETWEEN 0 AND 100), -- Used when assigned_to = 'split'
+
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+  CONSTRAINT property_allocations_one_item CHECK ((asset_id IS NULL) <> (debt_id IS NULL))
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_property_allocations_user_id ON property_allocations(user_id);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE property_allocations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'property_allocations' AND policyname = 'Users can view their own property allocations') THEN
+    CREATE POLICY "Users can view their own property allocations" ON property_allocations
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'property_allocations' AND policyname = 'Users can insert their own property allocations') THEN
+    CREATE POLICY "Users can insert their own property allocations" ON property_allocations
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'property_allocations' AND policyname = 'Users can update their own property allocations') THEN
+    CREATE POLICY "Users can update their own property allocations" ON property_allocations
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'property_allocations' AND policyname = 'Users can delete their own property allocations') THEN
+    CREATE POLICY "Users can delete their own property allocations" ON property_allocations
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
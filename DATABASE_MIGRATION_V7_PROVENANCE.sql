@@ -0,0 +1,82 @@
+-- Database Migration V7 - Field Provenance
+-- Records which document and extraction method produced each normalized value
+-- Run this in Supabase SQL Editor after V6
+
+-- ============================================================================
+-- STEP 1: Record the extraction method on extracted_data
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'extracted_data' AND column_name = 'extraction_method'
+  ) THEN
+    ALTER TABLE extracted_data
+    ADD COLUMN extraction_method TEXT DEFAULT 'regex' CHECK (extraction_method IN ('regex', 'gemini'));
+    RAISE NOTICE 'Added extraction_method column to extracted_data';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS field_provenance (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+
+  -- Normalized column the value was written to
+  table_name TEXT NOT NULL, -- 'personal_info', 'spouse_info', 'income', 'expenses', 'marriage_info', 'court_info'
+  column_name TEXT NOT NULL,
+  spouse_number INTEGER NOT NULL DEFAULT 1 CHECK (spouse_number IN (1, 2)), -- 1 for single-row tables
+
+  extraction_method TEXT NOT NULL CHECK (extraction_method IN ('regex', 'gemini')),
+  document_label TEXT NOT NULL, -- e.g. '2023 tax return'
+  source_snippet TEXT, -- Raw OCR text around the matched value
+
+  extracted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+  UNIQUE (user_id, table_name, column_name, spouse_number)
+);
+
+-- ============================================================================
+-- STEP 3: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_field_provenance_user_id ON field_provenance(user_id);
+CREATE INDEX IF NOT EXISTS idx_field_provenance_document_id ON field_provenance(document_id);
+
+-- ============================================================================
+-- STEP 4: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE field_provenance ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 5: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_provenance' AND policyname = 'Users can view their own field provenance') THEN
+    CREATE POLICY "Users can view their own field provenance" ON field_provenance
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_provenance' AND policyname = 'Users can insert their own field provenance') THEN
+    CREATE POLICY "Users can insert their own field provenance" ON field_provenance
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_provenance' AND policyname = 'Users can update their own field provenance') THEN
+    CREATE POLICY "Users can update their own field provenance" ON field_provenance
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_provenance' AND policyname = 'Users can delete their own field provenance') THEN
+    CREATE POLICY "Users can delete their own field provenance" ON field_provenance
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,68 @@
+-- Database Migration V8 - Field Conflicts
+-- Records fields where two documents disagree, and the value the user chose
+-- Run this in Supabase SQL Editor after V7
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS field_conflicts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Normalized column the documents disagree on
+  table_name TEXT NOT NULL, -- 'personal_info', 'spouse_info', 'income', 'expenses', 'marriage_info'
+  column_name TEXT NOT NULL,
+  spouse_number INTEGER NOT NULL DEFAULT 1 CHECK (spouse_number IN (1, 2)), -- 1 for single-row tables
+
+  -- [{ value, document_id, document_label, extraction_method }]
+  candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolved_value JSONB, -- Kept across re-aggregation so the user's choice is not overwritten
+
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE (user_id, table_name, column_name, spouse_number)
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_field_conflicts_user_id ON field_conflicts(user_id);
+CREATE INDEX IF NOT EXISTS idx_field_conflicts_status ON field_conflicts(user_id, status);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE field_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_conflicts' AND policyname = 'Users can view their own field conflicts') THEN
+    CREATE POLICY "Users can view their own field conflicts" ON field_conflicts
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_conflicts' AND policyname = 'Users can insert their own field conflicts') THEN
+    CREATE POLICY "Users can insert their own field conflicts" ON field_conflicts
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_conflicts' AND policyname = 'Users can update their own field conflicts') THEN
+    CREATE POLICY "Users can update their own field conflicts" ON field_conflicts
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_conflicts' AND policyname = 'Users can delete their own field conflicts') THEN
+    CREATE POLICY "Users can delete their own field conflicts" ON field_conflicts
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,62 @@
+-- Database Migration V9 - Field Locks
+-- Keeps values the user edited by hand from being overwritten when documents are re-aggregated
+-- Run this in Supabase SQL Editor after V8
+
+-- ============================================================================
+-- STEP 1: Create Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS field_locks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Normalized column the user edited
+  table_name TEXT NOT NULL, -- 'personal_info', 'spouse_info', 'marriage_info', ...
+  column_name TEXT NOT NULL,
+  spouse_number INTEGER NOT NULL DEFAULT 1 CHECK (spouse_number IN (1, 2)), -- 1 for single-row tables
+
+  value JSONB, -- The user's value, written back after re-aggregation
+
+  locked_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+  UNIQUE (user_id, table_name, column_name, spouse_number)
+);
+
+-- ============================================================================
+-- STEP 2: Create Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_field_locks_user_id ON field_locks(user_id);
+
+-- ============================================================================
+-- STEP 3: Enable Row Level Security (RLS)
+-- ============================================================================
+
+ALTER TABLE field_locks ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 4: Create RLS Policies
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_locks' AND policyname = 'Users can view their own field locks') THEN
+    CREATE POLICY "Users can view their own field locks" ON field_locks
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_locks' AND policyname = 'Users can insert their own field locks') THEN
+    CREATE POLICY "Users can insert their own field locks" ON field_locks
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_locks' AND policyname = 'Users can update their own field locks') THEN
+    CREATE POLICY "Users can update their own field locks" ON field_locks
+      FOR UPDATE USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'field_locks' AND policyname = 'Users can delete their own field locks') THEN
+    CREATE POLICY "Users can delete their own field locks" ON field_locks
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -2,7 +2,9 @@ import { useState, useRef, useCallback } from 'react'
 import { useAuth } from '../hooks/useAuth'
 import { supabase } from '../lib/supabase'
 import { processDocument } from '../services/ocrService'
-import { migrateFromExtractedData, reAggregateFormDataFromDocuments } from '../services/formDataService'
+import { getFormData, migrateFromExtractedData, reAggregateFormDataFromDocuments } from '../services/formDataService'
+import { detectDocumentSpouse } from '../services/documentOwnerService'
+import { orderDocumentFiles, getDocumentFileName, uploadDocumentFiles } from '../services/documentStorageService'
 import type { DocumentType } from '../types'
 
 interface DocumentDropZoneProps {
@@ -16,6 +18,7 @@ interface DocumentDropZoneProps {
   uploadDate?: string
   documentId?: string
   fileName?: string
+  spouseNumber?: 1 | 2 // Whose documents this zone holds; without it the owner is detected from the names on the document
   onUploadComplete: () => void
   onDelete?: (documentId: string) => Promise<void>
 }
@@ -26,8 +29,13 @@ const documentHelpText: Record<DocumentType, string> = {
   profitAndLoss: 'If you\'re self-employed, create this from your business records showing income and expenses for the period.',
   marriageCertificate: 'Request a certified copy from the county clerk\'s office where you were married, or order online through VitalChek.',
   priorCourtOrder: 'Contact the court clerk\'s office where the order was issued to request a certified copy.',
+  retirementStatement: 'Download the latest quarterly statement for each 401(k), IRA or pension from the plan website or your employer\'s benefits portal. A statement from around your marriage date helps separate what was saved before the marriage.',
+  mortgageStatement: 'Download your latest monthly statement from your mortgage servicer\'s website. It shows the loan balance the home\'s equity is figured from.',
+  propertyTaxNotice: 'Your county assessor mails a valuation notice each year, or look up your parcel on the county assessor\'s website. It shows the home\'s market value.',
+  vehicleTitle: 'The certificate of title for each vehicle. If a lender holds the title, your registration card also shows the VIN.',
+  autoLoanStatement: 'Download your latest statement or payoff quote from your auto lender\'s website.',
   bankStatement: 'Download from your bank\'s online portal or request a statement from your bank branch. You need the last 1-2 months.',
-  driversLicense: 'Your current driver\'s license or state ID card.',
+  driversLicense: 'Your current driver\'s license or state ID card. Add a photo of the back too - when its barcode can be read, it gives the most accurate license number, birth date and address.',
   w2: 'Request from your employer or download from your tax software if you filed electronically.',
   '1099': 'Request from the company that paid you (client, bank, etc.) or download from your tax software.',
 }
@@ -43,6 +51,7 @@ export default function DocumentDropZone({
   uploadDate,
   documentId,
   fileName,
+  spouseNumber,
   onUploadComplete,
   onDelete,
 }: DocumentDropZoneProps) {
@@ -52,8 +61,13 @@ export default function DocumentDropZone({
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [incomeIssues, setIncomeIssues] = useState<string[]>([])
+  const [ownerNotice, setOwnerNotice] = useState<string | null>(null)
+  const [extractionNotice, setExtractionNotice] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Spouse zones share document types with the user's zones
+  const inputKey = spouseNumber === 2 ? `${documentType}-spouse` : documentType
   const [showHelp, setShowHelp] = useState(false)
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -76,31 +90,33 @@ export default function DocumentDropZone({
 
       if (isProcessing || isDeleting || !user) return
 
-      const files = Array.from(e.dataTransfer.files)
+      // Several files dropped together are the pages of one document
+      const files = orderDocumentFiles(Array.from(e.dataTransfer.files))
       if (files.length > 0) {
         // If already uploaded, replace it
         if (isUploaded && documentId && onDelete) {
-          await handleReplace(files[0])
+          await handleReplace(files)
         } else {
-          await handleFileUpload(files[0])
+          await handleFileUpload(files)
         }
       }
     },
-    [isUploaded, isProcessing, isDeleting, user, documentType, documentId, onDelete]
+    [isUploaded, isProcessing, isDeleting, user, documentType, spouseNumber, documentId, onDelete]
   )
 
   const handleFileSelect = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (e.target.files && e.target.files[0] && !isProcessing && !isDeleting && user) {
+      if (e.target.files && e.target.files.length > 0 && !isProcessing && !isDeleting && user) {
+        const files = orderDocumentFiles(Array.from(e.target.files))
         // If already uploaded, replace it
         if (isUploaded && documentId && onDelete) {
-          await handleReplace(e.target.files[0])
+          await handleReplace(files)
         } else {
-          await handleFileUpload(e.target.files[0])
+          await handleFileUpload(files)
         }
       }
     },
-    [isUploaded, isProcessing, isDeleting, user, documentType, documentId, onDelete]
+    [isUploaded, isProcessing, isDeleting, user, documentType, spouseNumber, documentId, onDelete]
   )
 
   const handleDelete = async () => {
@@ -123,7 +139,7 @@ export default function DocumentDropZone({
     }
   }
 
-  const handleReplace = async (file: File) => {
+  const handleReplace = async (files: File[]) => {
     if (!documentId || !onDelete || !user) return
 
     setIsProcessing(true)
@@ -139,7 +155,7 @@ export default function DocumentDropZone({
       await new Promise(resolve => setTimeout(resolve, 1000))
       
       // Upload new document (this will add new data on top)
-      await handleFileUpload(file)
+      await handleFileUpload(files)
       
       // Re-aggregate to ensure newest document's data takes precedence
       console.log('🔄 Re-aggregating form data after document replacement...')
@@ -157,7 +173,7 @@ export default function DocumentDropZone({
     }
   }
 
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = async (files: File[]) => {
     if (!user) {
       setError('Please log in to upload documents.')
       return
@@ -166,11 +182,14 @@ export default function DocumentDropZone({
     setIsProcessing(true)
     setError(null)
     setSuccess(false)
+    setIncomeIssues([])
+    setOwnerNotice(null)
+    setExtractionNotice(null)
     setProgress(0)
 
     try {
       // Process document
-      const processed = await processDocument(file, documentType, (progressValue) => {
+      const processed = await processDocument(files, documentType, (progressValue) => {
         setProgress(Math.round(progressValue * 100))
       })
 
@@ -180,30 +199,29 @@ export default function DocumentDropZone({
 
       setProgress(90)
 
-      // Upload file to storage (optional)
-      let filePath: string | null = null
-      try {
-        filePath = `${user.id}/${documentType}/${Date.now()}_${file.name}`
-        const { error: uploadError } = await supabase.storage
-          .from('documents')
-          .upload(filePath, file)
-
-        if (uploadError) {
-          console.warn('⚠️ File upload to storage failed:', uploadError.message)
-          filePath = null
+      // Whose document it is - this zone's spouse, or detected from the names on the document
+      let owner: 1 | 2 = spouseNumber ?? 1
+      if (!spouseNumber) {
+        const formData = await getFormData(user.id).catch(() => null)
+        const match = formData ? detectDocumentSpouse(processed.extractedData, documentType, formData) : null
+        if (match?.spouseNumber === 2) {
+          owner = 2
+          setOwnerNotice(`The name on this document (${match.matchedName}) matches your spouse - it was saved with your spouse's documents.`)
         }
-      } catch (storageError: any) {
-        console.warn('⚠️ Storage bucket not configured:', storageError?.message)
-        filePath = null
       }
 
-      // Store document record
+      // Upload file(s) to storage (optional)
+      const filePaths = await uploadDocumentFiles(user.id, documentType, files)
+
+      // Store document record - one row however many files
       const { data: documentData, error: docError } = await supabase
         .from('documents')
         .insert({
           user_id: user.id,
-          file_name: file.name,
-          file_path: filePath,
+          file_name: getDocumentFileName(files),
+          file_path: filePaths[0] || null,
+          ...(filePaths.length > 1 ? { file_paths: filePaths } : {}),
+          ...(owner === 2 ? { spouse_number: owner } : {}),
           document_type: documentType,
           status: 'processed',
         })
@@ -218,6 +236,7 @@ export default function DocumentDropZone({
       const { error: dataError } = await supabase.from('extracted_data').insert({
         document_id: documentData.id,
         data: processed.extractedData,
+        extraction_method: processed.extractionMethod,
       })
 
       if (dataError) {
@@ -235,7 +254,18 @@ export default function DocumentDropZone({
       }
       
       try {
-        await migrateFromExtractedData(user.id, processed.extractedData, documentType)
+        await migrateFromExtractedData(
+          user.id,
+          processed.extractedData,
+          documentType,
+          {
+            documentId: documentData.id,
+            documentType,
+            extractionMethod: processed.extractionMethod,
+            rawText: processed.rawText,
+          },
+          owner
+        )
         console.log('✅ Data migration completed')
       } catch (migrationError: any) {
         console.error('❌ Migration error:', migrationError)
@@ -249,6 +279,8 @@ export default function DocumentDropZone({
 
       setProgress(100)
       setSuccess(true)
+      setIncomeIssues(processed.extractedData.incomeIssues || [])
+      setExtractionNotice(processed.notice || null)
       setTimeout(() => {
         setSuccess(false)
         onUploadComplete()
@@ -367,17 +399,18 @@ export default function DocumentDropZone({
                 {isDeleting ? 'Deleting...' : 'Delete'}
               </button>
               <label
-                htmlFor={`file-replace-${documentType}`}
+                htmlFor={`file-replace-${inputKey}`}
                 className="text-xs font-medium text-blue-600 hover:text-blue-700 px-2 py-1 rounded hover:bg-blue-50 transition-colors cursor-pointer"
               >
                 Replace
               </label>
               <input
-                id={`file-replace-${documentType}`}
+                id={`file-replace-${inputKey}`}
                 type="file"
                 className="sr-only"
                 onChange={handleFileSelect}
                 accept=".pdf,.jpg,.jpeg,.png"
+                multiple
                 disabled={isProcessing || isDeleting}
               />
             </div>
@@ -388,16 +421,17 @@ export default function DocumentDropZone({
         {!isUploaded && (
           <div className="mt-2">
             <label
-              htmlFor={`file-upload-${documentType}`}
+              htmlFor={`file-upload-${inputKey}`}
               className="block cursor-pointer"
             >
               <input
                 ref={fileInputRef}
-                id={`file-upload-${documentType}`}
+                id={`file-upload-${inputKey}`}
                 type="file"
                 className="sr-only"
                 onChange={handleFileSelect}
                 accept=".pdf,.jpg,.jpeg,.png"
+                multiple
                 disabled={isProcessing || isDeleting}
               />
               <div className="flex flex-col items-center justify-center py-8 px-4 border-2 border-dashed border-gray-300/60 rounded-xl bg-gradient-to-br from-gray-50/50 to-white hover:from-blue-50/80 hover:to-indigo-50/60 hover:border-blue-400/80 transition-all duration-300 cursor-pointer group/upload">
@@ -435,7 +469,7 @@ export default function DocumentDropZone({
                     <span className="text-sm font-semibold text-gray-700 text-center mb-1.5 group-hover/upload:text-blue-700 transition-colors">
                       Click to upload or drag and drop
                     </span>
-                    <span className="text-xs text-gray-500 font-medium">PDF, JPG, PNG up to 10MB</span>
+                    <span className="text-xs text-gray-500 font-medium">PDF, JPG, PNG up to 10MB - select several pages at once</span>
                   </>
                 )}
               </div>
@@ -482,6 +516,32 @@ export default function DocumentDropZone({
             <span className="font-medium">Upload successful!</span>
           </div>
         )}
+
+        {/* Owner Notice */}
+        {ownerNotice && (
+          <div className="mt-3 p-3 bg-blue-50/80 border border-blue-200/60 rounded-lg text-xs text-blue-800 animate-fade-in shadow-sm">
+            {ownerNotice}
+          </div>
+        )}
+
+        {/* Extraction Notice */}
+        {extractionNotice && (
+          <div className="mt-3 p-3 bg-amber-50/80 border border-amber-200/60 rounded-lg text-xs text-amber-800 animate-fade-in shadow-sm">
+            {extractionNotice}
+          </div>
+        )}
+
+        {/* Income Check */}
+        {incomeIssues.length > 0 && (
+          <div className="mt-3 p-3 bg-amber-50/80 border border-amber-200/60 rounded-lg text-xs text-amber-800 animate-fade-in shadow-sm">
+            <p className="font-medium mb-1">Check the income from this document in Financial Information:</p>
+            <ul className="list-disc list-inside space-y-0.5">
+              {incomeIssues.map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   )
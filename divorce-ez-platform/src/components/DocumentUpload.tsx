@@ -2,23 +2,33 @@ import { useState } from 'react'
 import { useAuth } from '../hooks/useAuth'
 import { supabase } from '../lib/supabase'
 import { processDocument } from '../services/ocrService'
-import { migrateFromExtractedData } from '../services/formDataService'
+import { getFormData, migrateFromExtractedData } from '../services/formDataService'
+import { detectDocumentSpouse } from '../services/documentOwnerService'
+import { orderDocumentFiles, getDocumentFileName, uploadDocumentFiles } from '../services/documentStorageService'
+import type { ExtractionSource } from '../services/provenanceService'
 import type { Document, DocumentType } from '../types'
 
 /**
  * Helper function to migrate extracted data to normalized tables
  * Uses the new formDataService instead of JSONB
  */
-async function updateFormData(userId: string, extractedData: Record<string, any>, documentType?: string) {
+async function updateFormData(
+  userId: string,
+  extractedData: Record<string, any>,
+  documentType?: string,
+  source?: ExtractionSource,
+  spouseNumber: 1 | 2 = 1
+) {
   try {
     console.log('📊 updateFormData called with:', {
       userId,
       documentType,
+      spouseNumber,
       extractedDataKeys: Object.keys(extractedData || {}),
     })
 
     // Use the new normalized formDataService
-    await migrateFromExtractedData(userId, extractedData, documentType)
+    await migrateFromExtractedData(userId, extractedData, documentType, source, spouseNumber)
     
     console.log('✅ Form data migrated to normalized tables successfully')
   } catch (error) {
@@ -35,6 +45,11 @@ const documentTypes: { value: Document['document_type']; label: string; priority
   { value: 'marriageCertificate', label: 'Marriage Certificate', priority: 3 },
   { value: 'priorCourtOrder', label: 'Prior Court Order (if children exist)', priority: 4 },
   { value: 'bankStatement', label: 'Bank Statement (last 1-2 months)', priority: 5 },
+  { value: 'retirementStatement', label: 'Retirement Statement (401(k), IRA, pension)', priority: 5 },
+  { value: 'mortgageStatement', label: 'Mortgage Statement', priority: 6 },
+  { value: 'propertyTaxNotice', label: 'Property Tax or Valuation Notice', priority: 6 },
+  { value: 'vehicleTitle', label: 'Vehicle Title', priority: 6 },
+  { value: 'autoLoanStatement', label: 'Auto Loan Statement', priority: 6 },
   { value: 'driversLicense', label: "Driver's License" },
   { value: 'w2', label: 'W-2 Form' },
   { value: '1099', label: '1099 Form' },
@@ -42,24 +57,41 @@ const documentTypes: { value: Document['document_type']; label: string; priority
 
 export default function DocumentUpload() {
   const { user } = useAuth()
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  // Files making up one document, in page order
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([])
   const [selectedDocType, setSelectedDocType] = useState<Document['document_type']>('driversLicense')
+  // Whose document it is - 'auto' matches the names on it against you and your spouse
+  const [selectedOwner, setSelectedOwner] = useState<'auto' | 1 | 2>('auto')
   const [uploading, setUploading] = useState(false)
   const [processing, setProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0])
+    if (e.target.files && e.target.files.length > 0) {
+      setSelectedFiles([...selectedFiles, ...orderDocumentFiles(Array.from(e.target.files))])
       setError(null)
       setSuccess(null)
+      e.target.value = '' // Allow adding the same file again after removing it
     }
   }
 
+  const moveFile = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= selectedFiles.length) return
+    const reordered = [...selectedFiles]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setSelectedFiles(reordered)
+  }
+
+  const removeFile = (index: number) => {
+    setSelectedFiles(selectedFiles.filter((_, i) => i !== index))
+  }
+
   const handleUpload = async () => {
-    if (!user || !selectedFile) {
+    if (!user || selectedFiles.length === 0) {
       setError('Please select a file and ensure you are logged in.')
       return
     }
@@ -68,11 +100,12 @@ export default function DocumentUpload() {
     setUploading(false)
     setError(null)
     setSuccess(null)
+    setNotice(null)
     setProgress(0)
 
     try {
       // Step 1: Process document in browser using OCR
-      const processed = await processDocument(selectedFile, selectedDocType, (progressValue) => {
+      const processed = await processDocument(selectedFiles, selectedDocType, (progressValue) => {
         setProgress(Math.round(progressValue * 100))
       })
 
@@ -93,32 +126,27 @@ export default function DocumentUpload() {
       setProcessing(false)
       setUploading(true)
 
-      // Step 2: Upload file to Supabase Storage (optional - for reference)
-      let filePath: string | null = null
-      try {
-        filePath = `${user.id}/${selectedDocType}/${Date.now()}_${selectedFile.name}`
-        const { error: uploadError } = await supabase.storage
-          .from('documents')
-          .upload(filePath, selectedFile)
-
-        if (uploadError) {
-          console.warn('⚠️ File upload to storage failed (continuing with data upload):', uploadError.message)
-          filePath = null // Don't save file path if upload failed
-        } else {
-          console.log('✅ File uploaded to storage:', filePath)
-        }
-      } catch (storageError: any) {
-        console.warn('⚠️ Storage bucket not configured (continuing with data upload):', storageError?.message || 'Bucket not found')
-        filePath = null // Don't save file path if storage is not configured
+      let owner: 1 | 2 = selectedOwner === 'auto' ? 1 : selectedOwner
+      if (selectedOwner === 'auto') {
+        const formData = await getFormData(user.id).catch(() => null)
+        const match = formData ? detectDocumentSpouse(processed.extractedData, selectedDocType, formData) : null
+        owner = match?.spouseNumber ?? 1
+        console.log('👥 Document owner:', owner, match?.matchedName ? `(matched ${match.matchedName})` : '(no name match)')
       }
 
-      // Step 3: Store extracted data in database
+      // Step 2: Upload file(s) to Supabase Storage (optional - for reference)
+      const filePaths = await uploadDocumentFiles(user.id, selectedDocType, selectedFiles)
+      console.log(`✅ ${filePaths.length} of ${selectedFiles.length} file(s) uploaded to storage`)
+
+      // Step 3: Store extracted data in database - one document row for all files
       const { data: documentData, error: docError } = await supabase
         .from('documents')
         .insert({
           user_id: user.id,
-          file_name: selectedFile.name,
-          file_path: filePath,
+          file_name: getDocumentFileName(selectedFiles),
+          file_path: filePaths[0] || null,
+          ...(filePaths.length > 1 ? { file_paths: filePaths } : {}),
+          ...(owner === 2 ? { spouse_number: owner } : {}),
           document_type: selectedDocType,
           status: 'processed',
         })
@@ -136,6 +164,7 @@ export default function DocumentUpload() {
       const { data: savedExtractedData, error: dataError } = await supabase.from('extracted_data').insert({
         document_id: documentData.id,
         data: processed.extractedData,
+        extraction_method: processed.extractionMethod,
       }).select().single()
 
       if (dataError) {
@@ -147,12 +176,22 @@ export default function DocumentUpload() {
 
       // Step 5: Update form_data table with aggregated data
       console.log('🔄 Updating form_data table...')
-      await updateFormData(user.id, processed.extractedData, selectedDocType)
+      await updateFormData(user.id, processed.extractedData, selectedDocType, {
+        documentId: documentData.id,
+        documentType: selectedDocType,
+        extractionMethod: processed.extractionMethod,
+        rawText: processed.rawText,
+      }, owner)
       console.log('✅ Form data update completed')
 
       setProgress(100)
-      setSuccess('Document processed and uploaded successfully!')
-      setSelectedFile(null)
+      setSuccess(
+        owner === 2
+          ? "Document processed and saved as your spouse's document."
+          : 'Document processed and uploaded successfully!'
+      )
+      setNotice(processed.notice || null)
+      setSelectedFiles([])
 
       // Reset after 3 seconds
       setTimeout(() => {
@@ -197,11 +236,27 @@ export default function DocumentUpload() {
           </svg>
         )
       case 'bankStatement':
+      case 'retirementStatement':
         return (
           <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
           </svg>
         )
+      case 'mortgageStatement':
+      case 'propertyTaxNotice':
+        return (
+          <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+          </svg>
+        )
+      case 'vehicleTitle':
+      case 'autoLoanStatement':
+        return (
+          <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path d="M9 17a2 2 0 11-4 0 2 2 0 014 0zM19 17a2 2 0 11-4 0 2 2 0 014 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0" />
+          </svg>
+        )
       default:
         return (
           <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -271,6 +326,23 @@ export default function DocumentUpload() {
           </div>
         </div>
 
+        {/* Canvas-style Document Owner */}
+        <div className="mb-6">
+          <label htmlFor="document-owner" className="block text-sm font-medium text-gray-700 mb-2">
+            Whose document is this?
+          </label>
+          <select
+            id="document-owner"
+            value={String(selectedOwner)}
+            onChange={(e) => setSelectedOwner(e.target.value === 'auto' ? 'auto' : (Number(e.target.value) as 1 | 2))}
+            className="block w-full border border-gray-300 rounded px-3 py-2 text-sm text-gray-900"
+          >
+            <option value="auto">Detect from the name on the document</option>
+            <option value="1">Mine</option>
+            <option value="2">My spouse's</option>
+          </select>
+        </div>
+
         {/* Canvas-style File Upload Section */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">File Upload</label>
@@ -294,7 +366,7 @@ export default function DocumentUpload() {
                   htmlFor="file-upload"
                   className="relative cursor-pointer font-medium text-blue-600 hover:text-blue-500"
                 >
-                  <span>Upload a file</span>
+                  <span>{selectedFiles.length > 0 ? 'Add another page' : 'Upload a file'}</span>
                   <input
                     id="file-upload"
                     name="file-upload"
@@ -302,18 +374,62 @@ export default function DocumentUpload() {
                     className="sr-only"
                     onChange={handleFileChange}
                     accept=".pdf,.jpg,.jpeg,.png"
+                    multiple
                   />
                 </label>
                 <span className="mx-2">or drag and drop</span>
               </div>
-              <p className="mt-2 text-xs text-gray-500">PNG, JPG, PDF up to 10MB</p>
-              {selectedFile && (
-                <div className="mt-4 flex items-center justify-center">
-                  <svg className="h-5 w-5 text-green-500 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                  </svg>
-                  <span className="text-sm text-gray-700">{selectedFile.name}</span>
-                </div>
+              <p className="mt-2 text-xs text-gray-500">PNG, JPG, PDF up to 10MB each. Several files are combined into one document.</p>
+              {selectedDocType === 'driversLicense' && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Add a photo of the back of the license - we try to read its barcode for your license number, birth date and
+                  address, and let you know if it can't be read.
+                </p>
+              )}
+              {selectedFiles.length > 0 && (
+                <ol className="mt-4 text-left border border-gray-300 rounded divide-y divide-gray-300">
+                  {selectedFiles.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center px-3 py-2">
+                      <svg className="h-5 w-5 text-green-500 mr-2 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                      </svg>
+                      <span className="flex-1 min-w-0 text-sm text-gray-700 truncate">
+                        {selectedFiles.length > 1 && <span className="text-gray-500 mr-1">Page {index + 1}:</span>}
+                        {file.name}
+                      </span>
+                      {selectedFiles.length > 1 && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => moveFile(index, -1)}
+                            disabled={index === 0 || processing || uploading}
+                            className="px-1.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                            aria-label={`Move ${file.name} up`}
+                          >
+                            ↑
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveFile(index, 1)}
+                            disabled={index === selectedFiles.length - 1 || processing || uploading}
+                            className="px-1.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                            aria-label={`Move ${file.name} down`}
+                          >
+                            ↓
+                          </button>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeFile(index)}
+                        disabled={processing || uploading}
+                        className="ml-2 text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ol>
               )}
             </div>
           </div>
@@ -353,11 +469,15 @@ export default function DocumentUpload() {
           </div>
         )}
 
+        {notice && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">{notice}</div>
+        )}
+
         {/* Submit Button */}
         <button
           type="button"
           onClick={handleUpload}
-          disabled={!selectedFile || uploading || processing}
+          disabled={selectedFiles.length === 0 || uploading || processing}
           className="w-full inline-flex justify-center items-center py-2.5 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {processing ? (
@@ -0,0 +1,31 @@
+import type { FieldLockRow } from '../types'
+
+interface FieldLockNoticeProps {
+  lock?: FieldLockRow
+  onUnlock: (lock: FieldLockRow) => void
+  disabled?: boolean
+}
+
+/**
+ * "Edited by you" note under a field the user changed, with a way back to the document value
+ */
+export default function FieldLockNotice({ lock, onUnlock, disabled = false }: FieldLockNoticeProps) {
+  if (!lock) return null
+
+  return (
+    <div className="mt-1 flex items-center gap-1.5 text-xs text-gray-500">
+      <svg className="h-3.5 w-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+      </svg>
+      <span title={`Edited ${new Date(lock.locked_at).toLocaleString()}`}>Edited by you - kept when documents change</span>
+      <button
+        type="button"
+        onClick={() => onUnlock(lock)}
+        disabled={disabled}
+        className="text-blue-600 hover:text-blue-700 hover:underline disabled:opacity-50"
+      >
+        Use document value
+      </button>
+    </div>
+  )
+}
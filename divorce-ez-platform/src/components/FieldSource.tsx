@@ -0,0 +1,46 @@
+import { useState } from 'react'
+import type { FieldProvenanceRow } from '../types'
+
+interface FieldSourceProps {
+  source?: FieldProvenanceRow
+}
+
+/**
+ * "From your 2023 tax return" note under a field, with the matched text on click
+ */
+export default function FieldSource({ source }: FieldSourceProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (!source) return null
+
+  return (
+    <div className="mt-1 text-xs text-gray-500">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="hover:text-gray-700 hover:underline"
+        title="Show where this value came from"
+      >
+        From your {source.document_label}
+        {source.extraction_method === 'gemini' && ' (AI-assisted)'}
+      </button>
+      {expanded && (
+        <div className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded text-gray-600">
+          {source.source_snippet ? (
+            <span className="font-mono break-words">{source.source_snippet}</span>
+          ) : (
+            <span>The matching text could not be located in the document.</span>
+          )}
+          <div className="mt-1 text-gray-400">
+            Extracted {new Date(source.extracted_at).toLocaleString()} by{' '}
+            {source.extraction_method === 'gemini'
+              ? 'AI extraction'
+              : source.extraction_method === 'barcode'
+                ? 'license barcode scan'
+                : 'pattern matching'}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import { getFormData, getChildSupportCalculation } from '../services/formDataService'
+import { generateFormPacket } from '../services/packetService'
+import type { PacketFormResult } from '../services/packetService'
+import { FORM_TEMPLATES } from '../services/formTemplates'
+
+/**
+ * Dashboard card that builds the court forms packet and downloads it as one PDF
+ */
+export default function FormPacketDownload() {
+  const { user } = useAuth()
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [forms, setForms] = useState<PacketFormResult[] | null>(null)
+
+  const handleDownload = async () => {
+    if (!user) return
+
+    setGenerating(true)
+    setError(null)
+    try {
+      const [formData, childSupport] = await Promise.all([
+        getFormData(user.id),
+        getChildSupportCalculation(user.id).catch(() => null),
+      ])
+      const packet = await generateFormPacket({ ...formData, child_support: childSupport })
+
+      const url = URL.createObjectURL(new Blob([packet.bytes as BlobPart], { type: 'application/pdf' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `divorce-forms-${new Date().toISOString().slice(0, 10)}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      setForms(packet.forms)
+    } catch (err: any) {
+      console.error('Error generating form packet:', err)
+      setError(err.message || 'Failed to generate the forms packet')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="card mb-8">
+      <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+        <h2 className="text-lg font-semibold text-gray-900">Court Forms Packet</h2>
+      </div>
+      <div className="p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Download the Utah divorce forms filled in with your information, merged into one PDF. Review every page
+          before filing - use it if you file on paper or want a copy of what you entered in MyCase.
+        </p>
+
+        {forms?.some((form) => !form.courtReady) && (
+          <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              <strong>Not court-ready.</strong> Pages marked "NOT COURT-READY" are summaries of your answers, not the
+              court's forms. Copy the values onto the official forms from utcourts.gov, or enter them in MyCase.
+            </p>
+          </div>
+        )}
+
+        <ul className="mb-4 space-y-1">
+          {FORM_TEMPLATES.map((template) => {
+            const result = forms?.find((f) => f.id === template.id)
+            return (
+              <li key={template.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-800">{template.title}</span>
+                {forms && (
+                  <span className={result ? (result.courtReady ? 'text-green-700' : 'text-amber-700') : 'text-gray-400'}>
+                    {!result
+                      ? 'Not needed'
+                      : result.courtReady
+                        ? `${result.filledFields} fields filled`
+                        : result.usedTemplate
+                          ? `Not court-ready (${result.filledFields} fields filled)`
+                          : 'Not court-ready (summary page)'}
+                  </span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+            <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+            <span className="text-sm font-medium text-red-800">{error}</span>
+          </div>
+        )}
+
+        <button type="button" onClick={handleDownload} disabled={generating} className="btn-primary min-w-[160px]">
+          {generating ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Generating...
+            </span>
+          ) : (
+            'Download Packet'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -15,9 +15,10 @@ export const useProgress = () => {
     }
   }, [user])
 
-  const fetchProgress = async () => {
+  // Pass silent=true to refresh without toggling the loading state (e.g. after a module save)
+  const fetchProgress = async (silent = false) => {
     if (!user) return
-    setLoading(true)
+    if (!silent) setLoading(true)
     setError(null)
     try {
       const { data, error } = await supabase
@@ -80,11 +81,11 @@ export const useProgress = () => {
     return progress.find((p) => p.module_name === moduleName)
   }
 
-  const getOverallProgressPercentage = () => {
-    if (progress.length === 0) return 0
-    const totalModules = 6
-    const completedModules = progress.filter((p) => p.status === 'completed').length
-    return Math.round((completedModules / totalModules) * 100)
+  // Share of the given modules that are completed - other progress rows (e.g. document upload) don't count
+  const getOverallProgressPercentage = (moduleNames: string[]) => {
+    if (progress.length === 0 || moduleNames.length === 0) return 0
+    const completedModules = progress.filter((p) => p.status === 'completed' && moduleNames.includes(p.module_name)).length
+    return Math.min(Math.round((completedModules / moduleNames.length) * 100), 100)
   }
 
   return {
@@ -4,15 +4,25 @@ import { useProgress } from '../../hooks/useProgress'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '../../lib/supabase'
 import DocumentDropZone from '../../components/DocumentDropZone'
+import FormPacketDownload from '../../components/FormPacketDownload'
 import PersonalInformationModule from './modules/PersonalInformationModule'
+import FinancialInformationModule from './modules/FinancialInformationModule'
+import ChildSupportModule from './modules/ChildSupportModule'
+import AlimonyModule from './modules/AlimonyModule'
+import PropertyDivisionModule from './modules/PropertyDivisionModule'
+import FinancialDeclarationModule from './modules/FinancialDeclarationModule'
+import ConflictReviewModule from './modules/ConflictReviewModule'
+import DissipationReportModule from './modules/DissipationReportModule'
+import SelfEmploymentModule from './modules/SelfEmploymentModule'
+import { removeDocumentFiles } from '../../services/documentStorageService'
 import { reAggregateFormDataFromDocuments } from '../../services/formDataService'
 import type { Document } from '../../types'
 
-type ModuleView = 'overview' | 'personal' | 'financial' | 'review' | 'guidance' | 'checklist'
+type ModuleView = 'overview' | 'personal' | 'financial' | 'conflicts' | 'selfEmployment' | 'childSupport' | 'alimony' | 'propertyDivision' | 'financialDeclaration' | 'dissipation' | 'review' | 'guidance' | 'checklist'
 
 export default function Dashboard() {
   const { user, signOut } = useAuth()
-  const { progress, loading: progressLoading, getOverallProgressPercentage } = useProgress()
+  const { progress, loading: progressLoading, fetchProgress, getOverallProgressPercentage } = useProgress()
   const navigate = useNavigate()
   const [activeModule, setActiveModule] = useState<ModuleView>('overview')
   const [uploadedDocuments, setUploadedDocuments] = useState<Document[]>([])
@@ -23,8 +33,6 @@ export default function Dashboard() {
     navigate('/login')
   }
 
-  const overallProgress = getOverallProgressPercentage()
-
   // Fetch uploaded documents
   useEffect(() => {
     if (user) {
@@ -57,9 +65,9 @@ export default function Dashboard() {
     }
   }
 
-  // Check which document types are uploaded
-  const getDocumentStatus = (docType: string) => {
-    const doc = uploadedDocuments.find(d => d.document_type === docType)
+  // Check which document types are uploaded for a spouse (untagged documents are the user's)
+  const getDocumentStatus = (docType: string, spouseNumber: 1 | 2 = 1) => {
+    const doc = uploadedDocuments.find(d => d.document_type === docType && (d.spouse_number ?? 1) === spouseNumber)
     return doc 
       ? { 
           uploaded: true, 
@@ -84,22 +92,19 @@ export default function Dashboard() {
       // Get document info to delete file from storage
       const { data: doc, error: fetchError } = await supabase
         .from('documents')
-        .select('file_path, extracted_data_id')
+        .select('*')
         .eq('id', documentId)
         .single()
 
       if (fetchError) throw fetchError
 
-      // Delete from storage if file_path exists
-      if (doc.file_path) {
-        const { error: storageError } = await supabase.storage
-          .from('documents')
-          .remove([doc.file_path])
-
-        if (storageError) {
-          console.warn('⚠️ Failed to delete file from storage:', storageError)
-          // Continue with database deletion even if storage deletion fails
-        }
+      // Delete from storage - every page for multi-file documents
+      const filePaths: string[] = doc.file_paths?.length ? doc.file_paths : doc.file_path ? [doc.file_path] : []
+      try {
+        await removeDocumentFiles(filePaths)
+      } catch (storageError) {
+        console.warn('⚠️ Failed to delete file from storage:', storageError)
+        // Continue with database deletion even if storage deletion fails
       }
 
       // Delete extracted_data if it exists
@@ -145,16 +150,69 @@ export default function Dashboard() {
       id: 'personal' as ModuleView,
       title: 'Personal Information',
       description: 'Review and confirm your personal details',
+      moduleName: 'module_personal_info',
       completed: progress.find((p) => p.module_name === 'module_personal_info')?.status === 'completed' || false,
     },
     {
       id: 'financial' as ModuleView,
       title: 'Financial Information',
       description: 'Review your financial data from uploaded documents',
+      moduleName: 'module_financial_info',
       completed: progress.find((p) => p.module_name === 'module_financial_info')?.status === 'completed' || false,
     },
+    {
+      id: 'conflicts' as ModuleView,
+      title: 'Review Conflicts',
+      description: 'Choose between values your documents disagree on',
+      moduleName: 'module_conflict_review',
+      completed: progress.find((p) => p.module_name === 'module_conflict_review')?.status === 'completed' || false,
+    },
+    {
+      id: 'selfEmployment' as ModuleView,
+      title: 'Self-Employment Income',
+      description: 'Add back depreciation and personal expenses to business income',
+      moduleName: 'module_self_employment',
+      completed: progress.find((p) => p.module_name === 'module_self_employment')?.status === 'completed' || false,
+    },
+    {
+      id: 'childSupport' as ModuleView,
+      title: 'Child Support',
+      description: 'Estimate child support with the Utah worksheet',
+      moduleName: 'module_child_support',
+      completed: progress.find((p) => p.module_name === 'module_child_support')?.status === 'completed' || false,
+    },
+    {
+      id: 'alimony' as ModuleView,
+      title: 'Alimony Estimate',
+      description: 'Compare need and ability to pay for alimony',
+      moduleName: 'module_alimony',
+      completed: progress.find((p) => p.module_name === 'module_alimony')?.status === 'completed' || false,
+    },
+    {
+      id: 'propertyDivision' as ModuleView,
+      title: 'Property Division',
+      description: 'Propose who keeps each asset and debt',
+      moduleName: 'module_property_division',
+      completed: progress.find((p) => p.module_name === 'module_property_division')?.status === 'completed' || false,
+    },
+    {
+      id: 'financialDeclaration' as ModuleView,
+      title: 'Financial Declaration',
+      description: 'Monthly income, expenses, assets and debts for the court',
+      moduleName: 'module_financial_declaration',
+      completed: progress.find((p) => p.module_name === 'module_financial_declaration')?.status === 'completed' || false,
+    },
+    {
+      id: 'dissipation' as ModuleView,
+      title: 'Unusual Transactions',
+      description: 'Flag withdrawals and transfers around separation',
+      moduleName: 'module_dissipation_report',
+      completed: progress.find((p) => p.module_name === 'module_dissipation_report')?.status === 'completed' || false,
+    },
   ]
 
+  const overallProgress = getOverallProgressPercentage(modules.map((module) => module.moduleName))
+
   if (progressLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50">
@@ -268,6 +326,11 @@ export default function Dashboard() {
                     { type: 'marriageCertificate' as const, label: 'Marriage Certificate', priority: 3, required: true, description: 'Provides marriage date, place, and legal names' },
                     { type: 'priorCourtOrder' as const, label: 'Prior Court Order', priority: 4, required: false, description: 'If children exist - custody, support, or protective orders' },
                     { type: 'bankStatement' as const, label: 'Bank Statement (last 1-2 months)', priority: 5, required: false, description: 'Helps infer expenses and income patterns' },
+                    { type: 'retirementStatement' as const, label: 'Retirement Statement', priority: 5, required: false, description: '401(k), IRA or pension - often the largest marital asset' },
+                    { type: 'mortgageStatement' as const, label: 'Mortgage Statement', priority: 6, required: false, description: 'Loan balance on your home' },
+                    { type: 'propertyTaxNotice' as const, label: 'Property Tax Notice', priority: 6, required: false, description: "Your home's market value - with the mortgage, gives its equity" },
+                    { type: 'vehicleTitle' as const, label: 'Vehicle Title', priority: 6, required: false, description: 'Year, make, model and VIN of each vehicle' },
+                    { type: 'autoLoanStatement' as const, label: 'Auto Loan Statement', priority: 6, required: false, description: 'Payoff balance on a financed vehicle' },
                   ].map((doc) => {
                     const status = getDocumentStatus(doc.type)
                     return (
@@ -290,6 +353,46 @@ export default function Dashboard() {
                 </div>
               </div>
 
+              {/* Spouse's Documents - income and expenses for the other party */}
+              <div className="mb-8">
+                <div className="mb-6">
+                  <h2 className="section-header">Your Spouse's Documents</h2>
+                  <p className="section-description">
+                    If you have copies of your spouse's pay stubs or statements, upload them here so their income and
+                    expenses are used for child support and alimony.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
+                  {[
+                    { type: 'payStub' as const, label: "Spouse's Pay Stub", description: "Your spouse's most recent pay stubs" },
+                    { type: 'profitAndLoss' as const, label: "Spouse's Profit & Loss Statement", description: 'If your spouse is self-employed' },
+                    { type: 'bankStatement' as const, label: "Spouse's Bank Statement", description: "Your spouse's separate account statements" },
+                    { type: 'retirementStatement' as const, label: "Spouse's Retirement Statement", description: "Your spouse's 401(k), IRA or pension statements" },
+                  ].map((doc) => {
+                    const status = getDocumentStatus(doc.type, 2)
+                    return (
+                      <DocumentDropZone
+                        key={`spouse-${doc.type}`}
+                        documentType={doc.type}
+                        label={doc.label}
+                        description={doc.description}
+                        isUploaded={status.uploaded}
+                        uploadDate={status.date || undefined}
+                        documentId={status.id}
+                        fileName={status.fileName}
+                        spouseNumber={2}
+                        onUploadComplete={fetchDocuments}
+                        onDelete={handleDeleteDocument}
+                      />
+                    )
+                  })}
+                </div>
+              </div>
+
+              {/* Court Forms Packet */}
+              <FormPacketDownload />
+
               {/* Progress Section */}
               <div className="card">
                 <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
@@ -354,6 +457,14 @@ export default function Dashboard() {
               </button>
 
               {activeModule === 'personal' && <PersonalInformationModule />}
+              {activeModule === 'financial' && <FinancialInformationModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'selfEmployment' && <SelfEmploymentModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'childSupport' && <ChildSupportModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'alimony' && <AlimonyModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'propertyDivision' && <PropertyDivisionModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'financialDeclaration' && <FinancialDeclarationModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'conflicts' && <ConflictReviewModule onComplete={() => fetchProgress(true)} />}
+              {activeModule === 'dissipation' && <DissipationReportModule onComplete={() => fetchProgress(true)} />}
             </div>
           )}
         </main>
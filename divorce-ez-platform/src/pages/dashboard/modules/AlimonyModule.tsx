@@ -0,0 +1,323 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import { getFormData, getChildSupportCalculation, updateCourtInfo } from '../../../services/formDataService'
+import { calculateAlimony } from '../../../services/alimonyService'
+import type { AlimonySpouseBreakdown } from '../../../services/alimonyService'
+import type { NormalizedFormData, ChildSupportCalculationRow } from '../../../types'
+
+interface AlimonyModuleProps {
+  onComplete?: () => void
+}
+
+const formatCurrency = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+const formatDuration = (months: number): string => {
+  const years = Math.floor(months / 12)
+  const remainder = months % 12
+  const parts: string[] = []
+  if (years > 0) parts.push(`${years} ${years === 1 ? 'year' : 'years'}`)
+  if (remainder > 0 || years === 0) parts.push(`${remainder} ${remainder === 1 ? 'month' : 'months'}`)
+  return parts.join(', ')
+}
+
+// Explanation shown next to each input to the estimate
+const inputRows: { key: keyof AlimonySpouseBreakdown; label: string; explanation: string }[] = [
+  {
+    key: 'grossMonthlyIncome',
+    label: 'Gross monthly income',
+    explanation: 'From the Financial Information module (monthly, or annual divided by 12).',
+  },
+  {
+    key: 'payrollDeductions',
+    label: 'Payroll deductions',
+    explanation: 'Taxes and other deductions taken from pay; subtracted to get take-home income.',
+  },
+  {
+    key: 'netMonthlyIncome',
+    label: 'Net monthly income',
+    explanation: 'Gross monthly income minus payroll deductions.',
+  },
+  {
+    key: 'childSupportReceived',
+    label: 'Child support received',
+    explanation: 'From your saved child support worksheet; counted as available income.',
+  },
+  {
+    key: 'childSupportPaid',
+    label: 'Child support paid',
+    explanation: 'From your saved child support worksheet; reduces what is left to pay alimony.',
+  },
+  {
+    key: 'monthlyNeeds',
+    label: 'Monthly needs',
+    explanation: 'Housing, utilities, childcare, debt payments, transportation and insurance from your expenses.',
+  },
+  {
+    key: 'surplus',
+    label: 'Surplus / (shortfall)',
+    explanation: 'Income left after needs. A shortfall is need; a surplus is ability to pay.',
+  },
+]
+
+export default function AlimonyModule({ onComplete }: AlimonyModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [childSupport, setChildSupport] = useState<ChildSupportCalculationRow | null>(null)
+  const [requestingAlimony, setRequestingAlimony] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const [data, calculation] = await Promise.all([getFormData(user.id), getChildSupportCalculation(user.id)])
+      setFormData(data)
+      setChildSupport(calculation)
+      setRequestingAlimony(data.court_info?.requesting_alimony ?? null)
+    } catch (err: any) {
+      console.error('❌ Error loading alimony data:', err)
+      setError(err.message || 'Failed to load alimony data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const result = useMemo(
+    () =>
+      calculateAlimony({
+        spouse1Income: formData?.income.find((i) => i.spouse_number === 1),
+        spouse2Income: formData?.income.find((i) => i.spouse_number === 2),
+        spouse1Expenses: formData?.expenses.find((e) => e.spouse_number === 1),
+        spouse2Expenses: formData?.expenses.find((e) => e.spouse_number === 2),
+        marriageInfo: formData?.marriage_info,
+        childSupport,
+        requestingAlimony,
+      }),
+    [formData, childSupport, requestingAlimony]
+  )
+
+  const handleSave = async () => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      await updateCourtInfo(user.id, { requesting_alimony: requestingAlimony })
+
+      await updateModule('module_alimony', true)
+      onComplete?.()
+
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+      await loadData() // Reload to get updated data
+    } catch (err: any) {
+      console.error('Error saving alimony information:', err)
+      setError(err.message || 'Failed to save alimony information')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const spouse2Label = [formData?.spouse_info?.first_name, formData?.spouse_info?.last_name].filter(Boolean).join(' ') || 'Spouse'
+  const spouseLabel = (n: 1 | 2 | null) => (n === 1 ? 'You' : spouse2Label)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading alimony data...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Alimony Estimate</h1>
+        <p className="text-gray-600">
+          Utah courts weigh the requesting spouse's need against the other spouse's ability to pay, and alimony usually
+          cannot last longer than the marriage. This is an estimate only; the court considers other factors too.
+        </p>
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Alimony information saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Request */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Are You Requesting Alimony?</h3>
+        </div>
+        <div className="p-6">
+          <div className="flex gap-3">
+            {[
+              { value: true, label: 'Yes' },
+              { value: false, label: 'No' },
+            ].map((option) => (
+              <button
+                key={option.label}
+                type="button"
+                onClick={() => setRequestingAlimony(option.value)}
+                className={`px-4 py-2 text-sm font-medium rounded-lg border transition-colors duration-200 ${
+                  requestingAlimony === option.value
+                    ? 'bg-blue-50 border-blue-200 text-blue-700'
+                    : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-3 text-sm text-gray-600">
+            If you are not requesting alimony, the estimate shows whether your spouse may have a claim against you.
+          </p>
+        </div>
+      </div>
+
+      {/* Need vs ability to pay */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Need and Ability to Pay</h3>
+        </div>
+        <div className="p-6">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="pb-2 pr-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wide"></th>
+                <th className="pb-2 px-4 text-right text-xs font-semibold text-gray-500 uppercase tracking-wide">You</th>
+                <th className="pb-2 pl-4 text-right text-xs font-semibold text-gray-500 uppercase tracking-wide">{spouse2Label}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {inputRows.map((row) => (
+                <tr key={row.key} className="border-b border-gray-100 last:border-0">
+                  <td className="py-2.5 pr-4">
+                    <div className="text-sm text-gray-900">{row.label}</div>
+                    <div className="text-xs text-gray-500">{row.explanation}</div>
+                  </td>
+                  <td className="py-2.5 px-4 text-sm text-gray-900 text-right align-top">{formatCurrency(result.spouse1[row.key])}</td>
+                  <td className="py-2.5 pl-4 text-sm text-gray-900 text-right align-top">{formatCurrency(result.spouse2[row.key])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Estimate */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Estimate</h3>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500 uppercase tracking-wide">Need</div>
+              <div className="text-xl font-semibold text-gray-900">{formatCurrency(result.recipientNeed)}</div>
+              <div className="text-xs text-gray-500 mt-1">Monthly shortfall of the receiving spouse</div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500 uppercase tracking-wide">Ability to Pay</div>
+              <div className="text-xl font-semibold text-gray-900">{formatCurrency(result.payorAbilityToPay)}</div>
+              <div className="text-xs text-gray-500 mt-1">Monthly surplus of the paying spouse</div>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500 uppercase tracking-wide">Duration Cap</div>
+              <div className="text-xl font-semibold text-gray-900">
+                {result.durationCapMonths !== null ? formatDuration(result.durationCapMonths) : 'Unknown'}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">Length of the marriage, from marriage date to separation</div>
+            </div>
+          </div>
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-900">
+              {result.estimatedMonthlyAlimony > 0 && result.payorSpouseNumber !== null ? (
+                <>
+                  <strong>{result.payorSpouseNumber === 1 ? 'You pay' : `${spouseLabel(result.payorSpouseNumber)} pays`}</strong>{' '}
+                  an estimated <strong>{formatCurrency(result.estimatedMonthlyAlimony)}</strong> per month, the lesser of
+                  need and ability to pay.
+                </>
+              ) : (
+                <strong>No alimony is indicated by the current numbers.</strong>
+              )}
+            </p>
+          </div>
+
+          {result.warnings.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <ul className="text-sm text-amber-800 list-disc list-inside space-y-1">
+                {result.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Save Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button
+          type="button"
+          onClick={loadData}
+          className="btn-secondary"
+          disabled={saving}
+        >
+          Reset Changes
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary min-w-[120px]"
+        >
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Save & Mark Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,374 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import {
+  getFormData,
+  updateChildren,
+  getChildSupportCalculation,
+  updateChildSupportCalculation,
+} from '../../../services/formDataService'
+import { calculateChildSupport, getChildSupportScheduleInfo } from '../../../services/childSupportService'
+import type { NormalizedFormData, ChildRow, ChildSupportCalculationRow } from '../../../types'
+
+interface ChildSupportModuleProps {
+  onComplete?: () => void
+}
+
+const formatCurrency = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+/**
+ * Convert an input string to a nullable whole number of overnights (0-365)
+ */
+const parseOvernights = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const parsed = parseInt(value, 10)
+  return isNaN(parsed) ? null : Math.min(Math.max(parsed, 0), 365)
+}
+
+const worksheetLabels: Record<ChildSupportCalculationRow['custody_worksheet'], string> = {
+  sole: 'Sole Physical Custody',
+  joint: 'Joint Physical Custody',
+  split: 'Split Physical Custody',
+}
+
+const FieldSection = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="card mb-6">
+    <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+      <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+    </div>
+    <div className="p-6">{children}</div>
+  </div>
+)
+
+const ResultRow = ({ label, spouse1, spouse2, combined }: { label: string; spouse1: string; spouse2: string; combined?: string }) => (
+  <tr className="border-b border-gray-100 last:border-0">
+    <td className="py-2.5 pr-4 text-sm text-gray-700">{label}</td>
+    <td className="py-2.5 px-4 text-sm text-gray-900 text-right">{spouse1}</td>
+    <td className="py-2.5 px-4 text-sm text-gray-900 text-right">{spouse2}</td>
+    <td className="py-2.5 pl-4 text-sm text-gray-900 text-right">{combined ?? ''}</td>
+  </tr>
+)
+
+export default function ChildSupportModule({ onComplete }: ChildSupportModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [children, setChildren] = useState<ChildRow[]>([])
+  const [savedCalculation, setSavedCalculation] = useState<ChildSupportCalculationRow | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const [data, calculation] = await Promise.all([getFormData(user.id), getChildSupportCalculation(user.id)])
+      setFormData(data)
+      setChildren(data.children || [])
+      setSavedCalculation(calculation)
+    } catch (err: any) {
+      console.error('❌ Error loading child support data:', err)
+      setError(err.message || 'Failed to load child support data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const result = useMemo(
+    () =>
+      calculateChildSupport({
+        spouse1Income: formData?.income.find((i) => i.spouse_number === 1),
+        spouse2Income: formData?.income.find((i) => i.spouse_number === 2),
+        children,
+      }),
+    [formData, children]
+  )
+
+  const handleSave = async () => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      // Persist edited overnights back to the children rows
+      await updateChildren(
+        user.id,
+        children.map(({ id, user_id, last_updated, ...rest }) => rest)
+      )
+
+      const calculation = await updateChildSupportCalculation(user.id, {
+        schedule_version: result.scheduleVersion,
+        schedule_official: result.officialSchedule,
+        custody_worksheet: result.custodyWorksheet,
+        number_of_children: result.numberOfChildren,
+        spouse1_monthly_income: result.spouse1MonthlyIncome,
+        spouse2_monthly_income: result.spouse2MonthlyIncome,
+        combined_monthly_income: result.combinedMonthlyIncome,
+        spouse1_income_percentage: result.spouse1IncomePercentage,
+        spouse2_income_percentage: result.spouse2IncomePercentage,
+        base_combined_obligation: result.baseCombinedObligation,
+        adjusted_combined_obligation: result.adjustedCombinedObligation,
+        spouse1_share: result.spouse1Share,
+        spouse2_share: result.spouse2Share,
+        spouse1_obligation: result.spouse1Obligation,
+        spouse2_obligation: result.spouse2Obligation,
+        obligor_spouse_number: result.obligorSpouseNumber,
+        monthly_support_amount: result.monthlySupportAmount,
+        spouse1_annual_overnights: result.spouse1AnnualOvernights,
+        spouse2_annual_overnights: result.spouse2AnnualOvernights,
+      })
+      setSavedCalculation(calculation)
+
+      await updateModule('module_child_support', true)
+      onComplete?.()
+
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+      await loadData() // Reload to get updated data
+    } catch (err: any) {
+      console.error('Error saving child support calculation:', err)
+      setError(err.message || 'Failed to save child support calculation')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateChildOvernights = (index: number, field: 'overnights_with_spouse1' | 'overnights_with_spouse2', value: string) => {
+    const updated = [...children]
+    updated[index] = { ...updated[index], [field]: parseOvernights(value) }
+    setChildren(updated)
+  }
+
+  const spouse2Label = [formData?.spouse_info?.first_name, formData?.spouse_info?.last_name].filter(Boolean).join(' ') || 'Spouse'
+  const scheduleInfo = getChildSupportScheduleInfo()
+  const pct = (value: number) => `${value.toFixed(2)}%`
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading child support data...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Child Support</h1>
+        <p className="text-gray-600">
+          Estimate child support using the Utah worksheet, based on both parents' gross monthly income and the
+          children's overnights with each parent.
+        </p>
+        {!scheduleInfo.official && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              <strong>Estimate - not for filing.</strong> These amounts come from an approximation of the {scheduleInfo.statute}{' '}
+              table, not the official table. The worksheet is not filled into MyCase or the form packet; use the court's
+              child support calculator for the amounts you file.
+            </p>
+          </div>
+        )}
+        {children.length === 0 && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              <strong>No children found.</strong> Child support is only calculated when there are minor children of the
+              marriage.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Child support calculation saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Parent-time */}
+      {children.length > 0 && (
+        <FieldSection title="Overnights per Year">
+          <p className="text-sm text-gray-600 mb-4">
+            Enter how many overnights each child spends with each parent in a year. A parent with at least 110 overnights
+            uses the joint physical custody worksheet.
+          </p>
+          <div className="space-y-4">
+            {children.map((child, index) => (
+              <div key={child.id || index} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="text-sm font-medium text-gray-900 pb-2.5">{child.full_name || `Child ${index + 1}`}</div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">With You</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={child.overnights_with_spouse1 ?? ''}
+                    onChange={(e) => updateChildOvernights(index, 'overnights_with_spouse1', e.target.value)}
+                    placeholder="0"
+                    className="input-base"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">With {spouse2Label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={child.overnights_with_spouse2 ?? ''}
+                    onChange={(e) => updateChildOvernights(index, 'overnights_with_spouse2', e.target.value)}
+                    placeholder="0"
+                    className="input-base"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </FieldSection>
+      )}
+
+      {/* Worksheet */}
+      <FieldSection title={`Worksheet - ${worksheetLabels[result.custodyWorksheet]}`}>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="pb-2 pr-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wide"></th>
+              <th className="pb-2 px-4 text-right text-xs font-semibold text-gray-500 uppercase tracking-wide">You</th>
+              <th className="pb-2 px-4 text-right text-xs font-semibold text-gray-500 uppercase tracking-wide">{spouse2Label}</th>
+              <th className="pb-2 pl-4 text-right text-xs font-semibold text-gray-500 uppercase tracking-wide">Combined</th>
+            </tr>
+          </thead>
+          <tbody>
+            <ResultRow
+              label="Gross monthly income"
+              spouse1={formatCurrency(result.spouse1MonthlyIncome)}
+              spouse2={formatCurrency(result.spouse2MonthlyIncome)}
+              combined={formatCurrency(result.combinedMonthlyIncome)}
+            />
+            <ResultRow
+              label="Percentage of combined income"
+              spouse1={pct(result.spouse1IncomePercentage)}
+              spouse2={pct(result.spouse2IncomePercentage)}
+            />
+            <ResultRow
+              label={`Base combined obligation (${result.numberOfChildren} ${result.numberOfChildren === 1 ? 'child' : 'children'})`}
+              spouse1=""
+              spouse2=""
+              combined={formatCurrency(result.baseCombinedObligation)}
+            />
+            {result.custodyWorksheet === 'joint' && (
+              <ResultRow
+                label="Joint custody obligation (base x 1.5)"
+                spouse1=""
+                spouse2=""
+                combined={formatCurrency(result.adjustedCombinedObligation)}
+              />
+            )}
+            <ResultRow
+              label="Each parent's share"
+              spouse1={formatCurrency(result.spouse1Share)}
+              spouse2={formatCurrency(result.spouse2Share)}
+            />
+            {result.spouse1AnnualOvernights !== null && (
+              <ResultRow
+                label="Annual overnights"
+                spouse1={String(result.spouse1AnnualOvernights)}
+                spouse2={String(result.spouse2AnnualOvernights ?? 0)}
+              />
+            )}
+            <ResultRow
+              label="Obligation after custody adjustment"
+              spouse1={formatCurrency(result.spouse1Obligation)}
+              spouse2={formatCurrency(result.spouse2Obligation)}
+            />
+          </tbody>
+        </table>
+
+        <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-900">
+            {result.obligorSpouseNumber === null ? (
+              <strong>No child support is owed by either parent.</strong>
+            ) : (
+              <>
+                <strong>{result.obligorSpouseNumber === 1 ? 'You pay' : `${spouse2Label} pays`}</strong>{' '}
+                an estimated <strong>{formatCurrency(result.monthlySupportAmount)}</strong> per month.
+              </>
+            )}
+          </p>
+        </div>
+
+        {result.warnings.length > 0 && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <ul className="text-sm text-amber-800 list-disc list-inside space-y-1">
+              {result.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <p className="mt-4 text-xs text-gray-500">
+          Schedule version {scheduleInfo.version} (effective {scheduleInfo.effectiveDate}
+          {scheduleInfo.revisionDate && `, ${scheduleInfo.statute} as revised ${scheduleInfo.revisionDate}`}). {scheduleInfo.notes}
+          {savedCalculation && ` Last saved ${new Date(savedCalculation.last_updated).toLocaleString()}.`}
+        </p>
+      </FieldSection>
+
+      {/* Save Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button
+          type="button"
+          onClick={loadData}
+          className="btn-secondary"
+          disabled={saving}
+        >
+          Reset Changes
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary min-w-[120px]"
+        >
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Save & Mark Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import { getFieldConflicts, getFieldLabel, resolveFieldConflict, valuesMatch } from '../../../services/conflictService'
+import type { FieldConflictRow } from '../../../types'
+
+interface ConflictReviewModuleProps {
+  onComplete?: () => void
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '(blank)'
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') return value.toLocaleString('en-US')
+  return String(value)
+}
+
+// Index of the candidate matching the value the user already chose, if any
+const resolvedIndex = (conflict: FieldConflictRow): number | undefined => {
+  if (conflict.status !== 'resolved') return undefined
+  const index = conflict.candidates.findIndex((c) => valuesMatch(c.value, conflict.resolved_value))
+  return index > -1 ? index : undefined
+}
+
+export default function ConflictReviewModule({ onComplete }: ConflictReviewModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<FieldConflictRow[]>([])
+  const [selections, setSelections] = useState<Record<string, number>>({})
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await getFieldConflicts(user.id)
+      setConflicts(data)
+      const initial: Record<string, number> = {}
+      data.forEach((conflict) => {
+        const index = resolvedIndex(conflict)
+        if (index !== undefined) initial[conflict.id] = index
+      })
+      setSelections(initial)
+    } catch (err: any) {
+      console.error('❌ Error loading conflicts:', err)
+      setError(err.message || 'Failed to load conflicts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openConflicts = conflicts.filter((c) => c.status === 'open')
+  const resolvedConflicts = conflicts.filter((c) => c.status === 'resolved')
+  const unanswered = openConflicts.filter((c) => selections[c.id] === undefined).length
+
+  const handleSave = async () => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      // Only write conflicts whose choice is new or changed
+      const changed = conflicts.filter((conflict) => {
+        const index = selections[conflict.id]
+        return index !== undefined && index !== resolvedIndex(conflict)
+      })
+      for (const conflict of changed) {
+        await resolveFieldConflict(user.id, conflict, conflict.candidates[selections[conflict.id]].value)
+      }
+
+      if (unanswered === 0) {
+        await updateModule('module_conflict_review', true)
+        onComplete?.()
+      }
+
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+      await loadData() // Reload to get updated data
+    } catch (err: any) {
+      console.error('Error resolving conflicts:', err)
+      setError(err.message || 'Failed to save your choices')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderConflict = (conflict: FieldConflictRow) => (
+    <div key={conflict.id} className="p-4 border border-gray-200 rounded-lg">
+      <div className="text-sm font-medium text-gray-900 mb-3">
+        {getFieldLabel(conflict.table_name, conflict.column_name, conflict.spouse_number)}
+      </div>
+      <div className="space-y-2">
+        {conflict.candidates.map((candidate, index) => (
+          <label
+            key={`${candidate.document_id || 'manual'}-${index}`}
+            className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+              selections[conflict.id] === index ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="radio"
+              name={`conflict-${conflict.id}`}
+              checked={selections[conflict.id] === index}
+              onChange={() => setSelections({ ...selections, [conflict.id]: index })}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm text-gray-900">{formatValue(candidate.value)}</span>
+              <span className="block text-xs text-gray-500">
+                {candidate.document_id ? `From your ${candidate.document_label}` : 'Entered manually'}
+                {candidate.extraction_method === 'gemini' && ' (AI-assisted)'}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading conflicts...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Review Conflicts</h1>
+        <p className="text-gray-600">
+          Some of your documents disagree. Choose the correct value for each field; your choice is kept when documents
+          are added or removed.
+        </p>
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Your choices were saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Open Conflicts */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Needs Review</h3>
+        </div>
+        <div className="p-6">
+          {openConflicts.length === 0 ? (
+            <p className="text-sm text-gray-500">Your documents agree - there is nothing to review.</p>
+          ) : (
+            <div className="space-y-4">{openConflicts.map(renderConflict)}</div>
+          )}
+        </div>
+      </div>
+
+      {/* Resolved Conflicts */}
+      {resolvedConflicts.length > 0 && (
+        <div className="card mb-6">
+          <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+            <h3 className="text-lg font-semibold text-gray-900">Resolved</h3>
+          </div>
+          <div className="p-6 space-y-4">{resolvedConflicts.map(renderConflict)}</div>
+        </div>
+      )}
+
+      {unanswered > 0 && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            {unanswered} {unanswered === 1 ? 'field still needs' : 'fields still need'} a choice before this step is
+            complete.
+          </p>
+        </div>
+      )}
+
+      {/* Save Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button
+          type="button"
+          onClick={loadData}
+          className="btn-secondary"
+          disabled={saving}
+        >
+          Reset Changes
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary min-w-[120px]"
+        >
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Save & Mark Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import { getFormData, getBankTransactions, getBankStatementAccounts } from '../../../services/formDataService'
+import {
+  DEFAULT_DISSIPATION_THRESHOLDS,
+  DISSIPATION_FLAG_LABELS,
+  analyzeDissipation,
+  dissipationReportToCsv,
+  generateDissipationReportPdf,
+} from '../../../services/dissipationService'
+import type { BankStatementAccount, DissipationFlagType, DissipationThresholds } from '../../../services/dissipationService'
+import type { NormalizedFormData, BankTransactionRow } from '../../../types'
+
+interface DissipationReportModuleProps {
+  onComplete?: () => void
+}
+
+const formatCurrency = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+const downloadFile = (contents: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Thresholds the user can change, in dollars
+const THRESHOLD_FIELDS: { key: keyof DissipationThresholds; label: string }[] = [
+  { key: 'largeWithdrawal', label: 'Large withdrawal' },
+  { key: 'cashWithdrawal', label: 'Cash withdrawal' },
+  { key: 'unknownTransferMinimum', label: 'Transfer to unknown account' },
+]
+
+export default function DissipationReportModule({ onComplete }: DissipationReportModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [transactions, setTransactions] = useState<BankTransactionRow[]>([])
+  const [accounts, setAccounts] = useState<BankStatementAccount[]>([])
+  const [thresholds, setThresholds] = useState<DissipationThresholds>(DEFAULT_DISSIPATION_THRESHOLDS)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const [data, rows, statementAccounts] = await Promise.all([
+        getFormData(user.id),
+        getBankTransactions(user.id),
+        getBankStatementAccounts(user.id),
+      ])
+      setFormData(data)
+      setTransactions(rows)
+      setAccounts(statementAccounts)
+    } catch (err: any) {
+      console.error('❌ Error loading bank transactions:', err)
+      setError(err.message || 'Failed to load bank transactions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const report = useMemo(
+    () => analyzeDissipation(transactions, accounts, formData?.marriage_info || null, formData?.assets || [], thresholds),
+    [transactions, accounts, formData, thresholds]
+  )
+
+  const spouseNames: Record<1 | 2, string> = {
+    1: [formData?.personal_info?.first_name, formData?.personal_info?.last_name].filter(Boolean).join(' ') || 'Spouse 1',
+    2: [formData?.spouse_info?.first_name, formData?.spouse_info?.last_name].filter(Boolean).join(' ') || 'Spouse 2',
+  }
+
+  const handleExport = async (format: 'pdf' | 'csv') => {
+    setExporting(true)
+    setError(null)
+    try {
+      const fileName = `unusual-transactions-${new Date().toISOString().slice(0, 10)}`
+      if (format === 'pdf') {
+        const bytes = await generateDissipationReportPdf(report, spouseNames)
+        downloadFile(bytes as BlobPart, 'application/pdf', `${fileName}.pdf`)
+      } else {
+        downloadFile(dissipationReportToCsv(report, spouseNames), 'text/csv', `${fileName}.csv`)
+      }
+    } catch (err: any) {
+      console.error('Error exporting report:', err)
+      setError(err.message || 'Failed to export the report')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleComplete = async () => {
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+    try {
+      await updateModule('module_dissipation_report', true)
+      onComplete?.()
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    } catch (err: any) {
+      console.error('Error saving progress:', err)
+      setError(err.message || 'Failed to save progress')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Analyzing bank statements...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Unusual Transactions</h1>
+        <p className="text-gray-600">
+          Large withdrawals, transfers to unknown accounts, cash withdrawals and balance drops around your date of
+          separation. These are flags to look into with your attorney or mediator, not proof that money was wasted.
+        </p>
+        {transactions.length === 0 && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              <strong>No bank transactions found.</strong> Upload bank statements for each account - several months
+              around the date of separation give the best picture.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Marked as reviewed!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Summary</h3>
+        </div>
+        <div className="p-6">
+          <p className="text-sm text-gray-600 mb-4">
+            {report.statementCount} statement(s), {report.transactionCount} transactions
+            {report.periodStart && report.periodEnd && ` from ${report.periodStart} to ${report.periodEnd}`}. Date of
+            separation: {report.dateOfSeparation || 'not entered'}.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            {(Object.keys(DISSIPATION_FLAG_LABELS) as DissipationFlagType[]).map((type) => (
+              <div key={type} className="p-4 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-500 uppercase tracking-wide">{DISSIPATION_FLAG_LABELS[type]}</div>
+                <div className="text-xl font-semibold text-gray-900">{report.totals[type].count}</div>
+                <div className="text-xs text-gray-500 mt-1">{formatCurrency(report.totals[type].amount)}</div>
+              </div>
+            ))}
+          </div>
+          {report.notes.length > 0 && (
+            <ul className="space-y-1">
+              {report.notes.map((note) => (
+                <li key={note} className="text-sm text-amber-800">
+                  {note}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Thresholds */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">What Counts as Unusual</h3>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-4 gap-5">
+          {THRESHOLD_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{label} ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={thresholds[key]}
+                onChange={(e) => setThresholds({ ...thresholds, [key]: Math.max(Number(e.target.value) || 0, 0) })}
+                className="input-base"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Days around separation</label>
+            <input
+              type="number"
+              min="1"
+              value={thresholds.separationWindowDays}
+              onChange={(e) => setThresholds({ ...thresholds, separationWindowDays: Math.max(Number(e.target.value) || 1, 1) })}
+              className="input-base"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Flags */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Flagged Activity</h3>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => handleExport('csv')} disabled={exporting} className="btn-secondary">
+              Export CSV
+            </button>
+            <button type="button" onClick={() => handleExport('pdf')} disabled={exporting} className="btn-secondary">
+              {exporting ? 'Exporting...' : 'Export PDF'}
+            </button>
+          </div>
+        </div>
+        <div className="p-6">
+          {report.flags.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing unusual was found in your bank statements.</p>
+          ) : (
+            <div className="space-y-3">
+              {report.flags.map((flag, index) => (
+                <div
+                  key={`${flag.documentId}-${flag.type}-${index}`}
+                  className={`p-4 rounded-lg border ${flag.severity === 'high' ? 'border-red-200 bg-red-50/50' : 'border-gray-200'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {DISSIPATION_FLAG_LABELS[flag.type]}
+                        {flag.severity === 'high' && (
+                          <span className="ml-2 text-xs font-medium text-red-700 bg-red-100 px-2 py-0.5 rounded-full">
+                            Near separation
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-700">{flag.description}</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {flag.date || 'No date'} · {spouseNames[flag.spouseNumber]} · {flag.account}
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">{flag.message}</div>
+                    </div>
+                    <div className="text-sm font-semibold text-gray-900 whitespace-nowrap">{formatCurrency(flag.amount)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Complete Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button type="button" onClick={loadData} className="btn-secondary" disabled={saving}>
+          Refresh
+        </button>
+        <button type="button" onClick={handleComplete} disabled={saving} className="btn-primary min-w-[120px]">
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Mark as Reviewed'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,377 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import {
+  getFormData,
+  getFinancialDeclarationItems,
+  updateFinancialDeclarationItems,
+  getBankTransactions,
+} from '../../../services/formDataService'
+import {
+  DECLARATION_CATEGORIES,
+  amountKey,
+  buildSchedules,
+  getSpouseAmounts,
+  summarizeDeclaration,
+  toDeclarationItems,
+  validateDeclaration,
+} from '../../../services/financialDeclarationService'
+import type { DeclarationAmounts, DeclarationCategory } from '../../../services/financialDeclarationService'
+import { estimateMonthlySpending } from '../../../services/bankTransactionService'
+import type { MonthlySpending } from '../../../services/bankTransactionService'
+import type { NormalizedFormData, DeclarationItemType } from '../../../types'
+
+interface FinancialDeclarationModuleProps {
+  onComplete?: () => void
+}
+
+const formatCurrency = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+const SummaryTile = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <div className="text-xs text-gray-500 uppercase tracking-wide">{label}</div>
+    <div className="text-xl font-semibold text-gray-900">{value}</div>
+    {hint && <div className="text-xs text-gray-500 mt-1">{hint}</div>}
+  </div>
+)
+
+const SECTION_TITLES: Record<DeclarationItemType, string> = {
+  income: 'Monthly Income (all sources)',
+  deduction: 'Monthly Deductions from Pay',
+  expense: 'Monthly Expenses',
+}
+
+export default function FinancialDeclarationModule({ onComplete }: FinancialDeclarationModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [activeSpouse, setActiveSpouse] = useState<1 | 2>(1)
+  const [amounts, setAmounts] = useState<Record<1 | 2, DeclarationAmounts>>({ 1: {}, 2: {} })
+  const [spending, setSpending] = useState<Record<1 | 2, MonthlySpending>>({ 1: {}, 2: {} })
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const [data, items, transactions] = await Promise.all([
+        getFormData(user.id),
+        getFinancialDeclarationItems(user.id),
+        // Transactions are optional - older databases may not have the table yet
+        getBankTransactions(user.id).catch(() => []),
+      ])
+      const spendingBySpouse = {
+        1: estimateMonthlySpending(transactions.filter((t) => t.spouse_number === 1)),
+        2: estimateMonthlySpending(transactions.filter((t) => t.spouse_number === 2)),
+      }
+      setFormData(data)
+      setSpending(spendingBySpouse)
+      setAmounts({
+        1: getSpouseAmounts(items, data, 1, spendingBySpouse[1]),
+        2: getSpouseAmounts(items, data, 2, spendingBySpouse[2]),
+      })
+    } catch (err: any) {
+      console.error('❌ Error loading financial declaration:', err)
+      setError(err.message || 'Failed to load financial declaration')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const summary = useMemo(() => summarizeDeclaration(amounts[activeSpouse]), [amounts, activeSpouse])
+  const schedules = useMemo(() => buildSchedules(formData?.assets || [], formData?.debts || []), [formData])
+  const issues = useMemo(() => (formData ? validateDeclaration(amounts, formData) : []), [amounts, formData])
+  const hasErrors = issues.some((issue) => issue.severity === 'error')
+
+  const handleSave = async () => {
+    if (!user) return
+    if (hasErrors) {
+      setError('Fix the errors listed under Reconciliation before saving.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      await Promise.all([
+        updateFinancialDeclarationItems(user.id, 1, toDeclarationItems(amounts[1])),
+        updateFinancialDeclarationItems(user.id, 2, toDeclarationItems(amounts[2])),
+      ])
+
+      await updateModule('module_financial_declaration', true)
+      onComplete?.()
+
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+      await loadData() // Reload to get updated data
+    } catch (err: any) {
+      console.error('Error saving financial declaration:', err)
+      setError(err.message || 'Failed to save financial declaration')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setAmount = (type: DeclarationItemType, category: string, value: string) => {
+    const parsed = parseFloat(value)
+    setAmounts({
+      ...amounts,
+      [activeSpouse]: { ...amounts[activeSpouse], [amountKey(type, category)]: isNaN(parsed) ? null : parsed },
+    })
+  }
+
+  const spouse2Label = [formData?.spouse_info?.first_name, formData?.spouse_info?.last_name].filter(Boolean).join(' ') || 'Spouse'
+
+  const renderSection = (type: DeclarationItemType) => {
+    const categories = DECLARATION_CATEGORIES[type]
+    const groups = Array.from(new Set(categories.map((category) => category.group)))
+    return (
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">{SECTION_TITLES[type]}</h3>
+        </div>
+        <div className="p-6 space-y-5">
+          {groups.map((group) => (
+            <div key={group}>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">{group}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                {categories
+                  .filter((category) => category.group === group)
+                  .map((category: DeclarationCategory) => (
+                    <label key={category.key} className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-700">
+                        {category.label}
+                        {type === 'expense' && spending[activeSpouse][category.key] != null && (
+                          <span className="block text-xs text-gray-500">
+                            Bank statements: about {formatCurrency(spending[activeSpouse][category.key])}/month
+                          </span>
+                        )}
+                      </span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={amounts[activeSpouse][amountKey(type, category.key)] ?? ''}
+                        onChange={(e) => setAmount(type, category.key, e.target.value)}
+                        className="input-base w-36 text-right"
+                        placeholder="0.00"
+                      />
+                    </label>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading financial declaration...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Financial Declaration</h1>
+        <p className="text-gray-600">
+          Each spouse files a Financial Declaration listing monthly income, deductions and expenses. Amounts start from
+          your Financial Information and documents - check each one and fill in the rest.
+        </p>
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Financial declaration saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Spouse Toggle */}
+      <div className="flex gap-2 mb-6">
+        {([1, 2] as const).map((spouse) => (
+          <button
+            key={spouse}
+            type="button"
+            onClick={() => setActiveSpouse(spouse)}
+            className={activeSpouse === spouse ? 'btn-primary' : 'btn-secondary'}
+          >
+            {spouse === 1 ? 'Your Declaration' : `${spouse2Label}'s Declaration`}
+          </button>
+        ))}
+      </div>
+
+      {/* Monthly Summary */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Monthly Summary</h3>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <SummaryTile label="Gross Income" value={formatCurrency(summary.grossMonthlyIncome)} />
+          <SummaryTile
+            label="Net Income"
+            value={formatCurrency(summary.netMonthlyIncome)}
+            hint={`${formatCurrency(summary.totalDeductions)} deductions`}
+          />
+          <SummaryTile label="Expenses" value={formatCurrency(summary.totalExpenses)} />
+          <SummaryTile
+            label={summary.monthlySurplus < 0 ? 'Shortfall' : 'Surplus'}
+            value={formatCurrency(Math.abs(summary.monthlySurplus))}
+          />
+        </div>
+      </div>
+
+      {renderSection('income')}
+      {renderSection('deduction')}
+      {renderSection('expense')}
+
+      {/* Asset and Debt Schedules */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Assets and Debts</h3>
+        </div>
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-gray-500">
+            From the Financial Information module - edit assets and debts there.
+          </p>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Assets</h4>
+            {schedules.assets.length === 0 ? (
+              <p className="text-sm text-gray-500">No assets yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {schedules.assets.map((asset) => (
+                    <tr key={asset.id} className="border-b border-gray-100">
+                      <td className="py-1.5 text-gray-900">{asset.asset_name || asset.bank_name || asset.asset_type}</td>
+                      <td className="py-1.5 text-gray-500">{asset.ownership_type || '-'}</td>
+                      <td className="py-1.5 text-right text-gray-900">
+                        {asset.approximate_value != null ? formatCurrency(Number(asset.approximate_value)) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-1.5 font-semibold text-gray-900" colSpan={2}>Total assets</td>
+                    <td className="py-1.5 text-right font-semibold text-gray-900">{formatCurrency(schedules.totalAssets)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Debts</h4>
+            {schedules.debts.length === 0 ? (
+              <p className="text-sm text-gray-500">No debts yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {schedules.debts.map((debt) => (
+                    <tr key={debt.id} className="border-b border-gray-100">
+                      <td className="py-1.5 text-gray-900">{debt.creditor_name || debt.debt_type}</td>
+                      <td className="py-1.5 text-gray-500">
+                        {debt.monthly_payment != null ? `${formatCurrency(Number(debt.monthly_payment))}/mo` : '-'}
+                      </td>
+                      <td className="py-1.5 text-right text-gray-900">
+                        {debt.approximate_balance != null ? formatCurrency(Number(debt.approximate_balance)) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-1.5 font-semibold text-gray-900">Total debts</td>
+                    <td className="py-1.5 text-gray-500">{formatCurrency(schedules.totalDebtPayments)}/mo</td>
+                    <td className="py-1.5 text-right font-semibold text-gray-900">{formatCurrency(schedules.totalDebts)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+          <SummaryTile label="Net Worth" value={formatCurrency(schedules.netWorth)} />
+        </div>
+      </div>
+
+      {/* Reconciliation */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Reconciliation</h3>
+        </div>
+        <div className="p-6 space-y-2">
+          {issues.length === 0 ? (
+            <p className="text-sm text-green-700">Both declarations reconcile with your Financial Information.</p>
+          ) : (
+            issues.map((issue, index) => (
+              <div
+                key={index}
+                className={`p-3 rounded-lg border text-sm ${
+                  issue.severity === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+                }`}
+              >
+                {issue.message}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Save Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button
+          type="button"
+          onClick={loadData}
+          className="btn-secondary"
+          disabled={saving}
+        >
+          Reset Changes
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary min-w-[120px]"
+        >
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Save & Mark Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
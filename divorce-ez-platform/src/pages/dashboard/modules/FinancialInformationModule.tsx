@@ -0,0 +1,1114 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import {
+  getFormData,
+  updateIncome,
+  updateEmployers,
+  updateExpenses,
+  updateAssets,
+  updateDebts,
+  getJointTaxReturns,
+  setJointReturnSplit,
+  reAggregateFormDataFromDocuments,
+} from '../../../services/formDataService'
+import type { JointTaxReturn } from '../../../services/formDataService'
+import { getFieldProvenance, findProvenance } from '../../../services/provenanceService'
+import { getFieldLocks, findFieldLock, lockEditedFields, unlockField, unlockRemovedRows } from '../../../services/fieldLockService'
+import { getAssetEquity } from '../../../services/securedPropertyService'
+import type { AssetEquity } from '../../../services/securedPropertyService'
+import FieldSource from '../../../components/FieldSource'
+import FieldLockNotice from '../../../components/FieldLockNotice'
+import type {
+  NormalizedFormData,
+  IncomeRow,
+  EmployerRow,
+  ExpenseRow,
+  AssetRow,
+  DebtRow,
+  FieldProvenanceRow,
+  FieldLockRow,
+} from '../../../types'
+
+type SpouseNumber = 1 | 2
+
+interface FinancialInformationModuleProps {
+  onComplete?: () => void
+}
+
+const isFieldEmpty = (value: any): boolean => {
+  return value === null || value === undefined || value === ''
+}
+
+/**
+ * Convert an input string to a nullable number for DECIMAL columns
+ */
+const parseAmount = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const parsed = parseFloat(value.replace(/[$,]/g, ''))
+  return isNaN(parsed) ? null : parsed
+}
+
+const formatCurrency = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+const FieldSection = ({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) => (
+  <div className="card mb-6">
+    <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60 flex items-center justify-between">
+      <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+      {action}
+    </div>
+    <div className="p-6">{children}</div>
+  </div>
+)
+
+const FormField = ({
+  label,
+  value,
+  onChange,
+  type = 'text',
+  placeholder,
+  source,
+  lock,
+  onUnlock,
+}: {
+  label: string
+  value: any
+  onChange: (value: string) => void
+  type?: string
+  placeholder?: string
+  source?: FieldProvenanceRow
+  lock?: FieldLockRow
+  onUnlock?: (lock: FieldLockRow) => void
+}) => {
+  const isEmpty = isFieldEmpty(value)
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+        {label}
+        {isEmpty && (
+          <span className="ml-2 text-xs text-amber-600 font-medium bg-amber-50 px-2 py-0.5 rounded-full">
+            Blank
+          </span>
+        )}
+      </label>
+      <input
+        type={type}
+        step={type === 'number' ? '0.01' : undefined}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder || `Enter ${label.toLowerCase()}`}
+        className={`input-base ${isEmpty ? 'border-amber-200 bg-amber-50/30' : ''}`}
+      />
+      <FieldSource source={source} />
+      {onUnlock && <FieldLockNotice lock={lock} onUnlock={onUnlock} />}
+    </div>
+  )
+}
+
+const SelectField = ({
+  label,
+  value,
+  onChange,
+  options,
+  source,
+  lock,
+  onUnlock,
+}: {
+  label: string
+  value: string | null | undefined
+  onChange: (value: string) => void
+  options: { value: string; label: string }[]
+  source?: FieldProvenanceRow
+  lock?: FieldLockRow
+  onUnlock?: (lock: FieldLockRow) => void
+}) => {
+  const isEmpty = isFieldEmpty(value)
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1.5">
+        {label}
+        {isEmpty && (
+          <span className="ml-2 text-xs text-amber-600 font-medium bg-amber-50 px-2 py-0.5 rounded-full">
+            Blank
+          </span>
+        )}
+      </label>
+      <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        className={`input-base ${isEmpty ? 'border-amber-200 bg-amber-50/30' : ''}`}
+      >
+        <option value="">Select {label.toLowerCase()}</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <FieldSource source={source} />
+      {onUnlock && <FieldLockNotice lock={lock} onUnlock={onUnlock} />}
+    </div>
+  )
+}
+
+const EquityNote = ({ equity }: { equity: AssetEquity | null }) =>
+  equity ? (
+    <p className="text-xs text-gray-600 mt-3">
+      Equity {formatCurrency(equity.equity)} after {formatCurrency(equity.securedBalance)} in linked loans.
+    </p>
+  ) : null
+
+const AddButton = ({ label, onClick }: { label: string; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="text-sm font-medium text-blue-600 hover:text-blue-700 flex items-center gap-1.5"
+  >
+    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+    </svg>
+    {label}
+  </button>
+)
+
+const emptyIncome = (spouseNumber: SpouseNumber): Partial<IncomeRow> => ({ spouse_number: spouseNumber })
+const emptyExpenses = (spouseNumber: SpouseNumber): Partial<ExpenseRow> => ({ spouse_number: spouseNumber })
+
+export default function FinancialInformationModule({ onComplete }: FinancialInformationModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [activeSpouse, setActiveSpouse] = useState<SpouseNumber>(1)
+
+  // Form state - income, employers and expenses are kept per spouse
+  const [income, setIncome] = useState<Record<SpouseNumber, Partial<IncomeRow>>>({ 1: emptyIncome(1), 2: emptyIncome(2) })
+  const [employers, setEmployers] = useState<Record<SpouseNumber, EmployerRow[]>>({ 1: [], 2: [] })
+  const [expenses, setExpenses] = useState<Record<SpouseNumber, Partial<ExpenseRow>>>({ 1: emptyExpenses(1), 2: emptyExpenses(2) })
+  const [assets, setAssets] = useState<AssetRow[]>([])
+  const [debts, setDebts] = useState<DebtRow[]>([])
+  const [provenance, setProvenance] = useState<FieldProvenanceRow[]>([])
+  const [locks, setLocks] = useState<FieldLockRow[]>([])
+  const [jointReturns, setJointReturns] = useState<JointTaxReturn[]>([])
+  const [splitInputs, setSplitInputs] = useState<Record<string, string>>({})
+  const [splittingId, setSplittingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await getFormData(user.id)
+      setFormData(data)
+      setIncome({
+        1: data.income.find((i) => i.spouse_number === 1) || emptyIncome(1),
+        2: data.income.find((i) => i.spouse_number === 2) || emptyIncome(2),
+      })
+      setEmployers({
+        1: data.employers.filter((e) => e.spouse_number === 1),
+        2: data.employers.filter((e) => e.spouse_number === 2),
+      })
+      setExpenses({
+        1: data.expenses.find((e) => e.spouse_number === 1) || emptyExpenses(1),
+        2: data.expenses.find((e) => e.spouse_number === 2) || emptyExpenses(2),
+      })
+      setAssets(data.assets || [])
+      setDebts(data.debts || [])
+      // Provenance is optional - older databases may not have the table yet
+      setProvenance(await getFieldProvenance(user.id).catch(() => []))
+      setLocks(await getFieldLocks(user.id).catch(() => []))
+      const returns = await getJointTaxReturns(user.id)
+      setJointReturns(returns)
+      setSplitInputs(
+        Object.fromEntries(
+          returns.map((r) => [r.documentId, String(r.spouse1Percentage ?? r.split?.spouse1.percentage ?? 50)])
+        )
+      )
+    } catch (err: any) {
+      console.error('❌ Error loading financial information:', err)
+      setError(err.message || 'Failed to load financial information')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      const spouseNumbers: SpouseNumber[] = [1, 2]
+      const hasValues = (row: Record<string, any>) =>
+        Object.entries(row).some(
+          ([key, value]) => !['id', 'user_id', 'spouse_number', 'last_updated'].includes(key) && !isFieldEmpty(value)
+        )
+
+      // Existing assets/debts keep their ids so division allocations stay linked
+      const savingAssets = updateAssets(user.id, assets.map(({ id, user_id, last_updated, ...rest }) => ({ ...rest, id: id || undefined, asset_type: rest.asset_type || 'other' })))
+      const savingDebts = updateDebts(user.id, debts.map(({ id, user_id, last_updated, ...rest }) => ({ ...rest, id: id || undefined, debt_type: rest.debt_type || 'other' })))
+      const savingEmployers = spouseNumbers.map((n) =>
+        updateEmployers(
+          user.id,
+          n,
+          employers[n]
+            .filter((e) => e.employer_name.trim() !== '')
+            .map(({ id, user_id, spouse_number, last_updated, ...rest }) => ({ ...rest, id: id || undefined }))
+        )
+      )
+      await Promise.all([
+        ...spouseNumbers.map((n) => {
+          const { id, user_id, spouse_number, last_updated, ...rest } = income[n] as IncomeRow
+          // Only create a spouse row if it already exists or the user entered something
+          return income[n].id || hasValues(rest) ? updateIncome(user.id, n, rest) : Promise.resolve()
+        }),
+        ...spouseNumbers.map((n) => {
+          const { id, user_id, spouse_number, last_updated, ...rest } = expenses[n] as ExpenseRow
+          return expenses[n].id || hasValues(rest) ? updateExpenses(user.id, n, rest) : Promise.resolve()
+        }),
+        ...savingEmployers,
+        savingAssets,
+        savingDebts,
+      ])
+      const [savedAssets, savedDebts] = await Promise.all([savingAssets, savingDebts])
+      const savedEmployers = (await Promise.all(savingEmployers)).flat()
+
+      // Lock the fields the user changed so re-aggregating documents doesn't overwrite them
+      // Employer, asset and debt rows are locked by id - a row added here has no loaded values, so all of it is kept
+      await Promise.all([
+        ...spouseNumbers.map((n) =>
+          lockEditedFields(user.id, 'income', n, formData?.income.find((row) => row.spouse_number === n), income[n])
+        ),
+        ...spouseNumbers.map((n) =>
+          lockEditedFields(user.id, 'expenses', n, formData?.expenses.find((row) => row.spouse_number === n), expenses[n])
+        ),
+        ...savedEmployers.map((row) =>
+          lockEditedFields(user.id, 'employers', row.spouse_number, formData?.employers.find((employer) => employer.id === row.id), row, row.id)
+        ),
+        ...savedAssets.map((row) => lockEditedFields(user.id, 'assets', 1, formData?.assets.find((asset) => asset.id === row.id), row, row.id)),
+        ...savedDebts.map((row) => lockEditedFields(user.id, 'debts', 1, formData?.debts.find((debt) => debt.id === row.id), row, row.id)),
+        unlockRemovedRows(user.id, 'employers', savedEmployers.map((row) => row.id)),
+        unlockRemovedRows(user.id, 'assets', savedAssets.map((row) => row.id)),
+        unlockRemovedRows(user.id, 'debts', savedDebts.map((row) => row.id)),
+      ]).catch((lockError) => console.warn('⚠️ Could not lock edited fields:', lockError))
+
+      await updateModule('module_financial_info', true)
+      onComplete?.()
+
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+      await loadData() // Reload to get updated data
+    } catch (err: any) {
+      console.error('Error saving financial information:', err)
+      setError(err.message || 'Failed to save financial information')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Drop the user's value and rebuild the field from documents
+  const handleUnlock = async (lock: FieldLockRow) => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      await unlockField(user.id, lock.table_name, lock.column_name, lock.spouse_number, lock.row_id || '')
+      await reAggregateFormDataFromDocuments(user.id)
+      await loadData()
+    } catch (err: any) {
+      console.error('Error restoring document value:', err)
+      setError(err.message || 'Failed to restore the document value')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Saving a split rebuilds the income rows from every document, so reload afterwards
+  const handleJointSplit = async (documentId: string, spouse1Percentage: number | null) => {
+    if (!user) return
+    setSplittingId(documentId)
+    setError(null)
+    try {
+      await setJointReturnSplit(user.id, documentId, spouse1Percentage)
+      await loadData()
+    } catch (err: any) {
+      console.error('Error splitting joint tax return:', err)
+      setError(err.message || 'Failed to split joint tax return income')
+    } finally {
+      setSplittingId(null)
+    }
+  }
+
+  const setIncomeField = (field: keyof IncomeRow, value: any) => {
+    setIncome({ ...income, [activeSpouse]: { ...income[activeSpouse], [field]: value } })
+  }
+
+  const setExpenseField = (field: keyof ExpenseRow, value: any) => {
+    setExpenses({ ...expenses, [activeSpouse]: { ...expenses[activeSpouse], [field]: value } })
+  }
+
+  const addEmployer = () => {
+    setEmployers({
+      ...employers,
+      [activeSpouse]: [
+        ...employers[activeSpouse],
+        { id: '', user_id: '', spouse_number: activeSpouse, employer_name: '', income_amount: null, income_type: null, last_updated: '' },
+      ],
+    })
+  }
+
+  const updateEmployer = (index: number, field: keyof EmployerRow, value: any) => {
+    const updated = [...employers[activeSpouse]]
+    updated[index] = { ...updated[index], [field]: value }
+    setEmployers({ ...employers, [activeSpouse]: updated })
+  }
+
+  const removeEmployer = (index: number) => {
+    setEmployers({ ...employers, [activeSpouse]: employers[activeSpouse].filter((_, i) => i !== index) })
+  }
+
+  const addAsset = () => {
+    setAssets([
+      ...assets,
+      { id: '', user_id: '', asset_type: 'other', asset_name: null, approximate_value: null, ownership_type: null, bank_name: null, account_number: null, last_updated: '' },
+    ])
+  }
+
+  const updateAsset = (index: number, field: keyof AssetRow, value: any) => {
+    const updated = [...assets]
+    updated[index] = { ...updated[index], [field]: value }
+    setAssets(updated)
+  }
+
+  const addDebt = () => {
+    setDebts([
+      ...debts,
+      { id: '', user_id: '', debt_type: 'other', creditor_name: null, approximate_balance: null, monthly_payment: null, last_updated: '' },
+    ])
+  }
+
+  const updateDebt = (index: number, field: keyof DebtRow, value: any) => {
+    const updated = [...debts]
+    updated[index] = { ...updated[index], [field]: value }
+    setDebts(updated)
+  }
+
+  const spouseLabel = (n: SpouseNumber): string => {
+    if (n === 1) return 'You'
+    const spouseName = [formData?.spouse_info?.first_name, formData?.spouse_info?.last_name].filter(Boolean).join(' ')
+    return spouseName || 'Spouse'
+  }
+
+  const lockFor = (table: 'income' | 'expenses', column: string) => findFieldLock(locks, table, column, activeSpouse)
+
+  // Edited-by-you note for an employer, asset or debt column (rows not saved yet have no id)
+  const rowLockFor = (table: 'employers' | 'assets' | 'debts', rowId: string, column: string) =>
+    rowId ? findFieldLock(locks, table, column, table === 'employers' ? activeSpouse : 1, rowId) : undefined
+
+  // Source document for an employer, asset or debt column, hidden once the user changes the value
+  const rowSourceFor = (table: 'employers' | 'assets' | 'debts', row: { id: string }, column: string) => {
+    const loaded = (formData?.[table] as { id: string }[] | undefined)?.find((old) => old.id === row.id) as Record<string, any> | undefined
+    if (!loaded || loaded[column] !== (row as Record<string, any>)[column] || rowLockFor(table, row.id, column)) return undefined
+    return findProvenance(provenance, table, column, table === 'employers' ? activeSpouse : 1, row.id)
+  }
+
+  // Source document for a field, hidden once the user changes the value
+  const sourceFor = (table: 'income' | 'expenses', column: string) => {
+    const current = (table === 'income' ? income[activeSpouse] : expenses[activeSpouse]) as Record<string, any>
+    const loaded = formData?.[table].find((row) => row.spouse_number === activeSpouse) as Record<string, any> | undefined
+    if (!loaded || loaded[column] !== current[column] || lockFor(table, column)) return undefined
+    return findProvenance(provenance, table, column, activeSpouse)
+  }
+
+  const currentIncome = income[activeSpouse]
+  const currentExpenses = expenses[activeSpouse]
+  const totalAssets = assets.reduce((sum, a) => sum + (a.approximate_value || 0), 0)
+  const totalDebts = debts.reduce((sum, d) => sum + (d.approximate_balance || 0), 0)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading financial information...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Financial Information</h1>
+        <p className="text-gray-600">Review and update income, employers, expenses, assets and debts extracted from your documents.</p>
+        {formData && formData.income.length === 0 && formData.assets.length === 0 && formData.debts.length === 0 && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              <strong>No financial data found.</strong> Upload a tax return, pay stub or bank statement to extract
+              financial information, or enter it below.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Financial information saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Spouse selector for per-spouse sections */}
+      <div className="mb-6 inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+        {([1, 2] as SpouseNumber[]).map((n) => (
+          <button
+            key={n}
+            type="button"
+            onClick={() => setActiveSpouse(n)}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors duration-200 ${
+              activeSpouse === n ? 'bg-blue-50 text-blue-700 shadow-sm' : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {spouseLabel(n)}
+          </button>
+        ))}
+      </div>
+
+      {/* Joint tax returns - income split between the spouses */}
+      {jointReturns.length > 0 && (
+        <FieldSection title="Joint Tax Returns">
+          <p className="text-sm text-gray-600 mb-4">
+            A married-filing-jointly return reports both spouses' income together. It is split using the attached W-2s
+            when their names match, or the percentage you enter here.
+          </p>
+          <div className="space-y-4">
+            {jointReturns.map((jointReturn) => {
+              const { split } = jointReturn
+              const percentage = parseAmount(splitInputs[jointReturn.documentId] ?? '')
+              return (
+                <div key={jointReturn.documentId} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <div className="flex items-start justify-between mb-3">
+                    <h4 className="text-sm font-semibold text-gray-900">
+                      {jointReturn.taxYear ? `${jointReturn.taxYear} Return` : 'Tax Return'}
+                      <span className="ml-2 font-normal text-gray-500">{jointReturn.fileName}</span>
+                    </h4>
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                        split ? 'text-green-700 bg-green-50' : 'text-amber-600 bg-amber-50'
+                      }`}
+                    >
+                      {split ? (split.method === 'w2' ? 'Split by W-2s' : 'Split manually') : 'Needs a split'}
+                    </span>
+                  </div>
+                  {split ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3 text-sm">
+                      {([1, 2] as SpouseNumber[]).map((n) => {
+                        const share = n === 1 ? split.spouse1 : split.spouse2
+                        return (
+                          <div key={n}>
+                            <p className="font-medium text-gray-900">
+                              {spouseLabel(n)}: {formatCurrency(share.annualIncome)} ({share.percentage}%)
+                            </p>
+                            <p className="text-gray-600">
+                              Wages {formatCurrency(share.wages)}, other income {formatCurrency(share.otherIncome)}
+                            </p>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-amber-800 mb-3">
+                      No attached W-2 matched either spouse's name - enter how the income divides.
+                    </p>
+                  )}
+                  {split?.method === 'w2' && split.unmatchedW2Count > 0 && (
+                    <p className="text-xs text-amber-700 mb-3">
+                      {split.unmatchedW2Count} W-2{split.unmatchedW2Count === 1 ? '' : 's'} didn't match a spouse and{' '}
+                      {split.unmatchedW2Count === 1 ? 'was' : 'were'} split equally.
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1.5">{spouseLabel(1)} share (%)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={splitInputs[jointReturn.documentId] ?? ''}
+                        onChange={(e) => setSplitInputs({ ...splitInputs, [jointReturn.documentId]: e.target.value })}
+                        className="input-base w-32"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleJointSplit(jointReturn.documentId, percentage)}
+                      disabled={splittingId !== null || percentage === null || percentage < 0 || percentage > 100}
+                      className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {splittingId === jointReturn.documentId ? 'Splitting...' : 'Apply Split'}
+                    </button>
+                    {jointReturn.spouse1Percentage !== null && (
+                      <button
+                        type="button"
+                        onClick={() => handleJointSplit(jointReturn.documentId, null)}
+                        disabled={splittingId !== null}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                      >
+                        Use W-2s Instead
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </FieldSection>
+      )}
+
+      {/* Income */}
+      <FieldSection title={`Income - ${spouseLabel(activeSpouse)}`}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <FormField
+            label="Gross Monthly Income"
+            value={currentIncome.gross_monthly_income}
+            source={sourceFor('income', 'gross_monthly_income')}
+            lock={lockFor('income', 'gross_monthly_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('gross_monthly_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Gross Annual Income"
+            value={currentIncome.gross_annual_income}
+            source={sourceFor('income', 'gross_annual_income')}
+            lock={lockFor('income', 'gross_annual_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('gross_annual_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Wage Income"
+            value={currentIncome.wage_income}
+            source={sourceFor('income', 'wage_income')}
+            lock={lockFor('income', 'wage_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('wage_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Self-Employment Income"
+            value={currentIncome.self_employment_income}
+            source={sourceFor('income', 'self_employment_income')}
+            lock={lockFor('income', 'self_employment_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('self_employment_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Investment Income"
+            value={currentIncome.investment_income}
+            source={sourceFor('income', 'investment_income')}
+            lock={lockFor('income', 'investment_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('investment_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Rental Income"
+            value={currentIncome.rental_income}
+            source={sourceFor('income', 'rental_income')}
+            lock={lockFor('income', 'rental_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('rental_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Total Income (1040 Line 9)"
+            value={currentIncome.total_income}
+            source={sourceFor('income', 'total_income')}
+            lock={lockFor('income', 'total_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('total_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Adjusted Gross Income (1040 Line 11)"
+            value={currentIncome.adjusted_gross_income}
+            source={sourceFor('income', 'adjusted_gross_income')}
+            lock={lockFor('income', 'adjusted_gross_income')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('adjusted_gross_income', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Overtime"
+            value={currentIncome.overtime}
+            source={sourceFor('income', 'overtime')}
+            lock={lockFor('income', 'overtime')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('overtime', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Bonuses"
+            value={currentIncome.bonuses}
+            source={sourceFor('income', 'bonuses')}
+            lock={lockFor('income', 'bonuses')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('bonuses', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <SelectField
+            label="Income Type"
+            value={currentIncome.income_type}
+            source={sourceFor('income', 'income_type')}
+            lock={lockFor('income', 'income_type')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('income_type', val || null)}
+            options={[
+              { value: 'employment', label: 'Employment' },
+              { value: 'self_employed', label: 'Self-Employed' },
+              { value: 'benefits', label: 'Benefits' },
+              { value: 'mixed', label: 'Mixed' },
+            ]}
+          />
+          <SelectField
+            label="Pay Frequency"
+            value={currentIncome.pay_frequency}
+            source={sourceFor('income', 'pay_frequency')}
+            lock={lockFor('income', 'pay_frequency')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setIncomeField('pay_frequency', val || null)}
+            options={[
+              { value: 'weekly', label: 'Weekly' },
+              { value: 'biweekly', label: 'Biweekly' },
+              { value: 'semimonthly', label: 'Twice a Month' },
+              { value: 'monthly', label: 'Monthly' },
+              { value: 'yearly', label: 'Yearly' },
+            ]}
+          />
+        </div>
+      </FieldSection>
+
+      {/* Employers */}
+      <FieldSection title={`Employers - ${spouseLabel(activeSpouse)}`} action={<AddButton label="Add Employer" onClick={addEmployer} />}>
+        {employers[activeSpouse].length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-sm">No employers added yet. Click "Add Employer" to add one.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {employers[activeSpouse].map((employer, index) => (
+              <div key={index} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="flex items-start justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-900">Employer {index + 1}</h4>
+                  <button
+                    type="button"
+                    onClick={() => removeEmployer(index)}
+                    className="text-red-600 hover:text-red-700 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    label="Employer Name"
+                    value={employer.employer_name}
+                    source={rowSourceFor('employers', employer, 'employer_name')}
+                    lock={rowLockFor('employers', employer.id, 'employer_name')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateEmployer(index, 'employer_name', val)}
+                  />
+                  <FormField
+                    label="Income Amount"
+                    value={employer.income_amount}
+                    source={rowSourceFor('employers', employer, 'income_amount')}
+                    lock={rowLockFor('employers', employer.id, 'income_amount')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateEmployer(index, 'income_amount', parseAmount(val))}
+                    type="number"
+                    placeholder="0.00"
+                  />
+                  <SelectField
+                    label="Income Type"
+                    value={employer.income_type}
+                    source={rowSourceFor('employers', employer, 'income_type')}
+                    lock={rowLockFor('employers', employer.id, 'income_type')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateEmployer(index, 'income_type', val || null)}
+                    options={[
+                      { value: 'wage', label: 'Wage' },
+                      { value: 'self_employment', label: 'Self-Employment' },
+                      { value: 'other', label: 'Other' },
+                    ]}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </FieldSection>
+
+      {/* Monthly Expenses */}
+      <FieldSection title={`Monthly Expenses - ${spouseLabel(activeSpouse)}`}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <FormField
+            label="Housing (Rent/Mortgage)"
+            value={currentExpenses.monthly_housing_cost}
+            source={sourceFor('expenses', 'monthly_housing_cost')}
+            lock={lockFor('expenses', 'monthly_housing_cost')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_housing_cost', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Utilities"
+            value={currentExpenses.monthly_utilities}
+            source={sourceFor('expenses', 'monthly_utilities')}
+            lock={lockFor('expenses', 'monthly_utilities')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_utilities', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Childcare"
+            value={currentExpenses.monthly_childcare_cost}
+            source={sourceFor('expenses', 'monthly_childcare_cost')}
+            lock={lockFor('expenses', 'monthly_childcare_cost')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_childcare_cost', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Debt Payments"
+            value={currentExpenses.monthly_debt_payments}
+            source={sourceFor('expenses', 'monthly_debt_payments')}
+            lock={lockFor('expenses', 'monthly_debt_payments')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_debt_payments', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Transportation"
+            value={currentExpenses.monthly_transportation}
+            source={sourceFor('expenses', 'monthly_transportation')}
+            lock={lockFor('expenses', 'monthly_transportation')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_transportation', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Health Insurance"
+            value={currentExpenses.monthly_health_insurance}
+            source={sourceFor('expenses', 'monthly_health_insurance')}
+            lock={lockFor('expenses', 'monthly_health_insurance')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_health_insurance', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Other Insurance Premiums"
+            value={currentExpenses.monthly_insurance_premiums}
+            source={sourceFor('expenses', 'monthly_insurance_premiums')}
+            lock={lockFor('expenses', 'monthly_insurance_premiums')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_insurance_premiums', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+          <FormField
+            label="Payroll Deductions"
+            value={currentExpenses.monthly_payroll_deductions}
+            source={sourceFor('expenses', 'monthly_payroll_deductions')}
+            lock={lockFor('expenses', 'monthly_payroll_deductions')}
+            onUnlock={handleUnlock}
+            onChange={(val) => setExpenseField('monthly_payroll_deductions', parseAmount(val))}
+            type="number"
+            placeholder="0.00"
+          />
+        </div>
+      </FieldSection>
+
+      {/* Assets */}
+      <FieldSection title={`Assets (${formatCurrency(totalAssets)})`} action={<AddButton label="Add Asset" onClick={addAsset} />}>
+        {assets.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-sm">No assets added yet. Click "Add Asset" to add one.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {assets.map((asset, index) => (
+              <div key={index} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="flex items-start justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-900">Asset {index + 1}</h4>
+                  <button
+                    type="button"
+                    onClick={() => setAssets(assets.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-700 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <SelectField
+                    label="Asset Type"
+                    value={asset.asset_type}
+                    source={rowSourceFor('assets', asset, 'asset_type')}
+                    lock={rowLockFor('assets', asset.id, 'asset_type')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateAsset(index, 'asset_type', val || 'other')}
+                    options={[
+                      { value: 'bank_account', label: 'Bank Account' },
+                      { value: 'vehicle', label: 'Vehicle' },
+                      { value: 'home', label: 'Home' },
+                      { value: 'retirement', label: 'Retirement' },
+                      { value: 'investment', label: 'Investment' },
+                      { value: 'other', label: 'Other' },
+                    ]}
+                  />
+                  <FormField
+                    label="Description"
+                    value={asset.asset_name}
+                    source={rowSourceFor('assets', asset, 'asset_name')}
+                    lock={rowLockFor('assets', asset.id, 'asset_name')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateAsset(index, 'asset_name', val || null)}
+                    placeholder="e.g. 2019 Honda Accord"
+                  />
+                  <FormField
+                    label="Approximate Value"
+                    value={asset.approximate_value}
+                    source={rowSourceFor('assets', asset, 'approximate_value')}
+                    lock={rowLockFor('assets', asset.id, 'approximate_value')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateAsset(index, 'approximate_value', parseAmount(val))}
+                    type="number"
+                    placeholder="0.00"
+                  />
+                  <SelectField
+                    label="Ownership"
+                    value={asset.ownership_type}
+                    source={rowSourceFor('assets', asset, 'ownership_type')}
+                    lock={rowLockFor('assets', asset.id, 'ownership_type')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateAsset(index, 'ownership_type', val || null)}
+                    options={[
+                      { value: 'joint', label: 'Joint (marital)' },
+                      { value: 'separate', label: 'Separate' },
+                    ]}
+                  />
+                  {(asset.asset_type === 'bank_account' || asset.asset_type === 'retirement') && (
+                    <>
+                      <FormField
+                        label={asset.asset_type === 'retirement' ? 'Plan Administrator' : 'Bank Name'}
+                        value={asset.bank_name}
+                        source={rowSourceFor('assets', asset, 'bank_name')}
+                        lock={rowLockFor('assets', asset.id, 'bank_name')}
+                        onUnlock={handleUnlock}
+                        onChange={(val) => updateAsset(index, 'bank_name', val || null)}
+                      />
+                      <FormField
+                        label="Account Number (Last 4)"
+                        value={asset.account_number}
+                        source={rowSourceFor('assets', asset, 'account_number')}
+                        lock={rowLockFor('assets', asset.id, 'account_number')}
+                        onUnlock={handleUnlock}
+                        onChange={(val) => updateAsset(index, 'account_number', val || null)}
+                        placeholder="1234"
+                      />
+                    </>
+                  )}
+                  {asset.asset_type === 'home' && (
+                    <FormField
+                      label="Property Address"
+                      value={asset.property_address}
+                      source={rowSourceFor('assets', asset, 'property_address')}
+                      lock={rowLockFor('assets', asset.id, 'property_address')}
+                      onUnlock={handleUnlock}
+                      onChange={(val) => updateAsset(index, 'property_address', val || null)}
+                    />
+                  )}
+                  {asset.asset_type === 'vehicle' && (
+                    <FormField
+                      label="VIN"
+                      value={asset.vin}
+                      source={rowSourceFor('assets', asset, 'vin')}
+                      lock={rowLockFor('assets', asset.id, 'vin')}
+                      onUnlock={handleUnlock}
+                      onChange={(val) => updateAsset(index, 'vin', val || null)}
+                    />
+                  )}
+                </div>
+                <EquityNote equity={getAssetEquity(asset, debts)} />
+                {asset.asset_type === 'retirement' && asset.balance_as_of && (
+                  <p className="text-xs text-gray-600 mt-3">
+                    Balance as of {asset.balance_as_of}.
+                    {asset.marital_portion != null &&
+                      asset.separate_portion != null &&
+                      ` Marital portion ${formatCurrency(asset.marital_portion)}, separate portion ${formatCurrency(asset.separate_portion)}.`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </FieldSection>
+
+      {/* Debts */}
+      <FieldSection title={`Debts (${formatCurrency(totalDebts)})`} action={<AddButton label="Add Debt" onClick={addDebt} />}>
+        {debts.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-sm">No debts added yet. Click "Add Debt" to add one.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {debts.map((debt, index) => (
+              <div key={index} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="flex items-start justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-900">Debt {index + 1}</h4>
+                  <button
+                    type="button"
+                    onClick={() => setDebts(debts.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-700 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <SelectField
+                    label="Debt Type"
+                    value={debt.debt_type}
+                    source={rowSourceFor('debts', debt, 'debt_type')}
+                    lock={rowLockFor('debts', debt.id, 'debt_type')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateDebt(index, 'debt_type', val || 'other')}
+                    options={[
+                      { value: 'credit_card', label: 'Credit Card' },
+                      { value: 'mortgage', label: 'Mortgage' },
+                      { value: 'loan', label: 'Loan' },
+                      { value: 'student_loan', label: 'Student Loan' },
+                      { value: 'other', label: 'Other' },
+                    ]}
+                  />
+                  <FormField
+                    label="Creditor"
+                    value={debt.creditor_name}
+                    source={rowSourceFor('debts', debt, 'creditor_name')}
+                    lock={rowLockFor('debts', debt.id, 'creditor_name')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateDebt(index, 'creditor_name', val || null)}
+                  />
+                  <FormField
+                    label="Approximate Balance"
+                    value={debt.approximate_balance}
+                    source={rowSourceFor('debts', debt, 'approximate_balance')}
+                    lock={rowLockFor('debts', debt.id, 'approximate_balance')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateDebt(index, 'approximate_balance', parseAmount(val))}
+                    type="number"
+                    placeholder="0.00"
+                  />
+                  <FormField
+                    label="Monthly Payment"
+                    value={debt.monthly_payment}
+                    source={rowSourceFor('debts', debt, 'monthly_payment')}
+                    lock={rowLockFor('debts', debt.id, 'monthly_payment')}
+                    onUnlock={handleUnlock}
+                    onChange={(val) => updateDebt(index, 'monthly_payment', parseAmount(val))}
+                    type="number"
+                    placeholder="0.00"
+                  />
+                  {(debt.debt_type === 'mortgage' || debt.debt_type === 'loan') && (
+                    <SelectField
+                      label="Secured By"
+                      value={debt.secured_asset_id}
+                      source={rowSourceFor('debts', debt, 'secured_asset_id')}
+                      lock={rowLockFor('debts', debt.id, 'secured_asset_id')}
+                      onUnlock={handleUnlock}
+                      onChange={(val) => updateDebt(index, 'secured_asset_id', val || null)}
+                      options={assets
+                        .filter((asset) => asset.id && (asset.asset_type === 'home' || asset.asset_type === 'vehicle'))
+                        .map((asset) => ({ value: asset.id, label: asset.asset_name || (asset.asset_type === 'home' ? 'Home' : 'Vehicle') }))}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </FieldSection>
+
+      {/* Save Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button
+          type="button"
+          onClick={loadData}
+          className="btn-secondary"
+          disabled={saving}
+        >
+          Reset Changes
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary min-w-[120px]"
+        >
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Save & Mark Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,28 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '../../../hooks/useAuth'
-import { getFormData, updatePersonalInfo, updateSpouseInfo, updateChildren, updateMarriageInfo } from '../../../services/formDataService'
-import type { NormalizedFormData, PersonalInfoRow, SpouseInfoRow, ChildRow, MarriageInfoRow } from '../../../types'
+import {
+  getFormData,
+  updatePersonalInfo,
+  updateSpouseInfo,
+  updateChildren,
+  updateMarriageInfo,
+  reAggregateFormDataFromDocuments,
+} from '../../../services/formDataService'
+import { getFieldProvenance, findProvenance } from '../../../services/provenanceService'
+import { getFieldLocks, findFieldLock, lockEditedFields, unlockField } from '../../../services/fieldLockService'
+import FieldSource from '../../../components/FieldSource'
+import FieldLockNotice from '../../../components/FieldLockNotice'
+import type {
+  NormalizedFormData,
+  PersonalInfoRow,
+  SpouseInfoRow,
+  ChildRow,
+  MarriageInfoRow,
+  FieldProvenanceRow,
+  FieldLockRow,
+} from '../../../types'
+
+type LockableTable = 'personal_info' | 'spouse_info' | 'marriage_info'
 
 export default function PersonalInformationModule() {
   const { user } = useAuth()
@@ -16,6 +37,8 @@ export default function PersonalInformationModule() {
   const [spouseInfo, setSpouseInfo] = useState<Partial<SpouseInfoRow>>({})
   const [children, setChildren] = useState<ChildRow[]>([])
   const [marriageInfo, setMarriageInfo] = useState<Partial<MarriageInfoRow>>({})
+  const [provenance, setProvenance] = useState<FieldProvenanceRow[]>([])
+  const [locks, setLocks] = useState<FieldLockRow[]>([])
 
   useEffect(() => {
     if (user) {
@@ -42,6 +65,9 @@ export default function PersonalInformationModule() {
       setSpouseInfo(data.spouse_info || {})
       setChildren(data.children || [])
       setMarriageInfo(data.marriage_info || {})
+      // Provenance is optional - older databases may not have the table yet
+      setProvenance(await getFieldProvenance(user.id).catch(() => []))
+      setLocks(await getFieldLocks(user.id).catch(() => []))
     } catch (err: any) {
       console.error('❌ Error loading personal information:', err)
       setError(err.message || 'Failed to load personal information')
@@ -65,6 +91,13 @@ export default function PersonalInformationModule() {
         marriageInfo && Object.keys(marriageInfo).length > 0 ? updateMarriageInfo(user.id, marriageInfo) : Promise.resolve(),
       ])
 
+      // Lock the fields the user changed so re-aggregating documents doesn't overwrite them
+      await Promise.all([
+        lockEditedFields(user.id, 'personal_info', 1, formData?.personal_info, personalInfo),
+        lockEditedFields(user.id, 'spouse_info', 2, formData?.spouse_info, spouseInfo),
+        lockEditedFields(user.id, 'marriage_info', 1, formData?.marriage_info, marriageInfo),
+      ]).catch((lockError) => console.warn('⚠️ Could not lock edited fields:', lockError))
+
       setSuccess(true)
       setTimeout(() => setSuccess(false), 3000)
       await loadData() // Reload to get updated data
@@ -76,6 +109,24 @@ export default function PersonalInformationModule() {
     }
   }
 
+  // Drop the user's value and rebuild the field from documents
+  const handleUnlock = async (lock: FieldLockRow) => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      await unlockField(user.id, lock.table_name, lock.column_name, lock.spouse_number)
+      await reAggregateFormDataFromDocuments(user.id)
+      await loadData()
+    } catch (err: any) {
+      console.error('Error restoring document value:', err)
+      setError(err.message || 'Failed to restore the document value')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const addChild = () => {
     setChildren([...children, { id: '', user_id: '', full_name: '', date_of_birth: null, primary_residence_parent: null, legal_custody_type: null, physical_custody_type: null, overnights_with_spouse1: null, overnights_with_spouse2: null, last_updated: '' }])
   }
@@ -90,6 +141,23 @@ export default function PersonalInformationModule() {
     setChildren(updated)
   }
 
+  const lockFor = (table: LockableTable, column: string) => findFieldLock(locks, table, column, table === 'spouse_info' ? 2 : 1)
+
+  // Source document for a field, hidden once the user changes the value
+  const sourceFor = (table: LockableTable, column: string) => {
+    const current = { personal_info: personalInfo, spouse_info: spouseInfo, marriage_info: marriageInfo }[table] as Record<string, any>
+    const loaded = formData?.[table] as Record<string, any> | null | undefined
+    if (!loaded || loaded[column] !== current[column] || lockFor(table, column)) return undefined
+    return findProvenance(provenance, table, column, table === 'spouse_info' ? 2 : 1)
+  }
+
+  // Source document for a child's name or birth date, hidden once the user changes the value
+  const childSourceFor = (child: ChildRow, column: 'full_name' | 'date_of_birth') => {
+    const loaded = formData?.children.find((old) => old.id === child.id)
+    if (!loaded || loaded[column] !== child[column]) return undefined
+    return findProvenance(provenance, 'children', column, 1, child.id)
+  }
+
   const isFieldEmpty = (value: any): boolean => {
     return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
   }
@@ -112,6 +180,8 @@ export default function PersonalInformationModule() {
     type = 'text',
     placeholder,
     required = false,
+    source,
+    lock,
   }: {
     label: string
     value: any
@@ -119,6 +189,8 @@ export default function PersonalInformationModule() {
     type?: string
     placeholder?: string
     required?: boolean
+    source?: FieldProvenanceRow
+    lock?: FieldLockRow
   }) => {
     const isEmpty = isFieldEmpty(value)
     return (
@@ -149,6 +221,8 @@ export default function PersonalInformationModule() {
             className={`input-base ${isEmpty ? 'border-amber-200 bg-amber-50/30' : ''}`}
           />
         )}
+        <FieldSource source={source} />
+        <FieldLockNotice lock={lock} onUnlock={handleUnlock} disabled={saving} />
       </div>
     )
   }
@@ -203,29 +277,39 @@ export default function PersonalInformationModule() {
         <FormField
           label="First Name"
           value={personalInfo.first_name}
+          source={sourceFor('personal_info', 'first_name')}
+          lock={lockFor('personal_info', 'first_name')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, first_name: val || null })}
           required
         />
         <FormField
           label="Middle Name"
           value={personalInfo.middle_name}
+          source={sourceFor('personal_info', 'middle_name')}
+          lock={lockFor('personal_info', 'middle_name')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, middle_name: val || null })}
         />
         <FormField
           label="Last Name"
           value={personalInfo.last_name}
+          source={sourceFor('personal_info', 'last_name')}
+          lock={lockFor('personal_info', 'last_name')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, last_name: val || null })}
           required
         />
         <FormField
           label="Date of Birth"
           value={personalInfo.date_of_birth || ''}
+          source={sourceFor('personal_info', 'date_of_birth')}
+          lock={lockFor('personal_info', 'date_of_birth')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, date_of_birth: val || null })}
           type="date"
         />
         <FormField
           label="SSN (Last 4 digits)"
           value={personalInfo.ssn_last_4 || ''}
+          source={sourceFor('personal_info', 'ssn_last_4')}
+          lock={lockFor('personal_info', 'ssn_last_4')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, ssn_last_4: val || null })}
           placeholder="1234"
           type="text"
@@ -233,12 +317,16 @@ export default function PersonalInformationModule() {
         <FormField
           label="Email"
           value={personalInfo.email || ''}
+          source={sourceFor('personal_info', 'email')}
+          lock={lockFor('personal_info', 'email')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, email: val || null })}
           type="email"
         />
         <FormField
           label="Phone"
           value={personalInfo.phone || ''}
+          source={sourceFor('personal_info', 'phone')}
+          lock={lockFor('personal_info', 'phone')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, phone: val || null })}
           type="tel"
           placeholder="(555) 123-4567"
@@ -263,6 +351,8 @@ export default function PersonalInformationModule() {
             <option value="married_separate">Married Filing Separately</option>
             <option value="head_of_household">Head of Household</option>
           </select>
+          <FieldSource source={sourceFor('personal_info', 'filing_status')} />
+          <FieldLockNotice lock={lockFor('personal_info', 'filing_status')} onUnlock={handleUnlock} disabled={saving} />
         </div>
       </FieldSection>
 
@@ -271,28 +361,38 @@ export default function PersonalInformationModule() {
         <FormField
           label="Street Address"
           value={personalInfo.address_street || ''}
+          source={sourceFor('personal_info', 'address_street')}
+          lock={lockFor('personal_info', 'address_street')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, address_street: val || null })}
         />
         <FormField
           label="City"
           value={personalInfo.address_city || ''}
+          source={sourceFor('personal_info', 'address_city')}
+          lock={lockFor('personal_info', 'address_city')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, address_city: val || null })}
         />
         <FormField
           label="State"
           value={personalInfo.address_state || ''}
+          source={sourceFor('personal_info', 'address_state')}
+          lock={lockFor('personal_info', 'address_state')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, address_state: val || null })}
           placeholder="UT"
         />
         <FormField
           label="ZIP Code"
           value={personalInfo.address_zip_code || ''}
+          source={sourceFor('personal_info', 'address_zip_code')}
+          lock={lockFor('personal_info', 'address_zip_code')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, address_zip_code: val || null })}
           placeholder="84101"
         />
         <FormField
           label="Utah Residency (Years)"
           value={personalInfo.utah_residency_years?.toString() || ''}
+          source={sourceFor('personal_info', 'utah_residency_years')}
+          lock={lockFor('personal_info', 'utah_residency_years')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, utah_residency_years: val ? parseInt(val) : null })}
           type="number"
           placeholder="0"
@@ -304,11 +404,15 @@ export default function PersonalInformationModule() {
         <FormField
           label="License Number"
           value={personalInfo.driver_license_number || ''}
+          source={sourceFor('personal_info', 'driver_license_number')}
+          lock={lockFor('personal_info', 'driver_license_number')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, driver_license_number: val || null })}
         />
         <FormField
           label="License State"
           value={personalInfo.driver_license_state || ''}
+          source={sourceFor('personal_info', 'driver_license_state')}
+          lock={lockFor('personal_info', 'driver_license_state')}
           onChange={(val) => setPersonalInfo({ ...personalInfo, driver_license_state: val || null })}
           placeholder="UT"
         />
@@ -319,27 +423,37 @@ export default function PersonalInformationModule() {
         <FormField
           label="Spouse First Name"
           value={spouseInfo.first_name || ''}
+          source={sourceFor('spouse_info', 'first_name')}
+          lock={lockFor('spouse_info', 'first_name')}
           onChange={(val) => setSpouseInfo({ ...spouseInfo, first_name: val || null })}
         />
         <FormField
           label="Spouse Middle Name"
           value={spouseInfo.middle_name || ''}
+          source={sourceFor('spouse_info', 'middle_name')}
+          lock={lockFor('spouse_info', 'middle_name')}
           onChange={(val) => setSpouseInfo({ ...spouseInfo, middle_name: val || null })}
         />
         <FormField
           label="Spouse Last Name"
           value={spouseInfo.last_name || ''}
+          source={sourceFor('spouse_info', 'last_name')}
+          lock={lockFor('spouse_info', 'last_name')}
           onChange={(val) => setSpouseInfo({ ...spouseInfo, last_name: val || null })}
         />
         <FormField
           label="Spouse Date of Birth"
           value={spouseInfo.date_of_birth || ''}
+          source={sourceFor('spouse_info', 'date_of_birth')}
+          lock={lockFor('spouse_info', 'date_of_birth')}
           onChange={(val) => setSpouseInfo({ ...spouseInfo, date_of_birth: val || null })}
           type="date"
         />
         <FormField
           label="Spouse SSN (Last 4)"
           value={spouseInfo.ssn_last_4 || ''}
+          source={sourceFor('spouse_info', 'ssn_last_4')}
+          lock={lockFor('spouse_info', 'ssn_last_4')}
           onChange={(val) => setSpouseInfo({ ...spouseInfo, ssn_last_4: val || null })}
           placeholder="1234"
         />
@@ -350,12 +464,16 @@ export default function PersonalInformationModule() {
         <FormField
           label="Marriage Date"
           value={marriageInfo.marriage_date || ''}
+          source={sourceFor('marriage_info', 'marriage_date')}
+          lock={lockFor('marriage_info', 'marriage_date')}
           onChange={(val) => setMarriageInfo({ ...marriageInfo, marriage_date: val || null })}
           type="date"
         />
         <FormField
           label="Marriage Place (City, State)"
           value={marriageInfo.marriage_place || ''}
+          source={sourceFor('marriage_info', 'marriage_place')}
+          lock={lockFor('marriage_info', 'marriage_place')}
           onChange={(val) => setMarriageInfo({ ...marriageInfo, marriage_place: val || null })}
           placeholder="Salt Lake City, UT"
         />
@@ -409,12 +527,14 @@ export default function PersonalInformationModule() {
                     <FormField
                       label="Full Name"
                       value={child.full_name || ''}
+                      source={childSourceFor(child, 'full_name')}
                       onChange={(val) => updateChild(index, 'full_name', val || null)}
                       required
                     />
                     <FormField
                       label="Date of Birth"
                       value={child.date_of_birth || ''}
+                      source={childSourceFor(child, 'date_of_birth')}
                       onChange={(val) => updateChild(index, 'date_of_birth', val || null)}
                       type="date"
                     />
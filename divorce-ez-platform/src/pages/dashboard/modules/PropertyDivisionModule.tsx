@@ -0,0 +1,341 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import { getFormData, getPropertyAllocations, updatePropertyAllocations } from '../../../services/formDataService'
+import { calculateDivision } from '../../../services/propertyDivisionService'
+import type { DivisionItem } from '../../../services/propertyDivisionService'
+import type { NormalizedFormData, PropertyAllocationRow, AllocationAssignee } from '../../../types'
+
+interface PropertyDivisionModuleProps {
+  onComplete?: () => void
+}
+
+interface AllocationDraft {
+  assigned_to: AllocationAssignee
+  spouse1_percentage: number | null
+}
+
+const formatCurrency = (value: number): string => {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+const itemKey = (kind: 'asset' | 'debt', id: string) => `${kind}:${id}`
+
+const SummaryTile = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <div className="text-xs text-gray-500 uppercase tracking-wide">{label}</div>
+    <div className="text-xl font-semibold text-gray-900">{value}</div>
+    {hint && <div className="text-xs text-gray-500 mt-1">{hint}</div>}
+  </div>
+)
+
+export default function PropertyDivisionModule({ onComplete }: PropertyDivisionModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [allocations, setAllocations] = useState<Record<string, AllocationDraft>>({})
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const [data, saved] = await Promise.all([getFormData(user.id), getPropertyAllocations(user.id)])
+      setFormData(data)
+      const drafts: Record<string, AllocationDraft> = {}
+      saved.forEach((allocation) => {
+        const key = allocation.asset_id ? itemKey('asset', allocation.asset_id) : itemKey('debt', allocation.debt_id as string)
+        drafts[key] = { assigned_to: allocation.assigned_to, spouse1_percentage: allocation.spouse1_percentage }
+      })
+      setAllocations(drafts)
+    } catch (err: any) {
+      console.error('❌ Error loading property division:', err)
+      setError(err.message || 'Failed to load property division')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Drafts converted to allocation rows for the assets and debts that still exist
+  const allocationRows = useMemo((): Omit<PropertyAllocationRow, 'id' | 'user_id' | 'last_updated'>[] => {
+    if (!formData) return []
+    return [
+      ...formData.assets
+        .filter((asset) => allocations[itemKey('asset', asset.id)])
+        .map((asset) => ({ asset_id: asset.id, debt_id: null, ...allocations[itemKey('asset', asset.id)] })),
+      ...formData.debts
+        .filter((debt) => allocations[itemKey('debt', debt.id)])
+        .map((debt) => ({ asset_id: null, debt_id: debt.id, ...allocations[itemKey('debt', debt.id)] })),
+    ]
+  }, [formData, allocations])
+
+  const result = useMemo(
+    () =>
+      calculateDivision(
+        formData?.assets || [],
+        formData?.debts || [],
+        allocationRows.map((row) => ({ ...row, id: '', user_id: '', last_updated: '' }))
+      ),
+    [formData, allocationRows]
+  )
+
+  const handleSave = async () => {
+    if (!user) return
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      await updatePropertyAllocations(user.id, allocationRows)
+
+      await updateModule('module_property_division', true)
+      onComplete?.()
+
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+      await loadData() // Reload to get updated data
+    } catch (err: any) {
+      console.error('Error saving property division:', err)
+      setError(err.message || 'Failed to save property division')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setAssignee = (item: DivisionItem, value: string) => {
+    const key = itemKey(item.kind, item.id)
+    if (!value) {
+      const { [key]: _removed, ...rest } = allocations
+      setAllocations(rest)
+      return
+    }
+    const assignedTo = value as AllocationAssignee
+    setAllocations({
+      ...allocations,
+      [key]: { assigned_to: assignedTo, spouse1_percentage: assignedTo === 'split' ? allocations[key]?.spouse1_percentage ?? 50 : null },
+    })
+  }
+
+  const setSplitPercentage = (item: DivisionItem, value: string) => {
+    const key = itemKey(item.kind, item.id)
+    const parsed = parseFloat(value)
+    setAllocations({
+      ...allocations,
+      [key]: { assigned_to: 'split', spouse1_percentage: isNaN(parsed) ? null : Math.min(Math.max(parsed, 0), 100) },
+    })
+  }
+
+  const spouse2Label = [formData?.spouse_info?.first_name, formData?.spouse_info?.last_name].filter(Boolean).join(' ') || 'Spouse'
+
+  const renderItems = (kind: 'asset' | 'debt') => {
+    const items = result.items.filter((item) => item.kind === kind)
+    if (items.length === 0) {
+      return (
+        <p className="text-sm text-gray-500">
+          No {kind === 'asset' ? 'assets' : 'debts'} yet. Add them in the Financial Information module.
+        </p>
+      )
+    }
+    return (
+      <div className="space-y-3">
+        {items.map((item) => {
+          const draft = allocations[itemKey(item.kind, item.id)]
+          return (
+            <div key={item.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center p-3 border border-gray-200 rounded-lg">
+              <div className="md:col-span-4">
+                <div className="text-sm font-medium text-gray-900">{item.label}</div>
+                <div className="text-xs text-gray-500">
+                  {formatCurrency(item.amount)}
+                  {item.separatePortion !== null &&
+                    ` marital portion · ${formatCurrency(item.separatePortion)} separate portion (excluded from equalization)`}
+                  {item.equity !== null && ` · ${formatCurrency(item.equity)} equity after linked loans`}
+                  {item.securedBy && ` · Secured by ${item.securedBy}`}
+                  {item.isSeparate && ' · Separate property (excluded from equalization)'}
+                </div>
+              </div>
+              <div className="md:col-span-3">
+                <select
+                  value={draft?.assigned_to || ''}
+                  onChange={(e) => setAssignee(item, e.target.value)}
+                  className={`input-base ${!draft && !item.isSeparate ? 'border-amber-200 bg-amber-50/30' : ''}`}
+                >
+                  <option value="">Not assigned</option>
+                  <option value="spouse1">You</option>
+                  <option value="spouse2">{spouse2Label}</option>
+                  <option value="split">Split</option>
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                {draft?.assigned_to === 'split' && (
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={draft.spouse1_percentage ?? ''}
+                      onChange={(e) => setSplitPercentage(item, e.target.value)}
+                      className="input-base"
+                      aria-label="Your percentage"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                  </div>
+                )}
+              </div>
+              <div className="md:col-span-3 text-xs text-gray-600 text-right">
+                {item.assignedTo && (
+                  <>
+                    You: {formatCurrency(item.spouse1Amount)}
+                    <br />
+                    {spouse2Label}: {formatCurrency(item.spouse2Amount)}
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading property division...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Property Division</h1>
+        <p className="text-gray-600">
+          Propose who keeps each asset and who pays each debt. Marital property is usually divided equally; an
+          equalization payment evens out the difference.
+        </p>
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Property division saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* Assets */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Assets</h3>
+        </div>
+        <div className="p-6">{renderItems('asset')}</div>
+      </div>
+
+      {/* Debts */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Debts</h3>
+        </div>
+        <div className="p-6">{renderItems('debt')}</div>
+      </div>
+
+      {/* Totals */}
+      <div className="card mb-6">
+        <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+          <h3 className="text-lg font-semibold text-gray-900">Equalization</h3>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <SummaryTile
+              label="You"
+              value={formatCurrency(result.spouse1Net)}
+              hint={`${formatCurrency(result.spouse1Assets)} assets − ${formatCurrency(result.spouse1Debts)} debts`}
+            />
+            <SummaryTile
+              label={spouse2Label}
+              value={formatCurrency(result.spouse2Net)}
+              hint={`${formatCurrency(result.spouse2Assets)} assets − ${formatCurrency(result.spouse2Debts)} debts`}
+            />
+            <SummaryTile label="Marital Net Estate" value={formatCurrency(result.maritalNetEstate)} />
+          </div>
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-900">
+              {result.equalizationPayorSpouseNumber === null ? (
+                <strong>The proposed division is equal; no equalization payment is needed.</strong>
+              ) : (
+                <>
+                  <strong>{result.equalizationPayorSpouseNumber === 1 ? 'You pay' : `${spouse2Label} pays`}</strong> an
+                  equalization payment of <strong>{formatCurrency(result.equalizationPayment)}</strong>.
+                </>
+              )}
+            </p>
+          </div>
+
+          {result.unallocatedCount > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm text-amber-800">
+                {result.unallocatedCount} {result.unallocatedCount === 1 ? 'item is' : 'items are'} not assigned yet and
+                {result.unallocatedCount === 1 ? ' is' : ' are'} left out of the totals.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Save Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button
+          type="button"
+          onClick={loadData}
+          className="btn-secondary"
+          disabled={saving}
+        >
+          Reset Changes
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary min-w-[120px]"
+        >
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Save & Mark Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
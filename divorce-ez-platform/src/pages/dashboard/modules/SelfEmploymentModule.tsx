@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../../../hooks/useAuth'
+import { useProgress } from '../../../hooks/useProgress'
+import { getFormData, getSelfEmploymentDocuments, setSelfEmploymentAddBacks } from '../../../services/formDataService'
+import type { SelfEmploymentDocument } from '../../../services/formDataService'
+import {
+  SUGGESTED_ADD_BACKS,
+  computeAdjustedSelfEmploymentIncome,
+  getBusinessExpenseLabel,
+} from '../../../services/selfEmploymentService'
+import type { SelfEmploymentAddBacks } from '../../../services/selfEmploymentService'
+import type { BusinessExpenseCategory, NormalizedFormData } from '../../../types'
+
+interface SelfEmploymentModuleProps {
+  onComplete?: () => void
+}
+
+const formatCurrency = (value: number | null): string => {
+  if (value === null) return '—'
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+const parseAmount = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const amount = Number(value)
+  return isNaN(amount) ? null : amount
+}
+
+export default function SelfEmploymentModule({ onComplete }: SelfEmploymentModuleProps) {
+  const { user } = useAuth()
+  const { updateModule } = useProgress()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [success, setSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState<NormalizedFormData | null>(null)
+  const [documents, setDocuments] = useState<SelfEmploymentDocument[]>([])
+  // Add-backs being edited, per document - personal expenses kept as typed
+  const [categories, setCategories] = useState<Record<string, BusinessExpenseCategory[]>>({})
+  const [personalInputs, setPersonalInputs] = useState<Record<string, string>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const [data, statements] = await Promise.all([getFormData(user.id), getSelfEmploymentDocuments(user.id)])
+      setFormData(data)
+      setDocuments(statements)
+      setCategories(Object.fromEntries(statements.map((doc) => [doc.documentId, doc.addBacks?.categories || []])))
+      setPersonalInputs(
+        Object.fromEntries(statements.map((doc) => [doc.documentId, doc.addBacks?.personalExpenses?.toString() ?? '']))
+      )
+    } catch (err: any) {
+      console.error('❌ Error loading self-employment statements:', err)
+      setError(err.message || 'Failed to load self-employment statements')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const spouseLabel = (n: 1 | 2): string => {
+    const person = n === 1 ? formData?.personal_info : formData?.spouse_info
+    return [person?.first_name, person?.last_name].filter(Boolean).join(' ') || `Spouse ${n}`
+  }
+
+  const addBacksFor = (documentId: string): SelfEmploymentAddBacks => ({
+    categories: categories[documentId] || [],
+    personalExpenses: parseAmount(personalInputs[documentId] ?? ''),
+  })
+
+  const toggleCategory = (documentId: string, category: BusinessExpenseCategory) => {
+    const current = categories[documentId] || []
+    setCategories({
+      ...categories,
+      [documentId]: current.includes(category) ? current.filter((c) => c !== category) : [...current, category],
+    })
+  }
+
+  const handleSaveAddBacks = async (documentId: string, addBacks: SelfEmploymentAddBacks | null) => {
+    if (!user) return
+    setSavingId(documentId)
+    setError(null)
+    try {
+      await setSelfEmploymentAddBacks(user.id, documentId, addBacks)
+      await loadData()
+    } catch (err: any) {
+      console.error('Error saving add-backs:', err)
+      setError(err.message || 'Failed to save add-backs')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleComplete = async () => {
+    setSaving(true)
+    setError(null)
+    setSuccess(false)
+    try {
+      await updateModule('module_self_employment', true)
+      onComplete?.()
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    } catch (err: any) {
+      console.error('Error saving progress:', err)
+      setError(err.message || 'Failed to save progress')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex flex-col items-center gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-gray-200 border-t-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading business statements...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2 tracking-tight">Self-Employment Income</h1>
+        <p className="text-gray-600">
+          Child support and alimony use self-employment income after ordinary business expenses. Expenses that don't
+          reduce the money available to you - depreciation, or personal costs paid through the business - are added
+          back to the net profit.
+        </p>
+        {documents.length === 0 && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">
+              <strong>No business statements found.</strong> Upload a profit &amp; loss statement or a tax return with
+              Schedule C.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-green-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-green-800">Progress saved successfully!</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
+          <svg className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+          </svg>
+          <span className="text-sm font-medium text-red-800">{error}</span>
+        </div>
+      )}
+
+      {/* One card per P&L or Schedule C */}
+      {documents.map((doc) => {
+        const { statement } = doc
+        const addBacks = addBacksFor(doc.documentId)
+        const adjusted = computeAdjustedSelfEmploymentIncome(statement, addBacks)
+        const personalExpenses = addBacks.personalExpenses
+        const title = statement.source === 'scheduleC' ? `${doc.taxYear ? `${doc.taxYear} ` : ''}Schedule C` : 'Profit & Loss'
+        return (
+          <div key={doc.documentId} className="card mb-6">
+            <div className="px-6 py-4 bg-gradient-to-r from-gray-50 to-white border-b border-gray-200/60">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {title}
+                {statement.businessName && <span className="ml-2 font-normal text-gray-700">{statement.businessName}</span>}
+              </h3>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {doc.fileName} · {spouseLabel(doc.spouseNumber)}
+                {statement.periodStart && statement.periodEnd && ` · ${statement.periodStart} to ${statement.periodEnd}`}
+              </p>
+            </div>
+            <div className="p-6">
+              {statement.periodUnknown && (
+                <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm text-amber-800">
+                    <strong>No statement period found.</strong> The dates this P&L covers couldn't be read, so its net profit
+                    can't be converted to a yearly amount and isn't counted in your income. Enter your self-employment income
+                    in Financial Information.
+                  </p>
+                </div>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide">Gross receipts</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(statement.grossReceipts)}</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide">Expenses</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(statement.totalExpenses)}</div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide">Net profit</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(statement.netProfit)}</div>
+                  {statement.annualFactor !== 1 && (
+                    <div className="text-xs text-gray-500 mt-1">{formatCurrency(adjusted.annualNetProfit)} per year</div>
+                  )}
+                </div>
+                <div className="p-4 bg-blue-50 rounded-lg">
+                  <div className="text-xs text-blue-700 uppercase tracking-wide">Adjusted income</div>
+                  <div className="text-lg font-semibold text-blue-900">{formatCurrency(adjusted.adjustedMonthly)}/mo</div>
+                  <div className="text-xs text-blue-700 mt-1">{formatCurrency(adjusted.adjustedAnnual)} per year</div>
+                </div>
+              </div>
+
+              {statement.expenseLines.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-4">
+                  No expense lines were read from this statement - enter any personal expenses paid by the business below.
+                </p>
+              ) : (
+                <table className="w-full text-sm mb-4">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                      <th className="py-2 pr-4">Expense</th>
+                      <th className="py-2 pr-4">Category</th>
+                      <th className="py-2 pr-4 text-right">Amount</th>
+                      <th className="py-2 text-center">Add back</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.expenseLines.map((line, index) => (
+                      <tr key={`${line.category}-${index}`} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-900">{line.label}</td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {getBusinessExpenseLabel(line.category)}
+                          {SUGGESTED_ADD_BACKS.includes(line.category) && (
+                            <span className="ml-2 text-xs font-medium text-blue-700 bg-blue-50 px-2 py-0.5 rounded-full">
+                              Usually added back
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(line.amount)}</td>
+                        <td className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={addBacks.categories.includes(line.category)}
+                            onChange={() => toggleCategory(doc.documentId, line.category)}
+                            className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    Personal expenses paid by the business, per year ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={personalInputs[doc.documentId] ?? ''}
+                    onChange={(e) => setPersonalInputs({ ...personalInputs, [doc.documentId]: e.target.value })}
+                    className="input-base w-48"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleSaveAddBacks(doc.documentId, addBacks)}
+                  disabled={savingId !== null || (personalExpenses !== null && personalExpenses < 0)}
+                  className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {savingId === doc.documentId ? 'Saving...' : 'Save Add-Backs'}
+                </button>
+                {doc.addBacks && (
+                  <button
+                    type="button"
+                    onClick={() => handleSaveAddBacks(doc.documentId, null)}
+                    disabled={savingId !== null}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                  >
+                    Clear Add-Backs
+                  </button>
+                )}
+              </div>
+              {adjusted.annualAddBacks > 0 && (
+                <p className="text-xs text-gray-600 mt-3">
+                  {formatCurrency(adjusted.annualAddBacks)} per year added back to the net profit.
+                  {!doc.addBacks && ' Save the add-backs to use them in child support and alimony.'}
+                </p>
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      {/* Complete Button */}
+      <div className="flex justify-end gap-3 mb-8">
+        <button type="button" onClick={loadData} className="btn-secondary" disabled={saving}>
+          Refresh
+        </button>
+        <button type="button" onClick={handleComplete} disabled={saving} className="btn-primary min-w-[120px]">
+          {saving ? (
+            <span className="flex items-center gap-2">
+              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Saving...
+            </span>
+          ) : (
+            'Mark as Complete'
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import schedule from '../../data/utahChildSupportSchedule.json'
+import { calculateChildSupport, getChildSupportScheduleInfo, lookupBaseCombinedObligation } from '../childSupportService'
+import { resolveMyCaseField, type MyCaseFillData } from '../mycaseFieldMap'
+import type { ChildRow, ChildSupportCalculationRow, IncomeRow } from '../../types'
+
+const income = (spouse: 1 | 2, monthly: number) => ({ spouse_number: spouse, gross_monthly_income: monthly }) as IncomeRow
+const child = (spouse1: number, spouse2: number) =>
+  ({ overnights_with_spouse1: spouse1, overnights_with_spouse2: spouse2 }) as ChildRow
+
+describe('child support schedule', () => {
+  it('has ascending income rows with one obligation per number of children', () => {
+    schedule.schedule.forEach((row, index) => {
+      expect(row.obligations).toHaveLength(schedule.maxChildren)
+      if (index > 0) expect(row.combinedMonthlyIncome).toBeGreaterThan(schedule.schedule[index - 1].combinedMonthlyIncome)
+    })
+  })
+
+  it('reads table rows exactly and interpolates between them', () => {
+    const [first, second] = schedule.schedule
+    expect(lookupBaseCombinedObligation(first.combinedMonthlyIncome, 1)).toBe(first.obligations[0])
+    const midpoint = (first.combinedMonthlyIncome + second.combinedMonthlyIncome) / 2
+    expect(lookupBaseCombinedObligation(midpoint, 2)).toBeCloseTo((first.obligations[1] + second.obligations[1]) / 2, 2)
+  })
+})
+
+describe('calculateChildSupport', () => {
+  it('splits the obligation by income and has the non-custodial parent pay on the sole worksheet', () => {
+    const result = calculateChildSupport({ spouse1Income: income(1, 3000), spouse2Income: income(2, 1000), children: [child(365, 0)] })
+    expect(result.custodyWorksheet).toBe('sole')
+    expect(result.spouse1IncomePercentage).toBe(75)
+    expect(result.obligorSpouseNumber).toBe(2)
+    expect(result.monthlySupportAmount).toBe(result.spouse2Share)
+  })
+
+  it('uses the joint worksheet multiplier when both parents have enough overnights', () => {
+    const result = calculateChildSupport({ spouse1Income: income(1, 3000), spouse2Income: income(2, 3000), children: [child(200, 165)] })
+    expect(result.custodyWorksheet).toBe('joint')
+    expect(result.adjustedCombinedObligation).toBeCloseTo(
+      result.baseCombinedObligation * schedule.jointPhysicalCustody.obligationMultiplier,
+      2
+    )
+  })
+
+  it('flags worksheets calculated from the estimated schedule', () => {
+    const result = calculateChildSupport({ spouse1Income: income(1, 3000), spouse2Income: income(2, 1000), children: [child(365, 0)] })
+    expect(result.officialSchedule).toBe(schedule.official)
+    expect(getChildSupportScheduleInfo().official).toBe(schedule.official)
+    if (!schedule.official) expect(result.warnings[0]).toMatch(/estimate/i)
+  })
+})
+
+describe('worksheet autofill', () => {
+  const worksheet = { monthly_support_amount: 512.4, base_combined_obligation: 900 } as ChildSupportCalculationRow
+  const data = (scheduleOfficial: boolean) =>
+    ({
+      personal_info: null,
+      spouse_info: null,
+      children: [],
+      income: [],
+      employers: [],
+      expenses: [],
+      assets: [],
+      debts: [],
+      marriage_info: null,
+      court_info: null,
+      child_support: { ...worksheet, schedule_official: scheduleOfficial },
+    }) as unknown as MyCaseFillData
+
+  it('never fills MyCase from an estimated schedule', () => {
+    const field = { label: 'monthly child support amount' }
+    expect(resolveMyCaseField(field, data(false))).toMatchObject({ questionId: 'childSupport.monthlySupportAmount', value: null })
+    expect(resolveMyCaseField(field, data(true))?.value).toBe('512.40')
+  })
+})
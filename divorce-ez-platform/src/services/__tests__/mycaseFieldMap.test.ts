@@ -0,0 +1,182 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import petitionerPage from './fixtures/mycase/petitioner-information.html?raw'
+import respondentPage from './fixtures/mycase/respondent-information.html?raw'
+import incomeAndCourtPage from './fixtures/mycase/income-and-court.html?raw'
+import {
+  formatMyCaseValue,
+  getMyCaseFieldInfo,
+  getQuestionSpouse,
+  getQuestionText,
+  resolveMyCaseField,
+  type MyCaseFillData,
+} from '../mycaseFieldMap'
+
+const data = {
+  personal_info: {
+    first_name: 'Jordan',
+    middle_name: null,
+    last_name: 'Rivera',
+    date_of_birth: '1985-04-09',
+    phone: '1-801-555-0142',
+    ssn_last_4: '123-45-6789',
+    address_zip_code: '84101',
+  },
+  spouse_info: {
+    first_name: 'Casey',
+    last_name: 'Stone',
+    date_of_birth: '1987-11-23',
+    email: 'casey@example.com',
+  },
+  children: [],
+  income: [
+    { spouse_number: 1, gross_monthly_income: 5200 },
+    { spouse_number: 2, gross_monthly_income: '3,850.5' },
+  ],
+  employers: [],
+  expenses: [],
+  assets: [],
+  debts: [],
+  marriage_info: null,
+  court_info: { county: 'Salt Lake', has_domestic_violence: false },
+  child_support: null,
+  field_provenance: [
+    {
+      table_name: 'personal_info',
+      column_name: 'first_name',
+      spouse_number: 1,
+      document_label: 'Driver license',
+      extraction_method: 'barcode',
+    },
+  ],
+  field_locks: [{ table_name: 'spouse_info', column_name: 'last_name', spouse_number: 2 }],
+} as unknown as MyCaseFillData
+
+function loadPage(html: string) {
+  document.body.innerHTML = html
+}
+
+function resolveInput(selector: string) {
+  const input = document.querySelector<HTMLInputElement | HTMLSelectElement>(selector)
+  if (!input) throw new Error(`Fixture has no ${selector}`)
+  return resolveMyCaseField(getMyCaseFieldInfo(input), data)
+}
+
+describe('getMyCaseFieldInfo', () => {
+  beforeEach(() => loadPage(respondentPage))
+
+  it('collects loose question text and aria-labels from wrapping divs', () => {
+    const info = getMyCaseFieldInfo(document.querySelector('input[name="q_12_a"]')!)
+    expect(info.name).toBe('q_12_a')
+    expect(info.label).toBe('')
+    expect(info.parentText).toContain("what is the respondent's first name?")
+    expect(info.parentText).toContain('respondent')
+  })
+
+  it('reads a label wrapping the input', () => {
+    const info = getMyCaseFieldInfo(document.querySelector('input[name="q_13"]')!)
+    expect(info.label).toContain("respondent's date of birth")
+    expect(info.type).toBe('date')
+  })
+
+  it('reads aria-label and data-testid', () => {
+    const info = getMyCaseFieldInfo(document.querySelector('input[name="q_14"]')!)
+    expect(info.ariaLabel).toBe('respondent email address')
+    expect(info.dataTestId).toBe('respondent-email')
+  })
+})
+
+describe('resolveMyCaseField - petitioner page', () => {
+  beforeEach(() => loadPage(petitionerPage))
+
+  it('matches labelled inputs to the petitioner questions', () => {
+    expect(resolveInput('#petitioner_first_name')).toMatchObject({ questionId: 'person.firstName', spouse: 1, value: 'Jordan' })
+    expect(resolveInput('#petitioner_last_name')).toMatchObject({ questionId: 'person.lastName', spouse: 1, value: 'Rivera' })
+    expect(resolveInput('#petitioner_zip')?.value).toBe('84101')
+  })
+
+  it('formats dates, phone numbers and SSNs for MyCase text inputs', () => {
+    expect(resolveInput('#petitioner_dob')).toMatchObject({ questionId: 'person.dateOfBirth', value: '04/09/1985' })
+    expect(resolveInput('#petitioner_phone')?.value).toBe('(801) 555-0142')
+    expect(resolveInput('#petitioner_ssn')?.value).toBe('6789')
+  })
+
+  it('labels where a value came from', () => {
+    expect(resolveInput('#petitioner_first_name')?.sourceLabel).toBe('Driver license (barcode)')
+    expect(resolveInput('#petitioner_last_name')?.sourceLabel).toBe('Entered on the platform')
+  })
+})
+
+describe('resolveMyCaseField - respondent page', () => {
+  beforeEach(() => loadPage(respondentPage))
+
+  it("reads the respondent's values from spouse_info", () => {
+    expect(resolveInput('input[name="q_12_a"]')).toMatchObject({ questionId: 'person.firstName', spouse: 2, value: 'Casey' })
+    expect(resolveInput('input[name="q_14"]')).toMatchObject({ spouse: 2, value: 'casey@example.com' })
+  })
+
+  it('keeps ISO dates for native date inputs', () => {
+    expect(resolveInput('input[name="q_13"]')).toMatchObject({ spouse: 2, value: '1987-11-23' })
+  })
+
+  it('marks values the user edited', () => {
+    expect(resolveInput('input[name="q_12_b"]')).toMatchObject({ value: 'Stone', sourceLabel: 'Edited by you' })
+  })
+
+  it('is less confident in matches from surrounding text than from the label', () => {
+    const fromParentText = resolveInput('input[name="q_12_a"]')!
+    const fromLabel = resolveInput('input[name="q_13"]')!
+    expect(fromParentText.confidence).toBeLessThan(fromLabel.confidence)
+  })
+})
+
+describe('resolveMyCaseField - income and court page', () => {
+  beforeEach(() => loadPage(incomeAndCourtPage))
+
+  it('tells the two spouses apart by the respondent keyword', () => {
+    expect(resolveInput('input[name="income_1"]')).toMatchObject({ questionId: 'income.grossMonthly', spouse: 1, value: '5200.00' })
+    expect(resolveInput('input[name="income_2"]')).toMatchObject({ questionId: 'income.grossMonthly', spouse: 2, value: '3850.50' })
+  })
+
+  it('maps selects and yes/no radios', () => {
+    expect(resolveInput('#county')).toMatchObject({ questionId: 'court.county', value: 'Salt Lake' })
+    expect(resolveInput('input[name="dv"][value="No"]')).toMatchObject({ questionId: 'court.hasDomesticViolence', value: 'No' })
+  })
+
+  it('leaves fields no question covers alone', () => {
+    expect(resolveInput('#court_name')).toBeNull()
+  })
+})
+
+describe('question text', () => {
+  it('drops filler words', () => {
+    expect(getQuestionText({ label: 'Please enter your First Name (required)' })).toBe('your first name ()')
+  })
+
+  it('reads the respondent only when the petitioner is not named', () => {
+    expect(getQuestionSpouse("respondent's first name")).toBe(2)
+    expect(getQuestionSpouse('other parent income')).toBe(2)
+    expect(getQuestionSpouse("petitioner's address, not the respondent's")).toBe(1)
+    expect(getQuestionSpouse('first name')).toBe(1)
+  })
+})
+
+describe('formatMyCaseValue', () => {
+  it('formats each field type', () => {
+    expect(formatMyCaseValue('2024-02-29', 'date')).toBe('02/29/2024')
+    expect(formatMyCaseValue('2024-02-29', 'date', 'date')).toBe('2024-02-29')
+    expect(formatMyCaseValue('$1,234.5', 'currency')).toBe('1234.50')
+    expect(formatMyCaseValue('8015550142', 'phone')).toBe('(801) 555-0142')
+    expect(formatMyCaseValue('12', 'ssnLast4')).toBeNull()
+    expect(formatMyCaseValue(true, 'yesNo')).toBe('Yes')
+    expect(formatMyCaseValue(false, 'yesNo')).toBe('No')
+    expect(formatMyCaseValue('2.5', 'number')).toBe(2.5)
+    expect(formatMyCaseValue('  text  ', 'text')).toBe('text')
+  })
+
+  it('treats missing values as no answer', () => {
+    expect(formatMyCaseValue(null, 'text')).toBeNull()
+    expect(formatMyCaseValue('', 'currency')).toBeNull()
+    expect(formatMyCaseValue(undefined, 'yesNo')).toBeNull()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { generateFormPacket } from '../packetService'
+import { FORM_TEMPLATES } from '../formTemplates'
+import type { FormTemplate, PacketData } from '../formTemplates'
+
+const data = {
+  personal_info: { first_name: 'Jordan', middle_name: null, last_name: 'Rivera' },
+  spouse_info: { first_name: 'Casey', middle_name: null, last_name: 'Stone' },
+  children: [],
+  income: [],
+  employers: [],
+  expenses: [],
+  assets: [],
+  debts: [],
+  marriage_info: null,
+  court_info: { county: 'Salt Lake' },
+  child_support: null,
+} as unknown as PacketData
+
+// Blank form with a text field for every mapping of a template
+async function buildTemplatePdf(template: FormTemplate): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const page = pdf.addPage()
+  const form = pdf.getForm()
+  template.fields.forEach((mapping, index) => {
+    form.createTextField(mapping.field).addToPage(page, { x: 20, y: 760 - (index % 40) * 18, width: 200, height: 14 })
+  })
+  return pdf.save()
+}
+
+function serveTemplates(pdfs: Record<string, Uint8Array>) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) =>
+      pdfs[url]
+        ? new Response(new Blob([pdfs[url] as BlobPart]), { headers: { 'content-type': 'application/pdf' } })
+        : new Response('<html></html>', { headers: { 'content-type': 'text/html' } })
+    )
+  )
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('generateFormPacket', () => {
+  it('prints summary pages that are not court-ready when no court PDF is installed', async () => {
+    serveTemplates({})
+    const packet = await generateFormPacket(data)
+
+    expect(packet.forms.map((form) => form.id)).toEqual(['coverSheet', 'petition', 'financialDeclaration'])
+    packet.forms.forEach((form) => expect(form).toMatchObject({ usedTemplate: false, courtReady: false }))
+    expect(packet.forms[0].filledFields).toBeGreaterThan(0)
+  })
+
+  it('leaves out the child support worksheet calculated from the estimated schedule', async () => {
+    serveTemplates({})
+    const packet = await generateFormPacket({ ...data, child_support: { schedule_official: false } as PacketData['child_support'] })
+    expect(packet.forms.some((form) => form.id === 'childSupportWorksheet')).toBe(false)
+  })
+
+  it('fills a court PDF but marks it not court-ready until its field names are verified', async () => {
+    const coverSheet = FORM_TEMPLATES.find((template) => template.id === 'coverSheet')!
+    serveTemplates({ [coverSheet.file]: await buildTemplatePdf(coverSheet) })
+
+    const [form] = (await generateFormPacket(data)).forms
+    expect(form).toMatchObject({ id: 'coverSheet', usedTemplate: true, courtReady: coverSheet.fieldsVerified, missingFields: [] })
+    expect(form.filledFields).toBeGreaterThan(0)
+  })
+
+  it('marks a court PDF missing mapped fields not court-ready', async () => {
+    const coverSheet = FORM_TEMPLATES.find((template) => template.id === 'coverSheet')!
+    const partial = { ...coverSheet, fields: coverSheet.fields.slice(1) }
+    serveTemplates({ [coverSheet.file]: await buildTemplatePdf(partial) })
+
+    const [form] = (await generateFormPacket(data)).forms
+    expect(form.courtReady).toBe(false)
+    expect(form.missingFields).toEqual([coverSheet.fields[0].field])
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { calculateDivision } from '../propertyDivisionService'
+import type { AssetRow, PropertyAllocationRow } from '../../types'
+
+const asset = (row: Partial<AssetRow>): AssetRow => ({
+  id: 'asset-1',
+  user_id: 'user-1',
+  asset_type: 'retirement',
+  asset_name: 'Fidelity 401(k)',
+  approximate_value: 120000,
+  ownership_type: 'joint',
+  bank_name: null,
+  account_number: null,
+  last_updated: '',
+  ...row,
+})
+
+const split = (assetId: string): PropertyAllocationRow => ({
+  id: `allocation-${assetId}`,
+  user_id: 'user-1',
+  asset_id: assetId,
+  debt_id: null,
+  assigned_to: 'split',
+  spouse1_percentage: 50,
+  last_updated: '',
+})
+
+describe('calculateDivision - retirement marital portion', () => {
+  it('divides only the marital portion when one is set', () => {
+    const result = calculateDivision([asset({ marital_portion: 80000, separate_portion: 40000 })], [], [split('asset-1')])
+    expect(result.items[0]).toMatchObject({ amount: 80000, separatePortion: 40000, spouse1Amount: 40000, spouse2Amount: 40000 })
+    expect(result.maritalNetEstate).toBe(80000)
+  })
+
+  it('takes the separate portion as the rest of the value when only the marital portion is stored', () => {
+    const result = calculateDivision([asset({ marital_portion: 90000 })], [], [split('asset-1')])
+    expect(result.items[0]).toMatchObject({ amount: 90000, separatePortion: 30000 })
+  })
+
+  it('divides the whole value of an account without a marital portion', () => {
+    const result = calculateDivision([asset({ marital_portion: null })], [], [split('asset-1')])
+    expect(result.items[0]).toMatchObject({ amount: 120000, separatePortion: null })
+    expect(result.maritalNetEstate).toBe(120000)
+  })
+
+  it('keeps a separate asset out of the equalization whatever its marital portion', () => {
+    const result = calculateDivision([asset({ ownership_type: 'separate', marital_portion: 80000 })], [], [split('asset-1')])
+    expect(result.items[0]).toMatchObject({ isSeparate: true, amount: 120000, separatePortion: null })
+    expect(result.maritalNetEstate).toBe(0)
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { computeAdjustedSelfEmploymentIncome, getSelfEmploymentStatement } from '../selfEmploymentService'
+
+const profitAndLoss = (period: Record<string, any>) => ({ businessName: 'ACME LLC', netIncome: 54600, ...period })
+
+describe('getSelfEmploymentStatement - P&L period', () => {
+  it('annualizes a period of whole months by its month count', () => {
+    const statement = getSelfEmploymentStatement(profitAndLoss({ periodStart: '2024-01-01', periodEnd: '2024-06-30' }), 'profitAndLoss')!
+    expect(statement.periodUnknown).toBe(false)
+    expect(computeAdjustedSelfEmploymentIncome(statement, null)).toMatchObject({ annualNetProfit: 109200, adjustedMonthly: 9100 })
+  })
+
+  it('prorates a period that does not line up with months by day', () => {
+    const statement = getSelfEmploymentStatement(profitAndLoss({ periodStart: '2024-01-15', periodEnd: '2024-07-14' }), 'profitAndLoss')!
+    expect(statement.annualFactor).toBeCloseTo(365 / 182, 2)
+  })
+
+  it('uses a stated yearly period', () => {
+    const statement = getSelfEmploymentStatement(profitAndLoss({ statedPeriod: 'yearly' }), 'profitAndLoss')!
+    expect(statement).toMatchObject({ periodUnknown: false, annualFactor: 1 })
+  })
+
+  it('flags a P&L with no period instead of taking it as a full year', () => {
+    const statement = getSelfEmploymentStatement(profitAndLoss({}), 'profitAndLoss')!
+    expect(statement.periodUnknown).toBe(true)
+  })
+})
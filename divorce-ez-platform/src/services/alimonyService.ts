@@ -0,0 +1,168 @@
+/**
+ * Alimony Service - Utah alimony estimate (Utah Code 30-3-5)
+ * Compares the recipient's need against the payor's ability to pay
+ */
+
+import { getGrossMonthlyIncome } from './childSupportService'
+import type { IncomeRow, ExpenseRow, MarriageInfoRow, ChildSupportCalculationRow } from '../types'
+
+type SpouseNumber = 1 | 2
+
+export interface AlimonyInput {
+  spouse1Income: IncomeRow | null | undefined
+  spouse2Income: IncomeRow | null | undefined
+  spouse1Expenses: ExpenseRow | null | undefined
+  spouse2Expenses: ExpenseRow | null | undefined
+  marriageInfo: MarriageInfoRow | null | undefined
+  childSupport?: ChildSupportCalculationRow | null
+  requestingAlimony?: boolean | null // CourtInfoRow.requesting_alimony - spouse 1 is the requesting party
+}
+
+export interface AlimonySpouseBreakdown {
+  grossMonthlyIncome: number
+  payrollDeductions: number
+  netMonthlyIncome: number
+  childSupportReceived: number
+  childSupportPaid: number
+  monthlyNeeds: number // Sum of ExpenseRow monthly costs, excluding payroll deductions
+  surplus: number // Net income + child support received - child support paid - needs (negative = shortfall)
+}
+
+export interface AlimonyResult {
+  recipientSpouseNumber: SpouseNumber | null
+  payorSpouseNumber: SpouseNumber | null
+  spouse1: AlimonySpouseBreakdown
+  spouse2: AlimonySpouseBreakdown
+  recipientNeed: number // Monthly shortfall of the recipient
+  payorAbilityToPay: number // Monthly surplus of the payor
+  estimatedMonthlyAlimony: number // Lesser of need and ability to pay
+  marriageLengthMonths: number | null
+  durationCapMonths: number | null // Defaults to the length of the marriage
+  warnings: string[]
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+const NEED_FIELDS: (keyof ExpenseRow)[] = [
+  'monthly_housing_cost',
+  'monthly_childcare_cost',
+  'monthly_utilities',
+  'monthly_debt_payments',
+  'monthly_transportation',
+  'monthly_health_insurance',
+  'monthly_insurance_premiums',
+]
+
+/**
+ * Sum an expense row's monthly needs (payroll deductions reduce income instead)
+ */
+export function getMonthlyNeeds(expenses: ExpenseRow | null | undefined): number {
+  if (!expenses) return 0
+  return round2(NEED_FIELDS.reduce((sum, field) => sum + (Number(expenses[field]) || 0), 0))
+}
+
+/**
+ * Whole months between two ISO dates
+ */
+export function monthsBetween(start: string, end: string): number {
+  const startDate = new Date(start)
+  const endDate = new Date(end)
+  let months = (endDate.getFullYear() - startDate.getFullYear()) * 12 + (endDate.getMonth() - startDate.getMonth())
+  if (endDate.getDate() < startDate.getDate()) months -= 1
+  return Math.max(months, 0)
+}
+
+function buildBreakdown(
+  spouseNumber: SpouseNumber,
+  income: IncomeRow | null | undefined,
+  expenses: ExpenseRow | null | undefined,
+  childSupport: ChildSupportCalculationRow | null | undefined
+): AlimonySpouseBreakdown {
+  const grossMonthlyIncome = round2(getGrossMonthlyIncome(income))
+  const payrollDeductions = Number(expenses?.monthly_payroll_deductions) || 0
+  const netMonthlyIncome = round2(grossMonthlyIncome - payrollDeductions)
+  const supportAmount = Number(childSupport?.monthly_support_amount) || 0
+  const childSupportPaid = childSupport?.obligor_spouse_number === spouseNumber ? supportAmount : 0
+  const childSupportReceived =
+    childSupport?.obligor_spouse_number != null && childSupport.obligor_spouse_number !== spouseNumber ? supportAmount : 0
+  const monthlyNeeds = getMonthlyNeeds(expenses)
+
+  return {
+    grossMonthlyIncome,
+    payrollDeductions,
+    netMonthlyIncome,
+    childSupportReceived,
+    childSupportPaid,
+    monthlyNeeds,
+    surplus: round2(netMonthlyIncome + childSupportReceived - childSupportPaid - monthlyNeeds),
+  }
+}
+
+/**
+ * Estimate alimony from both spouses' income, monthly needs and the length of the marriage
+ */
+export function calculateAlimony({
+  spouse1Income,
+  spouse2Income,
+  spouse1Expenses,
+  spouse2Expenses,
+  marriageInfo,
+  childSupport,
+  requestingAlimony,
+}: AlimonyInput): AlimonyResult {
+  const warnings: string[] = []
+
+  if (!spouse1Income) warnings.push('Your income is missing; it is treated as $0.')
+  if (!spouse2Income) warnings.push("Your spouse's income is missing; it is treated as $0.")
+  if (!spouse1Expenses) warnings.push('Your monthly expenses are missing, so your need cannot be measured.')
+  if (!spouse2Expenses) warnings.push("Your spouse's monthly expenses are missing, so their need cannot be measured.")
+
+  const spouse1 = buildBreakdown(1, spouse1Income, spouse1Expenses, childSupport)
+  const spouse2 = buildBreakdown(2, spouse2Income, spouse2Expenses, childSupport)
+
+  // The requesting party is the recipient; otherwise whichever spouse has the larger shortfall
+  let recipientSpouseNumber: SpouseNumber | null = null
+  if (requestingAlimony) {
+    recipientSpouseNumber = 1
+  } else if (spouse1.surplus < 0 || spouse2.surplus < 0) {
+    recipientSpouseNumber = spouse1.surplus <= spouse2.surplus ? 1 : 2
+  }
+  const payorSpouseNumber: SpouseNumber | null = recipientSpouseNumber === null ? null : recipientSpouseNumber === 1 ? 2 : 1
+
+  const recipient = recipientSpouseNumber === 1 ? spouse1 : spouse2
+  const payor = recipientSpouseNumber === 1 ? spouse2 : spouse1
+  const recipientNeed = recipientSpouseNumber === null ? 0 : round2(Math.max(-recipient.surplus, 0))
+  const payorAbilityToPay = recipientSpouseNumber === null ? 0 : round2(Math.max(payor.surplus, 0))
+  const estimatedMonthlyAlimony = round2(Math.min(recipientNeed, payorAbilityToPay))
+
+  if (recipientSpouseNumber !== null && recipientNeed === 0) {
+    warnings.push('The requesting spouse can meet their monthly needs from their own income.')
+  }
+  if (recipientNeed > 0 && payorAbilityToPay < recipientNeed) {
+    warnings.push('The paying spouse cannot cover the full need after meeting their own expenses.')
+  }
+
+  let marriageLengthMonths: number | null = null
+  if (marriageInfo?.marriage_date) {
+    const endDate = marriageInfo.date_of_separation || new Date().toISOString().slice(0, 10)
+    if (!marriageInfo.date_of_separation) {
+      warnings.push('Date of separation is missing; the marriage length is measured to today.')
+    }
+    marriageLengthMonths = monthsBetween(marriageInfo.marriage_date, endDate)
+  } else {
+    warnings.push('Marriage date is missing, so the duration cap cannot be calculated.')
+  }
+
+  return {
+    recipientSpouseNumber,
+    payorSpouseNumber,
+    spouse1,
+    spouse2,
+    recipientNeed,
+    payorAbilityToPay,
+    estimatedMonthlyAlimony,
+    marriageLengthMonths,
+    durationCapMonths: marriageLengthMonths,
+    warnings,
+  }
+}
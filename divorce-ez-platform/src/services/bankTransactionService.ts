@@ -0,0 +1,248 @@
+/**
+ * Bank Transaction Service - Categorizes bank statement transactions and finds recurring payments
+ * Categories are the Financial Declaration expense keys, so real spending can seed the declaration's monthly amounts
+ */
+
+import { DECLARATION_EXPENSE_CATEGORIES } from './financialDeclarationService'
+import { parseIncomeDate, toMonthlyAmount } from './incomeNormalizationService'
+import type { BankStatementTransaction, BankTransactionRow, PayFrequency } from '../types'
+
+// A transaction ready to store - everything but the ids and owner
+export type CategorizedTransaction = Omit<BankTransactionRow, 'id' | 'user_id' | 'document_id' | 'spouse_number' | 'last_updated'>
+
+export interface RecurringPayment {
+  merchant: string // Normalized description shared by the payments
+  category: string | null
+  frequency: PayFrequency
+  averageAmount: number // Positive amount per payment
+  count: number
+}
+
+// Monthly spending by expense category key
+export type MonthlySpending = Record<string, number>
+
+// Categories for money that isn't a living expense
+export const NON_EXPENSE_CATEGORIES: { key: string; label: string }[] = [
+  { key: 'income', label: 'Income and deposits' },
+  { key: 'transfer', label: 'Transfers between accounts' },
+  { key: 'cash', label: 'Cash withdrawals' },
+]
+
+// Checked in order - the first matching pattern wins, so specific merchants come before generic words
+const EXPENSE_RULES: { category: string; pattern: RegExp }[] = [
+  { category: 'second_mortgage', pattern: /\b(heloc|home equity|second mortgage)\b/i },
+  { category: 'rent_mortgage', pattern: /\b(mortgage|mtg|rent|lease|apartments?|property mgmt|loan servicing)\b/i },
+  { category: 'property_taxes', pattern: /\b(property tax|county treasurer|assessor)\b/i },
+  { category: 'hoa_fees', pattern: /\b(hoa|homeowners? assoc)/i },
+  { category: 'home_insurance', pattern: /\b(homeowners? ins|renters? ins|home insurance|lemonade)\b/i },
+  { category: 'home_maintenance', pattern: /\b(home depot|lowe'?s|ace hardware|plumbing|roofing|pest control|lawn)\b/i },
+  { category: 'vehicle_insurance', pattern: /\b(geico|progressive|state farm|allstate|auto ins|car insurance)\b/i },
+  { category: 'health_insurance', pattern: /\b(health ins|bcbs|blue cross|aetna|cigna|united ?healthcare|selecthealth|humana)\b/i },
+  { category: 'life_insurance', pattern: /\b(life ins|northwestern mutual|new york life|metlife)\b/i },
+  { category: 'utilities', pattern: /\b(electric|power|rocky mountain|dominion|enbridge|gas co|water|sewer|garbage|waste|utilit(y|ies))\b/i },
+  { category: 'phone', pattern: /\b(verizon|at&t|att|t-mobile|tmobile|sprint|cricket|mint mobile|wireless)\b/i },
+  { category: 'internet_tv', pattern: /\b(comcast|xfinity|spectrum|cox|google fiber|centurylink|directv|dish|netflix|hulu|disney\+?|youtube tv|internet|cable)\b/i },
+  { category: 'childcare', pattern: /\b(daycare|day care|childcare|child care|preschool|kindercare|nanny|babysit)/i },
+  { category: 'child_education', pattern: /\b(school|tuition|pta|lunch account)\b/i },
+  { category: 'child_activities', pattern: /\b(dance|soccer|piano|lessons|little league|camp|ymca)\b/i },
+  { category: 'child_support_paid', pattern: /\b(child support|ors|office of recovery)\b/i },
+  { category: 'alimony_paid', pattern: /\b(alimony|spousal support)\b/i },
+  { category: 'student_loans', pattern: /\b(navient|nelnet|sallie mae|great lakes|mohela|fedloan|dept of ed|student loan)\b/i },
+  { category: 'vehicle_payment', pattern: /\b(auto loan|car payment|toyota financial|honda financial|ford credit|gm financial|ally|carmax|santander consumer)\b/i },
+  { category: 'credit_cards', pattern: /\b(credit card|card payment|capital one|discover|amex|american express|chase card|citi card)\b/i },
+  { category: 'other_debts', pattern: /\b(loan pmt|loan payment|personal loan|sofi|lendingclub|upstart|affirm|klarna|afterpay)\b/i },
+  { category: 'fuel_maintenance', pattern: /\b(shell|chevron|exxon|maverik|sinclair|conoco|phillips 66|texaco|arco|costco gas|fuel|jiffy lube|auto repair|tire)\b/i },
+  { category: 'public_transit', pattern: /\b(uber(?! eats)|lyft|uta|transit|parking|toll)\b/i },
+  { category: 'prescriptions', pattern: /\b(pharmacy|cvs|walgreens|rx)\b/i },
+  { category: 'medical', pattern: /\b(medical|clinic|hospital|dental|dentist|orthodont|vision|optometr|doctor|urgent care|intermountain|labcorp)/i },
+  { category: 'meals_out', pattern: /\b(restaurant|cafe|coffee|starbucks|mcdonald|chick-fil-a|wendy|taco bell|subway|chipotle|pizza|doordash|grubhub|uber eats|diner|grill)/i },
+  { category: 'food', pattern: /\b(grocery|groceries|smith'?s|kroger|safeway|albertsons|walmart|target|costco|sam'?s club|winco|harmons|trader joe|whole foods|aldi|market)\b/i },
+  { category: 'clothing', pattern: /\b(old navy|gap|kohl'?s|ross|tj ?maxx|marshalls|nordstrom|macy'?s|clothing|apparel|shoes)\b/i },
+  { category: 'personal_care', pattern: /\b(salon|barber|dry clean|laundry|spa|ulta|sephora)\b/i },
+  { category: 'education', pattern: /\b(university|college|coursera|udemy)\b/i },
+  { category: 'pets', pattern: /\b(petsmart|petco|chewy|veterinar|vet clinic|animal hospital)/i },
+  { category: 'vacations', pattern: /\b(airline|delta air|southwest|united air|american air|hotel|marriott|hilton|airbnb|vrbo|expedia)\b/i },
+  { category: 'recreation', pattern: /\b(spotify|apple music|cinema|theater|theatre|amc|gym|fitness|planet fitness|steam|playstation|xbox|nintendo|ticketmaster)\b/i },
+  { category: 'gifts_donations', pattern: /\b(donation|charity|church|tithing|gofundme)\b/i },
+]
+
+const INCOME_PATTERN = /\b(payroll|direct dep|salary|paycheck|wages|irs treas|tax ref|interest paid|dividend|ssa|social security|unemployment|dws)\b/i
+const TRANSFER_PATTERN = /\b(transfer|xfer|trnsfr|zelle|venmo|paypal|cash app|online banking to|from (checking|savings)|to (checking|savings))\b/i
+const CASH_PATTERN = /\b(atm|cash withdrawal|withdrawal at)\b/i
+
+// Payments within this fraction of their average are the same bill
+const RECURRING_AMOUNT_TOLERANCE = 0.15
+// Typical days between payments for each frequency (inclusive)
+const RECURRING_INTERVALS: { frequency: PayFrequency; min: number; max: number }[] = [
+  { frequency: 'weekly', min: 6, max: 8 },
+  { frequency: 'biweekly', min: 13, max: 15 },
+  { frequency: 'semimonthly', min: 14, max: 17 },
+  { frequency: 'monthly', min: 27, max: 33 },
+]
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_MONTH = 30.44
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Label for a transaction category (expense keys use the declaration labels)
+ */
+export function getTransactionCategoryLabel(category: string | null): string {
+  if (!category) return 'Uncategorized'
+  const match = [...DECLARATION_EXPENSE_CATEGORIES, ...NON_EXPENSE_CATEGORIES].find((c) => c.key === category)
+  return match ? match.label : category
+}
+
+/**
+ * Category for one transaction from its description (amount is negative for money out)
+ * Returns null when no rule matches
+ */
+export function categorizeTransaction(description: string, amount: number): string | null {
+  // Deposits are income unless they are plainly a transfer from another account
+  if (amount > 0) return INCOME_PATTERN.test(description) || !TRANSFER_PATTERN.test(description) ? 'income' : 'transfer'
+  if (TRANSFER_PATTERN.test(description)) return 'transfer'
+  if (CASH_PATTERN.test(description)) return 'cash'
+  const rule = EXPENSE_RULES.find(({ pattern }) => pattern.test(description))
+  return rule ? rule.category : null
+}
+
+/**
+ * Description with card numbers, dates, reference numbers and punctuation removed, so repeat payments to the
+ * same payee compare equal
+ */
+export function normalizeMerchant(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\b(pos|debit|purchase|card|ach|recurring|pmt|payment|web|ppd|id|ref|conf|#)\b/g, ' ')
+    .replace(/[^a-z&\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1)
+    .slice(0, 3)
+    .join(' ')
+}
+
+const frequencyForInterval = (days: number): PayFrequency | null =>
+  RECURRING_INTERVALS.find(({ min, max }) => days >= min && days <= max)?.frequency ?? null
+
+/**
+ * Payments to the same payee for about the same amount at a regular interval
+ * A monthly bill shows up twice on a two-month statement, so two payments are enough
+ */
+export function findRecurringPayments(transactions: Array<Pick<CategorizedTransaction, 'transaction_date' | 'description' | 'amount' | 'category'>>): RecurringPayment[] {
+  const groups = new Map<string, { date: Date; amount: number; category: string | null }[]>()
+  transactions.forEach((transaction) => {
+    const date = parseIncomeDate(transaction.transaction_date)
+    const merchant = normalizeMerchant(transaction.description)
+    if (!date || !merchant || transaction.amount >= 0) return
+    const group = groups.get(merchant) || []
+    group.push({ date, amount: Math.abs(transaction.amount), category: transaction.category })
+    groups.set(merchant, group)
+  })
+
+  const recurring: RecurringPayment[] = []
+  groups.forEach((payments, merchant) => {
+    if (payments.length < 2) return
+    payments.sort((a, b) => a.date.getTime() - b.date.getTime())
+    const averageAmount = payments.reduce((sum, p) => sum + p.amount, 0) / payments.length
+    if (payments.some((p) => Math.abs(p.amount - averageAmount) / averageAmount > RECURRING_AMOUNT_TOLERANCE)) return
+
+    const intervals = payments.slice(1).map((p, i) => Math.round((p.date.getTime() - payments[i].date.getTime()) / DAY_MS))
+    const frequencies = intervals.map(frequencyForInterval)
+    const frequency = frequencies[0]
+    if (!frequency || frequencies.some((f) => f !== frequency)) return
+
+    recurring.push({ merchant, category: payments[0].category, frequency, averageAmount: round2(averageAmount), count: payments.length })
+  })
+  return recurring
+}
+
+/**
+ * Categorize a statement's transactions and mark the recurring ones
+ */
+export function categorizeTransactions(transactions: BankStatementTransaction[]): CategorizedTransaction[] {
+  const categorized: CategorizedTransaction[] = transactions
+    .filter((t) => t.description && t.amount != null && !isNaN(Number(t.amount)))
+    .map((t) => ({
+      transaction_date: t.date || null,
+      description: t.description.trim(),
+      amount: round2(Number(t.amount)),
+      running_balance: t.runningBalance != null && !isNaN(Number(t.runningBalance)) ? round2(Number(t.runningBalance)) : null,
+      category: categorizeTransaction(t.description, Number(t.amount)),
+      is_recurring: false,
+      recurrence_frequency: null,
+    }))
+
+  const recurring = findRecurringPayments(categorized)
+  categorized.forEach((transaction) => {
+    const match = recurring.find((r) => r.merchant === normalizeMerchant(transaction.description))
+    if (match && transaction.amount < 0) {
+      transaction.is_recurring = true
+      transaction.recurrence_frequency = match.frequency
+    }
+  })
+  return categorized
+}
+
+/**
+ * Average monthly spending in each expense category
+ * Recurring bills count once per billing period; other spending is spread over the months the transactions cover.
+ * The period defaults to the first and last transaction dates, and is never shorter than a month.
+ */
+export function estimateMonthlySpending(
+  transactions: Array<Pick<CategorizedTransaction, 'transaction_date' | 'description' | 'amount' | 'category' | 'is_recurring' | 'recurrence_frequency'>>,
+  periodStart?: string | null,
+  periodEnd?: string | null
+): MonthlySpending {
+  const expenseKeys = new Set(DECLARATION_EXPENSE_CATEGORIES.map((c) => c.key))
+  const expenses = transactions.filter((t) => t.amount < 0 && t.category && expenseKeys.has(t.category))
+  if (expenses.length === 0) return {}
+
+  const dates = expenses.map((t) => parseIncomeDate(t.transaction_date)).filter((d): d is Date => d !== null)
+  const start = parseIncomeDate(periodStart) || (dates.length ? new Date(Math.min(...dates.map((d) => d.getTime()))) : null)
+  const end = parseIncomeDate(periodEnd) || (dates.length ? new Date(Math.max(...dates.map((d) => d.getTime()))) : null)
+  const days = start && end ? Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1 : 0
+  const months = Math.max(days / DAYS_PER_MONTH, 1)
+
+  const spending: MonthlySpending = {}
+  const add = (category: string, amount: number) => {
+    spending[category] = round2((spending[category] || 0) + amount)
+  }
+
+  // One figure per recurring payee, from its average payment
+  const recurring = new Map<string, { category: string; frequency: PayFrequency; total: number; count: number }>()
+  expenses.forEach((t) => {
+    if (t.is_recurring && t.recurrence_frequency) {
+      const merchant = normalizeMerchant(t.description)
+      const entry = recurring.get(merchant) || { category: t.category as string, frequency: t.recurrence_frequency, total: 0, count: 0 }
+      entry.total += Math.abs(t.amount)
+      entry.count++
+      recurring.set(merchant, entry)
+    } else {
+      add(t.category as string, Math.abs(t.amount) / months)
+    }
+  })
+  recurring.forEach(({ category, frequency, total, count }) => add(category, toMonthlyAmount(total / count, frequency)))
+
+  return spending
+}
+
+// Extracted `expenses` keys and the category behind each - one category per key, matching the Financial Information
+// columns the declaration reconciles against
+const EXTRACTED_EXPENSE_CATEGORIES: Record<string, string> = {
+  housing: 'rent_mortgage',
+  utilities: 'utilities',
+  childcare: 'childcare',
+  debt: 'other_debts',
+  transportation: 'fuel_maintenance',
+}
+
+/**
+ * Monthly spending in the extracted `expenses` shape used for the Financial Information expense columns
+ */
+export function toExtractedExpenses(spending: MonthlySpending): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(EXTRACTED_EXPENSE_CATEGORIES)
+      .filter(([, category]) => spending[category] != null)
+      .map(([key, category]) => [key, spending[category]])
+  )
+}
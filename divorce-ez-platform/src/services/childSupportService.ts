@@ -0,0 +1,228 @@
+/**
+ * Child Support Service - Utah child support worksheet calculations
+ * Uses the versioned base combined obligation schedule in src/data
+ */
+
+import schedule from '../data/utahChildSupportSchedule.json'
+import type { IncomeRow, ChildRow, PhysicalCustodyWorksheet } from '../types'
+
+const DAYS_PER_YEAR = 365
+
+export interface ChildSupportInput {
+  spouse1Income: IncomeRow | null | undefined
+  spouse2Income: IncomeRow | null | undefined
+  children: ChildRow[]
+}
+
+export interface ChildSupportResult {
+  scheduleVersion: string
+  officialSchedule: boolean // false while the schedule is an estimate - the worksheet is then never filed or autofilled
+  custodyWorksheet: PhysicalCustodyWorksheet
+  numberOfChildren: number
+  spouse1MonthlyIncome: number
+  spouse2MonthlyIncome: number
+  combinedMonthlyIncome: number
+  spouse1IncomePercentage: number // 0-100
+  spouse2IncomePercentage: number // 0-100
+  baseCombinedObligation: number
+  adjustedCombinedObligation: number // Base x 1.5 on the joint custody worksheet
+  spouse1Share: number
+  spouse2Share: number
+  spouse1Obligation: number // After custody adjustment
+  spouse2Obligation: number
+  obligorSpouseNumber: 1 | 2 | null
+  monthlySupportAmount: number
+  spouse1AnnualOvernights: number | null
+  spouse2AnnualOvernights: number | null
+  warnings: string[]
+}
+
+interface ChildOvernights {
+  spouse1: number
+  spouse2: number
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Get gross monthly income from an income row, falling back to annual / 12
+ */
+export function getGrossMonthlyIncome(income: IncomeRow | null | undefined): number {
+  if (!income) return 0
+  if (income.gross_monthly_income != null) return Number(income.gross_monthly_income)
+  if (income.gross_annual_income != null) return Number(income.gross_annual_income) / 12
+  return 0
+}
+
+/**
+ * Look up the base combined obligation for a combined monthly income and number of children
+ * Interpolates linearly between schedule rows
+ */
+export function lookupBaseCombinedObligation(combinedMonthlyIncome: number, numberOfChildren: number): number {
+  if (combinedMonthlyIncome <= 0 || numberOfChildren <= 0) return 0
+
+  const rows = schedule.schedule
+  const childIndex = Math.min(numberOfChildren, schedule.maxChildren) - 1
+  const first = rows[0]
+  const last = rows[rows.length - 1]
+
+  // Below the first row or above the last row, scale by that row's percentage of income
+  if (combinedMonthlyIncome <= first.combinedMonthlyIncome) {
+    return round2((first.obligations[childIndex] / first.combinedMonthlyIncome) * combinedMonthlyIncome)
+  }
+  if (combinedMonthlyIncome >= last.combinedMonthlyIncome) {
+    return round2((last.obligations[childIndex] / last.combinedMonthlyIncome) * combinedMonthlyIncome)
+  }
+
+  const upperIndex = rows.findIndex((row) => row.combinedMonthlyIncome >= combinedMonthlyIncome)
+  const lower = rows[upperIndex - 1]
+  const upper = rows[upperIndex]
+  const ratio = (combinedMonthlyIncome - lower.combinedMonthlyIncome) / (upper.combinedMonthlyIncome - lower.combinedMonthlyIncome)
+  const obligation = lower.obligations[childIndex] + ratio * (upper.obligations[childIndex] - lower.obligations[childIndex])
+  return round2(obligation)
+}
+
+/**
+ * Resolve annual overnights for a child from the stored overnights or, failing that, the residence fields
+ */
+function getChildOvernights(child: ChildRow, warnings: string[]): ChildOvernights {
+  const s1 = child.overnights_with_spouse1
+  const s2 = child.overnights_with_spouse2
+
+  if (s1 != null && s2 != null) return { spouse1: s1, spouse2: s2 }
+  if (s1 != null) return { spouse1: s1, spouse2: Math.max(DAYS_PER_YEAR - s1, 0) }
+  if (s2 != null) return { spouse1: Math.max(DAYS_PER_YEAR - s2, 0), spouse2: s2 }
+
+  const name = child.full_name || 'a child'
+  if (child.physical_custody_type === 'joint') {
+    warnings.push(`Overnights for ${name} are missing; assuming an equal split for joint physical custody.`)
+    return { spouse1: 183, spouse2: 182 }
+  }
+  if (child.primary_residence_parent === 'spouse2') {
+    warnings.push(`Overnights for ${name} are missing; assuming all overnights with Spouse 2.`)
+    return { spouse1: 0, spouse2: DAYS_PER_YEAR }
+  }
+  warnings.push(`Overnights for ${name} are missing; assuming all overnights with you.`)
+  return { spouse1: DAYS_PER_YEAR, spouse2: 0 }
+}
+
+/**
+ * Calculate the Utah child support worksheet (sole, joint or split physical custody)
+ */
+export function calculateChildSupport({ spouse1Income, spouse2Income, children }: ChildSupportInput): ChildSupportResult {
+  const warnings: string[] = []
+  const numberOfChildren = children.length
+
+  if (!schedule.official) {
+    warnings.push(`This is an estimate, not the statutory ${schedule.statute} table; do not use it for filing.`)
+  }
+
+  const spouse1MonthlyIncome = round2(getGrossMonthlyIncome(spouse1Income))
+  const spouse2MonthlyIncome = round2(getGrossMonthlyIncome(spouse2Income))
+  const combinedMonthlyIncome = round2(spouse1MonthlyIncome + spouse2MonthlyIncome)
+
+  if (!spouse1Income) warnings.push('Your income is missing; it is treated as $0.')
+  if (!spouse2Income) warnings.push("Your spouse's income is missing; it is treated as $0.")
+  if (numberOfChildren > schedule.maxChildren) {
+    warnings.push(`The schedule covers up to ${schedule.maxChildren} children; the ${schedule.maxChildren}-child column is used.`)
+  }
+  const lastRow = schedule.schedule[schedule.schedule.length - 1]
+  if (combinedMonthlyIncome > lastRow.combinedMonthlyIncome) {
+    warnings.push('Combined income is above the schedule; the court may set support at its discretion.')
+  }
+
+  const spouse1Pct = combinedMonthlyIncome > 0 ? spouse1MonthlyIncome / combinedMonthlyIncome : 0
+  const spouse2Pct = combinedMonthlyIncome > 0 ? spouse2MonthlyIncome / combinedMonthlyIncome : 0
+
+  const overnights = children.map((child) => getChildOvernights(child, warnings))
+  const childrenWithSpouse1 = overnights.filter((o) => o.spouse1 >= o.spouse2).length
+  const childrenWithSpouse2 = numberOfChildren - childrenWithSpouse1
+  const spouse1AnnualOvernights = numberOfChildren > 0 ? Math.round(overnights.reduce((sum, o) => sum + o.spouse1, 0) / numberOfChildren) : null
+  const spouse2AnnualOvernights = numberOfChildren > 0 ? Math.round(overnights.reduce((sum, o) => sum + o.spouse2, 0) / numberOfChildren) : null
+
+  const minimumJointOvernights = schedule.jointPhysicalCustody.minimumOvernights
+  let custodyWorksheet: PhysicalCustodyWorksheet = 'sole'
+  if (childrenWithSpouse1 > 0 && childrenWithSpouse2 > 0) {
+    custodyWorksheet = 'split'
+  } else if (numberOfChildren > 0 && overnights.every((o) => Math.min(o.spouse1, o.spouse2) >= minimumJointOvernights)) {
+    custodyWorksheet = 'joint'
+  }
+
+  const baseCombinedObligation = lookupBaseCombinedObligation(combinedMonthlyIncome, numberOfChildren)
+  const adjustedCombinedObligation =
+    custodyWorksheet === 'joint'
+      ? round2(baseCombinedObligation * schedule.jointPhysicalCustody.obligationMultiplier)
+      : baseCombinedObligation
+
+  const spouse1Share = round2(adjustedCombinedObligation * spouse1Pct)
+  const spouse2Share = round2(adjustedCombinedObligation * spouse2Pct)
+
+  let spouse1Obligation = 0
+  let spouse2Obligation = 0
+
+  if (custodyWorksheet === 'sole') {
+    // Only the parent without primary custody pays their share
+    if (childrenWithSpouse1 > 0) {
+      spouse2Obligation = spouse2Share
+    } else {
+      spouse1Obligation = spouse1Share
+    }
+  } else if (custodyWorksheet === 'joint') {
+    // Each parent's share is reduced by the time the children spend with them
+    spouse1Obligation = round2(spouse1Share * ((spouse2AnnualOvernights || 0) / DAYS_PER_YEAR))
+    spouse2Obligation = round2(spouse2Share * ((spouse1AnnualOvernights || 0) / DAYS_PER_YEAR))
+  } else {
+    // Each parent owes their share for the children living with the other parent
+    spouse1Obligation = round2(spouse1Share * (childrenWithSpouse2 / numberOfChildren))
+    spouse2Obligation = round2(spouse2Share * (childrenWithSpouse1 / numberOfChildren))
+  }
+
+  const net = round2(spouse1Obligation - spouse2Obligation)
+  const obligorSpouseNumber: 1 | 2 | null = net > 0 ? 1 : net < 0 ? 2 : null
+
+  return {
+    scheduleVersion: schedule.version,
+    officialSchedule: schedule.official,
+    custodyWorksheet,
+    numberOfChildren,
+    spouse1MonthlyIncome,
+    spouse2MonthlyIncome,
+    combinedMonthlyIncome,
+    spouse1IncomePercentage: round2(spouse1Pct * 100),
+    spouse2IncomePercentage: round2(spouse2Pct * 100),
+    baseCombinedObligation,
+    adjustedCombinedObligation,
+    spouse1Share,
+    spouse2Share,
+    spouse1Obligation,
+    spouse2Obligation,
+    obligorSpouseNumber,
+    monthlySupportAmount: Math.abs(net),
+    spouse1AnnualOvernights,
+    spouse2AnnualOvernights,
+    warnings,
+  }
+}
+
+/**
+ * Get schedule metadata for display
+ */
+export function getChildSupportScheduleInfo(): {
+  version: string
+  effectiveDate: string
+  official: boolean
+  statute: string
+  revisionDate: string | null
+  source: string
+  notes: string
+} {
+  return {
+    version: schedule.version,
+    effectiveDate: schedule.effectiveDate,
+    official: schedule.official,
+    statute: schedule.statute,
+    revisionDate: schedule.revisionDate,
+    source: schedule.source,
+    notes: schedule.notes,
+  }
+}
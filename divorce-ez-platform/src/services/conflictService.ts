@@ -0,0 +1,264 @@
+/**
+ * Conflict Service - Detects documents that disagree on a field and applies the user's choice
+ */
+
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+import { findProvenance, getDocumentLabel } from './provenanceService'
+import type { ExtractionSource } from './provenanceService'
+import type { ConflictCandidate, FieldConflictRow, FieldProvenanceRow } from '../types'
+
+type SpouseNumber = 1 | 2
+
+// 'replace' - newer documents overwrite (personal info); 'fillEmpty' - only fill blank columns (income, expenses)
+export type ReconcileMode = 'replace' | 'fillEmpty'
+
+const TABLE_LABELS: Record<string, string> = {
+  personal_info: 'Your Information',
+  spouse_info: 'Spouse Information',
+  income: 'Income',
+  expenses: 'Expenses',
+  marriage_info: 'Marriage Information',
+  court_info: 'Court Information',
+}
+
+// Tables keyed by (user_id, spouse_number) rather than user_id alone
+export const PER_SPOUSE_TABLES = ['income', 'expenses', 'employers']
+
+const conflictKey = (tableName: string, columnName: string, spouseNumber: SpouseNumber) =>
+  `${tableName}.${columnName}.${spouseNumber}`
+
+export function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Compare two extracted values, ignoring formatting differences
+ * Amounts within 50 cents, and text differing only in case, spacing or punctuation, match
+ */
+export function valuesMatch(a: any, b: any): boolean {
+  if (isEmptyValue(a) || isEmptyValue(b)) return isEmptyValue(a) && isEmptyValue(b)
+
+  const numA = typeof a === 'number' ? a : Number(String(a).replace(/[$,]/g, ''))
+  const numB = typeof b === 'number' ? b : Number(String(b).replace(/[$,]/g, ''))
+  if ((typeof a === 'number' || typeof b === 'number') && !isNaN(numA) && !isNaN(numB)) {
+    return Math.abs(numA - numB) < 0.5
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const normalize = (value: any) => (Array.isArray(value) ? value : [value]).map((v) => String(v).toLowerCase()).sort()
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+  }
+
+  const normalize = (value: any) => String(value).toLowerCase().replace(/[^a-z0-9]/g, '')
+  return normalize(a) === normalize(b)
+}
+
+/**
+ * Human-readable label for a conflicting field, e.g. "Income (Spouse 2) - Gross annual income"
+ */
+export function getFieldLabel(tableName: string, columnName: string, spouseNumber: SpouseNumber): string {
+  const column = columnName.replace(/_/g, ' ')
+  const table = TABLE_LABELS[tableName] || tableName
+  const spouse = PER_SPOUSE_TABLES.includes(tableName) ? ` (Spouse ${spouseNumber})` : ''
+  return `${table}${spouse} - ${column.charAt(0).toUpperCase()}${column.slice(1)}`
+}
+
+/**
+ * Tracks conflicts while one document is migrated into the normalized tables
+ */
+export function createConflictTracker(
+  userId: string,
+  existingConflicts: FieldConflictRow[],
+  provenance: FieldProvenanceRow[],
+  source: ExtractionSource | null
+) {
+  const conflicts = new Map(existingConflicts.map((c) => [conflictKey(c.table_name, c.column_name, c.spouse_number), c]))
+  const changed = new Set<string>()
+
+  const newCandidate = (value: any): ConflictCandidate => ({
+    value,
+    document_id: source?.documentId || null,
+    document_label: source ? getDocumentLabel(source.documentType, source.taxYear) : 'uploaded document',
+    extraction_method: source?.extractionMethod || null,
+  })
+
+  const existingCandidate = (tableName: string, columnName: string, spouseNumber: SpouseNumber, value: any): ConflictCandidate => {
+    const origin = findProvenance(provenance, tableName, columnName, spouseNumber)
+    return {
+      value,
+      document_id: origin?.document_id || null,
+      document_label: origin?.document_label || 'manual entry',
+      extraction_method: origin?.extraction_method || null,
+    }
+  }
+
+  const addCandidates = (
+    tableName: string,
+    columnName: string,
+    spouseNumber: SpouseNumber,
+    candidates: ConflictCandidate[]
+  ): FieldConflictRow => {
+    const key = conflictKey(tableName, columnName, spouseNumber)
+    const conflict: FieldConflictRow = conflicts.get(key) || {
+      id: '',
+      user_id: userId,
+      table_name: tableName,
+      column_name: columnName,
+      spouse_number: spouseNumber,
+      candidates: [],
+      status: 'open',
+      resolved_value: null,
+      detected_at: new Date().toISOString(),
+      resolved_at: null,
+    }
+
+    const merged = [...conflict.candidates]
+    candidates.forEach((candidate) => {
+      // One candidate per document (the latest extraction wins) and per distinct manual value
+      const index = merged.findIndex((c) =>
+        candidate.document_id ? c.document_id === candidate.document_id : !c.document_id && valuesMatch(c.value, candidate.value)
+      )
+      if (index > -1) {
+        merged[index] = candidate
+      } else {
+        merged.push(candidate)
+      }
+    })
+
+    const updated = { ...conflict, candidates: merged }
+    conflicts.set(key, updated)
+    changed.add(key)
+    return updated
+  }
+
+  /**
+   * Return the column values to write for one table row, recording any disagreement with the stored row
+   * Resolved conflicts always win; a new value that the user has not seen reopens the conflict
+   */
+  const reconcile = <T extends Record<string, any>>(
+    tableName: string,
+    spouseNumber: SpouseNumber,
+    existingRow: Record<string, any> | null | undefined,
+    candidates: T,
+    mode: ReconcileMode
+  ): Partial<T> => {
+    const updates: Record<string, any> = {}
+
+    for (const [columnName, value] of Object.entries(candidates)) {
+      if (isEmptyValue(value)) continue
+
+      const key = conflictKey(tableName, columnName, spouseNumber)
+      const existingValue = existingRow?.[columnName]
+      const resolved = conflicts.get(key)
+
+      if (resolved?.status === 'resolved') {
+        if (!resolved.candidates.some((c) => valuesMatch(c.value, value)) && !valuesMatch(resolved.resolved_value, value)) {
+          const reopened = addCandidates(tableName, columnName, spouseNumber, [newCandidate(value)])
+          conflicts.set(key, { ...reopened, status: 'open', resolved_at: null })
+        } else {
+          addCandidates(tableName, columnName, spouseNumber, [newCandidate(value)])
+        }
+        updates[columnName] = resolved.resolved_value
+        continue
+      }
+
+      if (!isEmptyValue(existingValue) && !valuesMatch(existingValue, value)) {
+        addCandidates(tableName, columnName, spouseNumber, [
+          existingCandidate(tableName, columnName, spouseNumber, existingValue),
+          newCandidate(value),
+        ])
+        if (mode === 'fillEmpty') continue
+      }
+
+      if (mode === 'replace' || isEmptyValue(existingValue)) {
+        updates[columnName] = value
+      }
+    }
+
+    return updates as Partial<T>
+  }
+
+  return {
+    reconcile,
+    /** Conflicts created or changed by this document */
+    getChangedConflicts: (): FieldConflictRow[] => Array.from(changed).map((key) => conflicts.get(key) as FieldConflictRow),
+  }
+}
+
+/**
+ * Get all conflicts for a user
+ */
+export async function getFieldConflicts(userId: string): Promise<FieldConflictRow[]> {
+  const { data, error } = await supabase
+    .from('field_conflicts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('detected_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Save conflicts detected during a migration (upsert)
+ */
+export async function saveFieldConflicts(conflicts: FieldConflictRow[]): Promise<void> {
+  if (conflicts.length === 0) return
+
+  const rows = conflicts.map(({ id, ...conflict }) => conflict)
+  const { error } = await supabase
+    .from('field_conflicts')
+    .upsert(rows, { onConflict: 'user_id,table_name,column_name,spouse_number' })
+
+  if (error) throw error
+  logger.debug('Saved field conflicts', { count: rows.length })
+}
+
+/**
+ * Resolve a conflict: write the chosen value and remember it for later re-aggregations
+ */
+export async function resolveFieldConflict(userId: string, conflict: FieldConflictRow, value: any): Promise<FieldConflictRow> {
+  let update = supabase
+    .from(conflict.table_name)
+    .update({ [conflict.column_name]: value, last_updated: new Date().toISOString() })
+    .eq('user_id', userId)
+  if (PER_SPOUSE_TABLES.includes(conflict.table_name)) {
+    update = update.eq('spouse_number', conflict.spouse_number)
+  }
+  const { error: updateError } = await update
+  if (updateError) throw updateError
+
+  const { data: result, error } = await supabase
+    .from('field_conflicts')
+    .update({ status: 'resolved', resolved_value: value, resolved_at: new Date().toISOString() })
+    .eq('id', conflict.id)
+    .eq('user_id', userId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return result
+}
+
+/**
+ * Prepare conflicts for re-aggregation: open conflicts are rebuilt from the remaining documents,
+ * resolved ones keep the user's choice but drop candidates from documents that no longer exist
+ */
+export async function resetFieldConflictsForReAggregation(userId: string, documentIds: string[]): Promise<void> {
+  const conflicts = await getFieldConflicts(userId)
+
+  const openIds = conflicts.filter((c) => c.status === 'open').map((c) => c.id)
+  if (openIds.length > 0) {
+    const { error } = await supabase.from('field_conflicts').delete().in('id', openIds)
+    if (error) throw error
+  }
+
+  const resolved = conflicts
+    .filter((c) => c.status === 'resolved')
+    .map((c) => ({
+      ...c,
+      candidates: c.candidates.filter((candidate) => !candidate.document_id || documentIds.includes(candidate.document_id)),
+    }))
+  await saveFieldConflicts(resolved)
+}
@@ -0,0 +1,329 @@
+/**
+ * Dissipation Service - Flags bank activity that may show marital money being spent or moved away
+ * Looks across every uploaded statement for large withdrawals, transfers to accounts we don't know about,
+ * large cash withdrawals and balance drops around the date of separation, and exports the findings for an attorney
+ */
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import type { PDFFont, RGB } from 'pdf-lib'
+import { parseIncomeDate } from './incomeNormalizationService'
+import { getTransactionCategoryLabel } from './bankTransactionService'
+import type { AssetRow, BankTransactionRow, MarriageInfoRow } from '../types'
+
+type SpouseNumber = 1 | 2
+
+// One uploaded bank statement and the account it belongs to
+export interface BankStatementAccount {
+  documentId: string
+  spouseNumber: SpouseNumber
+  institution: string | null
+  accountLast4: string | null
+  statementStart: string | null
+  statementEnd: string | null
+}
+
+export interface DissipationThresholds {
+  largeWithdrawal: number // Single non-recurring payment at or above this
+  cashWithdrawal: number // ATM or counter cash at or above this
+  unknownTransferMinimum: number // Smaller transfers to unknown accounts are ignored
+  balanceDropPercent: number // Fall from the pre-separation balance (0-1)
+  balanceDropMinimum: number // ...and at least this many dollars
+  separationWindowDays: number // Days either side of the date of separation to watch
+}
+
+export const DEFAULT_DISSIPATION_THRESHOLDS: DissipationThresholds = {
+  largeWithdrawal: 2000,
+  cashWithdrawal: 500,
+  unknownTransferMinimum: 250,
+  balanceDropPercent: 0.25,
+  balanceDropMinimum: 1000,
+  separationWindowDays: 90,
+}
+
+export type DissipationFlagType = 'largeWithdrawal' | 'unknownTransfer' | 'largeCash' | 'balanceDrop'
+
+export interface DissipationFlag {
+  type: DissipationFlagType
+  severity: 'high' | 'medium' // High when it falls inside the separation window
+  spouseNumber: SpouseNumber
+  documentId: string
+  account: string // Readable account label
+  date: string | null
+  amount: number // Positive dollars out (or lost, for a balance drop)
+  description: string
+  message: string
+}
+
+export interface DissipationReport {
+  flags: DissipationFlag[]
+  totals: Record<DissipationFlagType, { count: number; amount: number }>
+  statementCount: number
+  transactionCount: number
+  periodStart: string | null
+  periodEnd: string | null
+  dateOfSeparation: string | null
+  notes: string[] // Checks that couldn't run, and why
+  generatedAt: string
+}
+
+export const DISSIPATION_FLAG_LABELS: Record<DissipationFlagType, string> = {
+  largeWithdrawal: 'Large withdrawal',
+  unknownTransfer: 'Transfer to an unknown account',
+  largeCash: 'Large cash withdrawal',
+  balanceDrop: 'Balance drop around separation',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+const formatAmount = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+const lastFour = (value: string | null | undefined) => (value ? value.replace(/\D/g, '').slice(-4) || null : null)
+
+/**
+ * Readable label for a statement's account, e.g. "Chase ...1234"
+ */
+export function getAccountLabel(account: BankStatementAccount | undefined): string {
+  if (!account) return 'Unknown account'
+  const label = [account.institution, account.accountLast4 ? `...${account.accountLast4}` : null].filter(Boolean).join(' ')
+  return label || 'Bank statement'
+}
+
+// Statements of the same account share a key, so balances can be followed from one statement to the next
+const accountKey = (account: BankStatementAccount | undefined, documentId: string) =>
+  account?.accountLast4 ? `${account.institution || ''}|${account.accountLast4}` : documentId
+
+/**
+ * Flag unusual activity across all uploaded bank statements
+ * Accounts are "known" when their last four digits appear on an uploaded statement or in the asset list.
+ */
+export function analyzeDissipation(
+  transactions: BankTransactionRow[],
+  accounts: BankStatementAccount[],
+  marriageInfo: MarriageInfoRow | null,
+  assets: AssetRow[],
+  thresholds: DissipationThresholds = DEFAULT_DISSIPATION_THRESHOLDS
+): DissipationReport {
+  const flags: DissipationFlag[] = []
+  const notes: string[] = []
+  const accountFor = (documentId: string) => accounts.find((a) => a.documentId === documentId)
+
+  const separation = parseIncomeDate(marriageInfo?.date_of_separation)
+  const windowMs = thresholds.separationWindowDays * DAY_MS
+  const nearSeparation = (date: string | null) => {
+    const parsed = parseIncomeDate(date)
+    return !!separation && !!parsed && Math.abs(parsed.getTime() - separation.getTime()) <= windowMs
+  }
+  if (!separation) {
+    notes.push('No date of separation entered - balance drops were not checked and no flag is marked high priority.')
+  }
+
+  const knownAccounts = new Set(
+    [...accounts.map((a) => a.accountLast4), ...assets.map((a) => lastFour(a.account_number))].filter(
+      (value): value is string => !!value
+    )
+  )
+  if (knownAccounts.size === 0) {
+    notes.push('No account numbers found on statements or assets - every transfer out is treated as going to an unknown account.')
+  }
+
+  const addFlag = (type: DissipationFlagType, transaction: BankTransactionRow, message: string) => {
+    flags.push({
+      type,
+      severity: nearSeparation(transaction.transaction_date) ? 'high' : 'medium',
+      spouseNumber: transaction.spouse_number,
+      documentId: transaction.document_id,
+      account: getAccountLabel(accountFor(transaction.document_id)),
+      date: transaction.transaction_date,
+      amount: round2(Math.abs(transaction.amount)),
+      description: transaction.description,
+      message,
+    })
+  }
+
+  transactions
+    .filter((t) => t.amount < 0)
+    .forEach((transaction) => {
+      const amount = Math.abs(transaction.amount)
+      if (transaction.category === 'cash') {
+        if (amount >= thresholds.cashWithdrawal) {
+          addFlag('largeCash', transaction, `Cash withdrawal of ${formatAmount(amount)}.`)
+        }
+      } else if (transaction.category === 'transfer') {
+        const digits = transaction.description.match(/\d{4,}/g) || []
+        const toKnownAccount = digits.some((d) => knownAccounts.has(d.slice(-4)))
+        if (!toKnownAccount && amount >= thresholds.unknownTransferMinimum) {
+          addFlag('unknownTransfer', transaction, `Transfer of ${formatAmount(amount)} to an account that isn't on any uploaded statement or asset.`)
+        }
+      } else if (!transaction.is_recurring && amount >= thresholds.largeWithdrawal) {
+        addFlag(
+          'largeWithdrawal',
+          transaction,
+          `One-time payment of ${formatAmount(amount)} (${getTransactionCategoryLabel(transaction.category).toLowerCase()}).`
+        )
+      }
+    })
+
+  // Balance drops - compare the balance before the window with the lowest balance inside it, per account
+  if (separation) {
+    const windowStart = separation.getTime() - windowMs
+    const windowEnd = separation.getTime() + windowMs
+    const byAccount = new Map<string, BankTransactionRow[]>()
+    transactions.forEach((t) => {
+      if (t.running_balance == null || !parseIncomeDate(t.transaction_date)) return
+      const key = accountKey(accountFor(t.document_id), t.document_id)
+      byAccount.set(key, [...(byAccount.get(key) || []), t])
+    })
+
+    byAccount.forEach((rows) => {
+      const dated = rows
+        .map((row) => ({ row, time: (parseIncomeDate(row.transaction_date) as Date).getTime() }))
+        .sort((a, b) => a.time - b.time)
+      const before = dated.filter((d) => d.time < windowStart)
+      const inside = dated.filter((d) => d.time >= windowStart && d.time <= windowEnd)
+      if (inside.length === 0) return
+
+      const baseline = before.length > 0 ? before[before.length - 1] : inside[0]
+      const lowest = inside.reduce((min, d) => (Number(d.row.running_balance) < Number(min.row.running_balance) ? d : min))
+      const startBalance = Number(baseline.row.running_balance)
+      const drop = round2(startBalance - Number(lowest.row.running_balance))
+      if (startBalance <= 0 || drop < thresholds.balanceDropMinimum || drop / startBalance < thresholds.balanceDropPercent) return
+
+      flags.push({
+        type: 'balanceDrop',
+        severity: 'high',
+        spouseNumber: lowest.row.spouse_number,
+        documentId: lowest.row.document_id,
+        account: getAccountLabel(accountFor(lowest.row.document_id)),
+        date: lowest.row.transaction_date,
+        amount: drop,
+        description: `${formatAmount(startBalance)} on ${baseline.row.transaction_date} to ${formatAmount(Number(lowest.row.running_balance))}`,
+        message: `Balance fell ${Math.round((drop / startBalance) * 100)}% (${formatAmount(drop)}) within ${thresholds.separationWindowDays} days of separation.`,
+      })
+    })
+  }
+
+  flags.sort((a, b) => (a.severity === b.severity ? (a.date || '').localeCompare(b.date || '') : a.severity === 'high' ? -1 : 1))
+
+  const totals = Object.fromEntries(
+    (Object.keys(DISSIPATION_FLAG_LABELS) as DissipationFlagType[]).map((type) => {
+      const ofType = flags.filter((f) => f.type === type)
+      return [type, { count: ofType.length, amount: round2(ofType.reduce((sum, f) => sum + f.amount, 0)) }]
+    })
+  ) as DissipationReport['totals']
+
+  const dates = transactions.map((t) => t.transaction_date).filter((d): d is string => !!d).sort()
+  return {
+    flags,
+    totals,
+    statementCount: new Set(transactions.map((t) => t.document_id)).size,
+    transactionCount: transactions.length,
+    periodStart: dates[0] || null,
+    periodEnd: dates[dates.length - 1] || null,
+    dateOfSeparation: marriageInfo?.date_of_separation || null,
+    notes,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Report as CSV, one row per flag - opens in a spreadsheet
+ */
+export function dissipationReportToCsv(report: DissipationReport, spouseNames: Record<SpouseNumber, string>): string {
+  const header = ['Priority', 'Type', 'Date', 'Amount', 'Whose Account', 'Account', 'Description', 'Finding']
+  const rows = report.flags.map((flag) => [
+    flag.severity === 'high' ? 'High' : 'Medium',
+    DISSIPATION_FLAG_LABELS[flag.type],
+    flag.date,
+    flag.amount.toFixed(2),
+    spouseNames[flag.spouseNumber],
+    flag.account,
+    flag.description,
+    flag.message,
+  ])
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n')
+}
+
+// Report page layout (US Letter, points)
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const LINE_HEIGHT = 14
+
+// The standard PDF fonts only cover Latin-1
+const toPdfText = (value: string | number) => String(value).replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+/**
+ * Report as a PDF to share with an attorney or mediator
+ */
+export async function generateDissipationReportPdf(
+  report: DissipationReport,
+  spouseNames: Record<SpouseNumber, string>
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle('Unusual Transaction Report')
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const gray = rgb(0.4, 0.4, 0.4)
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+  const line = (text: string, options: { size?: number; font?: PDFFont; color?: RGB; indent?: number } = {}) => {
+    if (y < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+    }
+    const size = options.size || 10
+    const font = options.font || regular
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - (options.indent || 0)
+    // Wrap long lines on word boundaries
+    let current = ''
+    toPdfText(text)
+      .split(' ')
+      .forEach((word) => {
+        const next = current ? `${current} ${word}` : word
+        if (current && font.widthOfTextAtSize(next, size) > maxWidth) {
+          page.drawText(current, { x: MARGIN + (options.indent || 0), y, size, font, color: options.color })
+          y -= LINE_HEIGHT
+          current = word
+        } else {
+          current = next
+        }
+      })
+    page.drawText(current, { x: MARGIN + (options.indent || 0), y, size, font, color: options.color })
+    y -= LINE_HEIGHT
+  }
+
+  line('Unusual Transaction Report', { size: 16, font: bold })
+  y -= LINE_HEIGHT / 2
+  line(`Prepared ${report.generatedAt.slice(0, 10)} from ${report.statementCount} bank statement(s), ${report.transactionCount} transactions`, { color: gray })
+  if (report.periodStart && report.periodEnd) line(`Transactions from ${report.periodStart} to ${report.periodEnd}`, { color: gray })
+  line(`Date of separation: ${report.dateOfSeparation || 'not entered'}`, { color: gray })
+  line('These are automated flags for review, not findings of wrongdoing.', { color: gray })
+  y -= LINE_HEIGHT
+
+  line('Summary', { size: 12, font: bold })
+  ;(Object.keys(DISSIPATION_FLAG_LABELS) as DissipationFlagType[]).forEach((type) => {
+    line(`${DISSIPATION_FLAG_LABELS[type]}: ${report.totals[type].count} (${formatAmount(report.totals[type].amount)})`, { indent: 12 })
+  })
+  report.notes.forEach((note) => line(note, { color: gray, indent: 12 }))
+  y -= LINE_HEIGHT
+
+  line('Flagged Activity', { size: 12, font: bold })
+  if (report.flags.length === 0) line('Nothing was flagged.', { indent: 12 })
+  report.flags.forEach((flag) => {
+    y -= LINE_HEIGHT / 2
+    line(
+      `${flag.date || 'No date'}  ${formatAmount(flag.amount)}  ${DISSIPATION_FLAG_LABELS[flag.type]}${flag.severity === 'high' ? ' (near separation)' : ''}`,
+      { font: bold, indent: 12 }
+    )
+    line(`${spouseNames[flag.spouseNumber]} - ${flag.account} - ${flag.description}`, { indent: 24 })
+    line(flag.message, { color: gray, indent: 24 })
+  })
+
+  return pdf.save()
+}
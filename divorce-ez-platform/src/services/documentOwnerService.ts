@@ -0,0 +1,75 @@
+/**
+ * Document Owner Service - Works out whose document an upload is
+ * Matches the names on the extracted data against personal_info (spouse 1) and spouse_info (spouse 2)
+ */
+
+import type { NormalizedFormData } from '../types'
+
+export interface DocumentOwnerMatch {
+  spouseNumber: 1 | 2 | null // null when neither spouse (or both) matched
+  matchedName: string | null // Name on the document that matched
+}
+
+// Documents about both spouses - they stay with spouse 1 and fill spouse_info from their spouse name fields
+const JOINT_DOCUMENT_TYPES = ['taxReturn', 'marriageCertificate', 'priorCourtOrder']
+
+/**
+ * Whether a document type is about both spouses, whichever spouse it was uploaded for
+ */
+export function isJointDocumentType(documentType: string): boolean {
+  return JOINT_DOCUMENT_TYPES.includes(documentType)
+}
+
+// Extracted fields holding the name of the person the document belongs to (regex and Gemini formats)
+const OWNER_NAME_KEYS = ['employeeFullName', 'fullName', 'name', 'accountHolderNames', 'recipientName', 'employeeName', 'accountHolderName', 'borrowerName', 'ownerName']
+
+const nameTokens = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 1)
+
+/**
+ * Names on the document that could identify its owner
+ */
+export function getDocumentNames(extractedData: Record<string, any>): string[] {
+  const names = OWNER_NAME_KEYS.map((key) => extractedData[key]).filter(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  )
+  const firstLast = [extractedData.firstName, extractedData.lastName].filter(Boolean).join(' ')
+  if (firstLast) names.push(firstLast)
+  return names
+}
+
+/**
+ * Whether a name on a document is this person's - first and last name must both appear, as spouses often share a last name
+ */
+export function matchesPersonName(name: string, person: { first_name: string | null; last_name: string | null } | null): boolean {
+  if (!person?.first_name || !person.last_name) return false
+  const tokens = nameTokens(name)
+  const first = nameTokens(person.first_name)[0]
+  const lastTokens = nameTokens(person.last_name)
+  return !!first && tokens.includes(first) && lastTokens.length > 0 && lastTokens.every((token) => tokens.includes(token))
+}
+
+/**
+ * Whose document this is, from the names on it
+ */
+export function detectDocumentSpouse(
+  extractedData: Record<string, any>,
+  documentType: string,
+  formData: Pick<NormalizedFormData, 'personal_info' | 'spouse_info'>
+): DocumentOwnerMatch {
+  if (isJointDocumentType(documentType)) return { spouseNumber: null, matchedName: null }
+
+  for (const name of getDocumentNames(extractedData)) {
+    const isSpouse1 = matchesPersonName(name, formData.personal_info)
+    const isSpouse2 = matchesPersonName(name, formData.spouse_info)
+    // A joint account lists both - leave it with spouse 1
+    if (isSpouse1 && isSpouse2) return { spouseNumber: null, matchedName: name }
+    if (isSpouse1) return { spouseNumber: 1, matchedName: name }
+    if (isSpouse2) return { spouseNumber: 2, matchedName: name }
+  }
+  return { spouseNumber: null, matchedName: null }
+}
@@ -3,13 +3,24 @@
  * Defines expected fields for each document type to guide extraction
  */
 
+import type {
+  PayFrequency,
+  BankStatementTransaction,
+  Form1099Variant,
+  PriorOrderType,
+  CustodyKind,
+  BusinessExpenseLine,
+  RetirementPlanType,
+} from '../types'
+
 export interface PayStubFields {
   employeeFullName?: string | null
   employerName?: string | null
   employerAddress?: string | null
   payPeriodStart?: string | null // ISO date string
   payPeriodEnd?: string | null // ISO date string
-  payFrequency?: 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null
+  payDate?: string | null // ISO date string
+  payFrequency?: PayFrequency | null
   grossIncomeCurrent?: number | null
   grossIncomeYTD?: number | null
   netIncomeCurrent?: number | null
@@ -43,6 +54,7 @@ export interface BankStatementFields {
   endingBalance?: number | null
   totalDeposits?: number | null
   totalWithdrawals?: number | null
+  transactions?: BankStatementTransaction[] | null // Every transaction line, in statement order
 }
 
 export interface TaxReturnFields {
@@ -53,14 +65,184 @@ export interface TaxReturnFields {
   adjustedGrossIncome?: number | null // AGI
   totalIncome?: number | null
   wages?: number | null // W-2 total
+  w2s?: Array<{ employeeName: string | null; employerName: string | null; wages: number | null }> | null // Attached W-2s
   interestIncome?: number | null
   dividendIncome?: number | null
   businessIncome?: number | null // Schedule C
+  scheduleC?: {
+    businessName?: string | null
+    grossReceipts?: number | null // Line 1
+    totalExpenses?: number | null // Line 28
+    netProfit?: number | null // Line 31
+    expenseLines?: BusinessExpenseLine[] | null // Lines 8-27 and 30
+  } | null
   totalTax?: number | null
   refundOrAmountOwed?: number | null // Positive = refund, negative = owed
 }
 
-export type DocumentFields = PayStubFields | MarriageCertificateFields | BankStatementFields | TaxReturnFields
+export interface W2Fields {
+  taxYear?: number | null
+  employeeFullName?: string | null // Box e
+  employeeSsnLast4?: string | null // Box a
+  employerName?: string | null // Box c
+  employerAddress?: string | null // Box c
+  employerEinLast4?: string | null // Box b
+  wages?: number | null // Box 1 - wages, tips, other compensation
+  federalTaxWithheld?: number | null // Box 2
+  socialSecurityWages?: number | null // Box 3
+  socialSecurityTaxWithheld?: number | null // Box 4
+  medicareWages?: number | null // Box 5
+  medicareTaxWithheld?: number | null // Box 6
+  socialSecurityTips?: number | null // Box 7
+  allocatedTips?: number | null // Box 8
+  dependentCareBenefits?: number | null // Box 10
+  nonqualifiedPlans?: number | null // Box 11
+  box12?: Array<{ code: string; amount: number | null }> | null // Box 12a-d, e.g. D = 401(k) deferrals
+  statutoryEmployee?: boolean | null // Box 13
+  retirementPlan?: boolean | null // Box 13
+  thirdPartySickPay?: boolean | null // Box 13
+  box14Other?: string | null // Box 14, free text
+  state?: string | null // Box 15
+  stateWages?: number | null // Box 16
+  stateIncomeTax?: number | null // Box 17
+}
+
+export interface Form1099Fields {
+  formVariant?: Form1099Variant | null
+  taxYear?: number | null
+  payerName?: string | null
+  payerTinLast4?: string | null
+  recipientName?: string | null
+  recipientTinLast4?: string | null
+  nonemployeeCompensation?: number | null // NEC box 1
+  rents?: number | null // MISC box 1
+  royalties?: number | null // MISC box 2
+  otherIncome?: number | null // MISC box 3
+  interestIncome?: number | null // INT box 1
+  ordinaryDividends?: number | null // DIV box 1a
+  qualifiedDividends?: number | null // DIV box 1b
+  capitalGainDistributions?: number | null // DIV box 2a
+  grossDistribution?: number | null // R box 1
+  taxableAmount?: number | null // R box 2a
+  distributionCode?: string | null // R box 7
+  federalTaxWithheld?: number | null // Box 4 on every variant
+  stateTaxWithheld?: number | null
+  state?: string | null
+}
+
+export interface ProfitAndLossFields {
+  businessName?: string | null
+  periodStart?: string | null // YYYY-MM-DD
+  periodEnd?: string | null // YYYY-MM-DD
+  grossRevenue?: number | null
+  totalExpenses?: number | null
+  netIncome?: number | null // Negative for a loss
+  expenseLines?: BusinessExpenseLine[] | null // Each expense line as written, with its Schedule C category
+}
+
+export interface RetirementStatementFields {
+  planName?: string | null
+  planType?: RetirementPlanType | null
+  administrator?: string | null // Plan administrator or custodian
+  employerName?: string | null // Plan sponsor, employer plans only
+  accountHolderName?: string | null
+  accountNumberLast4?: string | null
+  statementStartDate?: string | null // YYYY-MM-DD
+  statementEndDate?: string | null // YYYY-MM-DD, the balance is as of this date
+  beginningBalance?: number | null
+  endingBalance?: number | null
+  vestedBalance?: number | null
+  employeeContributions?: number | null // Statement period
+  employerContributions?: number | null // Statement period
+  ytdContributions?: number | null
+  loanBalance?: number | null
+  planEntryDate?: string | null // YYYY-MM-DD, account opened or participation began
+  monthlyBenefit?: number | null // Pensions
+}
+
+export interface MortgageStatementFields {
+  lenderName?: string | null // Lender or loan servicer
+  borrowerName?: string | null
+  loanNumberLast4?: string | null
+  propertyAddress?: string | null
+  statementDate?: string | null // YYYY-MM-DD
+  principalBalance?: number | null
+  monthlyPayment?: number | null
+  escrowBalance?: number | null
+  interestRate?: number | null // Percent
+}
+
+export interface PropertyTaxNoticeFields {
+  ownerName?: string | null
+  parcelNumber?: string | null
+  propertyAddress?: string | null
+  taxYear?: number | null
+  marketValue?: number | null
+  assessedValue?: number | null // Taxable value
+  taxAmount?: number | null // Annual
+}
+
+export interface VehicleTitleFields {
+  ownerNames?: string[] | null
+  vin?: string | null
+  year?: number | null
+  make?: string | null
+  model?: string | null
+  titleNumber?: string | null
+  issueDate?: string | null // YYYY-MM-DD
+  lienholderName?: string | null
+}
+
+export interface AutoLoanStatementFields {
+  lenderName?: string | null
+  borrowerName?: string | null
+  accountNumberLast4?: string | null
+  vin?: string | null
+  vehicleDescription?: string | null // Year, make and model
+  statementDate?: string | null // YYYY-MM-DD
+  principalBalance?: number | null // Payoff balance
+  monthlyPayment?: number | null
+  interestRate?: number | null // APR, percent
+}
+
+export interface PriorCourtOrderFields {
+  caseNumber?: string | null
+  courtName?: string | null // e.g. "Third Judicial District Court"
+  county?: string | null
+  state?: string | null
+  judgeName?: string | null // Judge or commissioner who signed the order
+  petitionerName?: string | null
+  respondentName?: string | null
+  orderTypes?: PriorOrderType[] | null
+  orderDate?: string | null // YYYY-MM-DD
+  expirationDate?: string | null // YYYY-MM-DD, protective orders
+  childSupportAmount?: number | null // Monthly
+  alimonyAmount?: number | null // Monthly
+  supportPayorName?: string | null
+  legalCustody?: CustodyKind | null
+  physicalCustody?: CustodyKind | null
+  parentTimeSchedule?: string | null // Schedule as ordered, e.g. "Utah Code 30-3-35 minimum parent-time"
+  restrainedPartyName?: string | null // Protective orders
+  protectedPartyNames?: string[] | null
+  noContact?: boolean | null
+  stayAwayDistanceFeet?: number | null
+  contactRestrictions?: string[] | null // Each restriction as ordered
+}
+
+export type DocumentFields =
+  | PayStubFields
+  | MarriageCertificateFields
+  | BankStatementFields
+  | TaxReturnFields
+  | W2Fields
+  | Form1099Fields
+  | PriorCourtOrderFields
+  | ProfitAndLossFields
+  | RetirementStatementFields
+  | MortgageStatementFields
+  | PropertyTaxNoticeFields
+  | VehicleTitleFields
+  | AutoLoanStatementFields
 
 /**
  * Get expected fields for a document type
@@ -74,6 +256,7 @@ export function getExpectedFields(documentType: string): string[] {
         'employerAddress',
         'payPeriodStart',
         'payPeriodEnd',
+        'payDate',
         'payFrequency',
         'grossIncomeCurrent',
         'grossIncomeYTD',
@@ -108,6 +291,7 @@ export function getExpectedFields(documentType: string): string[] {
         'endingBalance',
         'totalDeposits',
         'totalWithdrawals',
+        'transactions',
       ]
     case 'taxReturn':
       return [
@@ -118,12 +302,107 @@ export function getExpectedFields(documentType: string): string[] {
         'adjustedGrossIncome',
         'totalIncome',
         'wages',
+        'w2s',
         'interestIncome',
         'dividendIncome',
         'businessIncome',
         'totalTax',
         'refundOrAmountOwed',
       ]
+    case 'w2':
+      return [
+        'taxYear',
+        'employeeFullName',
+        'employeeSsnLast4',
+        'employerName',
+        'employerAddress',
+        'employerEinLast4',
+        'wages',
+        'federalTaxWithheld',
+        'socialSecurityWages',
+        'socialSecurityTaxWithheld',
+        'medicareWages',
+        'medicareTaxWithheld',
+        'box12',
+        'retirementPlan',
+        'state',
+        'stateWages',
+        'stateIncomeTax',
+      ]
+    case '1099':
+      return [
+        'formVariant',
+        'taxYear',
+        'payerName',
+        'payerTinLast4',
+        'recipientName',
+        'recipientTinLast4',
+        'nonemployeeCompensation',
+        'rents',
+        'royalties',
+        'otherIncome',
+        'interestIncome',
+        'ordinaryDividends',
+        'grossDistribution',
+        'taxableAmount',
+        'federalTaxWithheld',
+      ]
+    case 'profitAndLoss':
+      return ['businessName', 'periodStart', 'periodEnd', 'grossRevenue', 'totalExpenses', 'netIncome', 'expenseLines']
+    case 'retirementStatement':
+      return [
+        'planName',
+        'planType',
+        'administrator',
+        'accountHolderName',
+        'accountNumberLast4',
+        'statementStartDate',
+        'statementEndDate',
+        'beginningBalance',
+        'endingBalance',
+        'vestedBalance',
+        'employeeContributions',
+        'employerContributions',
+      ]
+    case 'mortgageStatement':
+      return [
+        'lenderName',
+        'borrowerName',
+        'loanNumberLast4',
+        'propertyAddress',
+        'statementDate',
+        'principalBalance',
+        'monthlyPayment',
+        'escrowBalance',
+        'interestRate',
+      ]
+    case 'propertyTaxNotice':
+      return ['ownerName', 'parcelNumber', 'propertyAddress', 'taxYear', 'marketValue', 'assessedValue', 'taxAmount']
+    case 'vehicleTitle':
+      return ['ownerNames', 'vin', 'year', 'make', 'model', 'titleNumber', 'issueDate', 'lienholderName']
+    case 'autoLoanStatement':
+      return [
+        'lenderName',
+        'borrowerName',
+        'accountNumberLast4',
+        'vin',
+        'vehicleDescription',
+        'statementDate',
+        'principalBalance',
+        'monthlyPayment',
+        'interestRate',
+      ]
+    case 'priorCourtOrder':
+      return [
+        'caseNumber',
+        'courtName',
+        'county',
+        'judgeName',
+        'petitionerName',
+        'respondentName',
+        'orderTypes',
+        'orderDate',
+      ]
     default:
       return []
   }
@@ -142,6 +421,24 @@ export function getCriticalFields(documentType: string): string[] {
       return ['accountHolderNames', 'financialInstitutionName', 'endingBalance']
     case 'taxReturn':
       return ['taxYear', 'taxpayerName', 'adjustedGrossIncome', 'totalIncome']
+    case 'w2':
+      return ['employeeFullName', 'employerName', 'wages']
+    case '1099':
+      return ['formVariant', 'payerName', 'recipientName']
+    case 'profitAndLoss':
+      return ['grossRevenue', 'netIncome']
+    case 'retirementStatement':
+      return ['administrator', 'accountHolderName', 'statementEndDate', 'endingBalance']
+    case 'mortgageStatement':
+      return ['lenderName', 'propertyAddress', 'principalBalance']
+    case 'propertyTaxNotice':
+      return ['propertyAddress', 'marketValue']
+    case 'vehicleTitle':
+      return ['vin', 'make', 'model']
+    case 'autoLoanStatement':
+      return ['lenderName', 'principalBalance']
+    case 'priorCourtOrder':
+      return ['caseNumber', 'courtName', 'orderTypes']
     default:
       return []
   }
@@ -0,0 +1,62 @@
+/**
+ * Document Storage Service - Stores the file(s) behind one document in Supabase storage
+ */
+
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+
+/**
+ * Order files that make up one document by name, so "page 2" sorts before "page 10"
+ */
+export function orderDocumentFiles(files: File[]): File[] {
+  return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }))
+}
+
+/**
+ * Display name for a document made of one or more files
+ */
+export function getDocumentFileName(files: File[]): string {
+  if (files.length <= 1) return files[0]?.name || ''
+  return `${files[0].name} (+${files.length - 1} more)`
+}
+
+/**
+ * Upload a document's files, returning the storage paths that were saved (in page order)
+ * Storage is optional - failures are logged and the document is still processed
+ */
+export async function uploadDocumentFiles(userId: string, documentType: string, files: File[]): Promise<string[]> {
+  const timestamp = Date.now()
+  const paths: string[] = []
+
+  for (let i = 0; i < files.length; i++) {
+    // Multi-file documents share a folder so their pages stay together
+    const filePath =
+      files.length === 1
+        ? `${userId}/${documentType}/${timestamp}_${files[i].name}`
+        : `${userId}/${documentType}/${timestamp}/${i + 1}_${files[i].name}`
+
+    try {
+      const { error } = await supabase.storage.from('documents').upload(filePath, files[i])
+      if (error) {
+        logger.warn('File upload to storage failed', { fileName: files[i].name, message: error.message })
+        continue
+      }
+      paths.push(filePath)
+    } catch (storageError: any) {
+      logger.warn('Storage bucket not configured', { message: storageError?.message })
+      break
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Remove a document's files from storage
+ */
+export async function removeDocumentFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage.from('documents').remove(paths)
+  if (error) throw error
+}
@@ -0,0 +1,210 @@
+/**
+ * Field Lock Service - Keeps values the user edited by hand from being overwritten by document data
+ */
+
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+import { PER_SPOUSE_TABLES, isEmptyValue } from './conflictService'
+import type { FieldLockRow } from '../types'
+
+type SpouseNumber = 1 | 2
+
+// Bookkeeping columns that are never locked
+const IGNORED_COLUMNS = ['id', 'user_id', 'spouse_number', 'last_updated', 'created_at']
+
+// Tables with one row per item - their locks name the row, and a row the user added by hand (its type or name column
+// is locked) is inserted again when a rebuild dropped it
+const ROW_TABLE_TYPE_COLUMNS: Record<string, string> = { assets: 'asset_type', debts: 'debt_type', employers: 'employer_name' }
+
+// Locks written before migration V20 have no row_id
+const rowIdOf = (lock: FieldLockRow): string => lock.row_id || ''
+
+const sameValue = (a: any, b: any): boolean => {
+  if (isEmptyValue(a) || isEmptyValue(b)) return isEmptyValue(a) && isEmptyValue(b)
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Get all locked fields for a user
+ */
+export async function getFieldLocks(userId: string): Promise<FieldLockRow[]> {
+  const { data, error } = await supabase.from('field_locks').select('*').eq('user_id', userId)
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Look up the lock for one column
+ */
+export function findFieldLock(
+  locks: FieldLockRow[],
+  tableName: string,
+  columnName: string,
+  spouseNumber: SpouseNumber = 1,
+  rowId = ''
+): FieldLockRow | undefined {
+  return locks.find(
+    (lock) =>
+      lock.table_name === tableName &&
+      lock.column_name === columnName &&
+      lock.spouse_number === spouseNumber &&
+      rowIdOf(lock) === rowId
+  )
+}
+
+/**
+ * Locked values of one asset, debt or employer row, by column
+ */
+export function getRowLockValues(locks: FieldLockRow[], tableName: string, rowId: string): Record<string, any> {
+  return Object.fromEntries(
+    locks.filter((lock) => lock.table_name === tableName && rowIdOf(lock) === rowId).map((lock) => [lock.column_name, lock.value])
+  )
+}
+
+/**
+ * Drop locked columns from values about to be written from a document
+ */
+export function withoutLockedFields<T extends Record<string, any>>(
+  locks: FieldLockRow[],
+  tableName: string,
+  spouseNumber: SpouseNumber,
+  updates: T
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([columnName]) => !findFieldLock(locks, tableName, columnName, spouseNumber))
+  ) as Partial<T>
+}
+
+/**
+ * Lock every column the user changed compared with the values that were loaded
+ * Asset, debt and employer rows pass their id as rowId - a row without original values locks every column it has
+ */
+export async function lockEditedFields(
+  userId: string,
+  tableName: string,
+  spouseNumber: SpouseNumber,
+  original: Record<string, any> | null | undefined,
+  edited: Record<string, any>,
+  rowId = ''
+): Promise<number> {
+  const lockedAt = new Date().toISOString()
+  const rows = Object.entries(edited)
+    .filter(([columnName, value]) => !IGNORED_COLUMNS.includes(columnName) && !sameValue(original?.[columnName], value))
+    .map(([columnName, value]) => ({
+      user_id: userId,
+      table_name: tableName,
+      column_name: columnName,
+      spouse_number: spouseNumber,
+      row_id: rowId,
+      value: value === '' || value === undefined ? null : value,
+      locked_at: lockedAt,
+    }))
+
+  if (rows.length === 0) return 0
+
+  const { error } = await supabase
+    .from('field_locks')
+    .upsert(rows, { onConflict: 'user_id,table_name,column_name,spouse_number,row_id' })
+
+  if (error) throw error
+  logger.debug('Locked edited fields', { tableName, count: rows.length })
+  return rows.length
+}
+
+/**
+ * Unlock a column so the next re-aggregation takes the document value again
+ */
+export async function unlockField(
+  userId: string,
+  tableName: string,
+  columnName: string,
+  spouseNumber: SpouseNumber = 1,
+  rowId = ''
+): Promise<void> {
+  const { error } = await supabase
+    .from('field_locks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('table_name', tableName)
+    .eq('column_name', columnName)
+    .eq('spouse_number', spouseNumber)
+    .eq('row_id', rowId)
+
+  if (error) throw error
+}
+
+/**
+ * Drop the locks of asset, debt or employer rows the user removed
+ */
+export async function unlockRemovedRows(userId: string, tableName: string, keepRowIds: string[]): Promise<void> {
+  let query = supabase.from('field_locks').delete().eq('user_id', userId).eq('table_name', tableName).neq('row_id', '')
+  if (keepRowIds.length > 0) {
+    query = query.not('row_id', 'in', `(${keepRowIds.join(',')})`)
+  }
+  const { error } = await query
+
+  if (error) throw error
+}
+
+/**
+ * Write locked values back into the normalized tables (after they were rebuilt from documents)
+ * restoreRemovedRows is off while a single document is saved - only a full rebuild knows which rows it dropped
+ */
+export async function applyFieldLocks(userId: string, locks: FieldLockRow[], restoreRemovedRows = true): Promise<void> {
+  const rows = new Map<string, { tableName: string; row: Record<string, any> }>()
+  locks.filter((lock) => !rowIdOf(lock)).forEach((lock) => {
+    const perSpouse = PER_SPOUSE_TABLES.includes(lock.table_name)
+    const key = perSpouse ? `${lock.table_name}.${lock.spouse_number}` : lock.table_name
+    const entry = rows.get(key) || {
+      tableName: lock.table_name,
+      row: { user_id: userId, ...(perSpouse ? { spouse_number: lock.spouse_number } : {}) },
+    }
+    entry.row[lock.column_name] = lock.value
+    rows.set(key, entry)
+  })
+
+  for (const { tableName, row } of rows.values()) {
+    const { error } = await supabase
+      .from(tableName)
+      .upsert(
+        { ...row, last_updated: new Date().toISOString() },
+        { onConflict: PER_SPOUSE_TABLES.includes(tableName) ? 'user_id,spouse_number' : 'user_id' }
+      )
+
+    if (error) throw error
+  }
+
+  await applyRowFieldLocks(userId, locks, restoreRemovedRows)
+  logger.debug('Applied field locks', { count: locks.length })
+}
+
+/**
+ * Write locked values into the asset, debt and employer rows they belong to
+ * Rows the user added by hand are inserted again when they no longer exist; other missing rows are skipped
+ */
+async function applyRowFieldLocks(userId: string, locks: FieldLockRow[], restoreRemovedRows: boolean): Promise<void> {
+  // Assets first - debts can be secured by a restored asset
+  for (const [tableName, typeColumn] of Object.entries(ROW_TABLE_TYPE_COLUMNS)) {
+    const rowIds = [...new Set(locks.filter((lock) => lock.table_name === tableName && rowIdOf(lock)).map(rowIdOf))]
+    if (rowIds.length === 0) continue
+
+    const { data: existing, error: existingError } = await supabase.from(tableName).select('id').eq('user_id', userId).in('id', rowIds)
+    if (existingError) throw existingError
+    const existingIds = new Set((existing || []).map((row: { id: string }) => row.id))
+
+    const lastUpdated = new Date().toISOString()
+    for (const rowId of rowIds) {
+      const values = getRowLockValues(locks, tableName, rowId)
+      const spouseNumber = locks.find((lock) => lock.table_name === tableName && rowIdOf(lock) === rowId)?.spouse_number || 1
+      const scope = PER_SPOUSE_TABLES.includes(tableName) ? { spouse_number: spouseNumber } : {}
+      const { error } = existingIds.has(rowId)
+        ? await supabase.from(tableName).update({ ...values, last_updated: lastUpdated }).eq('user_id', userId).eq('id', rowId)
+        : restoreRemovedRows && values[typeColumn]
+          ? await supabase.from(tableName).insert({ ...values, ...scope, id: rowId, user_id: userId, last_updated: lastUpdated })
+          : { error: null }
+
+      if (error) throw error
+    }
+  }
+}
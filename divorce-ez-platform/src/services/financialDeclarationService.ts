@@ -0,0 +1,351 @@
+/**
+ * Financial Declaration Service - Utah Financial Declaration income, deduction and expense schedule
+ * Starts from the Financial Information rows and checks that the declaration's totals reconcile with them
+ */
+
+import { getGrossMonthlyIncome } from './childSupportService'
+import type {
+  NormalizedFormData,
+  IncomeRow,
+  ExpenseRow,
+  AssetRow,
+  DebtRow,
+  DeclarationItemType,
+  FinancialDeclarationItemRow,
+} from '../types'
+
+type SpouseNumber = 1 | 2
+
+export interface DeclarationCategory {
+  key: string
+  label: string
+  group: string
+}
+
+// Editable amounts for one spouse, keyed `${item_type}.${category}`
+export type DeclarationAmounts = Record<string, number | null>
+
+export interface DeclarationSummary {
+  grossMonthlyIncome: number
+  totalDeductions: number
+  netMonthlyIncome: number
+  totalExpenses: number
+  monthlySurplus: number // Net income minus expenses (negative = shortfall)
+  expensesByGroup: { group: string; total: number }[]
+}
+
+export interface ScheduleTotals {
+  assets: AssetRow[]
+  debts: DebtRow[]
+  totalAssets: number
+  totalDebts: number
+  totalDebtPayments: number
+  netWorth: number
+}
+
+export interface DeclarationIssue {
+  severity: 'error' | 'warning'
+  spouseNumber: SpouseNumber | null // null for the shared asset/debt schedules
+  message: string
+}
+
+export const DECLARATION_INCOME_SOURCES: DeclarationCategory[] = [
+  { key: 'wages', label: 'Salary and wages', group: 'Employment' },
+  { key: 'overtime', label: 'Overtime', group: 'Employment' },
+  { key: 'bonuses', label: 'Commissions and bonuses', group: 'Employment' },
+  { key: 'self_employment', label: 'Self-employment or business income', group: 'Employment' },
+  { key: 'rental', label: 'Rental income', group: 'Investments' },
+  { key: 'interest_dividends', label: 'Interest and dividends', group: 'Investments' },
+  { key: 'social_security', label: 'Social Security', group: 'Benefits' },
+  { key: 'disability', label: 'Disability benefits', group: 'Benefits' },
+  { key: 'unemployment', label: 'Unemployment', group: 'Benefits' },
+  { key: 'retirement', label: 'Pension and retirement', group: 'Benefits' },
+  { key: 'alimony_received', label: 'Alimony received (prior marriage)', group: 'Support' },
+  { key: 'child_support_received', label: 'Child support received (prior relationship)', group: 'Support' },
+  { key: 'other_income', label: 'Other income', group: 'Other' },
+]
+
+export const DECLARATION_DEDUCTIONS: DeclarationCategory[] = [
+  { key: 'federal_tax', label: 'Federal income tax', group: 'Taxes' },
+  { key: 'state_tax', label: 'State income tax', group: 'Taxes' },
+  { key: 'social_security_tax', label: 'Social Security tax', group: 'Taxes' },
+  { key: 'medicare_tax', label: 'Medicare tax', group: 'Taxes' },
+  { key: 'health_insurance_premium', label: 'Health insurance taken from pay', group: 'Payroll' },
+  { key: 'retirement_contribution', label: 'Required retirement contributions', group: 'Payroll' },
+  { key: 'union_dues', label: 'Union dues', group: 'Payroll' },
+  { key: 'other_deductions', label: 'Other payroll deductions', group: 'Payroll' },
+]
+
+export const DECLARATION_EXPENSE_CATEGORIES: DeclarationCategory[] = [
+  { key: 'rent_mortgage', label: 'Rent or mortgage', group: 'Housing' },
+  { key: 'second_mortgage', label: 'Second mortgage or home equity loan', group: 'Housing' },
+  { key: 'property_taxes', label: 'Property taxes', group: 'Housing' },
+  { key: 'home_insurance', label: "Homeowner's or renter's insurance", group: 'Housing' },
+  { key: 'hoa_fees', label: 'HOA fees', group: 'Housing' },
+  { key: 'home_maintenance', label: 'Home repairs and maintenance', group: 'Housing' },
+  { key: 'utilities', label: 'Electricity, gas, water, sewer and garbage', group: 'Utilities' },
+  { key: 'phone', label: 'Phone and cell phone', group: 'Utilities' },
+  { key: 'internet_tv', label: 'Internet and TV', group: 'Utilities' },
+  { key: 'food', label: 'Food and household supplies', group: 'Food' },
+  { key: 'meals_out', label: 'Meals eaten out', group: 'Food' },
+  { key: 'clothing', label: 'Clothing', group: 'Clothing and personal' },
+  { key: 'personal_care', label: 'Laundry, dry cleaning and personal care', group: 'Clothing and personal' },
+  { key: 'health_insurance', label: 'Health insurance (not taken from pay)', group: 'Medical' },
+  { key: 'medical', label: 'Medical, dental and vision costs not covered', group: 'Medical' },
+  { key: 'prescriptions', label: 'Prescriptions', group: 'Medical' },
+  { key: 'childcare', label: 'Work-related childcare', group: 'Children' },
+  { key: 'child_education', label: "Children's school costs and tuition", group: 'Children' },
+  { key: 'child_activities', label: "Children's activities and lessons", group: 'Children' },
+  { key: 'child_support_paid', label: 'Child support paid (prior relationship)', group: 'Children' },
+  { key: 'alimony_paid', label: 'Alimony paid (prior marriage)', group: 'Children' },
+  { key: 'education', label: 'Your own tuition and education', group: 'Education' },
+  { key: 'vehicle_payment', label: 'Vehicle loan or lease payments', group: 'Transportation' },
+  { key: 'vehicle_insurance', label: 'Vehicle insurance', group: 'Transportation' },
+  { key: 'fuel_maintenance', label: 'Gas, repairs and maintenance', group: 'Transportation' },
+  { key: 'public_transit', label: 'Parking and public transportation', group: 'Transportation' },
+  { key: 'recreation', label: 'Entertainment and recreation', group: 'Recreation' },
+  { key: 'vacations', label: 'Vacations', group: 'Recreation' },
+  { key: 'gifts_donations', label: 'Gifts and donations', group: 'Recreation' },
+  { key: 'life_insurance', label: 'Life insurance', group: 'Insurance' },
+  { key: 'other_insurance', label: 'Other insurance', group: 'Insurance' },
+  { key: 'credit_cards', label: 'Credit card payments', group: 'Debt payments' },
+  { key: 'student_loans', label: 'Student loan payments', group: 'Debt payments' },
+  { key: 'other_debts', label: 'Other loan payments', group: 'Debt payments' },
+  { key: 'pets', label: 'Pets', group: 'Other' },
+  { key: 'other_expenses', label: 'Other expenses', group: 'Other' },
+]
+
+export const DECLARATION_CATEGORIES: Record<DeclarationItemType, DeclarationCategory[]> = {
+  income: DECLARATION_INCOME_SOURCES,
+  deduction: DECLARATION_DEDUCTIONS,
+  expense: DECLARATION_EXPENSE_CATEGORIES,
+}
+
+// Categories filled from a Financial Information column; the declaration is checked against the same column
+const EXPENSE_SOURCES: { category: string; column: keyof ExpenseRow; label: string }[] = [
+  { category: 'rent_mortgage', column: 'monthly_housing_cost', label: 'housing cost' },
+  { category: 'utilities', column: 'monthly_utilities', label: 'utilities' },
+  { category: 'childcare', column: 'monthly_childcare_cost', label: 'childcare' },
+  { category: 'fuel_maintenance', column: 'monthly_transportation', label: 'transportation' },
+  { category: 'health_insurance', column: 'monthly_health_insurance', label: 'health insurance' },
+  { category: 'other_insurance', column: 'monthly_insurance_premiums', label: 'insurance premiums' },
+  { category: 'other_debts', column: 'monthly_debt_payments', label: 'debt payments' },
+]
+// Mortgages are left out on both sides - rent_mortgage also covers rent
+const DEBT_PAYMENT_CATEGORIES = ['credit_cards', 'student_loans', 'other_debts', 'vehicle_payment']
+
+// Differences under a dollar are rounding
+const RECONCILE_TOLERANCE = 1
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+const toMonthly = (annual: number | null | undefined) => (annual != null ? round2(Number(annual) / 12) : null)
+
+export const amountKey = (type: DeclarationItemType, category: string) => `${type}.${category}`
+
+const sumAmounts = (amounts: DeclarationAmounts, type: DeclarationItemType, keys?: string[]) =>
+  round2(
+    DECLARATION_CATEGORIES[type]
+      .filter((category) => !keys || keys.includes(category.key))
+      .reduce((sum, category) => sum + (Number(amounts[amountKey(type, category.key)]) || 0), 0)
+  )
+
+/**
+ * Starting amounts from the Financial Information module (annual document figures divided by 12)
+ * Overtime and bonuses are left out - annual wages from a tax return or W-2 already include them.
+ * Monthly bank statement spending by expense category fills the categories Financial Information doesn't cover.
+ */
+export function buildDefaultAmounts(
+  income: IncomeRow | null | undefined,
+  expenses: ExpenseRow | null | undefined,
+  spending: Record<string, number> = {}
+): DeclarationAmounts {
+  const amounts: DeclarationAmounts = {}
+
+  if (income) {
+    amounts[amountKey('income', 'wages')] = toMonthly(income.wage_income) ?? (income.gross_monthly_income != null ? Number(income.gross_monthly_income) : null)
+    amounts[amountKey('income', 'self_employment')] = toMonthly(income.self_employment_income)
+    amounts[amountKey('income', 'rental')] = toMonthly(income.rental_income)
+    amounts[amountKey('income', 'interest_dividends')] = toMonthly(income.investment_income)
+  }
+
+  if (expenses) {
+    EXPENSE_SOURCES.forEach(({ category, column }) => {
+      const value = expenses[column]
+      amounts[amountKey('expense', category)] = value != null ? Number(value) : null
+    })
+    // Documents only give the combined payroll deduction total
+    if (expenses.monthly_payroll_deductions != null) {
+      amounts[amountKey('deduction', 'other_deductions')] = Number(expenses.monthly_payroll_deductions)
+    }
+  }
+
+  DECLARATION_EXPENSE_CATEGORIES.forEach(({ key }) => {
+    if (amounts[amountKey('expense', key)] == null && spending[key] != null) {
+      amounts[amountKey('expense', key)] = spending[key]
+    }
+  })
+
+  return amounts
+}
+
+/**
+ * Amounts for one spouse - saved declaration items, or defaults when nothing has been saved yet
+ */
+export function getSpouseAmounts(
+  items: FinancialDeclarationItemRow[],
+  formData: NormalizedFormData,
+  spouseNumber: SpouseNumber,
+  spending?: Record<string, number>
+): DeclarationAmounts {
+  const saved = items.filter((item) => item.spouse_number === spouseNumber)
+  if (saved.length === 0) {
+    return buildDefaultAmounts(
+      formData.income.find((row) => row.spouse_number === spouseNumber),
+      formData.expenses.find((row) => row.spouse_number === spouseNumber),
+      spending
+    )
+  }
+  return Object.fromEntries(saved.map((item) => [amountKey(item.item_type, item.category), item.monthly_amount]))
+}
+
+/**
+ * Declaration items to save for one spouse (empty amounts are not stored)
+ */
+export function toDeclarationItems(
+  amounts: DeclarationAmounts
+): Omit<FinancialDeclarationItemRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'>[] {
+  return (Object.keys(DECLARATION_CATEGORIES) as DeclarationItemType[]).flatMap((type) =>
+    DECLARATION_CATEGORIES[type]
+      .filter((category) => amounts[amountKey(type, category.key)] != null)
+      .map((category) => ({
+        item_type: type,
+        category: category.key,
+        monthly_amount: amounts[amountKey(type, category.key)],
+        notes: null,
+      }))
+  )
+}
+
+/**
+ * Monthly income, deductions, expenses and surplus for one spouse
+ */
+export function summarizeDeclaration(amounts: DeclarationAmounts): DeclarationSummary {
+  const grossMonthlyIncome = sumAmounts(amounts, 'income')
+  const totalDeductions = sumAmounts(amounts, 'deduction')
+  const totalExpenses = sumAmounts(amounts, 'expense')
+  const netMonthlyIncome = round2(grossMonthlyIncome - totalDeductions)
+
+  const groups = Array.from(new Set(DECLARATION_EXPENSE_CATEGORIES.map((category) => category.group)))
+  return {
+    grossMonthlyIncome,
+    totalDeductions,
+    netMonthlyIncome,
+    totalExpenses,
+    monthlySurplus: round2(netMonthlyIncome - totalExpenses),
+    expensesByGroup: groups.map((group) => ({
+      group,
+      total: sumAmounts(
+        amounts,
+        'expense',
+        DECLARATION_EXPENSE_CATEGORIES.filter((category) => category.group === group).map((category) => category.key)
+      ),
+    })),
+  }
+}
+
+/**
+ * Asset and debt schedules with totals
+ */
+export function buildSchedules(assets: AssetRow[], debts: DebtRow[]): ScheduleTotals {
+  const totalAssets = round2(assets.reduce((sum, asset) => sum + (Number(asset.approximate_value) || 0), 0))
+  const totalDebts = round2(debts.reduce((sum, debt) => sum + (Number(debt.approximate_balance) || 0), 0))
+  return {
+    assets,
+    debts,
+    totalAssets,
+    totalDebts,
+    totalDebtPayments: round2(debts.reduce((sum, debt) => sum + (Number(debt.monthly_payment) || 0), 0)),
+    netWorth: round2(totalAssets - totalDebts),
+  }
+}
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+const differs = (a: number, b: number) => Math.abs(a - b) > RECONCILE_TOLERANCE
+
+/**
+ * Check that each spouse's declaration reconciles with Financial Information and the debt schedule
+ */
+export function validateDeclaration(
+  amountsBySpouse: Record<SpouseNumber, DeclarationAmounts>,
+  formData: NormalizedFormData
+): DeclarationIssue[] {
+  const issues: DeclarationIssue[] = []
+
+  ;([1, 2] as SpouseNumber[]).forEach((spouseNumber) => {
+    const amounts = amountsBySpouse[spouseNumber]
+    const summary = summarizeDeclaration(amounts)
+    const who = spouseNumber === 1 ? 'Your' : "Your spouse's"
+
+    const negative = Object.entries(amounts).filter(([, value]) => value != null && Number(value) < 0)
+    if (negative.length > 0) {
+      issues.push({ severity: 'error', spouseNumber, message: `${who} declaration has ${negative.length} negative amount(s).` })
+    }
+
+    if (summary.totalDeductions > summary.grossMonthlyIncome) {
+      issues.push({
+        severity: 'error',
+        spouseNumber,
+        message: `${who} deductions (${formatAmount(summary.totalDeductions)}) are more than gross income (${formatAmount(summary.grossMonthlyIncome)}).`,
+      })
+    }
+
+    const incomeRow = formData.income.find((row) => row.spouse_number === spouseNumber)
+    const reportedIncome = round2(getGrossMonthlyIncome(incomeRow))
+    if (incomeRow && reportedIncome > 0 && differs(summary.grossMonthlyIncome, reportedIncome)) {
+      issues.push({
+        severity: 'warning',
+        spouseNumber,
+        message: `${who} income sources add up to ${formatAmount(summary.grossMonthlyIncome)} a month, but Financial Information shows ${formatAmount(reportedIncome)}.`,
+      })
+    }
+
+    const expenseRow = formData.expenses.find((row) => row.spouse_number === spouseNumber)
+    EXPENSE_SOURCES.forEach(({ category, column, label }) => {
+      const reported = expenseRow?.[column]
+      const declared = amounts[amountKey('expense', category)]
+      if (reported == null || declared == null || !differs(Number(declared), Number(reported))) return
+      issues.push({
+        severity: 'warning',
+        spouseNumber,
+        message: `${who} ${label} is ${formatAmount(Number(declared))} here but ${formatAmount(Number(reported))} in Financial Information.`,
+      })
+    })
+  })
+
+  // Debt payments are split between the spouses' declarations, so they are checked together
+  const schedules = buildSchedules(formData.assets, formData.debts)
+  const declaredDebtPayments = round2(
+    sumAmounts(amountsBySpouse[1], 'expense', DEBT_PAYMENT_CATEGORIES) + sumAmounts(amountsBySpouse[2], 'expense', DEBT_PAYMENT_CATEGORIES)
+  )
+  const scheduledDebtPayments = round2(
+    schedules.debts.filter((debt) => debt.debt_type !== 'mortgage').reduce((sum, debt) => sum + (Number(debt.monthly_payment) || 0), 0)
+  )
+  if (scheduledDebtPayments > 0 && differs(declaredDebtPayments, scheduledDebtPayments)) {
+    issues.push({
+      severity: 'warning',
+      spouseNumber: null,
+      message: `Loan and credit card payments in the declarations total ${formatAmount(declaredDebtPayments)}, but the debt schedule lists ${formatAmount(scheduledDebtPayments)} a month.`,
+    })
+  }
+
+  const unvaluedAssets = schedules.assets.filter((asset) => asset.approximate_value == null).length
+  if (unvaluedAssets > 0) {
+    issues.push({ severity: 'warning', spouseNumber: null, message: `${unvaluedAssets} asset(s) have no value.` })
+  }
+  const unknownBalances = schedules.debts.filter((debt) => debt.approximate_balance == null).length
+  if (unknownBalances > 0) {
+    issues.push({ severity: 'warning', spouseNumber: null, message: `${unknownBalances} debt(s) have no balance.` })
+  }
+
+  return issues
+}
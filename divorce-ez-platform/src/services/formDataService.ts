@@ -18,7 +18,49 @@ import type {
   MarriageInfoRow,
   CourtInfoRow,
   NormalizedFormData,
+  ChildSupportCalculationRow,
+  PropertyAllocationRow,
+  FinancialDeclarationItemRow,
+  BankTransactionRow,
+  PriorOrderRow,
+  FieldProvenanceRow,
+  PayFrequency,
 } from '../types'
+import {
+  buildProvenanceRows,
+  recordFieldProvenance,
+  clearFieldProvenance,
+  getFieldProvenance,
+  remapRowProvenance,
+  pruneRowProvenance,
+} from './provenanceService'
+import type { ExtractionSource } from './provenanceService'
+import {
+  createConflictTracker,
+  getFieldConflicts,
+  saveFieldConflicts,
+  resetFieldConflictsForReAggregation,
+} from './conflictService'
+import type { ReconcileMode } from './conflictService'
+import { getFieldLocks, getRowLockValues, withoutLockedFields, applyFieldLocks } from './fieldLockService'
+import { normalizeExtractedIncome } from './incomeNormalizationService'
+import { isJointReturn, splitJointReturn } from './jointIncomeService'
+import type { JointIncomeSplit } from './jointIncomeService'
+import { isJointDocumentType } from './documentOwnerService'
+import { categorizeTransactions } from './bankTransactionService'
+import type { CategorizedTransaction } from './bankTransactionService'
+import type { BankStatementAccount } from './dissipationService'
+import { getSelfEmploymentStatement, computeAdjustedSelfEmploymentIncome } from './selfEmploymentService'
+import type { SelfEmploymentAddBacks, SelfEmploymentStatement } from './selfEmploymentService'
+import {
+  toRetirementStatementSummary,
+  computeRetirementDivision,
+  getRetirementAssetName,
+  isSameRetirementAccount,
+} from './retirementService'
+import type { RetirementStatementSummary } from './retirementService'
+import { toSecuredProperty, findSecuredAsset, findSecuredDebt } from './securedPropertyService'
+import type { SecuredProperty } from './securedPropertyService'
 
 /**
  * Get all form data for a user (aggregated from all normalized tables)
@@ -189,31 +231,14 @@ export async function updateIncome(
 
 /**
  * Replace all employers for a specific spouse
+ * Rows that carry an existing id keep it, so locks on employers the user edited stay linked
  */
 export async function updateEmployers(
   userId: string,
   spouseNumber: 1 | 2,
-  employers: Omit<EmployerRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'>[]
+  employers: (Omit<EmployerRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'> & { id?: string })[]
 ): Promise<EmployerRow[]> {
-  // Delete existing employers for this spouse
-  await supabase.from('employers').delete().eq('user_id', userId).eq('spouse_number', spouseNumber)
-
-  if (employers.length === 0) {
-    return []
-  }
-
-  // Insert new employers
-  const employersToInsert = employers.map((employer) => ({
-    user_id: userId,
-    spouse_number: spouseNumber,
-    ...employer,
-    last_updated: new Date().toISOString(),
-  }))
-
-  const { data: result, error } = await supabase.from('employers').insert(employersToInsert).select()
-
-  if (error) throw error
-  return result
+  return replaceRowsKeepingIds<EmployerRow>('employers', userId, employers, spouseNumber)
 }
 
 /**
@@ -244,50 +269,66 @@ export async function updateExpenses(
 
 /**
  * Replace all assets for a user
+ * Rows that carry an existing id keep it, so division allocations stay linked
  */
-export async function updateAssets(userId: string, assets: Omit<AssetRow, 'id' | 'user_id' | 'last_updated'>[]): Promise<AssetRow[]> {
-  // Delete existing assets
-  await supabase.from('assets').delete().eq('user_id', userId)
-
-  if (assets.length === 0) {
-    return []
-  }
-
-  // Insert new assets
-  const assetsToInsert = assets.map((asset) => ({
-    user_id: userId,
-    ...asset,
-    last_updated: new Date().toISOString(),
-  }))
-
-  const { data: result, error } = await supabase.from('assets').insert(assetsToInsert).select()
-
-  if (error) throw error
-  return result
+export async function updateAssets(
+  userId: string,
+  assets: (Omit<AssetRow, 'id' | 'user_id' | 'last_updated'> & { id?: string })[]
+): Promise<AssetRow[]> {
+  return replaceRowsKeepingIds<AssetRow>('assets', userId, assets)
 }
 
 /**
  * Replace all debts for a user
+ * Rows that carry an existing id keep it, so division allocations stay linked
  */
-export async function updateDebts(userId: string, debts: Omit<DebtRow, 'id' | 'user_id' | 'last_updated'>[]): Promise<DebtRow[]> {
-  // Delete existing debts
-  await supabase.from('debts').delete().eq('user_id', userId)
+export async function updateDebts(
+  userId: string,
+  debts: (Omit<DebtRow, 'id' | 'user_id' | 'last_updated'> & { id?: string })[]
+): Promise<DebtRow[]> {
+  return replaceRowsKeepingIds<DebtRow>('debts', userId, debts)
+}
 
-  if (debts.length === 0) {
+/**
+ * Delete rows missing from the list, update rows with an id and insert the rest
+ * Per-spouse tables pass spouseNumber - only that spouse's rows are replaced
+ */
+async function replaceRowsKeepingIds<T>(
+  table: 'assets' | 'debts' | 'employers',
+  userId: string,
+  rows: ({ id?: string } & Record<string, any>)[],
+  spouseNumber?: 1 | 2
+): Promise<T[]> {
+  const keepIds = rows.map((row) => row.id).filter((id): id is string => !!id)
+  const scope = spouseNumber ? { spouse_number: spouseNumber } : {}
+
+  // Delete existing rows that are no longer in the list
+  let deleteQuery = supabase.from(table).delete().eq('user_id', userId)
+  if (spouseNumber) {
+    deleteQuery = deleteQuery.eq('spouse_number', spouseNumber)
+  }
+  if (keepIds.length > 0) {
+    deleteQuery = deleteQuery.not('id', 'in', `(${keepIds.join(',')})`)
+  }
+  const { error: deleteError } = await deleteQuery
+  if (deleteError) throw deleteError
+
+  if (rows.length === 0) {
     return []
   }
 
-  // Insert new debts
-  const debtsToInsert = debts.map((debt) => ({
-    user_id: userId,
-    ...debt,
-    last_updated: new Date().toISOString(),
-  }))
+  const now = new Date().toISOString()
+  const existingRows = rows.filter((row) => row.id).map((row) => ({ ...row, ...scope, user_id: userId, last_updated: now }))
+  const newRows = rows.filter((row) => !row.id).map(({ id, ...row }) => ({ ...row, ...scope, user_id: userId, last_updated: now }))
 
-  const { data: result, error } = await supabase.from('debts').insert(debtsToInsert).select()
+  const [updated, inserted] = await Promise.all([
+    existingRows.length > 0 ? supabase.from(table).upsert(existingRows).select() : Promise.resolve({ data: [], error: null }),
+    newRows.length > 0 ? supabase.from(table).insert(newRows).select() : Promise.resolve({ data: [], error: null }),
+  ])
 
-  if (error) throw error
-  return result
+  if (updated.error) throw updated.error
+  if (inserted.error) throw inserted.error
+  return [...(updated.data || []), ...(inserted.data || [])] as T[]
 }
 
 /**
@@ -338,14 +379,395 @@ export async function updateCourtInfo(
   return result
 }
 
+/**
+ * Get the saved child support calculation
+ */
+export async function getChildSupportCalculation(userId: string): Promise<ChildSupportCalculationRow | null> {
+  const { data, error } = await supabase
+    .from('child_support_calculations')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data || null
+}
+
+/**
+ * Update child support calculation (upsert)
+ */
+export async function updateChildSupportCalculation(
+  userId: string,
+  data: Omit<ChildSupportCalculationRow, 'id' | 'user_id' | 'last_updated'>
+): Promise<ChildSupportCalculationRow> {
+  const { data: result, error } = await supabase
+    .from('child_support_calculations')
+    .upsert(
+      {
+        user_id: userId,
+        ...data,
+        last_updated: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    )
+    .select()
+    .single()
+
+  if (error) throw error
+  return result
+}
+
+/**
+ * Get asset/debt division allocations
+ */
+export async function getPropertyAllocations(userId: string): Promise<PropertyAllocationRow[]> {
+  const { data, error } = await supabase.from('property_allocations').select('*').eq('user_id', userId)
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Replace all asset/debt division allocations for a user
+ */
+export async function updatePropertyAllocations(
+  userId: string,
+  allocations: Omit<PropertyAllocationRow, 'id' | 'user_id' | 'last_updated'>[]
+): Promise<PropertyAllocationRow[]> {
+  // Delete existing allocations
+  const { error: deleteError } = await supabase.from('property_allocations').delete().eq('user_id', userId)
+  if (deleteError) throw deleteError
+
+  if (allocations.length === 0) {
+    return []
+  }
+
+  // Insert new allocations
+  const allocationsToInsert = allocations.map((allocation) => ({
+    user_id: userId,
+    ...allocation,
+    last_updated: new Date().toISOString(),
+  }))
+
+  const { data: result, error } = await supabase.from('property_allocations').insert(allocationsToInsert).select()
+
+  if (error) throw error
+  return result
+}
+
+/**
+ * Get Financial Declaration income, deduction and expense items for both spouses
+ */
+export async function getFinancialDeclarationItems(userId: string): Promise<FinancialDeclarationItemRow[]> {
+  const { data, error } = await supabase
+    .from('financial_declaration_items')
+    .select('*')
+    .eq('user_id', userId)
+    .order('spouse_number')
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Replace one spouse's Financial Declaration items
+ */
+export async function updateFinancialDeclarationItems(
+  userId: string,
+  spouseNumber: 1 | 2,
+  items: Omit<FinancialDeclarationItemRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'>[]
+): Promise<FinancialDeclarationItemRow[]> {
+  // Delete existing items for this spouse
+  await supabase.from('financial_declaration_items').delete().eq('user_id', userId).eq('spouse_number', spouseNumber)
+
+  if (items.length === 0) {
+    return []
+  }
+
+  const itemsToInsert = items.map((item) => ({
+    user_id: userId,
+    spouse_number: spouseNumber,
+    ...item,
+    last_updated: new Date().toISOString(),
+  }))
+
+  const { data: result, error } = await supabase.from('financial_declaration_items').insert(itemsToInsert).select()
+
+  if (error) throw error
+  return result
+}
+
+/**
+ * Get categorized bank statement transactions for both spouses, oldest first
+ */
+export async function getBankTransactions(userId: string): Promise<BankTransactionRow[]> {
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('transaction_date', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Processed bank statements and the account each one is for (regex and Gemini field names)
+ */
+export async function getBankStatementAccounts(userId: string): Promise<BankStatementAccount[]> {
+  const { data: documents, error: docsError } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('document_type', 'bankStatement')
+    .eq('status', 'processed')
+
+  if (docsError) throw docsError
+  if (!documents || documents.length === 0) return []
+
+  const { data: records, error: dataError } = await supabase
+    .from('extracted_data')
+    .select('document_id, data')
+    .in('document_id', documents.map((d) => d.id))
+
+  if (dataError) throw dataError
+
+  return documents.map((doc) => {
+    const data = records?.find((r) => r.document_id === doc.id)?.data || {}
+    const accountNumber = data.accountNumberLast4 || data.accountNumber || null
+    return {
+      documentId: doc.id,
+      spouseNumber: doc.spouse_number === 2 ? 2 : 1,
+      institution: data.financialInstitutionName || data.bankName || null,
+      accountLast4: accountNumber ? String(accountNumber).replace(/\D/g, '').slice(-4) || null : null,
+      statementStart: data.statementStartDate || null,
+      statementEnd: data.statementEndDate || null,
+    }
+  })
+}
+
+/**
+ * Processed retirement statements (regex and Gemini field names)
+ */
+export async function getRetirementStatements(userId: string): Promise<RetirementStatementSummary[]> {
+  const { data: documents, error: docsError } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('document_type', 'retirementStatement')
+    .eq('status', 'processed')
+
+  if (docsError) throw docsError
+  if (!documents || documents.length === 0) return []
+
+  const { data: records, error: dataError } = await supabase
+    .from('extracted_data')
+    .select('document_id, data')
+    .in('document_id', documents.map((d) => d.id))
+
+  if (dataError) throw dataError
+
+  return documents.map((doc) => toRetirementStatementSummary(records?.find((r) => r.document_id === doc.id)?.data || {}, doc.id))
+}
+
+// A child, employer, asset or debt row a document wrote to, with the values it took from the document
+interface WrittenRow {
+  id: string
+  values: Record<string, any>
+}
+
+/**
+ * One retirement asset per account at its latest statement's balance, split into marital and separate portions
+ * Rows for the same account keep their id and ownership, so division allocations stay linked
+ * Returns the row the statement being migrated set the balance of, with the values taken from it
+ */
+async function updateRetirementAssets(
+  userId: string,
+  existingAssets: AssetRow[],
+  marriageDate: string | null,
+  current: RetirementStatementSummary | null // The statement being migrated, which may not be saved yet
+): Promise<WrittenRow | null> {
+  const statements = (await getRetirementStatements(userId)).filter((s) => !current?.documentId || s.documentId !== current.documentId)
+  if (current) statements.push(current)
+
+  const accounts: RetirementStatementSummary[][] = []
+  for (const statement of statements) {
+    const account = accounts.find((group) => isSameRetirementAccount(group[0], statement))
+    if (account) account.push(statement)
+    else accounts.push([statement])
+  }
+
+  let assets: (Omit<AssetRow, 'id' | 'user_id' | 'last_updated'> & { id?: string })[] = existingAssets
+  let currentRow: (typeof assets)[number] | null = null
+  for (const account of accounts) {
+    const division = computeRetirementDivision(account, marriageDate)
+    if (!division) continue
+    const latest = account.find((s) => s.periodEnd === division.balanceAsOf && s.endingBalance === division.balance) || account[0]
+    const name = getRetirementAssetName(latest)
+    const existing = existingAssets.find(
+      (asset) =>
+        asset.asset_type === 'retirement' &&
+        (latest.accountNumberLast4 && asset.account_number ? asset.account_number === latest.accountNumberLast4 : asset.asset_name === name)
+    )
+    const row = {
+      ...(existing ? { id: existing.id } : {}),
+      asset_type: 'retirement',
+      asset_name: name || null,
+      approximate_value: division.balance,
+      ownership_type: existing?.ownership_type ?? null,
+      bank_name: latest.administrator,
+      account_number: latest.accountNumberLast4,
+      balance_as_of: division.balanceAsOf,
+      marital_portion: division.maritalPortion,
+      separate_portion: division.separatePortion,
+    }
+    assets = existing ? assets.map((asset) => (asset.id === existing.id ? row : asset)) : [...assets, row]
+    if (current && latest === current) currentRow = row
+  }
+
+  const saved = await updateAssets(userId, assets)
+  const written = currentRow && saved.find((asset) => assetKey(asset) === assetKey(currentRow as AssetRow))
+  if (!currentRow || !written) return null
+  const { approximate_value, balance_as_of, bank_name, account_number } = currentRow
+  return { id: written.id, values: { approximate_value, balance_as_of, bank_name, account_number } }
+}
+
+/**
+ * Home or vehicle asset from a mortgage, property tax, title or auto loan document, with its loan as a debt linked to it
+ * Rows for the same property or loan keep their id and ownership, so division allocations stay linked
+ * Returns the asset and debt rows written, with the values taken from the document
+ */
+async function updateSecuredProperty(
+  userId: string,
+  existingAssets: AssetRow[],
+  existingDebts: DebtRow[],
+  property: SecuredProperty
+): Promise<{ asset: WrittenRow | null; debt: WrittenRow | null }> {
+  const existing = findSecuredAsset(existingAssets, property)
+  const assetRow = {
+    ...(existing ? { id: existing.id } : {}),
+    asset_type: property.assetType,
+    asset_name: existing?.asset_name || property.assetName,
+    approximate_value: property.value ?? existing?.approximate_value ?? null,
+    ownership_type: existing?.ownership_type ?? null,
+    bank_name: existing?.bank_name ?? null,
+    account_number: existing?.account_number ?? null,
+    property_address: property.propertyAddress ?? existing?.property_address ?? null,
+    vin: property.vin ?? existing?.vin ?? null,
+  }
+  const savedAssets = await updateAssets(
+    userId,
+    existing ? existingAssets.map((asset) => (asset.id === existing.id ? assetRow : asset)) : [...existingAssets, assetRow]
+  )
+
+  const loan = property.loan
+  const assetId = existing?.id || savedAssets.find((asset) => !existingAssets.some((e) => e.id === asset.id))?.id || null
+  const asset = assetId
+    ? {
+        id: assetId,
+        values: { asset_type: property.assetType, approximate_value: property.value, property_address: property.propertyAddress, vin: property.vin },
+      }
+    : null
+  if (!loan) return { asset, debt: null }
+  const existingDebt = findSecuredDebt(existingDebts, loan, assetId)
+  const debtRow = {
+    ...(existingDebt ? { id: existingDebt.id } : {}),
+    debt_type: loan.debtType,
+    creditor_name: loan.creditorName ?? existingDebt?.creditor_name ?? null,
+    approximate_balance: loan.balance ?? existingDebt?.approximate_balance ?? null,
+    monthly_payment: loan.monthlyPayment ?? existingDebt?.monthly_payment ?? null,
+    secured_asset_id: assetId,
+  }
+  const savedDebts = await updateDebts(
+    userId,
+    existingDebt ? existingDebts.map((debt) => (debt.id === existingDebt.id ? debtRow : debt)) : [...existingDebts, debtRow]
+  )
+  const debtId = existingDebt?.id || savedDebts.find((debt) => !existingDebts.some((e) => e.id === debt.id))?.id || null
+  const { id: _id, ...debtValues } = debtRow
+  return { asset, debt: debtId ? { id: debtId, values: debtValues } : null }
+}
+
+/**
+ * Replace the transactions stored for one bank statement
+ */
+export async function updateBankTransactions(
+  userId: string,
+  documentId: string,
+  spouseNumber: 1 | 2,
+  transactions: CategorizedTransaction[]
+): Promise<BankTransactionRow[]> {
+  // Delete existing transactions for this statement
+  await supabase.from('bank_transactions').delete().eq('user_id', userId).eq('document_id', documentId)
+
+  if (transactions.length === 0) {
+    return []
+  }
+
+  const transactionsToInsert = transactions.map((transaction) => ({
+    user_id: userId,
+    document_id: documentId,
+    spouse_number: spouseNumber,
+    ...transaction,
+    last_updated: new Date().toISOString(),
+  }))
+
+  const { data: result, error } = await supabase.from('bank_transactions').insert(transactionsToInsert).select()
+
+  if (error) throw error
+  return result
+}
+
+/**
+ * Get prior court orders, oldest order first
+ */
+export async function getPriorOrders(userId: string): Promise<PriorOrderRow[]> {
+  const { data, error } = await supabase
+    .from('prior_orders')
+    .select('*')
+    .eq('user_id', userId)
+    .order('order_date', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Update the prior court order read from one document (upsert)
+ */
+export async function updatePriorOrder(
+  userId: string,
+  documentId: string,
+  order: Omit<PriorOrderRow, 'id' | 'user_id' | 'document_id' | 'last_updated'>
+): Promise<PriorOrderRow> {
+  const { data: result, error } = await supabase
+    .from('prior_orders')
+    .upsert(
+      {
+        user_id: userId,
+        document_id: documentId,
+        ...order,
+        last_updated: new Date().toISOString(),
+      },
+      { onConflict: 'document_id' }
+    )
+    .select()
+    .single()
+
+  if (error) throw error
+  return result
+}
+
 /**
  * Migrate extracted OCR data to normalized tables
  * This replaces the old updateFormData function
+ * When a source document is given, provenance is recorded for every column written
  */
 export async function migrateFromExtractedData(
   userId: string,
   extractedData: Record<string, any>,
-  documentType?: string
+  documentType?: string,
+  source?: ExtractionSource,
+  spouseNumber: 1 | 2 = 1 // Whose document it is - income, employers, expenses and personal details go to that spouse
 ): Promise<void> {
   try {
     const validatedUserId = validateUserId(userId)
@@ -358,6 +780,7 @@ export async function migrateFromExtractedData(
 
     logger.debug('Migrating extracted data to normalized tables', {
       documentType,
+      spouseNumber,
       extractedKeys: Object.keys(extractedData),
     })
 
@@ -373,8 +796,67 @@ export async function migrateFromExtractedData(
     // Get existing data to merge intelligently
     const existingData = await getFormData(validatedUserId)
 
+    // Provenance rows for the columns written from this document
+    const provenanceSource: ExtractionSource | null = source
+      ? {
+          ...source,
+          rawText: source.rawText ?? extractedData.rawText,
+          taxYear: source.taxYear ?? getValue(extractedData, 'taxYear', 'tax_year'),
+        }
+      : null
+    const provenanceRows: Omit<FieldProvenanceRow, 'id'>[] = []
+    // Only columns that took this document's value (not a previously resolved conflict value) are tracked
+    const trackProvenance = (
+      tableName: string,
+      spouseNumber: 1 | 2,
+      written: Record<string, any>,
+      extracted: Record<string, any>
+    ) => {
+      if (!provenanceSource) return
+      const fromDocument = Object.fromEntries(Object.entries(written).filter(([key, value]) => value === extracted[key]))
+      provenanceRows.push(...buildProvenanceRows(validatedUserId, provenanceSource, tableName, spouseNumber, fromDocument))
+    }
+
+    // Conflicts between this document and values already stored (optional tables - older databases may lack them)
+    const [existingConflicts, existingProvenance, locks] = await Promise.all([
+      getFieldConflicts(validatedUserId).catch(() => []),
+      getFieldProvenance(validatedUserId).catch(() => []),
+      getFieldLocks(validatedUserId).catch(() => []),
+    ])
+    const conflicts = createConflictTracker(validatedUserId, existingConflicts, existingProvenance, provenanceSource)
+    // Columns the user edited by hand are never written from documents
+    const reconcile = <T extends Record<string, any>>(
+      tableName: string,
+      spouseNumber: 1 | 2,
+      existingRow: Record<string, any> | null | undefined,
+      candidates: T,
+      mode: ReconcileMode
+    ) => conflicts.reconcile(tableName, spouseNumber, existingRow, withoutLockedFields(locks, tableName, spouseNumber, candidates), mode)
+    // Children, employers, assets and debts - provenance names the row written, and skips columns the user locked on it
+    const trackRowProvenance = (tableName: string, spouseNumber: 1 | 2, written: WrittenRow | null | undefined) => {
+      if (!provenanceSource || !written) return
+      const lockedValues = getRowLockValues(locks, tableName, written.id)
+      const fromDocument = Object.fromEntries(
+        Object.entries(written.values).filter(([key]) => key !== 'id' && !(key in lockedValues))
+      )
+      provenanceRows.push(...buildProvenanceRows(validatedUserId, provenanceSource, tableName, spouseNumber, fromDocument, written.id))
+    }
+    // Each document row goes to the saved row with the same key
+    const trackSavedRows = <T extends Record<string, any>>(
+      tableName: string,
+      spouseNumber: 1 | 2,
+      savedRows: (T & { id: string })[],
+      documentRows: T[],
+      key: (row: T) => string
+    ) => {
+      documentRows.forEach((row) => {
+        const saved = savedRows.find((candidate) => key(candidate) === key(row))
+        trackRowProvenance(tableName, spouseNumber, saved ? { id: saved.id, values: row } : null)
+      })
+    }
+
     // ========================================================================
-    // Personal Info (Spouse 1)
+    // Personal Info (Spouse 1, or spouse_info for the other spouse's document)
     // ========================================================================
     // Always replace fields when new data is available (user wants new uploads to replace old)
     const personalInfoUpdates: Partial<PersonalInfoRow> = {}
@@ -514,10 +996,22 @@ export async function migrateFromExtractedData(
         getValue(extractedData, 'phone') ||
         getValue(extractedData, 'licenseNumber', 'driverLicenseNumber')
 
+      // The other spouse's own document (e.g. their driver license) fills spouse_info instead
+      const { filing_status: _filingStatus, ...spouseDetailUpdates } = personalInfoUpdates
+      const spouseDetailsToWrite =
+        spouseNumber === 2 ? reconcile('spouse_info', 2, existingData.spouse_info, spouseDetailUpdates, 'replace') : {}
+
       // Always update if we have any updates, or if we need to create a record
-      if (hasPersonalInfoUpdates || Object.keys(personalInfoUpdates).length > 0) {
+      const personalInfoToWrite =
+        spouseNumber === 1 ? reconcile('personal_info', 1, existingData.personal_info, personalInfoUpdates, 'replace') : {}
+      if (hasPersonalInfoUpdates && Object.keys(spouseDetailsToWrite).length > 0) {
+        await updateSpouseInfo(validatedUserId, spouseDetailsToWrite)
+        trackProvenance('spouse_info', 2, spouseDetailsToWrite, spouseDetailUpdates)
+        logger.debug('Spouse info updated from spouse document')
+      } else if (hasPersonalInfoUpdates && Object.keys(personalInfoToWrite).length > 0) {
         try {
-          await updatePersonalInfo(validatedUserId, personalInfoUpdates)
+          await updatePersonalInfo(validatedUserId, personalInfoToWrite)
+          trackProvenance('personal_info', 1, personalInfoToWrite, personalInfoUpdates)
           logger.debug('Personal info updated successfully')
         } catch (updateError: any) {
           logger.error('Error updating personal_info:', {
@@ -560,10 +1054,13 @@ export async function migrateFromExtractedData(
         const nameParts = spouseNameToUse.trim().split(/\s+/)
         if (nameParts.length >= 2) {
           // Always replace spouse info when found
-          await updateSpouseInfo(validatedUserId, {
+          const spouseUpdates = {
             first_name: nameParts[0],
             last_name: nameParts.slice(1).join(' '),
-          })
+          }
+          const spouseInfoToWrite = reconcile('spouse_info', 2, existingData.spouse_info, spouseUpdates, 'replace')
+          await updateSpouseInfo(validatedUserId, spouseInfoToWrite)
+          trackProvenance('spouse_info', 2, spouseInfoToWrite, spouseUpdates)
         }
       }
     }
@@ -581,159 +1078,213 @@ export async function migrateFromExtractedData(
         overnights_with_spouse1: null,
         overnights_with_spouse2: null,
       }))
-      await updateChildren(validatedUserId, children)
+      const savedChildren = await updateChildren(validatedUserId, children)
+      trackSavedRows('children', 1, savedChildren, children, childKey)
     }
 
     // ========================================================================
-    // Income (Spouse 1)
+    // Income (document's spouse)
     // ========================================================================
     const incomeData = extractedData.income || {}
-    if (Object.keys(incomeData).length > 0 || extractedData.annualIncome || extractedData.wageIncome) {
-      const incomeUpdates: Partial<IncomeRow> = {}
-
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.gross_annual_income) {
-        incomeUpdates.gross_annual_income = getValue(
-          extractedData,
-          'annualIncome',
-          'annual_income',
-          'totalIncome',
-          'total_income',
-          'adjustedGrossIncome',
-          'adjusted_gross_income',
-          'agi',
-          'AGI'
-        ) as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.gross_monthly_income) {
-        incomeUpdates.gross_monthly_income = getValue(
-          extractedData,
-          'monthlyIncome',
-          'monthly_income',
-          'grossPay',
-          'gross_pay',
-          'gross'
-        ) as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.wage_income) {
-        incomeUpdates.wage_income = getValue(extractedData, 'wageIncome', 'wage_income', 'wages', 'wage') as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.self_employment_income) {
-        incomeUpdates.self_employment_income = getValue(
-          extractedData,
-          'selfEmploymentIncome',
-          'self_employment_income',
-          'netIncome'
-        ) as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.investment_income) {
-        incomeUpdates.investment_income = getValue(extractedData, 'investmentIncome', 'investment_income') as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.rental_income) {
-        incomeUpdates.rental_income = getValue(extractedData, 'rentalIncome', 'rental_income') as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.total_income) {
-        incomeUpdates.total_income = getValue(extractedData, 'totalIncome', 'total_income') as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.adjusted_gross_income) {
-        incomeUpdates.adjusted_gross_income = getValue(
-          extractedData,
-          'adjustedGrossIncome',
-          'adjusted_gross_income',
-          'agi',
-          'AGI'
-        ) as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.pay_frequency) {
-        incomeUpdates.pay_frequency = getValue(extractedData, 'payFrequency', 'pay_frequency') as
-          | 'weekly'
-          | 'biweekly'
-          | 'monthly'
-          | 'yearly'
-          | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.overtime) {
-        incomeUpdates.overtime = getValue(extractedData, 'overtime', 'ot') as number | null
-      }
-      if (!existingData.income.find((i) => i.spouse_number === 1)?.bonuses) {
-        incomeUpdates.bonuses = getValue(extractedData, 'bonuses', 'bonus') as number | null
+    // Pay stubs give one period's gross - convert it before it reaches the monthly and annual columns
+    const normalizedIncome = documentType === 'payStub' ? normalizeExtractedIncome(extractedData) : null
+    if (normalizedIncome && normalizedIncome.issues.length > 0) {
+      logger.warn('Pay stub income needs review', { issues: normalizedIncome.issues.map((issue) => issue.code) })
+    }
+    // Joint returns report both spouses' income together - split it using the attached W-2s or the user's split.
+    // Names are re-read as this return may just have filled them in.
+    // A joint return is both spouses' whoever it was uploaded for - its income goes to spouse 1 and spouse 2's share to spouse 2
+    const isJointIncome = isJointDocumentType(documentType || '') && isJointReturn(extractedData)
+    const incomeSpouseNumber: 1 | 2 = isJointIncome ? 1 : spouseNumber
+    let jointSplit: JointIncomeSplit | null = null
+    if (documentType === 'taxReturn' && isJointIncome) {
+      jointSplit = splitJointReturn(extractedData, await getFormData(validatedUserId))
+      if (!jointSplit) {
+        logger.warn('Joint tax return income needs a manual split - no attached W-2 matched either spouse')
+      }
+    }
+    const hasIncome =
+      extractedData.annualIncome ||
+      extractedData.wageIncome ||
+      extractedData.selfEmploymentIncome ||
+      extractedData.businessIncome ||
+      extractedData.investmentIncome ||
+      extractedData.rentalIncome
+    if (Object.keys(incomeData).length > 0 || hasIncome || normalizedIncome) {
+      // Candidate values from this document; stored values are only filled when blank
+      const incomeCandidates: Partial<IncomeRow> = {}
+
+      incomeCandidates.gross_annual_income = normalizedIncome?.annual ?? (getValue(
+        extractedData,
+        'annualIncome',
+        'annual_income',
+        'totalIncome',
+        'total_income',
+        'adjustedGrossIncome',
+        'adjusted_gross_income',
+        'agi',
+        'AGI'
+      ) as number | null)
+      incomeCandidates.gross_monthly_income = normalizedIncome?.monthly ?? (getValue(extractedData, 'monthlyIncome', 'monthly_income') as number | null)
+      incomeCandidates.wage_income =
+        normalizedIncome?.annual ?? (getValue(extractedData, 'wageIncome', 'wage_income', 'wages', 'wage') as number | null)
+      incomeCandidates.self_employment_income = getValue(
+        extractedData,
+        'selfEmploymentIncome',
+        'self_employment_income',
+        'netIncome',
+        'businessIncome'
+      ) as number | null
+      incomeCandidates.investment_income = getValue(extractedData, 'investmentIncome', 'investment_income') as number | null
+      incomeCandidates.rental_income = getValue(extractedData, 'rentalIncome', 'rental_income') as number | null
+      incomeCandidates.total_income = getValue(extractedData, 'totalIncome', 'total_income') as number | null
+      incomeCandidates.adjusted_gross_income = getValue(
+        extractedData,
+        'adjustedGrossIncome',
+        'adjusted_gross_income',
+        'agi',
+        'AGI'
+      ) as number | null
+      incomeCandidates.pay_frequency = normalizedIncome
+        ? normalizedIncome.frequencySource === 'assumed'
+          ? null
+          : normalizedIncome.payFrequency
+        : (getValue(extractedData, 'payFrequency', 'pay_frequency') as PayFrequency | null)
+      incomeCandidates.overtime = getValue(extractedData, 'overtime', 'ot') as number | null
+      incomeCandidates.bonuses = getValue(extractedData, 'bonuses', 'bonus') as number | null
+
+      if (jointSplit) {
+        // Return-level figures (total income, AGI, schedule income) stay with spouse 1; each spouse gets their share
+        incomeCandidates.gross_annual_income = jointSplit.spouse1.annualIncome
+        incomeCandidates.wage_income = jointSplit.spouse1.wages
+        incomeCandidates.split_method = jointSplit.method
+        incomeCandidates.split_percentage = jointSplit.spouse1.percentage
       }
 
+      // The user's add-backs (depreciation, personal expenses run through the business) raise the self-employment income
+      const selfEmploymentStatement = extractedData.selfEmploymentAddBacks
+        ? getSelfEmploymentStatement(extractedData, documentType || '')
+        : null
+      if (selfEmploymentStatement && !selfEmploymentStatement.periodUnknown) {
+        const adjusted = computeAdjustedSelfEmploymentIncome(selfEmploymentStatement, extractedData.selfEmploymentAddBacks)
+        incomeCandidates.self_employment_income = adjusted.adjustedAnnual
+        if (documentType === 'profitAndLoss') {
+          incomeCandidates.gross_annual_income = adjusted.adjustedAnnual
+          incomeCandidates.gross_monthly_income = adjusted.adjustedMonthly
+        } else if (incomeCandidates.gross_annual_income != null) {
+          // A return's total already includes the Schedule C net profit
+          incomeCandidates.gross_annual_income = Math.round((incomeCandidates.gross_annual_income + adjusted.annualAddBacks) * 100) / 100
+        }
+      }
+
+      const existingIncome = existingData.income.find((i) => i.spouse_number === incomeSpouseNumber)
+      const incomeUpdates = reconcile('income', incomeSpouseNumber, existingIncome, incomeCandidates, 'fillEmpty')
       if (Object.keys(incomeUpdates).length > 0) {
-        await updateIncome(validatedUserId, 1, incomeUpdates)
+        await updateIncome(validatedUserId, incomeSpouseNumber, incomeUpdates)
+        trackProvenance('income', incomeSpouseNumber, incomeUpdates, incomeCandidates)
+      }
+
+      if (jointSplit) {
+        const spouse2IncomeCandidates: Partial<IncomeRow> = {
+          gross_annual_income: jointSplit.spouse2.annualIncome,
+          wage_income: jointSplit.spouse2.wages,
+          split_method: jointSplit.method,
+          split_percentage: jointSplit.spouse2.percentage,
+        }
+        const existingSpouse2Income = existingData.income.find((i) => i.spouse_number === 2)
+        const spouse2IncomeUpdates = reconcile('income', 2, existingSpouse2Income, spouse2IncomeCandidates, 'fillEmpty')
+        if (Object.keys(spouse2IncomeUpdates).length > 0) {
+          await updateIncome(validatedUserId, 2, spouse2IncomeUpdates)
+          trackProvenance('income', 2, spouse2IncomeUpdates, spouse2IncomeCandidates)
+        }
       }
     }
 
     // ========================================================================
-    // Employers (Spouse 1)
+    // Employers (document's spouse)
     // ========================================================================
     if (extractedData.employers && Array.isArray(extractedData.employers)) {
-      const employers: Omit<EmployerRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'>[] = extractedData.employers.map(
+      const documentEmployers: Omit<EmployerRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'>[] = extractedData.employers.map(
         (emp: any) => ({
           employer_name: emp.name || '',
           income_amount: emp.income || null,
           income_type: emp.incomeType || emp.income_type || null,
         })
       )
-      await updateEmployers(validatedUserId, 1, employers)
+      let employers: (Omit<EmployerRow, 'id' | 'user_id' | 'spouse_number' | 'last_updated'> & { id?: string })[] = documentEmployers
+      // A W-2 or 1099 covers one payer - keep the spouse's other employers and replace only the same payer (keeping its id)
+      if (documentType === 'w2' || documentType === '1099') {
+        const spouseEmployers = existingData.employers.filter((emp) => emp.spouse_number === spouseNumber)
+        const sameEmployer = (emp: { employer_name: string }) =>
+          spouseEmployers.find((old) => employerKey(old) === employerKey({ spouse_number: spouseNumber, ...emp }))
+        const kept = spouseEmployers
+          .filter((old) => !employers.some((emp) => sameEmployer(emp)?.id === old.id))
+          .map(({ id, employer_name, income_amount, income_type }) => ({ id, employer_name, income_amount, income_type }))
+        employers = [...kept, ...employers.map((emp) => ({ ...emp, id: sameEmployer(emp)?.id }))]
+      }
+      const savedEmployers = await updateEmployers(validatedUserId, spouseNumber, employers)
+      trackSavedRows('employers', spouseNumber, savedEmployers, documentEmployers, (emp) => employerKey({ spouse_number: spouseNumber, ...emp }))
     } else if (extractedData.employerName || extractedData.employer_name) {
       const employerName = getValue(extractedData, 'employerName', 'employer_name', 'employer', 'company', 'companyName')
       if (employerName) {
-        await updateEmployers(validatedUserId, 1, [
+        const [savedEmployer] = await updateEmployers(validatedUserId, spouseNumber, [
           {
             employer_name: employerName as string,
             income_amount: null,
             income_type: null,
           },
         ])
+        trackRowProvenance('employers', spouseNumber, savedEmployer && { id: savedEmployer.id, values: { employer_name: employerName } })
       }
     }
 
     // ========================================================================
-    // Expenses (Spouse 1)
+    // Expenses (document's spouse)
     // ========================================================================
     const expensesData = extractedData.expenses || {}
     if (Object.keys(expensesData).length > 0) {
-      const expenseUpdates: Partial<ExpenseRow> = {}
+      const expenseCandidates: Partial<ExpenseRow> = {}
 
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_housing_cost) {
-        expenseUpdates.monthly_housing_cost = expensesData.housing as number | null
-      }
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_childcare_cost) {
-        expenseUpdates.monthly_childcare_cost = expensesData.childcare as number | null
-      }
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_utilities) {
-        expenseUpdates.monthly_utilities = expensesData.utilities as number | null
-      }
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_debt_payments) {
-        expenseUpdates.monthly_debt_payments = expensesData.debt as number | null
-      }
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_transportation) {
-        expenseUpdates.monthly_transportation = expensesData.transportation as number | null
-      }
+      expenseCandidates.monthly_housing_cost = expensesData.housing as number | null
+      expenseCandidates.monthly_childcare_cost = expensesData.childcare as number | null
+      expenseCandidates.monthly_utilities = expensesData.utilities as number | null
+      expenseCandidates.monthly_debt_payments = expensesData.debt as number | null
+      expenseCandidates.monthly_transportation = expensesData.transportation as number | null
 
       const insuranceData = extractedData.insurance || {}
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_health_insurance) {
-        expenseUpdates.monthly_health_insurance = insuranceData.health as number | null
-      }
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_insurance_premiums) {
-        expenseUpdates.monthly_insurance_premiums = insuranceData.premiums as number | null
-      }
-      if (!existingData.expenses.find((e) => e.spouse_number === 1)?.monthly_payroll_deductions) {
-        expenseUpdates.monthly_payroll_deductions = getValue(
-          extractedData,
-          'payrollDeductions',
-          'payroll_deductions'
-        ) as number | null
+      expenseCandidates.monthly_health_insurance = insuranceData.health as number | null
+      expenseCandidates.monthly_insurance_premiums = insuranceData.premiums as number | null
+      expenseCandidates.monthly_payroll_deductions = getValue(
+        extractedData,
+        'payrollDeductions',
+        'payroll_deductions'
+      ) as number | null
+
+      const existingExpenses = existingData.expenses.find((e) => e.spouse_number === spouseNumber)
+      const expenseUpdates = reconcile('expenses', spouseNumber, existingExpenses, expenseCandidates, 'fillEmpty')
+      if (Object.keys(expenseUpdates).length > 0) {
+        await updateExpenses(validatedUserId, spouseNumber, expenseUpdates)
+        trackProvenance('expenses', spouseNumber, expenseUpdates, expenseCandidates)
       }
+    }
 
-      if (Object.keys(expenseUpdates).length > 0) {
-        await updateExpenses(validatedUserId, 1, expenseUpdates)
+    // ========================================================================
+    // Bank transactions (document's spouse) - stored per statement, so they need the source document
+    // ========================================================================
+    if (documentType === 'bankStatement' && source?.documentId && Array.isArray(extractedData.transactions)) {
+      try {
+        await updateBankTransactions(validatedUserId, source.documentId, spouseNumber, categorizeTransactions(extractedData.transactions))
+      } catch (transactionError) {
+        // Older databases may not have the table yet (migration V14)
+        logger.warn('Failed to save bank transactions:', transactionError)
       }
     }
 
     // ========================================================================
     // Assets
     // ========================================================================
+    // Each block merges into the rows stored now - replacing them would drop other documents' assets and debts
+    // (and their loan links and allocations), and earlier blocks may have added rows since existingData was read
     if (extractedData.assets && Array.isArray(extractedData.assets)) {
       const assets: Omit<AssetRow, 'id' | 'user_id' | 'last_updated'>[] = extractedData.assets.map((asset: any) => ({
         asset_type: asset.type || 'other',
@@ -743,7 +1294,9 @@ export async function migrateFromExtractedData(
         bank_name: null,
         account_number: null,
       }))
-      await updateAssets(validatedUserId, assets)
+      const { assets: existingAssets } = await getPropertyRows(validatedUserId)
+      const savedAssets = await updateAssets(validatedUserId, mergePropertyRows(existingAssets, assets, assetKey))
+      trackSavedRows('assets', 1, savedAssets, assets, assetKey)
     }
 
     // Bank accounts as assets
@@ -756,8 +1309,9 @@ export async function migrateFromExtractedData(
         bank_name: account.bankName || null,
         account_number: account.accountNumber || null,
       }))
-      const existingAssets = existingData.assets || []
-      await updateAssets(validatedUserId, [...existingAssets, ...bankAssets])
+      const { assets: existingAssets } = await getPropertyRows(validatedUserId)
+      const savedAssets = await updateAssets(validatedUserId, mergePropertyRows(existingAssets, bankAssets, assetKey))
+      trackSavedRows('assets', 1, savedAssets, bankAssets, assetKey)
     } else if (extractedData.bankName || extractedData.balance) {
       const bankAsset: Omit<AssetRow, 'id' | 'user_id' | 'last_updated'> = {
         asset_type: 'bank_account',
@@ -767,8 +1321,39 @@ export async function migrateFromExtractedData(
         bank_name: getValue(extractedData, 'bankName', 'bank_name', 'bank') as string | null,
         account_number: getValue(extractedData, 'accountNumber', 'account_number') as string | null,
       }
-      const existingAssets = existingData.assets || []
-      await updateAssets(validatedUserId, [...existingAssets, bankAsset])
+      const { assets: existingAssets } = await getPropertyRows(validatedUserId)
+      const savedAssets = await updateAssets(validatedUserId, mergePropertyRows(existingAssets, [bankAsset], assetKey))
+      trackSavedRows('assets', 1, savedAssets, [bankAsset], assetKey)
+    }
+
+    // Retirement accounts
+    if (documentType === 'retirementStatement') {
+      try {
+        const account = await updateRetirementAssets(
+          validatedUserId,
+          (await getPropertyRows(validatedUserId)).assets,
+          existingData.marriage_info?.marriage_date || null,
+          toRetirementStatementSummary(extractedData, source?.documentId || null)
+        )
+        trackRowProvenance('assets', 1, account)
+      } catch (retirementError) {
+        // Older databases may not have the columns yet (migration V17)
+        logger.warn('Failed to save retirement account:', retirementError)
+      }
+    }
+
+    // Homes and vehicles, with the mortgage or auto loan secured by them
+    const securedProperty = toSecuredProperty(extractedData, documentType || '')
+    if (securedProperty) {
+      try {
+        const { assets: existingAssets, debts: existingDebts } = await getPropertyRows(validatedUserId)
+        const { asset, debt } = await updateSecuredProperty(validatedUserId, existingAssets, existingDebts, securedProperty)
+        trackRowProvenance('assets', 1, asset)
+        trackRowProvenance('debts', 1, debt)
+      } catch (propertyError) {
+        // Older databases may not have the columns yet (migration V18)
+        logger.warn('Failed to save home or vehicle:', propertyError)
+      }
     }
 
     // ========================================================================
@@ -781,38 +1366,50 @@ export async function migrateFromExtractedData(
         approximate_balance: debt.amount || debt.balance || null,
         monthly_payment: debt.monthlyPayment || debt.monthly_payment || null,
       }))
-      await updateDebts(validatedUserId, debts)
+      const { debts: existingDebts } = await getPropertyRows(validatedUserId)
+      const savedDebts = await updateDebts(validatedUserId, mergePropertyRows(existingDebts, debts, debtKey))
+      trackSavedRows('debts', 1, savedDebts, debts, debtKey)
+    }
+
+    // Assets and debts the user edited keep their values over this document's
+    if (locks.some((lock) => lock.row_id)) {
+      try {
+        await applyFieldLocks(validatedUserId, locks.filter((lock) => lock.row_id), false)
+      } catch (lockError) {
+        logger.warn('Failed to keep edited assets and debts:', lockError)
+      }
     }
 
     // ========================================================================
     // Marriage Info
     // ========================================================================
     if (extractedData.marriageDate || extractedData.marriagePlace || legalNamesAtMarriage) {
-      const marriageUpdates: Partial<MarriageInfoRow> = {}
+      const marriageCandidates: Partial<MarriageInfoRow> = {}
 
-      if (!existingData.marriage_info?.marriage_date) {
-        const marriageDate = getValue(extractedData, 'marriageDate', 'marriage_date')
-        marriageUpdates.marriage_date = marriageDate ? (typeof marriageDate === 'string' ? marriageDate : marriageDate.toString()) : null
-      }
-      if (!existingData.marriage_info?.marriage_place) {
-        marriageUpdates.marriage_place = getValue(extractedData, 'marriagePlace', 'marriage_place') as string | null
-      }
+      const marriageDate = getValue(extractedData, 'marriageDate', 'marriage_date')
+      marriageCandidates.marriage_date = marriageDate ? (typeof marriageDate === 'string' ? marriageDate : marriageDate.toString()) : null
+      marriageCandidates.marriage_place = getValue(extractedData, 'marriagePlace', 'marriage_place') as string | null
       if (legalNamesAtMarriage) {
-        if (!existingData.marriage_info?.spouse1_name_at_marriage) {
-          marriageUpdates.spouse1_name_at_marriage = legalNamesAtMarriage.spouse1 || null
-        }
-        if (!existingData.marriage_info?.spouse2_name_at_marriage) {
-          marriageUpdates.spouse2_name_at_marriage = legalNamesAtMarriage.spouse2 || null
-        }
+        marriageCandidates.spouse1_name_at_marriage = legalNamesAtMarriage.spouse1 || null
+        marriageCandidates.spouse2_name_at_marriage = legalNamesAtMarriage.spouse2 || null
       }
       if (extractedData.maidenNames && Array.isArray(extractedData.maidenNames)) {
-        if (!existingData.marriage_info?.maiden_names || existingData.marriage_info.maiden_names.length === 0) {
-          marriageUpdates.maiden_names = extractedData.maidenNames
-        }
+        marriageCandidates.maiden_names = extractedData.maidenNames
       }
 
+      const marriageUpdates = reconcile('marriage_info', 1, existingData.marriage_info, marriageCandidates, 'fillEmpty')
       if (Object.keys(marriageUpdates).length > 0) {
         await updateMarriageInfo(validatedUserId, marriageUpdates)
+        trackProvenance('marriage_info', 1, marriageUpdates, marriageCandidates)
+      }
+      // Retirement balances are split at the marriage date
+      const { assets: currentAssets } = await getPropertyRows(validatedUserId)
+      if (marriageUpdates.marriage_date && currentAssets.some((asset) => asset.asset_type === 'retirement')) {
+        try {
+          await updateRetirementAssets(validatedUserId, currentAssets, marriageUpdates.marriage_date, null)
+        } catch (retirementError) {
+          logger.warn('Failed to split retirement accounts at the marriage date:', retirementError)
+        }
       }
     }
 
@@ -855,11 +1452,64 @@ export async function migrateFromExtractedData(
         courtUpdates.has_minor_children = true
       }
 
-      if (Object.keys(courtUpdates).length > 0) {
-        await updateCourtInfo(validatedUserId, courtUpdates)
+      const courtInfoToWrite = withoutLockedFields(locks, 'court_info', 1, courtUpdates)
+      if (Object.keys(courtInfoToWrite).length > 0) {
+        await updateCourtInfo(validatedUserId, courtInfoToWrite)
+        trackProvenance('court_info', 1, courtInfoToWrite, courtInfoToWrite)
+      }
+    }
+
+    // ========================================================================
+    // Prior Court Orders (one row per order)
+    // ========================================================================
+    if (documentType === 'priorCourtOrder' && source?.documentId) {
+      const stringList = (value: any): string[] | null =>
+        Array.isArray(value) && value.length > 0 ? value.map((item) => String(item)) : null
+      try {
+        await updatePriorOrder(validatedUserId, source.documentId, {
+          case_number: getValue(extractedData, 'caseNumber', 'case_number') as string | null,
+          court_name: getValue(extractedData, 'courtName', 'court_name') as string | null,
+          county: getValue(extractedData, 'county') as string | null,
+          state: getValue(extractedData, 'state') as string | null,
+          judge_name: getValue(extractedData, 'judgeName', 'judge_name') as string | null,
+          petitioner_name: getValue(extractedData, 'petitionerName', 'petitioner_name') as string | null,
+          respondent_name: getValue(extractedData, 'respondentName', 'respondent_name') as string | null,
+          order_types: stringList(extractedData.orderTypes) as PriorOrderRow['order_types'],
+          order_date: getValue(extractedData, 'orderDate', 'order_date') as string | null,
+          expiration_date: getValue(extractedData, 'expirationDate', 'expiration_date') as string | null,
+          child_support_amount: getValue(extractedData, 'childSupportAmount', 'child_support_amount') as number | null,
+          alimony_amount: getValue(extractedData, 'alimonyAmount', 'alimony_amount') as number | null,
+          support_payor_name: getValue(extractedData, 'supportPayorName', 'support_payor_name') as string | null,
+          legal_custody: getValue(extractedData, 'legalCustody', 'legal_custody') as PriorOrderRow['legal_custody'],
+          physical_custody: getValue(extractedData, 'physicalCustody', 'physical_custody') as PriorOrderRow['physical_custody'],
+          parent_time_schedule: getValue(extractedData, 'parentTimeSchedule', 'parent_time_schedule') as string | null,
+          restrained_party_name: getValue(extractedData, 'restrainedPartyName', 'restrained_party_name') as string | null,
+          protected_party_names: stringList(extractedData.protectedPartyNames),
+          no_contact: typeof extractedData.noContact === 'boolean' ? extractedData.noContact : null,
+          stay_away_distance_feet: getValue(extractedData, 'stayAwayDistanceFeet', 'stay_away_distance_feet') as number | null,
+          contact_restrictions: stringList(extractedData.contactRestrictions),
+        })
+      } catch (priorOrderError) {
+        // Older databases may not have the table yet (migration V16)
+        logger.warn('Failed to save prior court order:', priorOrderError)
       }
     }
 
+    try {
+      await recordFieldProvenance(provenanceRows)
+      // Children are rewritten by every tax return, and assets or debts may have been merged away
+      await pruneRowProvenance(validatedUserId)
+    } catch (provenanceError) {
+      // Provenance is informational - don't fail the migration over it
+      logger.warn('Failed to record field provenance:', provenanceError)
+    }
+
+    try {
+      await saveFieldConflicts(conflicts.getChangedConflicts())
+    } catch (conflictError) {
+      logger.warn('Failed to save field conflicts:', conflictError)
+    }
+
     logger.debug('Successfully migrated extracted data to normalized tables')
   } catch (error) {
     logger.error('Error migrating extracted data:', error)
@@ -867,6 +1517,174 @@ export async function migrateFromExtractedData(
   }
 }
 
+interface PropertySnapshot {
+  assets: AssetRow[]
+  debts: DebtRow[]
+  allocations: PropertyAllocationRow[]
+}
+
+// Natural keys that match a rebuilt asset or debt to the row it replaces, or a document's row to the stored one
+const assetKey = (asset: Pick<AssetRow, 'asset_type' | 'asset_name' | 'account_number' | 'vin' | 'property_address'>): string =>
+  [
+    asset.asset_type,
+    (asset.asset_name || '').toLowerCase(),
+    asset.account_number || '',
+    (asset.vin || '').toUpperCase(),
+    (asset.property_address || '').toLowerCase(),
+  ].join('|')
+const employerKey = (employer: Pick<EmployerRow, 'spouse_number' | 'employer_name'>): string =>
+  [employer.spouse_number, employer.employer_name.trim().toLowerCase()].join('|')
+const debtKey = (debt: Pick<DebtRow, 'debt_type' | 'creditor_name'>): string => [debt.debt_type, (debt.creditor_name || '').toLowerCase()].join('|')
+const childKey = (child: Pick<ChildRow, 'full_name' | 'date_of_birth'>): string =>
+  [child.full_name.trim().toLowerCase(), child.date_of_birth || ''].join('|')
+
+/**
+ * A document's assets or debts added to the stored rows - a row with the same key is updated in place and keeps its
+ * id, ownership and links, so the rows from other documents and their allocations are left alone
+ */
+function mergePropertyRows<T extends { id: string }, R extends Record<string, any>>(
+  existing: T[],
+  incoming: R[],
+  key: (row: T | R) => string
+): (T | R)[] {
+  const merged: (T | R)[] = [...existing]
+  incoming.forEach((row) => {
+    const index = merged.findIndex((old) => key(old) === key(row))
+    if (index < 0) {
+      merged.push(row)
+      return
+    }
+    const updates = Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null && value !== undefined))
+    merged[index] = { ...merged[index], ...updates }
+  })
+  return merged
+}
+
+/**
+ * Map from each rebuilt row's id to the id of the previous row with the same key (each previous row is used once)
+ * A previous row's locked values are laid over the rebuilt row first, since the snapshot holds the user's edits
+ */
+function matchPreviousIds<T extends { id: string }>(
+  rows: T[],
+  previous: T[],
+  key: (row: T) => string,
+  lockedValues: (previousId: string) => Record<string, any>
+): Map<string, string> {
+  const unused = [...previous]
+  const ids = new Map<string, string>()
+  rows.forEach((row) => {
+    const index = unused.findIndex((old) => key(old) === key({ ...row, ...lockedValues(old.id) }))
+    if (index >= 0) {
+      ids.set(row.id, unused[index].id)
+      unused.splice(index, 1)
+    }
+  })
+  return ids
+}
+
+/**
+ * Assets and debts as stored now
+ */
+async function getPropertyRows(userId: string): Promise<Pick<PropertySnapshot, 'assets' | 'debts'>> {
+  const [assetsResult, debtsResult] = await Promise.all([
+    supabase.from('assets').select('*').eq('user_id', userId),
+    supabase.from('debts').select('*').eq('user_id', userId),
+  ])
+
+  if (assetsResult.error) throw assetsResult.error
+  if (debtsResult.error) throw debtsResult.error
+  return { assets: assetsResult.data || [], debts: debtsResult.data || [] }
+}
+
+/**
+ * Assets, debts and division allocations before a rebuild - deleting the rows also deletes their allocations
+ */
+async function getPropertySnapshot(userId: string): Promise<PropertySnapshot> {
+  const [rows, allocations] = await Promise.all([getPropertyRows(userId), getPropertyAllocations(userId)])
+  return { ...rows, allocations }
+}
+
+/**
+ * Give rebuilt assets and debts the ids of the rows they replace, so loan links and allocations still point at them
+ */
+async function restorePreviousIds(userId: string, snapshot: PropertySnapshot): Promise<void> {
+  const [{ assets, debts }, locks] = await Promise.all([getPropertySnapshot(userId), getFieldLocks(userId).catch(() => [])])
+  const assetIds = matchPreviousIds(assets, snapshot.assets, assetKey, (id) => getRowLockValues(locks, 'assets', id))
+  const debtIds = matchPreviousIds(debts, snapshot.debts, debtKey, (id) => getRowLockValues(locks, 'debts', id))
+  if (assetIds.size === 0 && debtIds.size === 0) return
+
+  // Unmatched rows keep their new id
+  const withoutBookkeeping = <T extends { id: string; user_id: string; last_updated: string }>({ id, user_id, last_updated, ...row }: T) => row
+  if (assetIds.size > 0) {
+    await updateAssets(userId, assets.map((asset) => ({ ...withoutBookkeeping(asset), id: assetIds.get(asset.id) || asset.id })))
+  }
+  await updateDebts(
+    userId,
+    debts.map((debt) => ({
+      ...withoutBookkeeping(debt),
+      id: debtIds.get(debt.id) || debt.id,
+      ...(debt.secured_asset_id ? { secured_asset_id: assetIds.get(debt.secured_asset_id) || debt.secured_asset_id } : {}),
+    }))
+  )
+  await remapRowProvenance(userId, 'assets', assetIds).catch((err) => logger.warn('Failed to remap asset provenance:', err))
+  await remapRowProvenance(userId, 'debts', debtIds).catch((err) => logger.warn('Failed to remap debt provenance:', err))
+}
+
+/**
+ * Employers before a rebuild - their ids carry the locks on employers the user edited
+ */
+async function getEmployerRows(userId: string): Promise<EmployerRow[]> {
+  const { data, error } = await supabase.from('employers').select('*').eq('user_id', userId)
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Give rebuilt employers the ids of the rows they replace, so their locks apply to them again
+ */
+async function restoreEmployerIds(userId: string, previous: EmployerRow[]): Promise<void> {
+  const [employers, locks] = await Promise.all([getEmployerRows(userId), getFieldLocks(userId).catch(() => [])])
+  const ids = matchPreviousIds(employers, previous, employerKey, (id) => getRowLockValues(locks, 'employers', id))
+  if (ids.size === 0) return
+
+  for (const spouseNumber of [1, 2] as const) {
+    const rows = employers.filter((employer) => employer.spouse_number === spouseNumber)
+    if (rows.length === 0) continue
+    await updateEmployers(
+      userId,
+      spouseNumber,
+      rows.map(({ id, employer_name, income_amount, income_type }) => ({ id: ids.get(id) || id, employer_name, income_amount, income_type }))
+    )
+  }
+  await remapRowProvenance(userId, 'employers', ids).catch((err) => logger.warn('Failed to remap employer provenance:', err))
+}
+
+/**
+ * Put back the allocations for assets and debts that still exist after a rebuild
+ */
+async function restorePropertyAllocations(userId: string, snapshot: PropertySnapshot): Promise<void> {
+  if (snapshot.allocations.length === 0) return
+  const { assets, debts } = await getPropertySnapshot(userId)
+  const assetIds = new Set(assets.map((asset) => asset.id))
+  const debtIds = new Set(debts.map((debt) => debt.id))
+  const allocations = snapshot.allocations
+    .filter((allocation) => (allocation.asset_id ? assetIds.has(allocation.asset_id) : !!allocation.debt_id && debtIds.has(allocation.debt_id)))
+    .map(({ asset_id, debt_id, assigned_to, spouse1_percentage }) => ({ asset_id, debt_id, assigned_to, spouse1_percentage }))
+  await updatePropertyAllocations(userId, allocations)
+}
+
+/**
+ * Write manually edited (locked) values back after the normalized tables were rebuilt
+ */
+async function restoreFieldLocks(userId: string): Promise<void> {
+  try {
+    await applyFieldLocks(userId, await getFieldLocks(userId))
+  } catch (lockError) {
+    logger.warn('Failed to restore locked fields:', lockError)
+  }
+}
+
 /**
  * Re-aggregate all form data from all remaining documents for a user
  * This is called when a document is deleted or replaced to ensure data consistency
@@ -875,16 +1693,20 @@ export async function reAggregateFormDataFromDocuments(userId: string): Promise<
   try {
     const validatedUserId = validateUserId(userId)
 
-    // Get all documents for this user
+    // Get all documents for this user (spouse_number needs migration V12 - older rows count as spouse 1)
     const { data: documents, error: docsError } = await supabase
       .from('documents')
-      .select('id, document_type')
+      .select('*')
       .eq('user_id', validatedUserId)
       .eq('status', 'processed')
       .order('uploaded_at', { ascending: false })
 
     if (docsError) throw docsError
 
+    // Rebuilding deletes every asset, debt and employer row; matching rows get their ids (and allocations) back afterwards
+    const propertySnapshot = await getPropertySnapshot(validatedUserId)
+    const previousEmployers = await getEmployerRows(validatedUserId)
+
     if (!documents || documents.length === 0) {
       logger.debug('No documents found, clearing normalized tables')
       // Clear all normalized data if no documents remain
@@ -899,7 +1721,11 @@ export async function reAggregateFormDataFromDocuments(userId: string): Promise<
         supabase.from('debts').delete().eq('user_id', validatedUserId),
         supabase.from('marriage_info').delete().eq('user_id', validatedUserId),
         supabase.from('court_info').delete().eq('user_id', validatedUserId),
+        clearFieldProvenance(validatedUserId).catch((err) => logger.warn('Failed to clear field provenance:', err)),
+        resetFieldConflictsForReAggregation(validatedUserId, []).catch((err) => logger.warn('Failed to reset field conflicts:', err)),
       ])
+      await restoreFieldLocks(validatedUserId)
+      await restorePropertyAllocations(validatedUserId, propertySnapshot)
       return
     }
 
@@ -907,7 +1733,7 @@ export async function reAggregateFormDataFromDocuments(userId: string): Promise<
     const documentIds = documents.map(d => d.id)
     const { data: extractedDataRecords, error: dataError } = await supabase
       .from('extracted_data')
-      .select('id, document_id, data')
+      .select('id, document_id, data, extraction_method')
       .in('document_id', documentIds)
 
     if (dataError) throw dataError
@@ -929,6 +1755,11 @@ export async function reAggregateFormDataFromDocuments(userId: string): Promise<
       supabase.from('debts').delete().eq('user_id', validatedUserId),
       supabase.from('marriage_info').delete().eq('user_id', validatedUserId),
       supabase.from('court_info').delete().eq('user_id', validatedUserId),
+      clearFieldProvenance(validatedUserId).catch((err) => logger.warn('Failed to clear field provenance:', err)),
+      // Open conflicts are rebuilt below; resolved ones keep the user's choice
+      resetFieldConflictsForReAggregation(validatedUserId, documentIds).catch((err) =>
+        logger.warn('Failed to reset field conflicts:', err)
+      ),
     ])
 
     // Re-migrate all extracted data (process in reverse order so newest overwrites oldest)
@@ -943,13 +1774,192 @@ export async function reAggregateFormDataFromDocuments(userId: string): Promise<
     for (const record of sortedRecords.reverse()) { // Process oldest first, newest last (so newest overwrites)
       const doc = documents.find(d => d.id === record.document_id)
       if (doc && record.data) {
-        await migrateFromExtractedData(validatedUserId, record.data, doc.document_type)
+        await migrateFromExtractedData(
+          validatedUserId,
+          record.data,
+          doc.document_type,
+          {
+            documentId: doc.id,
+            documentType: doc.document_type,
+            extractionMethod: record.extraction_method || 'regex',
+          },
+          doc.spouse_number === 2 ? 2 : 1
+        )
       }
     }
 
+    await restorePreviousIds(validatedUserId, propertySnapshot)
+    await restoreEmployerIds(validatedUserId, previousEmployers)
+    await restoreFieldLocks(validatedUserId)
+    await restorePropertyAllocations(validatedUserId, propertySnapshot)
+
     logger.debug('Re-aggregation complete')
   } catch (error) {
     logger.error('Error re-aggregating form data:', error)
     throw error
   }
 }
+
+export interface JointTaxReturn {
+  documentId: string
+  fileName: string
+  taxYear: number | null
+  split: JointIncomeSplit | null // null until W-2s match or the user enters a split
+  spouse1Percentage: number | null // User-entered split, if any
+}
+
+/**
+ * Processed married-filing-jointly returns and how each one's income is split between the spouses
+ */
+export async function getJointTaxReturns(userId: string): Promise<JointTaxReturn[]> {
+  const validatedUserId = validateUserId(userId)
+
+  const { data: documents, error: docsError } = await supabase
+    .from('documents')
+    .select('id, file_name')
+    .eq('user_id', validatedUserId)
+    .eq('document_type', 'taxReturn')
+    .eq('status', 'processed')
+    .order('uploaded_at', { ascending: false })
+
+  if (docsError) throw docsError
+  if (!documents || documents.length === 0) return []
+
+  const { data: records, error: dataError } = await supabase
+    .from('extracted_data')
+    .select('document_id, data')
+    .in('document_id', documents.map((d) => d.id))
+
+  if (dataError) throw dataError
+
+  const formData = await getFormData(validatedUserId)
+  return documents.flatMap((doc) => {
+    const data = records?.find((r) => r.document_id === doc.id)?.data
+    if (!data || !isJointReturn(data)) return []
+    const taxYear = Number(data.taxYear ?? data.tax_year)
+    return [
+      {
+        documentId: doc.id,
+        fileName: doc.file_name,
+        taxYear: Number.isFinite(taxYear) && taxYear > 0 ? taxYear : null,
+        split: splitJointReturn(data, formData),
+        spouse1Percentage: data.incomeSplit?.spouse1Percentage ?? null,
+      },
+    ]
+  })
+}
+
+/**
+ * Set the user's split of a joint return's income (spouse 1's percentage), or clear it with null to go back to the W-2s
+ * Stored on the return's extracted data so re-aggregation keeps it, then the income rows are rebuilt
+ */
+export async function setJointReturnSplit(userId: string, documentId: string, spouse1Percentage: number | null): Promise<void> {
+  const validatedUserId = validateUserId(userId)
+  if (spouse1Percentage !== null && (isNaN(spouse1Percentage) || spouse1Percentage < 0 || spouse1Percentage > 100)) {
+    throw new Error('Split percentage must be between 0 and 100')
+  }
+
+  const { data: record, error: fetchError } = await supabase
+    .from('extracted_data')
+    .select('id, data')
+    .eq('document_id', documentId)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  const { incomeSplit: _previousSplit, ...data } = record.data || {}
+  const { error } = await supabase
+    .from('extracted_data')
+    .update({ data: spouse1Percentage === null ? data : { ...data, incomeSplit: { spouse1Percentage } } })
+    .eq('id', record.id)
+
+  if (error) throw error
+
+  await reAggregateFormDataFromDocuments(validatedUserId)
+}
+
+export interface SelfEmploymentDocument {
+  documentId: string
+  fileName: string
+  documentType: 'profitAndLoss' | 'taxReturn'
+  spouseNumber: 1 | 2
+  taxYear: number | null
+  statement: SelfEmploymentStatement
+  addBacks: SelfEmploymentAddBacks | null // User's add-backs, if saved
+}
+
+/**
+ * Processed profit & loss statements and tax returns with a Schedule C, with the user's add-backs
+ */
+export async function getSelfEmploymentDocuments(userId: string): Promise<SelfEmploymentDocument[]> {
+  const validatedUserId = validateUserId(userId)
+
+  const { data: documents, error: docsError } = await supabase
+    .from('documents')
+    .select('id, file_name, document_type, spouse_number')
+    .eq('user_id', validatedUserId)
+    .in('document_type', ['profitAndLoss', 'taxReturn'])
+    .eq('status', 'processed')
+    .order('uploaded_at', { ascending: false })
+
+  if (docsError) throw docsError
+  if (!documents || documents.length === 0) return []
+
+  const { data: records, error: dataError } = await supabase
+    .from('extracted_data')
+    .select('document_id, data')
+    .in('document_id', documents.map((d) => d.id))
+
+  if (dataError) throw dataError
+
+  return documents.flatMap((doc) => {
+    const data = records?.find((r) => r.document_id === doc.id)?.data
+    const statement = data ? getSelfEmploymentStatement(data, doc.document_type) : null
+    if (!data || !statement) return []
+    const taxYear = Number(data.taxYear ?? data.tax_year)
+    return [
+      {
+        documentId: doc.id,
+        fileName: doc.file_name,
+        documentType: doc.document_type,
+        spouseNumber: doc.spouse_number === 2 ? 2 : 1,
+        taxYear: Number.isFinite(taxYear) && taxYear > 0 ? taxYear : null,
+        statement,
+        addBacks: data.selfEmploymentAddBacks ?? null,
+      },
+    ]
+  })
+}
+
+/**
+ * Set the expenses added back to a P&L's or Schedule C's net profit, or clear them with null
+ * Stored on the document's extracted data so re-aggregation keeps them, then the income rows are rebuilt
+ */
+export async function setSelfEmploymentAddBacks(
+  userId: string,
+  documentId: string,
+  addBacks: SelfEmploymentAddBacks | null
+): Promise<void> {
+  const validatedUserId = validateUserId(userId)
+  if (addBacks?.personalExpenses != null && (isNaN(addBacks.personalExpenses) || addBacks.personalExpenses < 0)) {
+    throw new Error('Personal expenses must be zero or more')
+  }
+
+  const { data: record, error: fetchError } = await supabase
+    .from('extracted_data')
+    .select('id, data')
+    .eq('document_id', documentId)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  const { selfEmploymentAddBacks: _previousAddBacks, ...data } = record.data || {}
+  const { error } = await supabase
+    .from('extracted_data')
+    .update({ data: addBacks === null ? data : { ...data, selfEmploymentAddBacks: addBacks } })
+    .eq('id', record.id)
+
+  if (error) throw error
+
+  await reAggregateFormDataFromDocuments(validatedUserId)
+}
@@ -0,0 +1,185 @@
+/**
+ * Form Templates - Registry of the Utah divorce forms in the court packet
+ * Each template maps the AcroForm field names of a court PDF (served from public/forms/) to NormalizedFormData paths.
+ * Field names must match the PDF - listTemplateFields in packetService prints them for a new template.
+ * The blank utcourts.gov PDFs are not in public/forms yet, so every mapping below uses placeholder field names and is
+ * marked fieldsVerified: false. To add a form: save the PDF under its file path, replace each field with the name
+ * listTemplateFields reports for it, then set fieldsVerified to true. Until then the packet prints not court-ready pages.
+ */
+
+import type { NormalizedFormData, ChildSupportCalculationRow } from '../types'
+import type { MyCaseFieldFormat } from './mycaseFieldMap'
+
+// Everything a packet is filled from: getFormData() plus the saved child support worksheet
+export interface PacketData extends NormalizedFormData {
+  child_support: ChildSupportCalculationRow | null
+}
+
+export interface FormFieldMapping {
+  field: string // AcroForm field name in the template PDF
+  label: string // Shown on the summary page when the template PDF isn't available
+  path?: string // e.g. 'personal_info.first_name', 'income[spouse=2].gross_monthly_income', 'children[0].full_name'
+  value?: (data: PacketData) => any // For values built from several columns
+  format?: MyCaseFieldFormat
+}
+
+export type FormTemplateId = 'coverSheet' | 'petition' | 'financialDeclaration' | 'childSupportWorksheet'
+
+export interface FormTemplate {
+  id: FormTemplateId
+  title: string
+  file: string // Blank court PDF, relative to the site root
+  fieldsVerified: boolean // Field names copied from the court PDF with listTemplateFields - false for placeholders
+  include?: (data: PacketData) => boolean // Leave the form out of the packet when it doesn't apply
+  fields: FormFieldMapping[]
+}
+
+const MAX_CHILDREN = 4
+
+const fullName = (person: { first_name: string | null; middle_name: string | null; last_name: string | null } | null) =>
+  person ? [person.first_name, person.middle_name, person.last_name].filter(Boolean).join(' ') : null
+
+const cityStateZip = (person: { address_city: string | null; address_state: string | null; address_zip_code: string | null } | null) => {
+  if (!person) return null
+  const cityState = [person.address_city, person.address_state].filter(Boolean).join(', ')
+  return [cityState, person.address_zip_code].filter(Boolean).join(' ')
+}
+
+const total = (values: Array<number | null>) => values.reduce<number>((sum, value) => sum + (value || 0), 0)
+
+const partyFields = (prefix: 'Petitioner' | 'Respondent', table: 'personal_info' | 'spouse_info'): FormFieldMapping[] => [
+  { field: `${prefix} Name`, label: `${prefix} name`, value: (data) => fullName(data[table]) },
+  { field: `${prefix} Address`, label: `${prefix} street address`, path: `${table}.address_street` },
+  { field: `${prefix} City State Zip`, label: `${prefix} city, state, ZIP`, value: (data) => cityStateZip(data[table]) },
+  { field: `${prefix} Phone`, label: `${prefix} phone`, path: `${table}.phone`, format: 'phone' },
+  { field: `${prefix} Email`, label: `${prefix} email`, path: `${table}.email` },
+]
+
+const childFields = (): FormFieldMapping[] =>
+  Array.from({ length: MAX_CHILDREN }, (_, index) => [
+    { field: `Child ${index + 1} Name`, label: `Child ${index + 1} name`, path: `children[${index}].full_name` },
+    {
+      field: `Child ${index + 1} Birth Date`,
+      label: `Child ${index + 1} date of birth`,
+      path: `children[${index}].date_of_birth`,
+      format: 'date' as const,
+    },
+  ]).flat()
+
+const spouseFinancialFields = (spouse: 1 | 2, prefix: string): FormFieldMapping[] => [
+  { field: `${prefix} Employer`, label: `${prefix} employer`, path: `employers[spouse=${spouse}].employer_name` },
+  { field: `${prefix} Gross Monthly Income`, label: `${prefix} gross monthly income`, path: `income[spouse=${spouse}].gross_monthly_income`, format: 'currency' },
+  { field: `${prefix} Gross Annual Income`, label: `${prefix} gross annual income`, path: `income[spouse=${spouse}].gross_annual_income`, format: 'currency' },
+  { field: `${prefix} Pay Frequency`, label: `${prefix} pay frequency`, path: `income[spouse=${spouse}].pay_frequency` },
+  { field: `${prefix} Housing`, label: `${prefix} rent or mortgage`, path: `expenses[spouse=${spouse}].monthly_housing_cost`, format: 'currency' },
+  { field: `${prefix} Utilities`, label: `${prefix} utilities`, path: `expenses[spouse=${spouse}].monthly_utilities`, format: 'currency' },
+  { field: `${prefix} Childcare`, label: `${prefix} childcare`, path: `expenses[spouse=${spouse}].monthly_childcare_cost`, format: 'currency' },
+  { field: `${prefix} Transportation`, label: `${prefix} transportation`, path: `expenses[spouse=${spouse}].monthly_transportation`, format: 'currency' },
+  { field: `${prefix} Health Insurance`, label: `${prefix} health insurance`, path: `expenses[spouse=${spouse}].monthly_health_insurance`, format: 'currency' },
+  { field: `${prefix} Debt Payments`, label: `${prefix} debt payments`, path: `expenses[spouse=${spouse}].monthly_debt_payments`, format: 'currency' },
+]
+
+/**
+ * Forms in packet order
+ */
+export const FORM_TEMPLATES: FormTemplate[] = [
+  {
+    id: 'coverSheet',
+    title: 'Cover Sheet for Civil Actions',
+    file: '/forms/cover-sheet.pdf',
+    fieldsVerified: false,
+    fields: [
+      ...partyFields('Petitioner', 'personal_info'),
+      { field: 'Respondent Name', label: 'Respondent name', value: (data) => fullName(data.spouse_info) },
+      { field: 'County', label: 'County', path: 'court_info.county' },
+      { field: 'Judicial District', label: 'Judicial district', path: 'court_info.judicial_district' },
+      { field: 'Case Type', label: 'Case type', value: () => 'Divorce' },
+    ],
+  },
+  {
+    id: 'petition',
+    title: 'Petition for Divorce',
+    file: '/forms/petition-for-divorce.pdf',
+    fieldsVerified: false,
+    fields: [
+      ...partyFields('Petitioner', 'personal_info'),
+      ...partyFields('Respondent', 'spouse_info'),
+      { field: 'County', label: 'County', path: 'court_info.county' },
+      { field: 'Utah Residency Years', label: 'Years living in Utah', path: 'personal_info.utah_residency_years', format: 'number' },
+      { field: 'Marriage Date', label: 'Date of marriage', path: 'marriage_info.marriage_date', format: 'date' },
+      { field: 'Marriage Place', label: 'Place of marriage', path: 'marriage_info.marriage_place' },
+      { field: 'Separation Date', label: 'Date of separation', path: 'marriage_info.date_of_separation', format: 'date' },
+      { field: 'Petitioner Name At Marriage', label: 'Petitioner name at marriage', path: 'marriage_info.spouse1_name_at_marriage' },
+      { field: 'Respondent Name At Marriage', label: 'Respondent name at marriage', path: 'marriage_info.spouse2_name_at_marriage' },
+      { field: 'Has Minor Children', label: 'Minor children of the marriage', value: (data) => data.court_info?.has_minor_children ?? data.children.length > 0, format: 'yesNo' },
+      { field: 'Number Of Children', label: 'Number of children', value: (data) => data.children.length, format: 'number' },
+      ...childFields(),
+      { field: 'Prior Orders', label: 'Other court orders or cases', path: 'court_info.has_prior_orders', format: 'yesNo' },
+      { field: 'Domestic Violence', label: 'Protective order or domestic violence', path: 'court_info.has_domestic_violence', format: 'yesNo' },
+      { field: 'Requesting Child Support', label: 'Requesting child support', path: 'court_info.requesting_child_support', format: 'yesNo' },
+      { field: 'Requesting Alimony', label: 'Requesting alimony', path: 'court_info.requesting_alimony', format: 'yesNo' },
+    ],
+  },
+  {
+    id: 'financialDeclaration',
+    title: 'Financial Declaration',
+    file: '/forms/financial-declaration.pdf',
+    fieldsVerified: false,
+    fields: [
+      { field: 'Name', label: 'Name', value: (data) => fullName(data.personal_info) },
+      ...spouseFinancialFields(1, 'Petitioner'),
+      ...spouseFinancialFields(2, 'Respondent'),
+      { field: 'Total Assets', label: 'Total assets', value: (data) => total(data.assets.map((a) => a.approximate_value)), format: 'currency' },
+      { field: 'Total Debts', label: 'Total debts', value: (data) => total(data.debts.map((d) => d.approximate_balance)), format: 'currency' },
+    ],
+  },
+  {
+    id: 'childSupportWorksheet',
+    title: 'Child Support Worksheet',
+    file: '/forms/child-support-worksheet.pdf',
+    fieldsVerified: false,
+    include: (data) => !!data.child_support?.schedule_official, // Never file a worksheet from the estimated schedule
+    fields: [
+      { field: 'Worksheet Type', label: 'Custody worksheet', path: 'child_support.custody_worksheet' },
+      { field: 'Number Of Children', label: 'Number of children', path: 'child_support.number_of_children', format: 'number' },
+      { field: 'Petitioner Gross Monthly Income', label: 'Petitioner gross monthly income', path: 'child_support.spouse1_monthly_income', format: 'currency' },
+      { field: 'Respondent Gross Monthly Income', label: 'Respondent gross monthly income', path: 'child_support.spouse2_monthly_income', format: 'currency' },
+      { field: 'Combined Monthly Income', label: 'Combined monthly income', path: 'child_support.combined_monthly_income', format: 'currency' },
+      { field: 'Petitioner Percentage', label: 'Petitioner percentage of income', path: 'child_support.spouse1_income_percentage', format: 'number' },
+      { field: 'Respondent Percentage', label: 'Respondent percentage of income', path: 'child_support.spouse2_income_percentage', format: 'number' },
+      { field: 'Base Combined Obligation', label: 'Base combined support obligation', path: 'child_support.base_combined_obligation', format: 'currency' },
+      { field: 'Adjusted Combined Obligation', label: 'Adjusted combined obligation', path: 'child_support.adjusted_combined_obligation', format: 'currency' },
+      { field: 'Petitioner Share', label: 'Petitioner share', path: 'child_support.spouse1_share', format: 'currency' },
+      { field: 'Respondent Share', label: 'Respondent share', path: 'child_support.spouse2_share', format: 'currency' },
+      { field: 'Petitioner Overnights', label: 'Petitioner annual overnights', path: 'child_support.spouse1_annual_overnights', format: 'number' },
+      { field: 'Respondent Overnights', label: 'Respondent annual overnights', path: 'child_support.spouse2_annual_overnights', format: 'number' },
+      { field: 'Petitioner Obligation', label: 'Petitioner obligation', path: 'child_support.spouse1_obligation', format: 'currency' },
+      { field: 'Respondent Obligation', label: 'Respondent obligation', path: 'child_support.spouse2_obligation', format: 'currency' },
+      { field: 'Monthly Support Amount', label: 'Monthly child support', path: 'child_support.monthly_support_amount', format: 'currency' },
+    ],
+  },
+]
+
+/**
+ * Read a value by path - segments are property names, [n] for an array index, or [spouse=n] for a per-spouse row
+ */
+export function getValueAtPath(data: PacketData, path: string): any {
+  return path.split('.').reduce<any>((value, segment) => {
+    if (value === null || value === undefined) return null
+    const match = segment.match(/^([\w]+)(?:\[(?:spouse=(\d)|(\d+))\])?$/)
+    if (!match) return null
+
+    const [, key, spouse, index] = match
+    const next = value[key]
+    if (spouse) return Array.isArray(next) ? next.find((row) => row.spouse_number === Number(spouse)) ?? null : null
+    if (index) return Array.isArray(next) ? next[Number(index)] ?? null : null
+    return next ?? null
+  }, data)
+}
+
+/**
+ * Look up a template by id
+ */
+export function getFormTemplate(id: FormTemplateId): FormTemplate | undefined {
+  return FORM_TEMPLATES.find((template) => template.id === id)
+}
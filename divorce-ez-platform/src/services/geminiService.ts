@@ -6,7 +6,21 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { logger } from '../utils/logger'
 import { getExpectedFields } from './documentSchemas'
-import type { PayStubFields, MarriageCertificateFields, BankStatementFields, TaxReturnFields } from './documentSchemas'
+import type {
+  PayStubFields,
+  MarriageCertificateFields,
+  BankStatementFields,
+  TaxReturnFields,
+  W2Fields,
+  Form1099Fields,
+  PriorCourtOrderFields,
+  ProfitAndLossFields,
+  RetirementStatementFields,
+  MortgageStatementFields,
+  PropertyTaxNoticeFields,
+  VehicleTitleFields,
+  AutoLoanStatementFields,
+} from './documentSchemas'
 
 const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY
 const GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-1.5-flash'
@@ -39,7 +53,8 @@ function truncateText(text: string, maxChars: number = 8000): string {
  * Create extraction prompt for a document type
  */
 function createExtractionPrompt(documentType: string, ocrText: string): string {
-  const truncatedText = truncateText(ocrText)
+  // Statement transactions run past the first page, so bank statements get more of the text
+  const truncatedText = truncateText(ocrText, documentType === 'bankStatement' ? 24000 : undefined)
 
   switch (documentType) {
     case 'payStub':
@@ -53,7 +68,8 @@ Required fields:
 - employerAddress: Full address of employer (string or null)
 - payPeriodStart: Start date of pay period in YYYY-MM-DD format (string or null)
 - payPeriodEnd: End date of pay period in YYYY-MM-DD format (string or null)
-- payFrequency: One of "weekly", "biweekly", "monthly", "yearly" (string or null)
+- payDate: Date the employee was paid (check date) in YYYY-MM-DD format (string or null)
+- payFrequency: One of "weekly", "biweekly", "semimonthly", "monthly", "yearly" (string or null)
 - grossIncomeCurrent: Current period gross income as number (number or null)
 - grossIncomeYTD: Year-to-date gross income as number (number or null)
 - netIncomeCurrent: Current period net income as number (number or null)
@@ -75,7 +91,8 @@ Return JSON in this exact format (use null for missing fields):
   "employerAddress": "123 Main St, City, ST 12345",
   "payPeriodStart": "2024-01-01",
   "payPeriodEnd": "2024-01-15",
-  "payFrequency": "biweekly",
+  "payDate": "2024-01-19",
+  "payFrequency": "semimonthly",
   "grossIncomeCurrent": 4000.00,
   "grossIncomeYTD": 8000.00,
   "netIncomeCurrent": 2994.00,
@@ -132,6 +149,7 @@ Required fields:
 - endingBalance: Account balance at end of period (number or null)
 - totalDeposits: Total deposits during period (number or null)
 - totalWithdrawals: Total withdrawals during period (number or null)
+- transactions: Every transaction line as { date, description, amount, runningBalance } - date in YYYY-MM-DD format, amount negative for withdrawals and debits, runningBalance null if not shown (array, empty if none listed)
 
 OCR Text:
 ${truncatedText}
@@ -147,7 +165,11 @@ Return JSON in this exact format (use null for missing fields):
   "beginningBalance": 5000.00,
   "endingBalance": 7500.00,
   "totalDeposits": 5000.00,
-  "totalWithdrawals": 2500.00
+  "totalWithdrawals": 2500.00,
+  "transactions": [
+    { "date": "2024-01-02", "description": "ACME CORP PAYROLL DIRECT DEP", "amount": 2500.00, "runningBalance": 7500.00 },
+    { "date": "2024-01-05", "description": "ROCKY MOUNTAIN POWER", "amount": -120.45, "runningBalance": 7379.55 }
+  ]
 }`
 
     case 'taxReturn':
@@ -163,9 +185,11 @@ Required fields:
 - adjustedGrossIncome: Adjusted Gross Income (AGI) (number or null)
 - totalIncome: Total income before adjustments (number or null)
 - wages: Wages, salaries, tips from W-2 forms (number or null)
+- w2s: Each attached Form W-2 as { employeeName, employerName, wages } where wages is Box 1 (array, empty if none attached)
 - interestIncome: Interest income (number or null)
 - dividendIncome: Dividend income (number or null)
 - businessIncome: Business income or loss from Schedule C (number or null, can be negative)
+- scheduleC: Schedule C detail if attached, as { businessName, grossReceipts (line 1), totalExpenses (line 28), netProfit (line 31, negative for a loss), expenseLines } where expenseLines lists each expense on lines 8-27 and 30 as { label, category, amount }; category is one of "advertising", "carAndTruck", "commissions", "contractLabor", "depletion", "depreciation", "employeeBenefits", "insurance", "interest", "legalAndProfessional", "officeExpense", "pensionPlans", "rentOrLease", "repairs", "supplies", "taxesAndLicenses", "travel", "meals", "utilities", "wages", "businessUseOfHome", "other" (object or null)
 - totalTax: Total tax owed (number or null)
 - refundOrAmountOwed: Refund (positive) or amount owed (negative) (number or null)
 
@@ -181,13 +205,403 @@ Return JSON in this exact format (use null for missing fields):
   "adjustedGrossIncome": 95000.00,
   "totalIncome": 100000.00,
   "wages": 85000.00,
+  "w2s": [
+    { "employeeName": "John Doe", "employerName": "ABC Company", "wages": 60000.00 },
+    { "employeeName": "Jane Doe", "employerName": "XYZ Corp", "wages": 25000.00 }
+  ],
   "interestIncome": 500.00,
   "dividendIncome": 200.00,
   "businessIncome": 12300.00,
+  "scheduleC": {
+    "businessName": "Doe Consulting",
+    "grossReceipts": 30000.00,
+    "totalExpenses": 17700.00,
+    "netProfit": 12300.00,
+    "expenseLines": [
+      { "label": "Car and truck expenses", "category": "carAndTruck", "amount": 3200.00 },
+      { "label": "Depreciation and section 179 expense deduction", "category": "depreciation", "amount": 4500.00 }
+    ]
+  },
   "totalTax": 12000.00,
   "refundOrAmountOwed": 500.00
 }`
 
+    case 'w2':
+      return `You are extracting structured data from a FORM W-2 (Wage and Tax Statement).
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- taxYear: Tax year of the form (number or null)
+- employeeFullName: Employee's name, box e (string or null)
+- employeeSsnLast4: Last 4 digits of the employee's SSN, box a - never the full number (string or null)
+- employerName: Employer's name, box c (string or null)
+- employerAddress: Employer's address, box c (string or null)
+- employerEinLast4: Last 4 digits of the employer identification number, box b (string or null)
+- wages: Box 1 - Wages, tips, other compensation (number or null)
+- federalTaxWithheld: Box 2 - Federal income tax withheld (number or null)
+- socialSecurityWages: Box 3 - Social security wages (number or null)
+- socialSecurityTaxWithheld: Box 4 - Social security tax withheld (number or null)
+- medicareWages: Box 5 - Medicare wages and tips (number or null)
+- medicareTaxWithheld: Box 6 - Medicare tax withheld (number or null)
+- socialSecurityTips: Box 7 - Social security tips (number or null)
+- allocatedTips: Box 8 - Allocated tips (number or null)
+- dependentCareBenefits: Box 10 - Dependent care benefits (number or null)
+- nonqualifiedPlans: Box 11 - Nonqualified plans (number or null)
+- box12: Each box 12 entry as { code, amount }, e.g. code "D" for 401(k) deferrals (array, empty if none)
+- statutoryEmployee: Box 13 "Statutory employee" checked (boolean or null)
+- retirementPlan: Box 13 "Retirement plan" checked (boolean or null)
+- thirdPartySickPay: Box 13 "Third-party sick pay" checked (boolean or null)
+- box14Other: Box 14 - Other, as written (string or null)
+- state: Box 15 - Two-letter state code (string or null)
+- stateWages: Box 16 - State wages, tips, etc. (number or null)
+- stateIncomeTax: Box 17 - State income tax (number or null)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "taxYear": 2024,
+  "employeeFullName": "John Doe",
+  "employeeSsnLast4": "6789",
+  "employerName": "ABC Company",
+  "employerAddress": "123 Main St, Salt Lake City, UT 84101",
+  "employerEinLast4": "4321",
+  "wages": 58000.00,
+  "federalTaxWithheld": 6200.00,
+  "socialSecurityWages": 60000.00,
+  "socialSecurityTaxWithheld": 3720.00,
+  "medicareWages": 60000.00,
+  "medicareTaxWithheld": 870.00,
+  "socialSecurityTips": null,
+  "allocatedTips": null,
+  "dependentCareBenefits": null,
+  "nonqualifiedPlans": null,
+  "box12": [{ "code": "D", "amount": 2000.00 }],
+  "statutoryEmployee": false,
+  "retirementPlan": true,
+  "thirdPartySickPay": false,
+  "box14Other": null,
+  "state": "UT",
+  "stateWages": 58000.00,
+  "stateIncomeTax": 2700.00
+}`
+
+    case '1099':
+      return `You are extracting structured data from a FORM 1099 (1099-NEC, 1099-MISC, 1099-INT, 1099-DIV or 1099-R).
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- formVariant: One of "NEC", "MISC", "INT", "DIV", "R" (string or null)
+- taxYear: Tax year of the form (number or null)
+- payerName: Payer's name (string or null)
+- payerTinLast4: Last 4 digits of the payer's TIN - never the full number (string or null)
+- recipientName: Recipient's name (string or null)
+- recipientTinLast4: Last 4 digits of the recipient's TIN - never the full number (string or null)
+- nonemployeeCompensation: 1099-NEC box 1 (number or null)
+- rents: 1099-MISC box 1 (number or null)
+- royalties: 1099-MISC box 2 (number or null)
+- otherIncome: 1099-MISC box 3 (number or null)
+- interestIncome: 1099-INT box 1 (number or null)
+- ordinaryDividends: 1099-DIV box 1a - Total ordinary dividends (number or null)
+- qualifiedDividends: 1099-DIV box 1b (number or null)
+- capitalGainDistributions: 1099-DIV box 2a (number or null)
+- grossDistribution: 1099-R box 1 (number or null)
+- taxableAmount: 1099-R box 2a (number or null)
+- distributionCode: 1099-R box 7 distribution code(s) (string or null)
+- federalTaxWithheld: Box 4 - Federal income tax withheld (number or null)
+- stateTaxWithheld: State tax withheld (number or null)
+- state: Two-letter state code (string or null)
+
+Use null for boxes that do not belong to the form's variant.
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "formVariant": "NEC",
+  "taxYear": 2024,
+  "payerName": "Acme Consulting LLC",
+  "payerTinLast4": "5678",
+  "recipientName": "Jane Doe",
+  "recipientTinLast4": "1234",
+  "nonemployeeCompensation": 18500.00,
+  "rents": null,
+  "royalties": null,
+  "otherIncome": null,
+  "interestIncome": null,
+  "ordinaryDividends": null,
+  "qualifiedDividends": null,
+  "capitalGainDistributions": null,
+  "grossDistribution": null,
+  "taxableAmount": null,
+  "distributionCode": null,
+  "federalTaxWithheld": 0.00,
+  "stateTaxWithheld": null,
+  "state": "UT"
+}`
+
+    case 'priorCourtOrder':
+      return `You are extracting structured data from a PRIOR COURT ORDER (custody, parent-time, child support, alimony, or protective/restraining order).
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- caseNumber: Case number from the caption (string or null)
+- courtName: Name of the court, e.g. "Third Judicial District Court" (string or null)
+- county: County of the court, e.g. "Salt Lake County" (string or null)
+- state: State of the court (string or null)
+- judgeName: Judge or commissioner who signed the order (string or null)
+- petitionerName: Petitioner or plaintiff (string or null)
+- respondentName: Respondent or defendant (string or null)
+- orderTypes: Any of "custody", "support", "protective" that the order covers (array)
+- orderDate: Date the order was signed or entered in YYYY-MM-DD format (string or null)
+- expirationDate: Date a protective order expires in YYYY-MM-DD format (string or null)
+- childSupportAmount: Monthly child support ordered (number or null)
+- alimonyAmount: Monthly alimony or spousal support ordered (number or null)
+- supportPayorName: Name of the party ordered to pay support (string or null)
+- legalCustody: "sole" or "joint" legal custody (string or null)
+- physicalCustody: "sole" or "joint" physical custody (string or null)
+- parentTimeSchedule: Parent-time or visitation schedule as ordered, briefly, including any statute cited such as Utah Code 30-3-35 (string or null)
+- restrainedPartyName: Person restrained by a protective order (string or null)
+- protectedPartyNames: People protected by the order (array, empty if none)
+- noContact: Whether the order prohibits contact (boolean or null)
+- stayAwayDistanceFeet: Required stay-away distance in feet (number or null)
+- contactRestrictions: Each contact or parent-time restriction as ordered, e.g. "Respondent shall not contact Petitioner" (array, empty if none)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "caseNumber": "194900123",
+  "courtName": "Third Judicial District Court",
+  "county": "Salt Lake County",
+  "state": "Utah",
+  "judgeName": "Jane Smith",
+  "petitionerName": "John Doe",
+  "respondentName": "Mary Doe",
+  "orderTypes": ["custody", "support"],
+  "orderDate": "2019-05-14",
+  "expirationDate": null,
+  "childSupportAmount": 650.00,
+  "alimonyAmount": null,
+  "supportPayorName": "John Doe",
+  "legalCustody": "joint",
+  "physicalCustody": "sole",
+  "parentTimeSchedule": "Utah Code 30-3-35 minimum parent-time; alternating weekends and Wednesday evenings",
+  "restrainedPartyName": null,
+  "protectedPartyNames": [],
+  "noContact": null,
+  "stayAwayDistanceFeet": null,
+  "contactRestrictions": []
+}`
+
+    case 'profitAndLoss':
+      return `You are extracting structured data from a PROFIT AND LOSS STATEMENT (income statement) for a self-employed person's business.
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- businessName: Name of the business (string or null)
+- periodStart: First day of the period the statement covers in YYYY-MM-DD format, e.g. 2024-01-01 for "year ended December 31, 2024" (string or null)
+- periodEnd: Last day of the period the statement covers in YYYY-MM-DD format (string or null)
+- grossRevenue: Total revenue or gross sales for the period (number or null)
+- totalExpenses: Total expenses for the period (number or null)
+- netIncome: Net income for the period, negative for a loss (number or null)
+- expenseLines: Each expense line as { label, category, amount } with the label as written; category is the closest Schedule C line, one of "advertising", "carAndTruck", "commissions", "contractLabor", "depletion", "depreciation", "employeeBenefits", "insurance", "interest", "legalAndProfessional", "officeExpense", "pensionPlans", "rentOrLease", "repairs", "supplies", "taxesAndLicenses", "travel", "meals", "utilities", "wages", "businessUseOfHome", "other" (array, empty if none)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "businessName": "Doe Landscaping LLC",
+  "periodStart": "2024-01-01",
+  "periodEnd": "2024-06-30",
+  "grossRevenue": 60000.00,
+  "totalExpenses": 9600.00,
+  "netIncome": 50400.00,
+  "expenseLines": [
+    { "label": "Advertising", "category": "advertising", "amount": 1200.00 },
+    { "label": "Depreciation Expense", "category": "depreciation", "amount": 4800.00 },
+    { "label": "Vehicle Fuel", "category": "carAndTruck", "amount": 2100.00 }
+  ]
+}`
+
+    case 'retirementStatement':
+      return `You are extracting structured data from a RETIREMENT ACCOUNT STATEMENT (401(k), 403(b), 457(b), TSP, IRA or pension).
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- planName: Name of the plan or account, e.g. "Acme Corp 401(k) Plan" or "Traditional IRA" (string or null)
+- planType: One of "401k", "403b", "457b", "tsp", "ira", "roth_ira", "sep_ira", "pension", "other" (string or null)
+- administrator: Plan administrator, recordkeeper or custodian, e.g. "Fidelity Investments" (string or null)
+- employerName: Employer sponsoring the plan, for employer plans (string or null)
+- accountHolderName: Participant or account owner's full name (string or null)
+- accountNumberLast4: Last 4 digits of the account or participant number (string or null)
+- statementStartDate: First day of the statement period in YYYY-MM-DD format (string or null)
+- statementEndDate: Last day of the statement period, or the date the balance is as of, in YYYY-MM-DD format (string or null)
+- beginningBalance: Account balance at the start of the period (number or null)
+- endingBalance: Account balance at the end of the period (number or null)
+- vestedBalance: Vested balance at the end of the period (number or null)
+- employeeContributions: Participant contributions during the period, including IRA contributions (number or null)
+- employerContributions: Employer or matching contributions during the period (number or null)
+- ytdContributions: Total contributions year to date (number or null)
+- loanBalance: Outstanding plan loan balance (number or null)
+- planEntryDate: Date the account was opened or participation began in YYYY-MM-DD format (string or null)
+- monthlyBenefit: Pensions only - accrued monthly benefit payable at retirement age (number or null)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "planName": "Acme Corp 401(k) Plan",
+  "planType": "401k",
+  "administrator": "Fidelity Investments",
+  "employerName": "Acme Corp",
+  "accountHolderName": "Jane Doe",
+  "accountNumberLast4": "1234",
+  "statementStartDate": "2024-01-01",
+  "statementEndDate": "2024-03-31",
+  "beginningBalance": 45000.00,
+  "endingBalance": 51200.00,
+  "vestedBalance": 49000.00,
+  "employeeContributions": 3000.00,
+  "employerContributions": 1500.00,
+  "ytdContributions": 4500.00,
+  "loanBalance": null,
+  "planEntryDate": "2015-06-01",
+  "monthlyBenefit": null
+}`
+
+    case 'mortgageStatement':
+      return `You are extracting structured data from a MORTGAGE STATEMENT for a home loan.
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- lenderName: Lender or loan servicer, e.g. "Mr. Cooper" (string or null)
+- borrowerName: Borrower's full name; the first borrower if there are several (string or null)
+- loanNumberLast4: Last 4 digits of the loan number (string or null)
+- propertyAddress: Address of the mortgaged property including city, state and ZIP (string or null)
+- statementDate: Statement date in YYYY-MM-DD format (string or null)
+- principalBalance: Outstanding principal balance - not the payoff or amount due (number or null)
+- monthlyPayment: Regular monthly payment including escrow, excluding past-due amounts and fees (number or null)
+- escrowBalance: Escrow account balance (number or null)
+- interestRate: Interest rate as a percent, e.g. 3.875 (number or null)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "lenderName": "Mr. Cooper",
+  "borrowerName": "John Doe",
+  "loanNumberLast4": "4821",
+  "propertyAddress": "1234 E 500 S, Salt Lake City, UT 84102",
+  "statementDate": "2025-03-15",
+  "principalBalance": 312456.78,
+  "monthlyPayment": 2145.33,
+  "escrowBalance": 2104.50,
+  "interestRate": 3.875
+}`
+
+    case 'propertyTaxNotice':
+      return `You are extracting structured data from a PROPERTY TAX NOTICE or property valuation notice for a home.
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- ownerName: Owner of record (string or null)
+- parcelNumber: Parcel, serial or APN number as printed (string or null)
+- propertyAddress: Address of the property including city, state and ZIP (string or null)
+- taxYear: Tax year (number or null)
+- marketValue: Market, fair market or appraised value of the property (number or null)
+- assessedValue: Taxable or assessed value after exemptions (number or null)
+- taxAmount: Total annual property tax (number or null)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "ownerName": "John Doe",
+  "parcelNumber": "16-07-123-004",
+  "propertyAddress": "1234 E 500 S, Salt Lake City, UT 84102",
+  "taxYear": 2024,
+  "marketValue": 525300.00,
+  "assessedValue": 288915.00,
+  "taxAmount": 3412.67
+}`
+
+    case 'vehicleTitle':
+      return `You are extracting structured data from a VEHICLE CERTIFICATE OF TITLE.
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- ownerNames: Full name of each registered owner (array, empty if none)
+- vin: 17-character vehicle identification number (string or null)
+- year: Model year (number or null)
+- make: Vehicle make, e.g. "Honda" (string or null)
+- model: Vehicle model, e.g. "Accord" (string or null)
+- titleNumber: Title number (string or null)
+- issueDate: Date the title was issued in YYYY-MM-DD format (string or null)
+- lienholderName: First lienholder, or null if there is none (string or null)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "ownerNames": ["John Doe", "Jane Doe"],
+  "vin": "1HGCV1F34KA012345",
+  "year": 2019,
+  "make": "Honda",
+  "model": "Accord",
+  "titleNumber": "UT1234567",
+  "issueDate": "2021-06-04",
+  "lienholderName": "Ally Financial"
+}`
+
+    case 'autoLoanStatement':
+      return `You are extracting structured data from an AUTO LOAN STATEMENT.
+
+Extract the following fields from the OCR text below and return ONLY valid JSON:
+
+Required fields:
+- lenderName: Lender, e.g. "Toyota Financial Services" (string or null)
+- borrowerName: Borrower's full name (string or null)
+- accountNumberLast4: Last 4 digits of the account or contract number (string or null)
+- vin: 17-character vehicle identification number (string or null)
+- vehicleDescription: Year, make and model, e.g. "2021 Toyota RAV4" (string or null)
+- statementDate: Statement date in YYYY-MM-DD format (string or null)
+- principalBalance: Payoff amount or principal balance (number or null)
+- monthlyPayment: Regular monthly payment (number or null)
+- interestRate: Interest rate or APR as a percent, e.g. 4.9 (number or null)
+
+OCR Text:
+${truncatedText}
+
+Return JSON in this exact format (use null for missing fields):
+{
+  "lenderName": "Toyota Financial Services",
+  "borrowerName": "Jane Doe",
+  "accountNumberLast4": "6789",
+  "vin": "2T3P1RFV5MW123456",
+  "vehicleDescription": "2021 Toyota RAV4",
+  "statementDate": "2025-04-01",
+  "principalBalance": 18250.40,
+  "monthlyPayment": 452.19,
+  "interestRate": 4.9
+}`
+
     default:
       throw new Error(`Unsupported document type for Gemini extraction: ${documentType}`)
   }
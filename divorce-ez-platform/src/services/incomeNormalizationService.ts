@@ -0,0 +1,217 @@
+/**
+ * Income Normalization Service - Converts pay-period and statement-period amounts to monthly and annual figures
+ * Cross-checks the pay frequency against the period dates and the year-to-date total, and flags what doesn't agree
+ */
+
+import type { PayFrequency } from '../types'
+
+export const PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+  yearly: 1,
+}
+
+export interface IncomeNormalizationInput {
+  periodAmount: number | null // Gross amount for one pay period or statement period
+  payFrequency?: PayFrequency | null // As stated on the document
+  ytdAmount?: number | null
+  periodStart?: string | null
+  periodEnd?: string | null
+  payDate?: string | null // YTD totals run through the pay date when there is one
+}
+
+export type IncomeIssueCode =
+  | 'frequencyMismatch' // Stated frequency doesn't match the period dates
+  | 'frequencyAssumed' // No frequency or dates - monthly was assumed
+  | 'invalidPeriod' // Period ends before it starts
+  | 'ytdBelowPeriod' // YTD total smaller than a single period
+  | 'ytdMismatch' // Annualized YTD differs from the annualized period amount
+
+export interface IncomeIssue {
+  code: IncomeIssueCode
+  message: string
+}
+
+export interface NormalizedIncome {
+  monthly: number | null
+  annual: number | null
+  payFrequency: PayFrequency | null
+  frequencySource: 'dates' | 'document' | 'assumed' | null // null when the dates span an irregular period
+  ytdAnnualized: number | null
+  issues: IncomeIssue[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_YEAR = 365.25
+// Annualized YTD within this fraction of the period figure is consistent (bonuses and raises move it a little)
+const YTD_TOLERANCE = 0.15
+// Too early in the year for YTD to say much about the annual figure
+const MIN_YTD_DAYS = 45
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Parse YYYY-MM-DD or M/D/YY(YY) as a UTC date
+ */
+export function parseIncomeDate(value: string | null | undefined): Date | null {
+  if (!value) return null
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  const us = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/)
+  let date: Date | null = null
+  if (iso) {
+    date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+  } else if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3])
+    date = new Date(Date.UTC(year, Number(us[1]) - 1, Number(us[2])))
+  }
+  return date && !isNaN(date.getTime()) ? date : null
+}
+
+// Days covered by a period, counting both ends
+const daysInPeriod = (start: Date, end: Date) => Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1
+
+/**
+ * Pay frequency implied by one pay period's dates
+ * Semimonthly periods run from the 1st to the 15th, or from the 16th to the end of the month
+ */
+export function inferPayFrequency(start: Date, end: Date): PayFrequency | null {
+  const days = daysInPeriod(start, end)
+  if (days < 1) return null
+  if (days <= 7) return 'weekly'
+  const isMonthEnd = new Date(end.getTime() + DAY_MS).getUTCDate() === 1
+  if ((start.getUTCDate() === 1 && end.getUTCDate() === 15) || (start.getUTCDate() === 16 && isMonthEnd)) return 'semimonthly'
+  if (days <= 15) return 'biweekly'
+  if (days >= 28 && days <= 31) return 'monthly'
+  if (days >= 360 && days <= 366) return 'yearly'
+  return null
+}
+
+/**
+ * Amount per month for an amount paid at the given frequency
+ */
+export function toMonthlyAmount(amount: number, frequency: PayFrequency): number {
+  return round2((amount * PERIODS_PER_YEAR[frequency]) / 12)
+}
+
+/**
+ * Amount per year for an amount paid at the given frequency
+ */
+export function toAnnualAmount(amount: number, frequency: PayFrequency): number {
+  return round2(amount * PERIODS_PER_YEAR[frequency])
+}
+
+/**
+ * Year-to-date total projected over the whole year
+ */
+export function annualizeYtd(ytdAmount: number, throughDate: Date): number {
+  const yearStart = Date.UTC(throughDate.getUTCFullYear(), 0, 1)
+  const days = Math.round((throughDate.getTime() - yearStart) / DAY_MS) + 1
+  return round2((ytdAmount / days) * DAYS_PER_YEAR)
+}
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+/**
+ * Monthly and annual income from one period's amount
+ * Frequency comes from the period dates when they give one, then the document, then monthly is assumed.
+ * Dates spanning an irregular period (e.g. a quarter or a partial-year P&L) are prorated by day.
+ */
+export function normalizeIncome(input: IncomeNormalizationInput): NormalizedIncome {
+  const issues: IncomeIssue[] = []
+  const result: NormalizedIncome = {
+    monthly: null,
+    annual: null,
+    payFrequency: null,
+    frequencySource: null,
+    ytdAnnualized: null,
+    issues,
+  }
+  if (input.periodAmount == null || isNaN(Number(input.periodAmount))) return result
+  const amount = Number(input.periodAmount)
+
+  const start = parseIncomeDate(input.periodStart)
+  const end = parseIncomeDate(input.periodEnd)
+  const hasValidPeriod = !!start && !!end && end.getTime() >= start.getTime()
+  if (start && end && !hasValidPeriod) {
+    issues.push({ code: 'invalidPeriod', message: `Pay period ends (${input.periodEnd}) before it starts (${input.periodStart}).` })
+  }
+
+  const datedFrequency = hasValidPeriod ? inferPayFrequency(start, end) : null
+  const statedFrequency = input.payFrequency && PERIODS_PER_YEAR[input.payFrequency] ? input.payFrequency : null
+  if (datedFrequency && statedFrequency && datedFrequency !== statedFrequency) {
+    issues.push({
+      code: 'frequencyMismatch',
+      message: `The document says ${statedFrequency} pay, but the pay period dates look ${datedFrequency}.`,
+    })
+  }
+
+  if (datedFrequency || statedFrequency) {
+    result.payFrequency = (datedFrequency || statedFrequency) as PayFrequency
+    result.frequencySource = datedFrequency ? 'dates' : 'document'
+    result.monthly = toMonthlyAmount(amount, result.payFrequency)
+    result.annual = toAnnualAmount(amount, result.payFrequency)
+  } else if (hasValidPeriod) {
+    const days = daysInPeriod(start, end)
+    result.annual = round2((amount / days) * DAYS_PER_YEAR)
+    result.monthly = round2(result.annual / 12)
+  } else {
+    result.payFrequency = 'monthly'
+    result.frequencySource = 'assumed'
+    result.monthly = round2(amount)
+    result.annual = round2(amount * 12)
+    issues.push({ code: 'frequencyAssumed', message: 'No pay frequency or period dates found - the amount was treated as monthly.' })
+  }
+
+  if (input.ytdAmount != null && !isNaN(Number(input.ytdAmount))) {
+    const ytd = Number(input.ytdAmount)
+    if (ytd + 0.005 < amount) {
+      issues.push({
+        code: 'ytdBelowPeriod',
+        message: `Year-to-date gross (${formatAmount(ytd)}) is less than this period's gross (${formatAmount(amount)}).`,
+      })
+    }
+
+    const throughDate = parseIncomeDate(input.payDate) || end
+    if (throughDate && ytd > 0) {
+      const yearStart = Date.UTC(throughDate.getUTCFullYear(), 0, 1)
+      result.ytdAnnualized = annualizeYtd(ytd, throughDate)
+      const daysIntoYear = Math.round((throughDate.getTime() - yearStart) / DAY_MS) + 1
+      if (
+        daysIntoYear >= MIN_YTD_DAYS &&
+        result.annual &&
+        Math.abs(result.ytdAnnualized - result.annual) / result.annual > YTD_TOLERANCE
+      ) {
+        issues.push({
+          code: 'ytdMismatch',
+          message: `Year-to-date gross projects to ${formatAmount(result.ytdAnnualized)} a year, but this period projects to ${formatAmount(result.annual)}.`,
+        })
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Normalize the income on an extracted pay stub (regex or Gemini field names)
+ */
+export function normalizeExtractedIncome(extractedData: Record<string, any>): NormalizedIncome | null {
+  const pick = (...keys: string[]) => {
+    const key = keys.find((k) => extractedData[k] != null && extractedData[k] !== '')
+    return key ? extractedData[key] : null
+  }
+
+  const periodAmount = pick('grossIncomeCurrent', 'grossPay', 'gross_pay')
+  if (periodAmount == null) return null
+
+  return normalizeIncome({
+    periodAmount: Number(periodAmount),
+    payFrequency: pick('payFrequency', 'pay_frequency'),
+    ytdAmount: pick('grossIncomeYTD', 'grossPayYTD'),
+    periodStart: pick('payPeriodStart'),
+    periodEnd: pick('payPeriodEnd'),
+    payDate: pick('payDate'),
+  })
+}
@@ -0,0 +1,124 @@
+/**
+ * Joint Income Service - Splits a married-filing-jointly tax return into each spouse's income
+ * Uses the attached W-2s when their employee names match the spouses, otherwise a split the user entered
+ */
+
+import { matchesPersonName } from './documentOwnerService'
+import type { NormalizedFormData, IncomeSplitMethod } from '../types'
+
+export interface AttachedW2 {
+  employeeName: string | null
+  employerName: string | null
+  wages: number | null // Box 1
+}
+
+export interface SpouseIncomeShare {
+  wages: number
+  otherIncome: number // Share of income not on a matched W-2 (interest, dividends, business, rental, unmatched W-2s)
+  annualIncome: number
+  percentage: number // Share of the return's total income
+}
+
+export interface JointIncomeSplit {
+  method: IncomeSplitMethod
+  spouse1: SpouseIncomeShare
+  spouse2: SpouseIncomeShare
+  matchedW2Count: number
+  unmatchedW2Count: number
+}
+
+// User-entered split, stored on the tax return's extracted data so re-aggregation reuses it
+export interface ManualIncomeSplit {
+  spouse1Percentage: number
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+const toNumber = (value: any): number | null => (value != null && value !== '' && !isNaN(Number(value)) ? Number(value) : null)
+
+export function isJointReturn(extractedData: Record<string, any>): boolean {
+  return (extractedData.filingStatus || extractedData.filing_status) === 'married_joint'
+}
+
+/**
+ * W-2s attached to the return (regex and Gemini both use `w2s`)
+ */
+export function getAttachedW2s(extractedData: Record<string, any>): AttachedW2[] {
+  if (!Array.isArray(extractedData.w2s)) return []
+  return extractedData.w2s
+    .map((w2: any) => ({
+      employeeName: w2?.employeeName || null,
+      employerName: w2?.employerName || null,
+      wages: toNumber(w2?.wages),
+    }))
+    .filter((w2: AttachedW2) => w2.wages !== null)
+}
+
+/**
+ * The return's total income - total income line, then AGI, then wages
+ */
+export function getJointTotalIncome(extractedData: Record<string, any>): number | null {
+  return (
+    toNumber(extractedData.totalIncome) ??
+    toNumber(extractedData.adjustedGrossIncome) ??
+    toNumber(extractedData.annualIncome) ??
+    toNumber(extractedData.wageIncome ?? extractedData.wages)
+  )
+}
+
+const share = (wages: number, otherIncome: number, total: number): SpouseIncomeShare => ({
+  wages: round2(wages),
+  otherIncome: round2(otherIncome),
+  annualIncome: round2(wages + otherIncome),
+  percentage: total > 0 ? round2(((wages + otherIncome) / total) * 100) : 0,
+})
+
+/**
+ * Each spouse's share of a joint return
+ * A user-entered split applies to all income. With matched W-2s each spouse keeps their own wages and
+ * the rest (joint interest, dividends, schedule income, unmatched W-2s) is split equally.
+ * Returns null for other filing statuses, or a joint return with neither a split nor a matching W-2.
+ */
+export function splitJointReturn(
+  extractedData: Record<string, any>,
+  formData: Pick<NormalizedFormData, 'personal_info' | 'spouse_info'>
+): JointIncomeSplit | null {
+  if (!isJointReturn(extractedData)) return null
+  const total = getJointTotalIncome(extractedData)
+  if (total === null) return null
+
+  const w2s = getAttachedW2s(extractedData)
+  const manual = toNumber((extractedData.incomeSplit as ManualIncomeSplit | undefined)?.spouse1Percentage)
+  if (manual !== null) {
+    const spouse1Fraction = Math.min(Math.max(manual, 0), 100) / 100
+    const wages = toNumber(extractedData.wageIncome ?? extractedData.wages) ?? 0
+    const other = Math.max(total - wages, 0)
+    return {
+      method: 'manual',
+      spouse1: share(wages * spouse1Fraction, other * spouse1Fraction, total),
+      spouse2: share(wages * (1 - spouse1Fraction), other * (1 - spouse1Fraction), total),
+      matchedW2Count: 0,
+      unmatchedW2Count: w2s.length,
+    }
+  }
+
+  const wagesBySpouse = { 1: 0, 2: 0 }
+  let matchedW2Count = 0
+  w2s.forEach((w2) => {
+    if (!w2.employeeName) return
+    const isSpouse1 = matchesPersonName(w2.employeeName, formData.personal_info)
+    const isSpouse2 = matchesPersonName(w2.employeeName, formData.spouse_info)
+    if (isSpouse1 === isSpouse2) return
+    wagesBySpouse[isSpouse1 ? 1 : 2] += w2.wages as number
+    matchedW2Count++
+  })
+  if (matchedW2Count === 0) return null
+
+  const other = Math.max(total - wagesBySpouse[1] - wagesBySpouse[2], 0)
+  return {
+    method: 'w2',
+    spouse1: share(wagesBySpouse[1], other / 2, total),
+    spouse2: share(wagesBySpouse[2], other / 2, total),
+    matchedW2Count,
+    unmatchedW2Count: w2s.length - matchedW2Count,
+  }
+}
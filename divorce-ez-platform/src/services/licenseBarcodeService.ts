@@ -0,0 +1,199 @@
+/**
+ * License Barcode Service - Reads the PDF417 barcode on the back of a driver's license or state ID
+ * Decodes in the browser with the Barcode Detection API where it supports PDF417, otherwise with ZXing (WebAssembly),
+ * and maps the AAMVA elements to the extracted-data fields
+ */
+
+import { prepareZXingModule, readBarcodes } from 'zxing-wasm/reader'
+import zxingReaderWasmUrl from 'zxing-wasm/reader/zxing_reader.wasm?url'
+import { logger } from '../utils/logger'
+
+// Serve the ZXing binary from the app bundle rather than its default CDN - loaded on first use
+prepareZXingModule({
+  overrides: {
+    locateFile: (path: string, prefix: string) => (path.endsWith('.wasm') ? zxingReaderWasmUrl : prefix + path),
+  },
+})
+
+// Barcode Detection API - not yet in the TypeScript DOM library
+interface DetectedBarcode {
+  format: string
+  rawValue: string
+}
+
+interface BarcodeDetectorInstance {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance
+  getSupportedFormats(): Promise<string[]>
+}
+
+// AAMVA element IDs read from the barcode
+const AAMVA_ELEMENTS = {
+  firstName: 'DAC',
+  middleName: 'DAD',
+  lastName: 'DCS',
+  givenNames: 'DCT', // Pre-2009 cards: first and middle names together
+  fullName: 'DAA', // Pre-2009 cards: "LAST,FIRST,MIDDLE"
+  dateOfBirth: 'DBB',
+  licenseNumber: 'DAQ',
+  street: 'DAG',
+  city: 'DAI',
+  state: 'DAJ',
+  zipCode: 'DAK',
+} as const
+
+const EMPTY_VALUES = ['NONE', 'UNAVL', 'UNAVAIL']
+
+// noImage: only PDFs were given; unreadable: no image held a readable AAMVA barcode
+export type LicenseBarcodeStatus = 'decoded' | 'noImage' | 'unreadable'
+
+export interface LicenseBarcodeResult {
+  status: LicenseBarcodeStatus
+  data: Record<string, any> | null
+}
+
+const toTitleCase = (value: string): string => value.toLowerCase().replace(/\b([a-z])/g, (letter) => letter.toUpperCase())
+
+/**
+ * Element ID to value, from the barcode's data lines (the first element shares a line with the header)
+ */
+function readAamvaElements(raw: string): Record<string, string> {
+  const elements: Record<string, string> = {}
+  raw.split(/[\n\r\x1e]+/).forEach((line) => {
+    const match = line.match(/^(D[A-Z]{2})(.*)$/) || line.match(/(?:DL|ID)(D[A-Z]{2})(.*)$/)
+    if (!match) return
+    const value = match[2].trim()
+    if (value && !EMPTY_VALUES.includes(value.toUpperCase()) && !(match[1] in elements)) {
+      elements[match[1]] = value
+    }
+  })
+  return elements
+}
+
+/**
+ * AAMVA date to YYYY-MM-DD - US cards use MMDDCCYY, Canadian cards CCYYMMDD
+ */
+function parseAamvaDate(value: string): string | null {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length !== 8) return null
+  const yearFirst = /^(19|20)\d{2}(0[1-9]|1[0-2])/.test(digits)
+  const [year, month, day] = yearFirst
+    ? [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)]
+    : [digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4)]
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`)
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Map AAMVA barcode data to the fields migrateFromExtractedData reads for a driver's license
+ * Returns null when the text is not AAMVA data or holds no usable element
+ */
+export function parseAamvaData(raw: string): Record<string, any> | null {
+  if (!/ANSI\s|AAMVA/.test(raw)) return null
+  const elements = readAamvaElements(raw)
+  const data: Record<string, any> = {}
+
+  let firstName: string | undefined = elements[AAMVA_ELEMENTS.firstName]
+  let middleName: string | undefined = elements[AAMVA_ELEMENTS.middleName]
+  let lastName: string | undefined = elements[AAMVA_ELEMENTS.lastName]
+  if (!firstName && elements[AAMVA_ELEMENTS.givenNames]) {
+    const given = elements[AAMVA_ELEMENTS.givenNames].split(/[,\s]+/).filter(Boolean)
+    firstName = given[0]
+    middleName = middleName || given.slice(1).join(' ') || undefined
+  }
+  if ((!firstName || !lastName) && elements[AAMVA_ELEMENTS.fullName]) {
+    const parts = elements[AAMVA_ELEMENTS.fullName].split(',').map((part) => part.trim())
+    lastName = lastName || parts[0]
+    firstName = firstName || parts[1]
+    middleName = middleName || parts.slice(2).join(' ') || undefined
+  }
+  if (firstName) data.firstName = toTitleCase(firstName)
+  if (middleName) data.middleName = toTitleCase(middleName)
+  if (lastName) data.lastName = toTitleCase(lastName)
+  if (firstName || lastName) {
+    data.name = [data.firstName, data.middleName, data.lastName].filter(Boolean).join(' ')
+  }
+
+  const dateOfBirth = elements[AAMVA_ELEMENTS.dateOfBirth] ? parseAamvaDate(elements[AAMVA_ELEMENTS.dateOfBirth]) : null
+  if (dateOfBirth) data.dateOfBirth = dateOfBirth
+
+  if (elements[AAMVA_ELEMENTS.licenseNumber]) {
+    data.driverLicenseNumber = elements[AAMVA_ELEMENTS.licenseNumber]
+  }
+
+  const address: Record<string, string> = {}
+  if (elements[AAMVA_ELEMENTS.street]) address.street = toTitleCase(elements[AAMVA_ELEMENTS.street])
+  if (elements[AAMVA_ELEMENTS.city]) address.city = toTitleCase(elements[AAMVA_ELEMENTS.city])
+  if (elements[AAMVA_ELEMENTS.state]) address.state = elements[AAMVA_ELEMENTS.state].toUpperCase()
+  // ZIP is padded to 9 digits ("841010000") - keep the 5-digit code
+  const zipMatch = elements[AAMVA_ELEMENTS.zipCode]?.match(/^(\d{5})/)
+  if (zipMatch) address.zipCode = zipMatch[1]
+  if (Object.keys(address).length > 0) data.address = address
+  // The issuing state is the card's address state on US licenses
+  if (address.state) data.licenseState = address.state
+
+  return Object.keys(data).length > 0 ? data : null
+}
+
+/**
+ * The browser's PDF417 detector, or null when the Barcode Detection API is missing or can't read PDF417
+ */
+async function getNativeDetector(): Promise<BarcodeDetectorInstance | null> {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+  if (!Detector || typeof createImageBitmap === 'undefined') return null
+  try {
+    const formats = await Detector.getSupportedFormats()
+    return formats.includes('pdf417') ? new Detector({ formats: ['pdf417'] }) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Raw text of the PDF417 barcodes in an image - native detector first, ZXing when it finds none
+ */
+async function readPdf417(image: File, detector: BarcodeDetectorInstance | null): Promise<string[]> {
+  if (detector) {
+    const bitmap = await createImageBitmap(image)
+    try {
+      const barcodes = await detector.detect(bitmap)
+      if (barcodes.length > 0) return barcodes.map((barcode) => barcode.rawValue)
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  const results = await readBarcodes(image, { formats: ['PDF417'], tryHarder: true, maxNumberOfSymbols: 1 })
+  return results.filter((result) => result.isValid).map((result) => result.text)
+}
+
+/**
+ * Decode the license barcode from the uploaded images (front and back may both be given)
+ * Without data the status says why, so the user can be told to check the OCR fields or retake the photo
+ */
+export async function decodeLicenseBarcode(files: File[]): Promise<LicenseBarcodeResult> {
+  const images = files.filter((file) => file.type.startsWith('image/'))
+  if (images.length === 0) return { status: 'noImage', data: null }
+
+  const detector = await getNativeDetector()
+  if (!detector) logger.debug('PDF417 barcodes are not supported by this browser, decoding with ZXing')
+
+  for (const image of images) {
+    try {
+      for (const rawValue of await readPdf417(image, detector)) {
+        const data = parseAamvaData(rawValue)
+        if (data) {
+          logger.debug('Decoded license barcode', { fileName: image.name, fields: Object.keys(data) })
+          return { status: 'decoded', data }
+        }
+      }
+    } catch (error: any) {
+      logger.warn('License barcode decoding failed, using OCR results', { fileName: image.name, error: error.message })
+    }
+  }
+  return { status: 'unreadable', data: null }
+}
@@ -0,0 +1,818 @@
+/**
+ * MyCase Field Map - Declares which NormalizedFormData value answers each MyCase interview question
+ * Built into lib/mycase-field-map.js (npm run build:extension) for the extension's content script,
+ * so this module must stay free of runtime imports
+ */
+
+import type {
+  NormalizedFormData,
+  ChildSupportCalculationRow,
+  IncomeRow,
+  ExpenseRow,
+  FieldProvenanceRow,
+  FieldLockRow,
+} from '../types'
+
+type SpouseNumber = 1 | 2
+
+// Normalized rows as synced to the extension (plus the saved child support worksheet)
+export interface MyCaseFillData extends NormalizedFormData {
+  child_support: ChildSupportCalculationRow | null
+  field_provenance?: FieldProvenanceRow[]
+  field_locks?: FieldLockRow[]
+}
+
+// Lower-cased identifiers the content script collects for an input (see getMyCaseFieldInfo)
+export interface MyCaseFieldInfo {
+  name?: string
+  label?: string
+  placeholder?: string
+  ariaLabel?: string
+  dataTestId?: string
+  dataName?: string
+  title?: string
+  parentText?: string
+  type?: string
+}
+
+export type MyCaseFieldFormat = 'text' | 'date' | 'currency' | 'phone' | 'ssnLast4' | 'yesNo' | 'number'
+
+// Normalized column a question reads, keyed the way provenance and locks are
+export interface MyCaseValueSource {
+  table: string
+  column: string
+  spouseNumber: SpouseNumber
+}
+
+export interface MyCaseQuestion {
+  id: string
+  match: RegExp[] // Every pattern must match the question text
+  exclude?: RegExp // Skip the question when this matches
+  perSpouse?: boolean // Questions about the respondent / other parent read spouse 2's values
+  source?: (spouse: SpouseNumber) => MyCaseValueSource // Omitted for totals and other derived values
+  format: MyCaseFieldFormat
+  value: (data: MyCaseFillData, spouse: SpouseNumber, text: string) => any
+}
+
+export interface MyCaseFieldResolution {
+  questionId: string
+  spouse: SpouseNumber
+  value: string | number | null
+  source: MyCaseValueSource | null
+  sourceLabel: string // e.g. "2023 tax return (AI extraction)" or "Edited by you"
+  confidence: number // 0-1, how sure we are the value belongs in this field
+}
+
+// Words in labels that never help tell questions apart
+const FILLER_WORDS = /\b(enter|please|required|optional|field|input|text|box)\b/gi
+const RESPONDENT = /\b(respondent|spouse|spouse's|other\s*(party|parent)|parent\s*2|partner)\b/i
+const PETITIONER = /\b(petitioner|parent\s*1)\b/i
+const CHILD_SUPPORT = /\b(support|obligation|worksheet|overnights?|combined)\b/i
+const CHILD = /\b(child|children|dependents?|minor|kids)\b/i
+
+const FILING_STATUS_LABELS: Record<string, string> = {
+  single: 'Single',
+  married_joint: 'Married Filing Jointly',
+  married_separate: 'Married Filing Separately',
+  head_of_household: 'Head of Household',
+}
+
+const WORKSHEET_TABLE = 'child_support_calculations'
+
+// How well the question matched: on the input's own label, only on its name / id, or only on surrounding text
+const LABEL_CONFIDENCE = 0.9
+const ATTRIBUTE_CONFIDENCE = 0.8
+const CONTEXT_CONFIDENCE = 0.6
+
+// Single-row tables are keyed as spouse 1; "{spouse}" in a column name is replaced with the spouse number
+const rowSource = (table: string, column: string) => (spouse: SpouseNumber): MyCaseValueSource => ({
+  table,
+  column: column.replace('{spouse}', String(spouse)),
+  spouseNumber: 1,
+})
+const spouseRowSource = (table: string, column: string) => (spouse: SpouseNumber): MyCaseValueSource => ({
+  table,
+  column,
+  spouseNumber: spouse,
+})
+// The respondent's details live in spouse_info, recorded as spouse 2
+const personSource = (column: string) => (spouse: SpouseNumber): MyCaseValueSource =>
+  spouse === 1
+    ? { table: 'personal_info', column, spouseNumber: 1 }
+    : { table: 'spouse_info', column, spouseNumber: 2 }
+
+// Worksheets calculated from the estimated schedule are never autofilled (see utahChildSupportSchedule.json)
+const worksheetFor = (data: MyCaseFillData) => (data.child_support?.schedule_official ? data.child_support : null)
+const personFor = (data: MyCaseFillData, spouse: SpouseNumber) => (spouse === 1 ? data.personal_info : data.spouse_info)
+const incomeFor = (data: MyCaseFillData, spouse: SpouseNumber): Partial<IncomeRow> =>
+  data.income.find((row) => row.spouse_number === spouse) || {}
+const expensesFor = (data: MyCaseFillData, spouse: SpouseNumber): Partial<ExpenseRow> =>
+  data.expenses.find((row) => row.spouse_number === spouse) || {}
+const sum = (values: Array<number | null>) => {
+  const total = values.reduce<number>((acc, value) => acc + (value || 0), 0)
+  return total > 0 ? total : null
+}
+
+// "Child 2 name" / "second child" pick a child by position
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth']
+const childFor = (data: MyCaseFillData, text: string) => {
+  const numbered = text.match(/\b(?:child|dependent)\s*#?\s*(\d+)\b/i)
+  const ordinal = ORDINALS.findIndex((word) => new RegExp(`\\b${word}\\s+(child|dependent)\\b`, 'i').test(text))
+  const index = numbered ? parseInt(numbered[1], 10) - 1 : Math.max(ordinal, 0)
+  return data.children[index] || null
+}
+
+/**
+ * MyCase interview questions in match order - more specific questions come first
+ */
+export const MYCASE_QUESTIONS: MyCaseQuestion[] = [
+  // Child support worksheet - before names, children and income, since its labels mention all three
+  {
+    id: 'childSupport.baseCombinedObligation',
+    match: [CHILD_SUPPORT, /\bbase\b/i, /\bobligation\b/i],
+    source: rowSource(WORKSHEET_TABLE, 'base_combined_obligation'),
+    format: 'currency',
+    value: (data) => worksheetFor(data)?.base_combined_obligation,
+  },
+  {
+    id: 'childSupport.combinedMonthlyIncome',
+    match: [CHILD_SUPPORT, /\bcombined\b/i, /\bincome\b/i],
+    source: rowSource(WORKSHEET_TABLE, 'combined_monthly_income'),
+    format: 'currency',
+    value: (data) => worksheetFor(data)?.combined_monthly_income,
+  },
+  {
+    id: 'childSupport.incomePercentage',
+    match: [CHILD_SUPPORT, /\bpercent(age)?\b|%/i],
+    perSpouse: true,
+    source: rowSource(WORKSHEET_TABLE, 'spouse{spouse}_income_percentage'),
+    format: 'number',
+    value: (data, spouse) => worksheetFor(data)?.[`spouse${spouse}_income_percentage`],
+  },
+  {
+    id: 'childSupport.overnights',
+    match: [CHILD_SUPPORT, /\bovernights?\b/i],
+    perSpouse: true,
+    source: rowSource(WORKSHEET_TABLE, 'spouse{spouse}_annual_overnights'),
+    format: 'number',
+    value: (data, spouse) => worksheetFor(data)?.[`spouse${spouse}_annual_overnights`],
+  },
+  {
+    id: 'childSupport.share',
+    match: [CHILD_SUPPORT, /\bshare\b/i],
+    perSpouse: true,
+    source: rowSource(WORKSHEET_TABLE, 'spouse{spouse}_share'),
+    format: 'currency',
+    value: (data, spouse) => worksheetFor(data)?.[`spouse${spouse}_share`],
+  },
+  {
+    id: 'childSupport.monthlyIncome',
+    match: [CHILD_SUPPORT, /\b(gross|monthly)\b/i, /\bincome\b/i],
+    perSpouse: true,
+    source: rowSource(WORKSHEET_TABLE, 'spouse{spouse}_monthly_income'),
+    format: 'currency',
+    value: (data, spouse) => worksheetFor(data)?.[`spouse${spouse}_monthly_income`],
+  },
+  {
+    id: 'childSupport.obligation',
+    match: [CHILD_SUPPORT, /\bobligation\b/i],
+    perSpouse: true,
+    source: rowSource(WORKSHEET_TABLE, 'spouse{spouse}_obligation'),
+    format: 'currency',
+    value: (data, spouse) => worksheetFor(data)?.[`spouse${spouse}_obligation`],
+  },
+  {
+    id: 'childSupport.monthlySupportAmount',
+    match: [/\bchild\s*support\b/i, /\b(amount|monthly|total|pay|payment)\b/i],
+    source: rowSource(WORKSHEET_TABLE, 'monthly_support_amount'),
+    format: 'currency',
+    value: (data) => worksheetFor(data)?.monthly_support_amount,
+  },
+
+  // Children
+  {
+    id: 'children.count',
+    match: [CHILD, /\b(how\s*many|number\s*of|count)\b/i],
+    format: 'number',
+    value: (data) => data.children.length || worksheetFor(data)?.number_of_children,
+  },
+  {
+    id: 'children.hasMinorChildren',
+    match: [/\b(do|does|are\s*there|have|has)\b/i, /\bminor\s*children\b|\bchildren\b/i],
+    exclude: /\b(name|birth|dob)\b/i,
+    format: 'yesNo',
+    value: (data) => data.court_info?.has_minor_children ?? (data.children.length > 0 ? true : null),
+  },
+  {
+    id: 'children.name',
+    match: [CHILD, /\bname\b/i],
+    source: rowSource('children', 'full_name'),
+    format: 'text',
+    value: (data, _spouse, text) => childFor(data, text)?.full_name,
+  },
+  {
+    id: 'children.dateOfBirth',
+    match: [CHILD, /\b(dob|birth|birthdate|birthday|born)\b/i],
+    source: rowSource('children', 'date_of_birth'),
+    format: 'date',
+    value: (data, _spouse, text) => childFor(data, text)?.date_of_birth,
+  },
+  {
+    id: 'children.names',
+    match: [/\b(children|dependents)\b/i],
+    exclude: /\b(custody|parent[- ]?time|overnights?|support)\b/i,
+    format: 'text',
+    value: (data) => data.children.map((child) => child.full_name).filter(Boolean).join(', '),
+  },
+
+  // Marriage - before addresses, so "city/state of marriage" doesn't read the home address
+  {
+    id: 'marriage.nameAtMarriage',
+    match: [/\bname\b/i, /\b(at\s*(the\s*)?(time\s*of\s*)?(the\s*)?marriage|before\s*(the\s*)?marriage|maiden|prior\s*name)\b/i],
+    perSpouse: true,
+    source: rowSource('marriage_info', 'spouse{spouse}_name_at_marriage'),
+    format: 'text',
+    value: (data, spouse) => data.marriage_info?.[`spouse${spouse}_name_at_marriage`],
+  },
+  {
+    id: 'marriage.date',
+    match: [/\b(marriage|married)\b/i, /\b(date|when)\b/i],
+    source: rowSource('marriage_info', 'marriage_date'),
+    format: 'date',
+    value: (data) => data.marriage_info?.marriage_date,
+  },
+  {
+    id: 'marriage.place',
+    match: [/\b(marriage|married)\b/i, /\b(place|location|where|city|county|state)\b/i],
+    source: rowSource('marriage_info', 'marriage_place'),
+    format: 'text',
+    value: (data) => data.marriage_info?.marriage_place,
+  },
+  {
+    id: 'marriage.dateOfSeparation',
+    match: [/\bseparat(e|ed|ion)\b/i, /\b(date|when)\b/i],
+    source: rowSource('marriage_info', 'date_of_separation'),
+    format: 'date',
+    value: (data) => data.marriage_info?.date_of_separation,
+  },
+
+  // Names
+  {
+    id: 'person.firstName',
+    match: [/\b(first|given)\s*name\b|\b(fname|firstname|first_name)\b/i],
+    perSpouse: true,
+    source: personSource('first_name'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.first_name,
+  },
+  {
+    id: 'person.middleName',
+    match: [/\bmiddle\s*name\b|\b(mname|middlename|middle_name|middle\s*initial)\b/i],
+    perSpouse: true,
+    source: personSource('middle_name'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.middle_name,
+  },
+  {
+    id: 'person.lastName',
+    match: [/\b(last|family)\s*name\b|\b(lname|lastname|last_name|surname)\b/i],
+    perSpouse: true,
+    source: personSource('last_name'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.last_name,
+  },
+  {
+    id: 'person.fullName',
+    match: [/\b(full\s*name|fullname|full_name|legal\s*name|name)\b/i],
+    exclude: /\b(first|last|middle|maiden|given|surname|employer|company|bank|business|court|judge)\b/i,
+    perSpouse: true,
+    format: 'text',
+    value: (data, spouse) => {
+      const person = personFor(data, spouse)
+      return person ? [person.first_name, person.middle_name, person.last_name].filter(Boolean).join(' ') : null
+    },
+  },
+  {
+    id: 'person.dateOfBirth',
+    match: [/\b(dob|date\s*of\s*birth|dateofbirth|date_of_birth|birth\s*date|birthdate|birthday|born)\b/i],
+    perSpouse: true,
+    source: personSource('date_of_birth'),
+    format: 'date',
+    value: (data, spouse) => personFor(data, spouse)?.date_of_birth,
+  },
+
+  // Identification and contact
+  {
+    id: 'person.ssnLast4',
+    match: [/\b(ssn|social\s*security|socialsecurity|social_security|ss\s*#)/i],
+    perSpouse: true,
+    source: personSource('ssn_last_4'),
+    format: 'ssnLast4',
+    value: (data, spouse) => personFor(data, spouse)?.ssn_last_4,
+  },
+  {
+    id: 'person.driverLicenseState',
+    match: [/\b(driver'?s?\s*license|license|dl)\b/i, /\b(state|st|issued)\b/i],
+    exclude: /\b(marriage|business|professional)\b/i,
+    perSpouse: true,
+    source: personSource('driver_license_state'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.driver_license_state,
+  },
+  {
+    id: 'person.driverLicenseNumber',
+    match: [/\b(driver'?s?\s*license|driverslicense|drivers_license|license|dl)\b/i],
+    exclude: /\b(marriage|business|professional)\b/i,
+    perSpouse: true,
+    source: personSource('driver_license_number'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.driver_license_number,
+  },
+  {
+    id: 'person.phone',
+    match: [/\b(phone|telephone|mobile|cell|cellphone|phonenumber|phone_number)\b/i],
+    perSpouse: true,
+    source: personSource('phone'),
+    format: 'phone',
+    value: (data, spouse) => personFor(data, spouse)?.phone,
+  },
+  {
+    id: 'person.email',
+    match: [/\b(email|e-mail|e_mail|emailaddress|email_address)\b/i],
+    perSpouse: true,
+    source: personSource('email'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.email,
+  },
+
+  // Address
+  {
+    id: 'person.addressStreet',
+    match: [/\b(street|address|addr|streetaddress|street_address|line\s*1|line1)\b/i],
+    exclude: /\b(city|state|zip|postal|email)\b/i,
+    perSpouse: true,
+    source: personSource('address_street'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.address_street,
+  },
+  {
+    id: 'person.addressCity',
+    match: [/\b(city|town)\b/i],
+    exclude: /\b(state|zip|postal|street)\b/i,
+    perSpouse: true,
+    source: personSource('address_city'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.address_city,
+  },
+  {
+    id: 'person.addressState',
+    match: [/\b(state|st)\b/i],
+    exclude: /\b(zip|postal|city|street|filing|status)\b/i,
+    perSpouse: true,
+    source: personSource('address_state'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.address_state,
+  },
+  {
+    id: 'person.addressZipCode',
+    match: [/\b(zip|postal|zipcode|zip_code|postalcode|postal_code)\b/i],
+    perSpouse: true,
+    source: personSource('address_zip_code'),
+    format: 'text',
+    value: (data, spouse) => personFor(data, spouse)?.address_zip_code,
+  },
+
+  // Court
+  {
+    id: 'court.utahResidencyYears',
+    match: [/\butah\b/i, /\b(resident|residency|resided|lived|live)\b/i],
+    source: rowSource('personal_info', 'utah_residency_years'),
+    format: 'number',
+    value: (data) => data.personal_info?.utah_residency_years,
+  },
+  {
+    id: 'court.county',
+    match: [/\bcounty\b/i],
+    source: rowSource('court_info', 'county'),
+    format: 'text',
+    value: (data) => data.court_info?.county,
+  },
+  {
+    id: 'court.hasDomesticViolence',
+    match: [/\b(domestic\s*violence|protective\s*order|abuse)\b/i],
+    source: rowSource('court_info', 'has_domestic_violence'),
+    format: 'yesNo',
+    value: (data) => data.court_info?.has_domestic_violence,
+  },
+  {
+    id: 'court.hasPriorOrders',
+    match: [/\b(prior|previous|existing|other)\b/i, /\b(orders?|cases?)\b/i],
+    source: rowSource('court_info', 'has_prior_orders'),
+    format: 'yesNo',
+    value: (data) => data.court_info?.has_prior_orders,
+  },
+  {
+    id: 'person.filingStatus',
+    match: [/\b(filing|tax)\b/i, /\bstatus\b/i],
+    source: rowSource('personal_info', 'filing_status'),
+    format: 'text',
+    value: (data) => {
+      const status = data.personal_info?.filing_status
+      return status ? FILING_STATUS_LABELS[status] : null
+    },
+  },
+
+  // Income
+  {
+    id: 'income.grossMonthly',
+    match: [/\b(monthly|per\s*month|month)\b/i, /\b(income|earnings|pay|wages?|salary)\b/i],
+    exclude: /\bnet\b/i,
+    perSpouse: true,
+    source: spouseRowSource('income', 'gross_monthly_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).gross_monthly_income,
+  },
+  {
+    id: 'income.grossAnnual',
+    match: [/\b(annual|yearly|per\s*year|year)\b/i, /\b(income|earnings|pay|wages?|salary)\b/i],
+    exclude: /\bnet\b/i,
+    perSpouse: true,
+    source: spouseRowSource('income', 'gross_annual_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).gross_annual_income,
+  },
+  {
+    id: 'income.adjustedGross',
+    match: [/\b(adjusted\s*gross|agi|adjustedgross|adjusted_gross|line\s*11)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'adjusted_gross_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).adjusted_gross_income ?? incomeFor(data, spouse).gross_annual_income,
+  },
+  {
+    id: 'income.total',
+    match: [/\b(total\s*income|line\s*9)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'total_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).total_income ?? incomeFor(data, spouse).gross_annual_income,
+  },
+  {
+    id: 'income.selfEmployment',
+    match: [/\b(self|self[- ]?employment|self[- ]?employed|business)\b/i, /\b(income|earnings|pay)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'self_employment_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).self_employment_income,
+  },
+  {
+    id: 'income.investment',
+    match: [/\b(investment|interest|dividends?)\b/i, /\b(income|earnings)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'investment_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).investment_income,
+  },
+  {
+    id: 'income.rental',
+    match: [/\b(rental|rent)\b/i, /\b(income|earnings)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'rental_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).rental_income,
+  },
+  {
+    id: 'income.overtime',
+    match: [/\b(overtime|ot)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'overtime'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).overtime,
+  },
+  {
+    id: 'income.bonuses',
+    match: [/\b(bonus|bonuses|commissions?)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('income', 'bonuses'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).bonuses,
+  },
+  {
+    id: 'income.wages',
+    match: [/\b(wages?|salary|salaried|employment)\b/i],
+    exclude: /\b(self|business|investment|rental)\b/i,
+    perSpouse: true,
+    source: spouseRowSource('income', 'wage_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).wage_income,
+  },
+  {
+    id: 'income.gross',
+    match: [/\b(income|earnings|gross\s*pay|grosspay)\b/i],
+    exclude: /\bnet\b/i,
+    perSpouse: true,
+    source: spouseRowSource('income', 'gross_annual_income'),
+    format: 'currency',
+    value: (data, spouse) => incomeFor(data, spouse).gross_annual_income ?? incomeFor(data, spouse).gross_monthly_income,
+  },
+  {
+    id: 'employers.name',
+    match: [/\b(employers?|company|work|employer_name|company_name|employername|companyname)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('employers', 'employer_name'),
+    format: 'text',
+    value: (data, spouse, text) => {
+      const names = data.employers.filter((e) => e.spouse_number === spouse).map((e) => e.employer_name).filter(Boolean)
+      return /\b(all|list|employers)\b/i.test(text) ? names.join(', ') : names[0]
+    },
+  },
+
+  // Monthly expenses
+  {
+    id: 'expenses.healthInsurance',
+    match: [/\b(health|medical|dental)\b/i, /\b(insurance|premiums?)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_health_insurance'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_health_insurance,
+  },
+  {
+    id: 'expenses.insurancePremiums',
+    match: [/\b(insurance|premiums?)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_insurance_premiums'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_insurance_premiums,
+  },
+  {
+    id: 'expenses.childcare',
+    match: [/\b(childcare|daycare|child\s*care|day\s*care)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_childcare_cost'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_childcare_cost,
+  },
+  {
+    id: 'expenses.housing',
+    match: [/\b(housing|rent|mortgage)\b/i],
+    exclude: /\b(income|balance|owed)\b/i,
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_housing_cost'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_housing_cost,
+  },
+  {
+    id: 'expenses.utilities',
+    match: [/\b(utilities|utility|electric|electricity|water|power)\b/i],
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_utilities'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_utilities,
+  },
+  {
+    id: 'expenses.transportation',
+    match: [/\b(transportation|car|vehicle|gas|gasoline|auto)\b/i],
+    exclude: /\b(value|worth|loan|balance)\b/i,
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_transportation'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_transportation,
+  },
+  {
+    id: 'expenses.payrollDeductions',
+    match: [/\b(payroll|paycheck)\b/i, /\bdeductions?\b/i],
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_payroll_deductions'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_payroll_deductions,
+  },
+  {
+    id: 'expenses.debtPayments',
+    match: [/\b(debts?|loans?|credit\s*cards?)\b/i, /\b(payments?|monthly)\b/i],
+    exclude: /\b(income|asset)\b/i,
+    perSpouse: true,
+    source: spouseRowSource('expenses', 'monthly_debt_payments'),
+    format: 'currency',
+    value: (data, spouse) => expensesFor(data, spouse).monthly_debt_payments,
+  },
+
+  // Marital property totals
+  {
+    id: 'assets.bankAccountsTotal',
+    match: [/\b(bank|checking|savings|bankaccount|bank_account|account\s*balance)\b/i],
+    format: 'currency',
+    value: (data) => sum(data.assets.filter((a) => a.asset_type === 'bank_account').map((a) => a.approximate_value)),
+  },
+  {
+    id: 'debts.total',
+    match: [/\b(debts?|liability|liabilities|debtamount|debt_amount)\b/i],
+    exclude: /\b(income|asset)\b/i,
+    format: 'currency',
+    value: (data) => sum(data.debts.map((d) => d.approximate_balance)),
+  },
+  {
+    id: 'assets.total',
+    match: [/\b(assets?|assetvalue|asset_value)\b/i],
+    format: 'currency',
+    value: (data) => sum(data.assets.map((a) => a.approximate_value)),
+  },
+]
+
+type MyCaseInput = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+
+/**
+ * Text of the label for a page input - a label pointing at its id, a label around it or a label before it
+ */
+export function getMyCaseFieldLabel(input: MyCaseInput): string {
+  if (input.id) {
+    const label = input.ownerDocument.querySelector(`label[for="${input.id}"]`)
+    if (label) return label.textContent || ''
+  }
+
+  const parentLabel = input.closest('label')
+  if (parentLabel) return parentLabel.textContent || ''
+
+  let previous = input.previousElementSibling
+  while (previous) {
+    if (previous.tagName === 'LABEL') return previous.textContent || ''
+    previous = previous.previousElementSibling
+  }
+
+  return ''
+}
+
+// Whether an element also holds other questions' inputs (a radio group's options count as one question)
+const holdsOtherFields = (element: Element, input: MyCaseInput) =>
+  Array.from(element.querySelectorAll('input, select, textarea')).some(
+    (field) => field !== input && !(input.type === 'radio' && (field as HTMLInputElement).name === input.name)
+  )
+
+/**
+ * Labels, loose text and aria-labels up to 3 levels above an input (MyCase wraps many inputs in plain divs)
+ * Stops at the first container that also holds other questions, so one question's label never answers for another
+ */
+function getMyCaseParentText(input: MyCaseInput): string {
+  let text = ''
+  let element = input.parentElement
+  for (let depth = 0; element && depth < 3 && !holdsOtherFields(element, input); depth++) {
+    const label = element.querySelector('label')
+    if (label?.textContent) text += ' ' + label.textContent.trim()
+
+    const textNodes = Array.from(element.childNodes)
+      .filter((node) => node.nodeType === Node.TEXT_NODE)
+      .map((node) => (node.textContent || '').trim())
+      .filter((value) => value.length > 0)
+    if (textNodes.length > 0) text += ' ' + textNodes.join(' ')
+
+    const ariaLabel = element.getAttribute('aria-label')
+    if (ariaLabel) text += ' ' + ariaLabel.trim()
+
+    element = element.parentElement
+  }
+  return text.trim()
+}
+
+/**
+ * Identifiers of a page input, as the content script passes them to resolveMyCaseField
+ */
+export function getMyCaseFieldInfo(input: MyCaseInput): MyCaseFieldInfo {
+  return {
+    name: (input.name || input.id || '').toLowerCase(),
+    label: getMyCaseFieldLabel(input).toLowerCase(),
+    placeholder: ('placeholder' in input ? input.placeholder || '' : '').toLowerCase(),
+    ariaLabel: (input.getAttribute('aria-label') || '').toLowerCase(),
+    dataTestId: (input.getAttribute('data-testid') || '').toLowerCase(),
+    dataName: (input.getAttribute('data-name') || '').toLowerCase(),
+    title: (input.getAttribute('title') || '').toLowerCase(),
+    parentText: getMyCaseParentText(input).toLowerCase(),
+    type: input.type,
+  }
+}
+
+/**
+ * Combine a field's identifiers into the text questions are matched against
+ */
+export function getQuestionText(field: MyCaseFieldInfo): string {
+  return [field.name, field.label, field.placeholder, field.ariaLabel, field.dataTestId, field.dataName, field.title, field.parentText]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .replace(FILLER_WORDS, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Which spouse a question is about - the petitioner (spouse 1) unless it names the respondent / other parent
+ */
+export function getQuestionSpouse(text: string): SpouseNumber {
+  return RESPONDENT.test(text) && !PETITIONER.test(text) ? 2 : 1
+}
+
+const matchesQuestion = (question: MyCaseQuestion, text: string) =>
+  question.match.every((pattern) => pattern.test(text)) && !question.exclude?.test(text)
+
+/**
+ * Find the first question whose patterns all match the text
+ */
+export function findMyCaseQuestion(text: string): MyCaseQuestion | null {
+  return MYCASE_QUESTIONS.find((question) => matchesQuestion(question, text)) || null
+}
+
+/**
+ * Where a value came from, and how much that should raise or lower confidence in it
+ */
+export function describeValueSource(
+  data: MyCaseFillData,
+  source: MyCaseValueSource | null
+): { label: string; adjustment: number } {
+  if (!source) return { label: 'Calculated from your information', adjustment: -0.1 }
+  if (source.table === WORKSHEET_TABLE) return { label: 'Child support worksheet', adjustment: 0 }
+
+  const sameColumn = (row: { table_name: string; column_name: string; spouse_number: number }) =>
+    row.table_name === source.table && row.column_name === source.column && row.spouse_number === source.spouseNumber
+
+  if (data.field_locks?.some(sameColumn)) return { label: 'Edited by you', adjustment: 0.05 }
+
+  const provenance = data.field_provenance?.find(sameColumn)
+  if (provenance) {
+    if (provenance.extraction_method === 'barcode') return { label: `${provenance.document_label} (barcode)`, adjustment: 0 }
+    return provenance.extraction_method === 'gemini'
+      ? { label: `${provenance.document_label} (AI extraction)`, adjustment: -0.05 }
+      : { label: `${provenance.document_label} (text match)`, adjustment: -0.15 }
+  }
+
+  return { label: 'Entered on the platform', adjustment: 0 }
+}
+
+/**
+ * Confidence that a question belongs to this input, from which of its identifiers matched
+ */
+function getMatchConfidence(field: MyCaseFieldInfo, question: MyCaseQuestion): number {
+  const { label, ariaLabel, placeholder, title } = field
+  const labelText = getQuestionText({ label, ariaLabel, placeholder, title })
+  if (labelText && matchesQuestion(question, labelText)) return LABEL_CONFIDENCE
+
+  const attributeText = getQuestionText({ ...field, parentText: '' })
+  return attributeText && matchesQuestion(question, attributeText) ? ATTRIBUTE_CONFIDENCE : CONTEXT_CONFIDENCE
+}
+
+/**
+ * Format a stored value the way MyCase expects it for an input of the given type
+ */
+export function formatMyCaseValue(value: any, format: MyCaseFieldFormat, inputType = 'text'): string | number | null {
+  if (value === null || value === undefined || value === '') return null
+
+  switch (format) {
+    case 'date': {
+      const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})/)
+      if (!match) return String(value)
+      // Native date inputs take ISO dates, MyCase text inputs take MM/DD/YYYY
+      return inputType === 'date' ? `${match[1]}-${match[2]}-${match[3]}` : `${match[2]}/${match[3]}/${match[1]}`
+    }
+    case 'currency': {
+      const amount = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.-]/g, ''))
+      return isNaN(amount) ? null : amount.toFixed(2)
+    }
+    case 'phone': {
+      const digits = String(value).replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '')
+      return digits.length === 10 ? `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}` : String(value)
+    }
+    case 'ssnLast4': {
+      const digits = String(value).replace(/\D/g, '')
+      return digits.length >= 4 ? digits.slice(-4) : null
+    }
+    case 'yesNo':
+      return value ? 'Yes' : 'No'
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value))
+      return isNaN(number) ? null : number
+    }
+    default:
+      return String(value).trim() || null
+  }
+}
+
+/**
+ * Resolve the value for a MyCase input, or null when no question matches it
+ * A matched question with no stored value resolves with value null (the field is left alone)
+ */
+export function resolveMyCaseField(field: MyCaseFieldInfo, data: MyCaseFillData): MyCaseFieldResolution | null {
+  const text = getQuestionText(field)
+  const question = text ? findMyCaseQuestion(text) : null
+  if (!question) return null
+
+  const spouse = question.perSpouse ? getQuestionSpouse(text) : 1
+  const source = question.source?.(spouse) || null
+  const { label, adjustment } = describeValueSource(data, source)
+  const confidence = Math.min(0.99, Math.max(0.1, getMatchConfidence(field, question) + adjustment))
+
+  return {
+    questionId: question.id,
+    spouse,
+    value: formatMyCaseValue(question.value(data, spouse, text), question.format, field.type),
+    source,
+    sourceLabel: label,
+    confidence: Math.round(confidence * 100) / 100,
+  }
+}
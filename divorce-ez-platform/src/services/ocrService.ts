@@ -6,7 +6,27 @@ import Tesseract from 'tesseract.js'
 import * as pdfjsLib from 'pdfjs-dist'
 import { extractWithGemini } from './geminiService'
 import { getExpectedFields, getCriticalFields } from './documentSchemas'
+import { buildPageLayout, buildDocumentLayout, combineDocumentLayouts, findLayoutAmount, findLayoutValue } from './pdfLayoutService'
+import type { DocumentLayout, LayoutLine, PdfTextItem } from './pdfLayoutService'
+import { normalizeExtractedIncome, normalizeIncome, parseIncomeDate, inferPayFrequency, toMonthlyAmount } from './incomeNormalizationService'
+import { categorizeTransactions, estimateMonthlySpending, toExtractedExpenses } from './bankTransactionService'
+import { decodeLicenseBarcode } from './licenseBarcodeService'
+import type { LicenseBarcodeStatus } from './licenseBarcodeService'
+import {
+  categorizeBusinessExpense,
+  computeAdjustedSelfEmploymentIncome,
+  getBusinessExpenseLabel,
+  getSelfEmploymentStatement,
+} from './selfEmploymentService'
 import { logger } from '../utils/logger'
+import type {
+  ExtractionMethod,
+  BankStatementTransaction,
+  BusinessExpenseCategory,
+  BusinessExpenseLine,
+  Form1099Variant,
+  RetirementPlanType,
+} from '../types'
 
 // Configure PDF.js worker - use unpkg CDN which is more reliable
 if (typeof window !== 'undefined') {
@@ -17,6 +37,7 @@ if (typeof window !== 'undefined') {
 export interface OCRResult {
   success: boolean
   text: string
+  layout?: DocumentLayout // Lines, columns and label/value pairs (PDFs with a text layer only)
   error?: string
 }
 
@@ -25,9 +46,19 @@ export interface ProcessedDocument {
   documentType: string
   extractedData: Record<string, any>
   rawText: string
+  extractionMethod: ExtractionMethod
+  notice?: string // Shown with the upload result, e.g. when a license barcode could not be read
   error?: string
 }
 
+// Why the license fields came from OCR instead of the barcode
+const LICENSE_BARCODE_NOTICES: Record<Exclude<LicenseBarcodeStatus, 'decoded'>, string> = {
+  noImage:
+    "The license barcode can only be read from a photo (JPG or PNG) of the back of the card, so the fields were read from the card's text. Check the license number, birth date and address.",
+  unreadable:
+    "The barcode on the back of the license could not be read, so the fields were read from the card's text. Check the license number, birth date and address, or upload a sharper, well-lit photo of the back.",
+}
+
 /**
  * Extract text from image using Tesseract.js OCR
  */
@@ -76,18 +107,119 @@ export async function extractTextFromImage(
   }
 }
 
+// Scanned PDF pages are rendered to canvases for OCR (override with VITE_OCR_PDF_DPI / VITE_OCR_MAX_PDF_PAGES)
+const PDF_OCR_DPI = Number(import.meta.env.VITE_OCR_PDF_DPI) || 200
+const PDF_OCR_MAX_PAGES = Number(import.meta.env.VITE_OCR_MAX_PDF_PAGES) || 20
+const PDF_POINTS_PER_INCH = 72
+
+export interface PdfOcrOptions {
+  dpi?: number
+  maxPages?: number
+}
+
+const pageSeparator = (pageNumber: number) => `--- Page ${pageNumber} ---`
+
 /**
- * Extract text from PDF using PDF.js
+ * OCR a scanned PDF: render each page with PDF.js and recognize it with one Tesseract worker
+ */
+async function extractTextFromScannedPDF(
+  pdf: pdfjsLib.PDFDocumentProxy,
+  onProgress?: (progress: number) => void,
+  options: PdfOcrOptions = {}
+): Promise<OCRResult> {
+  const dpi = options.dpi || PDF_OCR_DPI
+  const maxPages = options.maxPages || PDF_OCR_MAX_PAGES
+  const pageCount = Math.min(pdf.numPages, maxPages)
+  if (pdf.numPages > maxPages) {
+    logger.warn(`Scanned PDF has ${pdf.numPages} pages, only the first ${maxPages} will be OCRed`)
+  }
+
+  let pageIndex = 0
+  const worker = await Tesseract.createWorker('eng', undefined, {
+    logger: (m) => {
+      if (onProgress && m.status === 'recognizing text') {
+        onProgress((pageIndex + m.progress) / pageCount)
+      }
+    },
+  })
+
+  try {
+    const pageTexts: string[] = []
+    for (; pageIndex < pageCount; pageIndex++) {
+      const pageNumber = pageIndex + 1
+      const page = await pdf.getPage(pageNumber)
+      const viewport = page.getViewport({ scale: dpi / PDF_POINTS_PER_INCH })
+
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.ceil(viewport.width)
+      canvas.height = Math.ceil(viewport.height)
+      await page.render({ canvas, viewport }).promise
+
+      const { data } = await worker.recognize(canvas)
+      logger.debug(`OCR completed for page ${pageNumber}/${pageCount}`, {
+        textLength: data.text.length,
+        confidence: data.confidence,
+      })
+      pageTexts.push(`${pageSeparator(pageNumber)}\n${data.text.trim()}`)
+
+      // Release the page bitmap before rendering the next one
+      page.cleanup()
+      canvas.width = 0
+      canvas.height = 0
+      if (onProgress) {
+        onProgress(pageNumber / pageCount)
+      }
+    }
+
+    if (pdf.numPages > pageCount) {
+      pageTexts.push(`--- Pages ${pageCount + 1}-${pdf.numPages} not processed (limit ${maxPages} pages) ---`)
+    }
+
+    const text = pageTexts.join('\n\n')
+    if (text.replace(/--- Page.*---/g, '').trim().length === 0) {
+      return {
+        success: false,
+        text: '',
+        error: 'OCR returned no text. The scan may be too blurry or contain no readable text.',
+      }
+    }
+
+    return {
+      success: true,
+      text,
+    }
+  } finally {
+    await worker.terminate()
+  }
+}
+
+/**
+ * Extract text from PDF using PDF.js, OCRing the pages when the PDF has no text layer
  */
 export async function extractTextFromPDF(
   file: File,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  options: PdfOcrOptions = {}
 ): Promise<OCRResult> {
+  let pdf: pdfjsLib.PDFDocumentProxy
   try {
     logger.debug('Starting PDF text extraction', { fileName: file.name })
     const arrayBuffer = await file.arrayBuffer()
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-    let fullText = ''
+    pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
+  } catch (error: any) {
+    logger.error('PDF load error', {
+      message: error.message,
+      name: error.name,
+    })
+    return {
+      success: false,
+      text: '',
+      error: 'Could not read the PDF. It may be damaged or password-protected.',
+    }
+  }
+
+  try {
+    const pages: LayoutLine[][] = []
 
     const totalPages = pdf.numPages
     logger.debug(`PDF has ${totalPages} page(s)`)
@@ -95,39 +227,48 @@ export async function extractTextFromPDF(
     for (let i = 1; i <= totalPages; i++) {
       const page = await pdf.getPage(i)
       const textContent = await page.getTextContent()
-      const pageText = textContent.items.map((item: any) => item.str).join(' ')
-
-      fullText += pageText + '\n'
+      const items = textContent.items.filter((item) => 'str' in item) as PdfTextItem[]
+      pages.push(buildPageLayout(items, i))
 
       if (onProgress) {
         onProgress(i / totalPages)
       }
     }
 
+    const layout = buildDocumentLayout(pages)
+    const fullText = layout.text
+
     logger.debug('PDF text extraction complete', {
       totalLength: fullText.length,
+      lines: layout.lines.length,
+      labelValuePairs: layout.pairs.length,
     })
 
-    // If PDF has no extractable text, fall back to OCR
+    // If PDF has no extractable text it is a scan - OCR the rendered pages
     if (fullText.trim().length < 10) {
-      logger.warn('PDF has no extractable text, falling back to OCR', {
+      logger.warn('PDF has no extractable text, falling back to page OCR', {
         textLength: fullText.trim().length,
       })
-      return await extractTextFromImage(file, onProgress)
+      return await extractTextFromScannedPDF(pdf, onProgress, options)
     }
 
     return {
       success: true,
       text: fullText,
+      layout,
     }
   } catch (error: any) {
     logger.error('PDF extraction error', {
       message: error.message,
       name: error.name,
     })
-    logger.debug('Falling back to OCR for PDF')
-    // Fallback to OCR if PDF extraction fails
-    return await extractTextFromImage(file, onProgress)
+    return {
+      success: false,
+      text: '',
+      error: error.message || 'PDF extraction failed',
+    }
+  } finally {
+    await pdf.destroy()
   }
 }
 
@@ -151,6 +292,55 @@ export async function extractTextFromFile(
   }
 }
 
+/**
+ * Extract text from several files that make up one document (e.g. pay stub pages photographed one at a time)
+ * Files are read in the order given; files with no readable text are skipped
+ */
+export async function extractTextFromFiles(
+  files: File[],
+  onProgress?: (progress: number) => void
+): Promise<OCRResult> {
+  if (files.length === 1) {
+    return await extractTextFromFile(files[0], onProgress)
+  }
+
+  const texts: string[] = []
+  const layouts: DocumentLayout[] = []
+  const errors: string[] = []
+
+  for (let i = 0; i < files.length; i++) {
+    const result = await extractTextFromFile(files[i], (progress) => {
+      if (onProgress) {
+        onProgress((i + progress) / files.length)
+      }
+    })
+
+    if (!result.success) {
+      logger.warn(`Skipping ${files[i].name}: ${result.error}`)
+      errors.push(`${files[i].name}: ${result.error}`)
+      continue
+    }
+    texts.push(`--- File ${i + 1}: ${files[i].name} ---\n${result.text.trim()}`)
+    if (result.layout) {
+      layouts.push(result.layout)
+    }
+  }
+
+  if (texts.length === 0) {
+    return {
+      success: false,
+      text: '',
+      error: errors.join('; ') || 'No text could be read from the files',
+    }
+  }
+
+  return {
+    success: true,
+    text: texts.join('\n\n'),
+    layout: layouts.length > 0 ? combineDocumentLayouts(layouts) : undefined,
+  }
+}
+
 /**
  * Parse document text based on document type
  */
@@ -160,7 +350,21 @@ export async function extractTextFromFile(
  */
 function shouldUseGemini(extractedData: Record<string, any>, documentType: string): boolean {
   // Skip Gemini for document types we don't support yet
-  const supportedTypes = ['payStub', 'marriageCertificate', 'bankStatement', 'taxReturn']
+  const supportedTypes = [
+    'payStub',
+    'marriageCertificate',
+    'bankStatement',
+    'taxReturn',
+    'w2',
+    '1099',
+    'priorCourtOrder',
+    'profitAndLoss',
+    'retirementStatement',
+    'mortgageStatement',
+    'propertyTaxNotice',
+    'vehicleTitle',
+    'autoLoanStatement',
+  ]
   if (!supportedTypes.includes(documentType)) {
     return false
   }
@@ -202,7 +406,7 @@ function shouldUseGemini(extractedData: Record<string, any>, documentType: strin
   return shouldUse
 }
 
-export function parseDocumentText(text: string, documentType: string): Record<string, any> {
+export function parseDocumentText(text: string, documentType: string, layout?: DocumentLayout): Record<string, any> {
   const extractedData: Record<string, any> = { rawText: text }
 
   if (!text || text.trim().length === 0) {
@@ -219,17 +423,19 @@ export function parseDocumentText(text: string, documentType: string): Record<st
       parsedData = parseDriversLicense(text)
       break
     case 'taxReturn':
-      parsedData = parseTaxReturn(text)
+      parsedData = parseTaxReturn(text, layout)
       break
     case 'payStub':
-      parsedData = parsePayStub(text)
+      parsedData = parsePayStub(text, layout)
       break
     case 'bankStatement':
       parsedData = parseBankStatement(text)
       break
     case 'w2':
+      parsedData = parseW2(text, layout)
+      break
     case '1099':
-      parsedData = parseW2Or1099(text)
+      parsedData = parse1099(text, layout)
       break
     case 'marriageCertificate':
       parsedData = parseMarriageCertificate(text)
@@ -240,6 +446,21 @@ export function parseDocumentText(text: string, documentType: string): Record<st
     case 'profitAndLoss':
       parsedData = parseProfitAndLoss(text)
       break
+    case 'retirementStatement':
+      parsedData = parseRetirementStatement(text)
+      break
+    case 'mortgageStatement':
+      parsedData = parseMortgageStatement(text)
+      break
+    case 'propertyTaxNotice':
+      parsedData = parsePropertyTaxNotice(text)
+      break
+    case 'vehicleTitle':
+      parsedData = parseVehicleTitle(text)
+      break
+    case 'autoLoanStatement':
+      parsedData = parseAutoLoanStatement(text)
+      break
     default:
       logger.warn(`Unknown document type: ${documentType}, returning raw text only`)
       parsedData = extractedData
@@ -297,11 +518,20 @@ function parseDriversLicense(text: string): Record<string, any> {
   return data
 }
 
+/**
+ * Amount from the PDF layout when the label is found there, otherwise from a regex match on the flat text
+ */
+function layoutAmountOr(layout: DocumentLayout | undefined, labelPattern: RegExp, match: RegExpMatchArray | null): number | null {
+  const layoutAmount = findLayoutAmount(layout, labelPattern)
+  if (layoutAmount !== null) return layoutAmount
+  return match ? parseFloat(match[1].replace(/,/g, '')) : null
+}
+
 /**
  * Parse tax return information (Form 1040 + schedules)
  * Extracts: Identity, Address, Marriage & Family, Income breakdown, Employment
  */
-function parseTaxReturn(text: string): Record<string, any> {
+function parseTaxReturn(text: string, layout?: DocumentLayout): Record<string, any> {
   const data: Record<string, any> = {}
 
   // First, try to parse summary report format (like "Tax Summary Report")
@@ -539,6 +769,18 @@ function parseTaxReturn(text: string): Record<string, any> {
     }
   }
 
+  // Schedule C detail - receipts, expense lines and net profit for the self-employment add-backs
+  const scheduleC = parseScheduleC(text)
+  if (scheduleC) {
+    data.scheduleC = scheduleC
+    if (data.selfEmploymentIncome == null && scheduleC.netProfit != null) {
+      data.selfEmploymentIncome = scheduleC.netProfit
+      if (scheduleC.netProfit > 0) {
+        data.annualIncome = (data.annualIncome || 0) + scheduleC.netProfit
+      }
+    }
+  }
+
   // Extract rental income - look for Schedule E
   const scheduleEMatch = text.match(/Schedule E[\s:]*Total rental real estate and royalty income or \(loss\)[\s:]*\$?([\d,]+\.?\d*)/i)
   if (scheduleEMatch) {
@@ -586,6 +828,32 @@ function parseTaxReturn(text: string): Record<string, any> {
     data.employers = employers
   }
 
+  // Extract attached W-2s - box 1 wages and the employee's name let a joint return be split between the spouses
+  const w2s: Array<{ employeeName: string | null; employerName: string | null; wages: number }> = []
+  cleanText
+    .split(/Wage and Tax Statement/i)
+    .slice(1)
+    .forEach((section) => {
+      const box1Match = section.match(/1\s+Wages,?\s+tips,?\s+other\s+comp(?:ensation|\.)?[\s:$]*([\d,]+\.?\d*)/i)
+      if (!box1Match) return
+      const wages = parseFloat(box1Match[1].replace(/,/g, ''))
+      if (!(wages > 0 && wages < 10000000)) return
+      const employeeMatch = section.match(
+        /Employee's (?:first )?name(?:,? and (?:middle )?initial)?(?:\s+Last name)?[\s:]*([A-Z][A-Za-z'\-]+(?:\s+[A-Z]\.?)?(?:\s+[A-Z][A-Za-z'\-]+)+)/
+      )
+      const employerNameMatch = section.match(
+        /Employer's name(?:,? address,? and ZIP code)?[\s:]*([A-Z][A-Z0-9&,.'\-]*(?:\s+[A-Z&][A-Z0-9&,.'\-]*)*)/
+      )
+      w2s.push({
+        employeeName: employeeMatch ? employeeMatch[1].trim() : null,
+        employerName: employerNameMatch ? employerNameMatch[1].trim() : null,
+        wages,
+      })
+    })
+  if (w2s.length > 0) {
+    data.w2s = w2s
+  }
+
   // Log what we extracted
   const extractedKeys = Object.keys(data).filter(k => k !== 'rawText')
   logger.debug(`parseTaxReturn extracted ${extractedKeys.length} fields`, {
@@ -728,21 +996,145 @@ function parseTaxReturn(text: string): Record<string, any> {
     }
   }
 
+  // Label/amount pairs from the PDF layout beat the flat-text guesses above
+  if (layout) {
+    const layoutIncome: Record<string, RegExp> = {
+      wageIncome: /wages,?\s*(?:&|and)?\s*salaries/i,
+      totalIncome: /this is your total income|^total income$/i,
+      adjustedGrossIncome: /adjusted gross income/i,
+      selfEmploymentIncome: /self[\s-]?employment.*income|net profit or \(loss\)/i,
+      rentalIncome: /total rental real estate|rental income/i,
+    }
+    Object.entries(layoutIncome).forEach(([key, labelPattern]) => {
+      const amount = findLayoutAmount(layout, labelPattern)
+      if (amount !== null && amount > 0 && amount < 10000000) {
+        data[key] = amount
+      }
+    })
+    const largest = Math.max(data.totalIncome || 0, data.adjustedGrossIncome || 0, data.wageIncome || 0)
+    if (largest > 0) {
+      data.annualIncome = largest
+    }
+  }
+
   return data
 }
 
+/**
+ * Convert a pay stub's period gross to monthly and annual figures, checked against the period dates and YTD
+ * Returns false when there is no gross to convert
+ */
+function applyPayStubIncome(data: Record<string, any>): boolean {
+  const normalizedIncome = normalizeExtractedIncome(data)
+  if (!normalizedIncome) return false
+
+  data.payFrequency = normalizedIncome.payFrequency
+  data.monthlyIncome = normalizedIncome.monthly
+  data.annualIncome = normalizedIncome.annual
+  data.wageIncome = normalizedIncome.annual
+  if (normalizedIncome.issues.length > 0) {
+    data.incomeIssues = normalizedIncome.issues.map((issue) => issue.message)
+  } else {
+    delete data.incomeIssues
+  }
+  return true
+}
+
+// Schedule C lines read for the self-employment add-backs - line number, label as printed, category
+const SCHEDULE_C_EXPENSE_LINES: { line: string; label: string; category: BusinessExpenseCategory }[] = [
+  { line: '8', label: String.raw`Advertising`, category: 'advertising' },
+  { line: '9', label: String.raw`Car\s+and\s+truck\s+expenses`, category: 'carAndTruck' },
+  { line: '10', label: String.raw`Commissions\s+and\s+fees`, category: 'commissions' },
+  { line: '11', label: String.raw`Contract\s+labor`, category: 'contractLabor' },
+  { line: '12', label: String.raw`Depletion`, category: 'depletion' },
+  { line: '13', label: String.raw`Depreciation\s+and\s+section\s+179`, category: 'depreciation' },
+  { line: '14', label: String.raw`Employee\s+benefit\s+programs`, category: 'employeeBenefits' },
+  { line: '15', label: String.raw`Insurance\s+\(other\s+than\s+health\)`, category: 'insurance' },
+  { line: '16a', label: String.raw`Mortgage`, category: 'interest' },
+  { line: '16b', label: String.raw`Other`, category: 'interest' },
+  { line: '17', label: String.raw`Legal\s+and\s+professional\s+services`, category: 'legalAndProfessional' },
+  { line: '18', label: String.raw`Office\s+expense`, category: 'officeExpense' },
+  { line: '19', label: String.raw`Pension\s+and\s+profit-sharing\s+plans`, category: 'pensionPlans' },
+  { line: '20a', label: String.raw`Vehicles,\s+machinery,\s+and\s+equipment`, category: 'rentOrLease' },
+  { line: '20b', label: String.raw`Other\s+business\s+property`, category: 'rentOrLease' },
+  { line: '21', label: String.raw`Repairs\s+and\s+maintenance`, category: 'repairs' },
+  { line: '22', label: String.raw`Supplies`, category: 'supplies' },
+  { line: '23', label: String.raw`Taxes\s+and\s+licenses`, category: 'taxesAndLicenses' },
+  { line: '24a', label: String.raw`Travel`, category: 'travel' },
+  { line: '24b', label: String.raw`Deductible\s+meals`, category: 'meals' },
+  { line: '25', label: String.raw`Utilities`, category: 'utilities' },
+  { line: '26', label: String.raw`Wages`, category: 'wages' },
+  { line: '27a', label: String.raw`Other\s+expenses`, category: 'other' },
+  { line: '30', label: String.raw`Expenses\s+for\s+business\s+use\s+of\s+your\s+home`, category: 'businessUseOfHome' },
+]
+
+const SCHEDULE_C_AMOUNT = String.raw`(\(?-?\$?\d{1,3}(?:,\d{3})+(?:\.\d{2})?\)?|\(?-?\$?\d+(?:\.\d{2})?\)?)(?![\d,])`
+
+/**
+ * Amount on a Schedule C line - the line number is repeated before the amount column ("13 Depreciation ... 13 4,500"),
+ * which also keeps the two expense columns apart when they share a text line
+ */
+function findScheduleCLine(section: string, line: string, label: string): number | null {
+  const match =
+    section.match(new RegExp(String.raw`(?:^|\s)${line}\s+${label}[^\n]*?\s${line}[ \t]+${SCHEDULE_C_AMOUNT}`, 'im')) ||
+    section.match(new RegExp(String.raw`(?:^|\s)${line}\s+${label}[ \t.:]*${SCHEDULE_C_AMOUNT}`, 'im'))
+  // A blank line leaves only the repeated line number
+  if (!match || match[1] === line) return null
+  const amount = parseSignedAmount(match[1])
+  return isNaN(amount) ? null : amount
+}
+
+/**
+ * Parse Schedule C (Profit or Loss From Business) from a tax return
+ * Returns null when the return has no Schedule C or no amounts could be read from it
+ */
+function parseScheduleC(text: string): Record<string, any> | null {
+  const start = text.search(/SCHEDULE\s+C\s*\(Form\s+1040\)|Profit\s+or\s+Loss\s+From\s+Business/i)
+  if (start < 0) return null
+  const rest = text.slice(start + 20)
+  const nextSchedule = rest.search(/SCHEDULE\s+(?:D|E|F|SE)\b|Form\s+8829/i)
+  const section = text.slice(start, nextSchedule >= 0 ? start + 20 + nextSchedule : undefined)
+
+  const scheduleC: Record<string, any> = {}
+  const businessNameMatch = section.match(/Business\s+name\.?[^\n]*?leave\s+blank\.?\s*([A-Z][A-Za-z0-9&.,'\- ]{2,60}?)\s*(?:\n|D\s+Employer|$)/i)
+  if (businessNameMatch) {
+    scheduleC.businessName = businessNameMatch[1].trim()
+  }
+
+  const grossReceipts = findScheduleCLine(section, '1', String.raw`Gross\s+receipts\s+or\s+sales`)
+  if (grossReceipts !== null) scheduleC.grossReceipts = grossReceipts
+  const totalExpenses = findScheduleCLine(section, '28', String.raw`Total\s+expenses`)
+  if (totalExpenses !== null) scheduleC.totalExpenses = totalExpenses
+  const netProfit = findScheduleCLine(section, '31', String.raw`Net\s+profit\s+or\s+\(loss\)`)
+  if (netProfit !== null) scheduleC.netProfit = netProfit
+
+  const expenseLines: BusinessExpenseLine[] = []
+  for (const expense of SCHEDULE_C_EXPENSE_LINES) {
+    const amount = findScheduleCLine(section, expense.line, expense.label)
+    if (amount) {
+      expenseLines.push({ label: getBusinessExpenseLabel(expense.category), category: expense.category, amount })
+    }
+  }
+  if (expenseLines.length > 0) {
+    scheduleC.expenseLines = expenseLines
+  }
+
+  return Object.keys(scheduleC).some((key) => key !== 'businessName') ? scheduleC : null
+}
+
 /**
  * Parse pay stub information
  * Extracts: Employer name, gross income, pay frequency, overtime, bonuses, insurance, deductions
  */
-function parsePayStub(text: string): Record<string, any> {
+function parsePayStub(text: string, layout?: DocumentLayout): Record<string, any> {
   const data: Record<string, any> = {}
 
   // Extract employee name - look for "Employee Name:" followed by name
   // Pattern: "Employee Name: John Doe" or "Employee Name John Doe"
   const employeeNameMatch = text.match(/Employee\s+Name[\s:]+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)+)/i)
-  if (employeeNameMatch) {
-    const fullName = employeeNameMatch[1].trim()
+  const layoutEmployeeName = findLayoutValue(layout, /^employee\s+name$/i)
+  if (layoutEmployeeName || employeeNameMatch) {
+    const fullName = (layoutEmployeeName || employeeNameMatch![1]).trim()
     const nameParts = fullName.split(/\s+/)
     if (nameParts.length >= 2) {
       data.firstName = nameParts[0]
@@ -809,73 +1201,77 @@ function parsePayStub(text: string): Record<string, any> {
 
   // Extract employer name (usually in header)
   const employerMatch = text.match(/(?:EMPLOYER|COMPANY|EMPLOYER\s+NAME)[\s:]*([A-Z][A-Z\s,&\.]+)/i)
-  if (employerMatch) {
-    data.employerName = employerMatch[1].trim()
-    data.employers = [{ name: employerMatch[1].trim() }]
+  const employerName = findLayoutValue(layout, /^(?:employer|company)(?:\s+name)?$/i) || employerMatch?.[1].trim()
+  if (employerName) {
+    data.employerName = employerName
+    data.employers = [{ name: employerName }]
   }
 
-  // Extract pay period dates to determine frequency
+  // Extract pay period dates and pay date - the frequency is worked out from them
   const payPeriodMatch = text.match(/(?:PAY\s+PERIOD|PERIOD)[\s:]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\s*(?:TO|THRU|THROUGH|[-])\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i)
   if (payPeriodMatch) {
-    const startDate = new Date(payPeriodMatch[1])
-    const endDate = new Date(payPeriodMatch[2])
-    const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
-    
-    if (daysDiff <= 7) {
-      data.payFrequency = 'weekly'
-    } else if (daysDiff <= 14) {
-      data.payFrequency = 'biweekly'
-    } else if (daysDiff <= 31) {
-      data.payFrequency = 'monthly'
-    } else {
-      data.payFrequency = 'yearly'
-    }
+    data.payPeriodStart = payPeriodMatch[1]
+    data.payPeriodEnd = payPeriodMatch[2]
+  }
+  const payDateMatch = text.match(/(?:PAY\s+DATE|CHECK\s+DATE|PAYMENT\s+DATE)[\s:]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i)
+  const payDate = findLayoutValue(layout, /^(?:pay|check|payment)\s+date$/i) || payDateMatch?.[1]
+  if (payDate) {
+    data.payDate = payDate
   }
 
   // Extract gross pay
+  // Layout labels take the current-period column; the flat-text regex may pick up YTD
   const grossMatch = text.match(/(?:GROSS\s+PAY|GROSS|GROSS\s+EARNINGS)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (grossMatch) {
-    const gross = parseFloat(grossMatch[1].replace(/,/g, ''))
-    
-    // Determine if this is monthly, biweekly, or weekly based on pay frequency
-    if (data.payFrequency === 'weekly') {
-      data.monthlyIncome = gross * 4.33 // Approximate monthly
-      data.annualIncome = gross * 52
-    } else if (data.payFrequency === 'biweekly') {
-      data.monthlyIncome = gross * 2.17 // Approximate monthly
-      data.annualIncome = gross * 26
-    } else if (data.payFrequency === 'monthly') {
-      data.monthlyIncome = gross
-      data.annualIncome = gross * 12
-    } else {
-      data.monthlyIncome = gross
-      data.annualIncome = gross * 12 // Default assumption
+  const gross = layoutAmountOr(layout, /^(?:total\s+)?gross(?:\s+pay|\s+earnings)?$/i, grossMatch)
+  if (gross !== null) {
+    data.grossPay = gross
+  }
+
+  // Extract YTD gross - its own label, or the second amount on the gross row of a Current / YTD table
+  const ytdGrossMatch =
+    text.match(/(?:YTD\s+GROSS(?:\s+PAY)?|GROSS(?:\s+PAY)?\s+YTD|YEAR[\s-]+TO[\s-]+DATE\s+GROSS)[\s:$]*\$?([\d,]+\.?\d*)/i) ||
+    (/\bYTD\b|YEAR[\s-]+TO[\s-]+DATE/i.test(text)
+      ? text.match(/GROSS(?:\s+PAY|\s+EARNINGS)?[\s:$]*\$?[\d,]+\.\d{2}\s+\$?([\d,]+\.\d{2})/i)
+      : null)
+  const ytdGross = layoutAmountOr(layout, /^(?:ytd\s+gross(?:\s+pay)?|gross(?:\s+pay)?\s+ytd|year[\s-]+to[\s-]+date\s+gross)$/i, ytdGrossMatch)
+  if (ytdGross !== null) {
+    data.grossPayYTD = ytdGross
+  }
+
+  if (!applyPayStubIncome(data) && payPeriodMatch) {
+    const start = parseIncomeDate(payPeriodMatch[1])
+    const end = parseIncomeDate(payPeriodMatch[2])
+    const payFrequency = start && end ? inferPayFrequency(start, end) : null
+    if (payFrequency) {
+      data.payFrequency = payFrequency
     }
-    
-    data.wageIncome = gross
   }
 
   // Extract overtime
   const overtimeMatch = text.match(/(?:OVERTIME|OT)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (overtimeMatch) {
-    data.overtime = parseFloat(overtimeMatch[1].replace(/,/g, ''))
+  const overtime = layoutAmountOr(layout, /^(?:overtime|ot)(?:\s+pay)?$/i, overtimeMatch)
+  if (overtime !== null) {
+    data.overtime = overtime
   }
 
   // Extract bonuses
   const bonusMatch = text.match(/(?:BONUS|BONUSES)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (bonusMatch) {
-    data.bonuses = parseFloat(bonusMatch[1].replace(/,/g, ''))
+  const bonuses = layoutAmountOr(layout, /^bonus(?:es)?$/i, bonusMatch)
+  if (bonuses !== null) {
+    data.bonuses = bonuses
   }
 
   // Extract insurance premiums (health, dental, etc.)
   const healthInsuranceMatch = text.match(/(?:HEALTH\s+INSURANCE|MEDICAL|HEALTH)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (healthInsuranceMatch) {
-    data.healthInsurance = parseFloat(healthInsuranceMatch[1].replace(/,/g, ''))
+  const healthInsurance = layoutAmountOr(layout, /^(?:health|medical)(?:\s+insurance)?$/i, healthInsuranceMatch)
+  if (healthInsurance !== null) {
+    data.healthInsurance = healthInsurance
   }
 
   const dentalInsuranceMatch = text.match(/(?:DENTAL\s+INSURANCE|DENTAL)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (dentalInsuranceMatch) {
-    data.dentalInsurance = parseFloat(dentalInsuranceMatch[1].replace(/,/g, ''))
+  const dentalInsurance = layoutAmountOr(layout, /^dental(?:\s+insurance)?$/i, dentalInsuranceMatch)
+  if (dentalInsurance !== null) {
+    data.dentalInsurance = dentalInsurance
   }
 
   // Total insurance premiums
@@ -885,14 +1281,16 @@ function parsePayStub(text: string): Record<string, any> {
 
   // Extract total payroll deductions
   const deductionsMatch = text.match(/(?:TOTAL\s+DEDUCTIONS|DEDUCTIONS\s+TOTAL|TOTAL\s+DED)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (deductionsMatch) {
-    data.payrollDeductions = parseFloat(deductionsMatch[1].replace(/,/g, ''))
+  const payrollDeductions = layoutAmountOr(layout, /^(?:total\s+deductions|deductions\s+total|total\s+ded\.?)$/i, deductionsMatch)
+  if (payrollDeductions !== null) {
+    data.payrollDeductions = payrollDeductions
   }
 
   // Extract net pay (for verification)
   const netPayMatch = text.match(/(?:NET\s+PAY|TAKE\s+HOME|NET)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (netPayMatch) {
-    data.netPay = parseFloat(netPayMatch[1].replace(/,/g, ''))
+  const netPay = layoutAmountOr(layout, /^(?:net\s+pay|take\s+home(?:\s+pay)?|net)$/i, netPayMatch)
+  if (netPay !== null) {
+    data.netPay = netPay
   }
 
   return data
@@ -924,6 +1322,27 @@ function parseBankStatement(text: string): Record<string, any> {
     data.accountNumber = accountMatch[1].trim()
   }
 
+  // Statement period: "Statement Period: 01/01/2024 - 01/31/2024" or "01/01/2024 through 01/31/2024"
+  const periodMatch = text.match(/(\d{1,2}\/\d{1,2}\/\d{2,4})\s*(?:-|–|to|through|thru)\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i)
+  if (periodMatch) {
+    const start = parseIncomeDate(periodMatch[1])
+    const end = parseIncomeDate(periodMatch[2])
+    if (start && end && end >= start) {
+      data.statementStartDate = start.toISOString().slice(0, 10)
+      data.statementEndDate = end.toISOString().slice(0, 10)
+    }
+  }
+
+  const beginningBalanceMatch = text.match(/(?:BEGINNING|OPENING|PREVIOUS)\s+BALANCE[\s:$]*\$?(-?[\d,]+\.\d{2})/i)
+  if (beginningBalanceMatch) {
+    data.beginningBalance = parseFloat(beginningBalanceMatch[1].replace(/,/g, ''))
+  }
+
+  const transactions = parseStatementTransactions(text, data.statementEndDate, data.beginningBalance)
+  if (transactions.length > 0) {
+    data.transactions = transactions
+  }
+
   // Housing costs (rent/mortgage)
   const housingKeywords = ['rent', 'mortgage', 'housing', 'lease', 'apartment']
   const housingPattern = new RegExp(`(${housingKeywords.join('|')})[\\s:]*\\$?([\\d,]+\\.?\\d*)`, 'gi')
@@ -1012,7 +1431,6 @@ function parseBankStatement(text: string): Record<string, any> {
   }
   if (payrollDeposits.length > 0) {
     const avgPayroll = payrollDeposits.reduce((a, b) => a + b, 0) / payrollDeposits.length
-    data.monthlyIncome = avgPayroll
     // Try to infer frequency from deposit count in statement period
     if (payrollDeposits.length >= 4) {
       data.payFrequency = 'weekly'
@@ -1021,6 +1439,7 @@ function parseBankStatement(text: string): Record<string, any> {
     } else {
       data.payFrequency = 'monthly'
     }
+    data.monthlyIncome = toMonthlyAmount(avgPayroll, data.payFrequency)
   }
 
   // Store expenses if any found
@@ -1028,9 +1447,80 @@ function parseBankStatement(text: string): Record<string, any> {
     data.expenses = expenses
   }
 
+  // Transaction lines give real spending - they replace the keyword totals above
+  applyBankTransactions(data)
+
   return data
 }
 
+/**
+ * Transaction lines from a bank statement: "01/05 ROCKY MOUNTAIN POWER 120.45 7,379.55"
+ * Money out is found from a minus sign, then the change in running balance, then the description
+ */
+function parseStatementTransactions(
+  text: string,
+  statementEndDate: string | undefined,
+  beginningBalance: number | undefined
+): BankStatementTransaction[] {
+  const end = parseIncomeDate(statementEndDate) || null
+  const linePattern = /^\s*(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\s+(.+?)\s+(-?\$?[\d,]+\.\d{2}-?)(?:\s+(-?\$?[\d,]+\.\d{2}-?))?\s*$/
+  const toAmount = (value: string) => {
+    const negative = value.includes('-')
+    const amount = parseFloat(value.replace(/[-$,]/g, ''))
+    return negative ? -amount : amount
+  }
+  const depositPattern = /\b(deposit|credit|payroll|direct dep|refund|interest|dividend|transfer from|reversal)\b/i
+
+  const transactions: BankStatementTransaction[] = []
+  let previousBalance = beginningBalance ?? null
+  text.split('\n').forEach((line) => {
+    const match = line.match(linePattern)
+    if (!match) return
+    const description = match[4].replace(/\s+/g, ' ').trim()
+    // Balance summary lines have no payee
+    if (!/[a-z]/i.test(description) || /^(beginning|ending|opening|closing|previous|daily)\s+balance/i.test(description)) return
+
+    const month = Number(match[1])
+    const day = Number(match[2])
+    let year = match[3] ? (match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])) : end?.getUTCFullYear()
+    // A December line on a statement ending in January belongs to the previous year
+    if (!match[3] && end && year && month > end.getUTCMonth() + 1) year--
+    const date = year ? `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}` : null
+
+    let amount = toAmount(match[5])
+    const runningBalance = match[6] ? toAmount(match[6]) : null
+    if (amount > 0 && !match[5].includes('-')) {
+      if (runningBalance !== null && previousBalance !== null) {
+        const change = Math.round((runningBalance - previousBalance) * 100) / 100
+        if (Math.abs(Math.abs(change) - amount) < 0.01) amount = change
+      } else if (!depositPattern.test(description)) {
+        amount = -amount
+      }
+    }
+    if (runningBalance !== null) previousBalance = runningBalance
+
+    transactions.push({ date: parseIncomeDate(date) ? date : null, description, amount, runningBalance })
+  })
+  return transactions
+}
+
+/**
+ * Expense totals from a statement's categorized transactions, averaged to a month
+ * Returns false when the statement has no transactions
+ */
+function applyBankTransactions(data: Record<string, any>): boolean {
+  if (!Array.isArray(data.transactions) || data.transactions.length === 0) return false
+
+  const spending = estimateMonthlySpending(categorizeTransactions(data.transactions), data.statementStartDate, data.statementEndDate)
+  const expenses = toExtractedExpenses(spending)
+  if (Object.keys(expenses).length > 0) {
+    data.expenses = expenses
+  } else {
+    delete data.expenses
+  }
+  return true
+}
+
 /**
  * Parse marriage certificate
  * Extracts: Legal names at marriage, marriage date, place, maiden names
@@ -1154,81 +1644,376 @@ function parseMarriageCertificate(text: string): Record<string, any> {
 }
 
 /**
- * Parse prior court order
- * Extracts: Order type, jurisdiction, constraints, domestic violence indicators
+ * Parse prior court order (custody, support, protective)
+ * Extracts: Case number, court, judge, parties, order and expiration dates, support, custody and parent-time, contact restrictions
  */
 function parsePriorCourtOrder(text: string): Record<string, any> {
   const data: Record<string, any> = {}
+  const cleanText = text.replace(/[ \t]+/g, ' ')
+  // Sentences, joined across OCR line breaks that continue in lower case - "Ann. § 30-3-35" and "6 p.m. to" don't end one
+  const sentences = cleanText
+    .split(/(?<=[.!?])\s+(?=[A-Z])|\n+(?=[A-Z])|\n{2,}/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').replace(/\.$/, '').trim())
+    .filter(Boolean)
 
   // Detect order types
   const orderTypes: string[] = []
-  if (/(?:CUSTODY|CUSTODIAL)/i.test(text)) {
+  if (/(?:CUSTODY|CUSTODIAL|PARENT[- ]TIME)/i.test(cleanText)) {
     orderTypes.push('custody')
   }
-  if (/(?:CHILD\s+SUPPORT|SUPPORT\s+ORDER)/i.test(text)) {
+  if (/(?:CHILD\s+SUPPORT|SUPPORT\s+ORDER|ALIMONY|SPOUSAL\s+SUPPORT)/i.test(cleanText)) {
     orderTypes.push('support')
   }
-  if (/(?:PROTECTIVE\s+ORDER|RESTRAINING\s+ORDER|ORDER\s+OF\s+PROTECTION)/i.test(text)) {
+  if (/(?:PROTECTIVE\s+ORDER|RESTRAINING\s+ORDER|ORDER\s+OF\s+PROTECTION|STALKING\s+INJUNCTION)/i.test(cleanText)) {
     orderTypes.push('protective')
-    data.hasDomesticViolence = true
   }
   if (orderTypes.length > 0) {
     data.orderTypes = orderTypes
-    data.hasPriorOrders = true
   }
 
-  // Extract jurisdiction (court name, county, state)
-  const courtMatch = text.match(/(?:COURT|JUDICIAL|DISTRICT\s+COURT)[\s:]*([A-Z][A-Z\s,]+(?:COUNTY|COURT)?)/i)
-  if (courtMatch) {
-    data.courtName = courtMatch[1].trim()
+  const caseMatch = cleanText.match(/(?:CASE|CIVIL|DOCKET)\s*(?:NO\.?|NUMBER|#)[\s:]*([A-Z0-9][A-Z0-9\-]{3,})/i)
+  if (caseMatch) {
+    data.caseNumber = caseMatch[1].trim()
   }
 
-  const countyMatch = text.match(/(?:COUNTY)[\s:]*([A-Z][A-Z\s]+COUNTY)/i)
-  if (countyMatch) {
-    data.county = countyMatch[1].trim()
+  // Court caption, e.g. "IN THE THIRD JUDICIAL DISTRICT COURT IN AND FOR SALT LAKE COUNTY, STATE OF UTAH"
+  const courtMatch = cleanText.match(
+    /((?:[A-Z]+\s+)?(?:JUDICIAL\s+)?(?:DISTRICT|JUVENILE|JUSTICE|SUPERIOR|FAMILY|CIRCUIT)\s+COURT)(?:[\s,]+(?:OF|FOR|IN\s+AND\s+FOR)\s+([A-Z]+(?:\s+[A-Z]+)?\s+COUNTY))?/i
+  )
+  if (courtMatch) {
+    data.courtName = toTitleCase(courtMatch[1].replace(/^(?:IN|THE)\s+/i, '').trim())
+    if (courtMatch[2]) {
+      data.county = toTitleCase(courtMatch[2].trim())
+    }
+  }
+  if (!data.county) {
+    const countyMatch = cleanText.match(/\b([A-Z][A-Za-z]+(?:\s+[A-Z][A-Za-z]+)?)\s+COUNTY\b/)
+    if (countyMatch) {
+      data.county = `${toTitleCase(countyMatch[1])} County`
+    }
   }
 
-  const stateMatch = text.match(/(?:STATE\s+OF|STATE)[\s:]*([A-Z]{2})/i)
+  const stateMatch = cleanText.match(/STATE OF ([A-Z][A-Za-z]+(?: [A-Z][A-Za-z]+)?)(?=[\s,.]|$)/)
   if (stateMatch) {
-    data.state = stateMatch[1].trim()
+    data.state = toTitleCase(stateMatch[1])
   }
 
-  if (data.courtName || data.county || data.state) {
-    data.jurisdictions = []
-    if (data.courtName) data.jurisdictions.push(data.courtName)
-    if (data.county) data.jurisdictions.push(data.county)
-    if (data.state) data.jurisdictions.push(data.state)
+  const judgeMatch = cleanText.match(
+    /(?:JUDGE|Judge|COMMISSIONER|Commissioner|HONORABLE|Honorable|HON\.|Hon\.)[ :]+([A-Z][A-Za-z.'\-]+(?: [A-Z]\.)?(?: [A-Z][A-Za-z'\-]+){1,2})/
+  )
+  if (judgeMatch) {
+    data.judgeName = judgeMatch[1].trim()
   }
 
-  // Extract order date
-  const orderDateMatch = text.match(/(?:ORDER\s+DATE|DATE\s+OF\s+ORDER|ISSUED)[\s:]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i)
+  // Parties - "JOHN DOE, Petitioner" in the caption, or "Petitioner: John Doe"
+  const partyName = (label: string): string | null => {
+    const before = cleanText.match(new RegExp(String.raw`([A-Z][A-Za-z'\-]+(?: [A-Z][A-Za-z.'\-]+){1,3}),?\s*(?:${label})\b`))
+    const after = cleanText.match(new RegExp(String.raw`(?:${label}) ?: ?([A-Z][A-Za-z'\-]+(?: [A-Z][A-Za-z.'\-]+){1,3})`))
+    const match = after || before
+    return match && !/\b(?:STATE|COUNTY|COURT)\b/i.test(match[1]) ? match[1].trim() : null
+  }
+  data.petitionerName = partyName('Petitioner|PETITIONER|Plaintiff|PLAINTIFF')
+  data.respondentName = partyName('Respondent|RESPONDENT|Defendant|DEFENDANT')
+
+  // Dates
+  const orderDateMatch = cleanText.match(
+    /(?:ORDER\s+DATE|DATE\s+OF\s+ORDER|ISSUED|SIGNED|DATED|ENTERED)(?:\s+(?:ON|THIS))?[\s:]*((?:\d{1,2}(?:st|nd|rd|th)?\s+day\s+of\s+)?[A-Za-z]+\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}(?:st|nd|rd|th)?\s+day\s+of\s+[A-Za-z]+,?\s+\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i
+  )
   if (orderDateMatch) {
-    data.orderDate = orderDateMatch[1].trim()
+    data.orderDate = parseCourtDate(orderDateMatch[1])
+  }
+  const expirationMatch = cleanText.match(
+    /(?:EXPIR(?:ES|ATION\s+DATE)|(?:REMAINS?\s+)?IN\s+EFFECT\s+UNTIL|VALID\s+(?:THROUGH|UNTIL))(?:\s+ON)?[\s:]*([A-Za-z]+\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}(?:st|nd|rd|th)?\s+day\s+of\s+[A-Za-z]+,?\s+\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i
+  )
+  if (expirationMatch) {
+    data.expirationDate = parseCourtDate(expirationMatch[1])
+  }
+
+  // Support - monthly amounts and who pays
+  const monthlyAmount = (labelPattern: string): number | null => {
+    const match = cleanText.match(new RegExp(String.raw`(?:${labelPattern})[^$\n]{0,80}\$\s*([\d,]+(?:\.\d{2})?)(\s*(?:per|a|\/|each)\s*(?:week|wk))?`, 'i'))
+    if (!match) return null
+    const amount = parseFloat(match[1].replace(/,/g, ''))
+    // Weekly amounts are converted to monthly
+    return match[2] ? Math.round(amount * (52 / 12) * 100) / 100 : amount
+  }
+  data.childSupportAmount = monthlyAmount(String.raw`CHILD\s+SUPPORT`)
+  data.alimonyAmount = monthlyAmount(String.raw`ALIMONY|SPOUSAL\s+SUPPORT|SPOUSAL\s+MAINTENANCE`)
+  // The party keyword wins over a name - names stay on one line and case-sensitive so a caption or the next
+  // line's "Respondent" isn't read as part of one
+  const partyPayorMatch = cleanText.match(
+    /\b(Petitioner|Respondent)[ \t]+(?:is[ \t]+ordered[ \t]+to|shall)[ \t]+pay[^.]{0,80}?(?:CHILD\s+SUPPORT|ALIMONY|SPOUSAL\s+SUPPORT)/i
+  )
+  const namedPayorMatch = partyPayorMatch
+    ? null
+    : cleanText.match(
+        /\b([A-Z][A-Za-z'\-]+(?:[ \t]+[A-Z][A-Za-z'\-]+){1,2})[ \t]+(?:is[ \t]+ordered[ \t]+to|IS[ \t]+ORDERED[ \t]+TO|shall|SHALL)[ \t]+(?:pay|PAY)[^.]{0,80}?(?:[Cc]hild\s+[Ss]upport|CHILD\s+SUPPORT|[Aa]limony|ALIMONY|[Ss]pousal\s+[Ss]upport|SPOUSAL\s+SUPPORT)/
+      )
+  if (partyPayorMatch) {
+    const isPetitioner = /^petitioner$/i.test(partyPayorMatch[1])
+    data.supportPayorName = isPetitioner ? data.petitionerName || 'Petitioner' : data.respondentName || 'Respondent'
+  } else if (namedPayorMatch) {
+    data.supportPayorName = namedPayorMatch[1].trim()
+  }
+
+  // Custody and parent-time
+  const custodyKind = (kind: string): 'sole' | 'joint' | null => {
+    const match = cleanText.match(new RegExp(String.raw`(SOLE|JOINT|PRIMARY|SHARED)\s+${kind}\s+CUSTODY`, 'i'))
+    if (!match) return null
+    return /^(?:JOINT|SHARED)$/i.test(match[1]) ? 'joint' : 'sole'
+  }
+  data.legalCustody = custodyKind('LEGAL')
+  data.physicalCustody = custodyKind('PHYSICAL')
+  if (!data.legalCustody && !data.physicalCustody) {
+    if (/(?:SOLE\s+CUSTODY|FULL\s+CUSTODY)/i.test(cleanText)) data.physicalCustody = 'sole'
+    if (/(?:JOINT\s+CUSTODY|SHARED\s+CUSTODY)/i.test(cleanText)) data.physicalCustody = 'joint'
+  }
+  const statuteMatch = cleanText.match(/(?:Utah\s+Code(?:\s+Ann\.)?|U\.C\.A\.)\s*(?:§+\s*)?(30-3-35(?:\.1|\.2)?|30-3-33)/i)
+  const scheduleSentence = sentences.find(
+    (sentence) =>
+      /(?:PARENT[- ]TIME|VISITATION)/i.test(sentence) &&
+      /(?:WEEKEND|WEEKDAY|EVENING|OVERNIGHT|HOLIDAY|SUMMER|SCHEDULE|EVERY|ALTERNATING|SUPERVISED)/i.test(sentence)
+  )
+  const schedule = [
+    statuteMatch && !scheduleSentence?.includes(statuteMatch[1]) ? `Utah Code ${statuteMatch[1]} ${statuteMatch[1] === '30-3-33' ? 'advisory guidelines' : 'parent-time'}` : null,
+    scheduleSentence ? scheduleSentence.slice(0, 300) : null,
+  ].filter(Boolean)
+  if (schedule.length > 0) {
+    data.parentTimeSchedule = schedule.join('; ')
+  }
+
+  // Restricted contact
+  if (orderTypes.includes('protective')) {
+    data.restrainedPartyName = data.respondentName
+    data.protectedPartyNames = data.petitionerName ? [data.petitionerName] : null
+  }
+  const noContactPattern = /(?:SHALL\s+NOT|MUST\s+NOT|IS\s+(?:ORDERED|RESTRAINED)\s+(?:NOT\s+TO|FROM))[^.\n]{0,40}(?:CONTACT|COMMUNICAT)/i
+  data.noContact = noContactPattern.test(cleanText) || /\bNO[- ]CONTACT\b/i.test(cleanText) ? true : null
+  const distanceMatch = cleanText.match(/(?:STAY|REMAIN)\s+(?:AT\s+LEAST\s+)?(\d{1,5})\s*(FEET|FT\.?|YARDS|YDS\.?)\s+(?:AWAY\s+)?FROM/i)
+  if (distanceMatch) {
+    const distance = parseInt(distanceMatch[1], 10)
+    data.stayAwayDistanceFeet = /^(?:YARDS|YDS)/i.test(distanceMatch[2]) ? distance * 3 : distance
+  }
+  const restrictions = sentences.filter(
+    (sentence) =>
+      /(?:(?:SHALL|MUST)\s+NOT|ORDERED\s+NOT\s+TO|RESTRAINED\s+FROM)\b[\s\S]*(?:CONTACT|COMMUNICAT|HARASS|STALK|THREATEN|COME\s+(?:TO|NEAR)|GO\s+(?:TO|NEAR)|POSSESS)/i.test(sentence) ||
+      /\bSTAY\s+(?:AT\s+LEAST\s+)?\d+\s*(?:FEET|FT|YARDS|YDS)/i.test(sentence)
+  )
+  if (/SUPERVISED\s+(?:PARENT[- ]TIME|VISITATION)/i.test(cleanText)) {
+    restrictions.push('Parent-time must be supervised')
+  }
+  if (restrictions.length > 0) {
+    data.contactRestrictions = restrictions.slice(0, 10)
   }
 
-  // Extract custody constraints (if custody order)
-  if (orderTypes.includes('custody')) {
-    const constraints: string[] = []
-    if (/(?:SOLE\s+CUSTODY|FULL\s+CUSTODY)/i.test(text)) {
-      constraints.push('sole custody')
-    }
-    if (/(?:JOINT\s+CUSTODY|SHARED\s+CUSTODY)/i.test(text)) {
-      constraints.push('joint custody')
-    }
-    if (/(?:VISITATION|VISITATION\s+RIGHTS)/i.test(text)) {
-      constraints.push('visitation rights')
-    }
-    if (constraints.length > 0) {
-      data.custodyConstraints = constraints
+  applyPriorOrderDetails(data)
+  return data
+}
+
+/**
+ * YYYY-MM-DD from a date as written in an order ("March 5, 2020", "5th day of March, 2020", "03/05/2020")
+ */
+function parseCourtDate(value: string): string | null {
+  const months = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+  const monthIndex = (name: string) => months.findIndex((month) => month.startsWith(name.toLowerCase().replace('.', '').slice(0, 3)))
+  const pad = (n: number) => String(n).padStart(2, '0')
+
+  const dayOf = value.match(/(\d{1,2})(?:st|nd|rd|th)?\s+day\s+of\s+([A-Za-z]+),?\s+(\d{4})/i)
+  if (dayOf && monthIndex(dayOf[2]) >= 0) {
+    return `${dayOf[3]}-${pad(monthIndex(dayOf[2]) + 1)}-${pad(Number(dayOf[1]))}`
+  }
+  const written = value.match(/([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/)
+  if (written && monthIndex(written[1]) >= 0) {
+    return `${written[3]}-${pad(monthIndex(written[1]) + 1)}-${pad(Number(written[2]))}`
+  }
+  const date = parseIncomeDate(value.trim())
+  return date ? date.toISOString().slice(0, 10) : null
+}
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/\b([a-z])/g, (letter) => letter.toUpperCase())
+}
+
+/**
+ * Court info fields derived from a prior order's details - jurisdictions, custody constraints, domestic violence
+ */
+function applyPriorOrderDetails(data: Record<string, any>): void {
+  const orderTypes: string[] = Array.isArray(data.orderTypes) ? data.orderTypes : []
+  if (orderTypes.length > 0 || data.caseNumber) {
+    data.hasPriorOrders = true
+  }
+  if (orderTypes.includes('protective')) {
+    data.hasDomesticViolence = true
+  }
+
+  const jurisdictions = [data.courtName, data.county, data.state].filter(Boolean)
+  if (jurisdictions.length > 0) {
+    data.jurisdictions = jurisdictions
+  }
+
+  const constraints: string[] = []
+  if (data.legalCustody) constraints.push(`${data.legalCustody} legal custody`)
+  if (data.physicalCustody) constraints.push(`${data.physicalCustody} physical custody`)
+  if (data.parentTimeSchedule) constraints.push(`parent-time: ${data.parentTimeSchedule}`)
+  if (Array.isArray(data.contactRestrictions) && data.contactRestrictions.some((r: string) => /supervised/i.test(r))) {
+    constraints.push('supervised parent-time')
+  }
+  if (constraints.length > 0) {
+    data.custodyConstraints = constraints
+  }
+}
+
+// Period dates as written on a P&L - numeric or "December 31, 2024"
+const STATEMENT_DATE = String.raw`(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}|[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})`
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// Amount that may be negative - "(2,500.00)" or "-2,500.00"
+function parseSignedAmount(value: string): number {
+  const amount = parseFloat(value.replace(/[^\d.]/g, ''))
+  return /^\s*(?:\(|-)/.test(value) ? -amount : amount
+}
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10)
+
+/**
+ * YYYY-MM-DD for a month name, day and year - null for an unknown month or a day the month doesn't have
+ */
+function monthDayDate(monthName: string, day: string, year: string): string | null {
+  const month = MONTH_NAMES.indexOf(monthName.slice(0, 3).toLowerCase())
+  if (month < 0) return null
+  const date = new Date(Date.UTC(Number(year), month, Number(day)))
+  return date.getUTCMonth() === month ? toIsoDate(date) : null
+}
+
+/**
+ * Statement period of a P&L as YYYY-MM-DD dates - a date range ("1/1/2024 - 6/30/2024", "January 1 - June 30, 2024",
+ * "June 1-30, 2024"), "year ended ...", "year to date through ..." or a month range; falls back to a stated yearly
+ * or monthly period when there are no dates
+ */
+function parseStatementPeriod(text: string): { periodStart: string | null; periodEnd: string | null; statedPeriod: 'yearly' | 'monthly' | null } {
+  const range = text.match(new RegExp(`${STATEMENT_DATE}\\s*(?:to|thru|through|-|–)\\s*${STATEMENT_DATE}`, 'i'))
+  if (range) {
+    const periodStart = parseCourtDate(range[1])
+    const periodEnd = parseCourtDate(range[2])
+    if (periodStart && periodEnd) return { periodStart, periodEnd, statedPeriod: null }
+  }
+
+  // "January 1 - June 30, 2024" - the year is written once, after the end date
+  const monthDayRange = text.match(
+    /\b([A-Za-z]{3,9})\.?[ \t]+(\d{1,2})(?:st|nd|rd|th)?[ \t]*(?:-|–|to|thru|through)[ \t]*([A-Za-z]{3,9})\.?[ \t]+(\d{1,2})(?:st|nd|rd|th)?,?[ \t]+(\d{4})\b/i
+  )
+  if (monthDayRange) {
+    const periodStart = monthDayDate(monthDayRange[1], monthDayRange[2], monthDayRange[5])
+    const periodEnd = monthDayDate(monthDayRange[3], monthDayRange[4], monthDayRange[5])
+    if (periodStart && periodEnd && periodStart <= periodEnd) return { periodStart, periodEnd, statedPeriod: null }
+  }
+
+  // "June 1-30, 2024" - one month
+  const dayRange = text.match(/\b([A-Za-z]{3,9})\.?[ \t]+(\d{1,2})[ \t]*(?:-|–)[ \t]*(\d{1,2}),?[ \t]+(\d{4})\b/i)
+  if (dayRange) {
+    const periodStart = monthDayDate(dayRange[1], dayRange[2], dayRange[4])
+    const periodEnd = monthDayDate(dayRange[1], dayRange[3], dayRange[4])
+    if (periodStart && periodEnd && periodStart <= periodEnd) return { periodStart, periodEnd, statedPeriod: null }
+  }
+
+  // "For the year ended December 31, 2024", "Three months ended 3/31/2024"
+  const ended = text.match(
+    new RegExp(`(year|twelve\\s+months|12\\s+months|six\\s+months|6\\s+months|quarter|three\\s+months|3\\s+months|month)\\s+end(?:ed|ing)\\s+${STATEMENT_DATE}`, 'i')
+  )
+  const endedDate = ended ? parseCourtDate(ended[2]) : null
+  if (ended && endedDate) {
+    const span = ended[1].toLowerCase()
+    const months = /year|twelve|12/.test(span) ? 12 : /six|6/.test(span) ? 6 : /quarter|three|3/.test(span) ? 3 : 1
+    const end = new Date(`${endedDate}T00:00:00Z`)
+    const isMonthEnd = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() + 1)).getUTCDate() === 1
+    const start = isMonthEnd
+      ? new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - months + 1, 1))
+      : new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - months, end.getUTCDate() + 1))
+    return { periodStart: toIsoDate(start), periodEnd: endedDate, statedPeriod: null }
+  }
+
+  // "Year to date through June 30, 2024" - runs from January 1
+  const yearToDate = text.match(new RegExp(`(?:year[\\s-]to[\\s-]date|YTD)[^\\n]{0,30}?(?:through|thru|ending|ended|as\\s+of|to)\\s+${STATEMENT_DATE}`, 'i'))
+  const yearToDateEnd = yearToDate ? parseCourtDate(yearToDate[1]) : null
+  if (yearToDateEnd) {
+    return { periodStart: `${yearToDateEnd.slice(0, 4)}-01-01`, periodEnd: yearToDateEnd, statedPeriod: null }
+  }
+
+  // "January - December 2024", "Jan through Jun 2024"
+  const monthRange = text.match(/\b([A-Za-z]{3,9})\.?\s*(?:-|–|to|thru|through)\s*([A-Za-z]{3,9})\.?,?\s+(\d{4})\b/i)
+  if (monthRange) {
+    const first = MONTH_NAMES.indexOf(monthRange[1].slice(0, 3).toLowerCase())
+    const last = MONTH_NAMES.indexOf(monthRange[2].slice(0, 3).toLowerCase())
+    const year = Number(monthRange[3])
+    if (first >= 0 && last >= first) {
+      return {
+        periodStart: toIsoDate(new Date(Date.UTC(year, first, 1))),
+        periodEnd: toIsoDate(new Date(Date.UTC(year, last + 1, 0))),
+        statedPeriod: null,
+      }
     }
   }
 
-  return data
+  const statedPeriod = /(?:YEAR\s+ENDED|FOR\s+THE\s+YEAR|ANNUAL|TWELVE\s+MONTHS|12\s+MONTHS)/i.test(text)
+    ? 'yearly'
+    : /(?:MONTH\s+ENDED|FOR\s+THE\s+MONTH|MONTHLY)/i.test(text)
+      ? 'monthly'
+      : null
+  return { periodStart: null, periodEnd: null, statedPeriod }
+}
+
+/**
+ * Expense lines between a P&L's "Expenses" heading and its total, each with its Schedule C category
+ */
+function parseProfitAndLossExpenses(text: string): BusinessExpenseLine[] {
+  const heading = text.match(/^[ \t]*(?:OPERATING[ \t]+)?EXPENSES[ \t]*:?[ \t]*$/im)
+  if (!heading || heading.index === undefined) return []
+  const section = text.slice(heading.index + heading[0].length)
+  const totalIndex = section.search(/TOTAL[ \t]+(?:OPERATING[ \t]+)?EXP/i)
+  const lines = (totalIndex >= 0 ? section.slice(0, totalIndex) : section).split('\n')
+
+  const expenseLines: BusinessExpenseLine[] = []
+  for (const line of lines) {
+    const match = line.match(/^\s*([A-Za-z][A-Za-z0-9&\/,'().\- ]*?[A-Za-z)])[\s.:]*\$?\s*(\(?-?\$?[\d,]+(?:\.\d{2})?\)?)\s*$/)
+    if (!match || /^total\b/i.test(match[1])) continue
+    const amount = parseSignedAmount(match[2])
+    if (isNaN(amount) || amount === 0) continue
+    const label = match[1].trim()
+    expenseLines.push({ label, category: categorizeBusinessExpense(label), amount })
+  }
+  return expenseLines
+}
+
+/**
+ * Annualize a P&L's net income over its statement period
+ * Without a period the income is flagged and left out rather than taken as a full year
+ * Returns false when there is no net income to convert
+ */
+function applyProfitAndLossIncome(data: Record<string, any>): boolean {
+  const statement = getSelfEmploymentStatement(data, 'profitAndLoss')
+  if (!statement) return false
+
+  if (statement.periodUnknown) {
+    delete data.selfEmploymentIncome
+    delete data.annualIncome
+    delete data.monthlyIncome
+    data.incomeIssues = [
+      'No statement period found - the net income was not added to your income. Enter your self-employment income in Financial Information.',
+    ]
+    return true
+  }
+
+  const income = computeAdjustedSelfEmploymentIncome(statement, null)
+  data.selfEmploymentIncome = income.annualNetProfit
+  data.annualIncome = income.annualNetProfit
+  data.monthlyIncome = income.adjustedMonthly
+  delete data.incomeIssues
+  return true
 }
 
 /**
  * Parse profit & loss statement
- * Extracts: Business name, revenue, expenses, net income
+ * Extracts: Business name, statement period, revenue, expense lines, total expenses, net income
  */
 function parseProfitAndLoss(text: string): Record<string, any> {
   const data: Record<string, any> = {}
@@ -1251,14 +2036,23 @@ function parseProfitAndLoss(text: string): Record<string, any> {
     data.totalExpenses = parseFloat(expensesMatch[1].replace(/,/g, ''))
   }
 
-  // Extract net income
-  const netIncomeMatch = text.match(/(?:NET\s+INCOME|NET\s+PROFIT|PROFIT)[\s:$]*\$?([\d,]+\.?\d*)/i)
+  const expenseLines = parseProfitAndLossExpenses(text)
+  if (expenseLines.length > 0) {
+    data.expenseLines = expenseLines
+  }
+
+  const period = parseStatementPeriod(text)
+  if (period.periodStart && period.periodEnd) {
+    data.periodStart = period.periodStart
+    data.periodEnd = period.periodEnd
+  } else if (period.statedPeriod) {
+    data.statedPeriod = period.statedPeriod
+  }
+
+  // Extract net income - a loss may be shown in parentheses or with a minus sign
+  const netIncomeMatch = text.match(/(?:NET\s+INCOME|NET\s+PROFIT|NET\s+LOSS|PROFIT)(?:\s*(?:\/|OR)?\s*\(?LOSS\)?)?[\s:$]*(\(?-?\$?[\d,]+\.?\d*\)?)/i)
   if (netIncomeMatch) {
-    const netIncome = parseFloat(netIncomeMatch[1].replace(/,/g, ''))
-    data.netIncome = netIncome
-    data.selfEmploymentIncome = netIncome
-    data.monthlyIncome = netIncome
-    data.annualIncome = netIncome * 12 // Assume monthly if not specified
+    data.netIncome = parseSignedAmount(netIncomeMatch[1])
   }
 
   // Extract business type
@@ -1267,63 +2061,705 @@ function parseProfitAndLoss(text: string): Record<string, any> {
     data.businessType = businessTypeMatch[1].trim()
   }
 
+  // Net income covers the statement period - spread it over a month and a year
+  applyProfitAndLossIncome(data)
+
   return data
 }
 
+// Plan types, checked in order - employer plans first, as their statements mention IRA rollovers
+const RETIREMENT_PLAN_TYPES: { planType: RetirementPlanType; pattern: RegExp }[] = [
+  { planType: '401k', pattern: /\b401\s*\(?k\)?/i },
+  { planType: '403b', pattern: /\b403\s*\(?b\)?/i },
+  { planType: '457b', pattern: /\b457\s*\(?b\)?/i },
+  { planType: 'tsp', pattern: /Thrift\s+Savings\s+Plan|\bTSP\b/i },
+  { planType: 'roth_ira', pattern: /Roth\s+IRA/i },
+  { planType: 'sep_ira', pattern: /SEP[\s-]+IRA|SIMPLE\s+IRA/i },
+  { planType: 'ira', pattern: /\bIRA\b|Individual\s+Retirement\s+(?:Account|Arrangement)/i },
+  { planType: 'pension', pattern: /Pension|Defined\s+Benefit|Accrued\s+Benefit/i },
+]
+
+const RETIREMENT_ADMINISTRATORS =
+  /\b(Fidelity(?:\s+Investments)?|Vanguard|Charles\s+Schwab|Schwab|Empower(?:\s+Retirement)?|T\.\s*Rowe\s+Price|Principal\s+Financial(?:\s+Group)?|Merrill(?:\s+Lynch)?|John\s+Hancock|TIAA|Voya(?:\s+Financial)?|Prudential|Transamerica|Ameriprise|Edward\s+Jones|Morgan\s+Stanley|E\*TRADE|Nationwide|Lincoln\s+Financial|MassMutual|Ascensus|Guideline|Betterment|Wealthfront|Utah\s+Retirement\s+Systems|Federal\s+Retirement\s+Thrift\s+Investment\s+Board)\b/i
+
+// Dollar amount after a statement label - needs cents or a thousands separator so dates aren't read as amounts
+const STATEMENT_AMOUNT = String.raw`[^\n$\d]*?\$?\s*(\d{1,3}(?:,\d{3})+(?:\.\d{2})?|\d+\.\d{2})(?![\d,])`
+
+function findStatementAmount(text: string, labelPattern: string): number | null {
+  const match = text.match(new RegExp(`(?:${labelPattern})${STATEMENT_AMOUNT}`, 'i'))
+  return match ? parseFloat(match[1].replace(/,/g, '')) : null
+}
+
 /**
- * Parse W-2 or 1099 form
+ * Parse retirement account statement (401(k), 403(b), IRA, TSP, pension)
+ * Extracts: Plan, administrator, account holder, statement period, balances, contributions, plan entry date
  */
-function parseW2Or1099(text: string): Record<string, any> {
+function parseRetirementStatement(text: string): Record<string, any> {
   const data: Record<string, any> = {}
 
-  // Extract wages
-  const wagesMatch = text.match(/(?:WAGES|COMPENSATION)[\s:$]*\$?([\d,]+\.?\d*)/i)
-  if (wagesMatch) {
-    const wages = parseFloat(wagesMatch[1].replace(/,/g, ''))
-    data.annualIncome = wages
-    data.wageIncome = wages
+  const planType = RETIREMENT_PLAN_TYPES.find((type) => type.pattern.test(text))
+  if (planType) {
+    data.planType = planType.planType
   }
 
-  // Extract employer name
-  const employerMatch = text.match(/(?:EMPLOYER'S\s+NAME|EMPLOYER)[\s:]*([A-Z][A-Z\s,&\.]+)/i)
+  const administratorMatch =
+    text.match(/(?:Plan\s+Administrator|Administrator|Custodian|Record\s*keeper)[ \t]*:[ \t]*([A-Z][A-Za-z0-9&.,' \-]{2,50})/) ||
+    text.match(RETIREMENT_ADMINISTRATORS)
+  if (administratorMatch) {
+    data.administrator = administratorMatch[1].trim()
+  }
+
+  const planNameMatch =
+    text.match(/Plan\s+Name[ \t]*:[ \t]*([A-Z][A-Za-z0-9&.,'()\- ]{2,60})/) ||
+    text.match(/^[ \t]*([A-Z][A-Za-z0-9&.,' \-]*?(?:401\s*\(?k\)?|403\s*\(?b\)?|457\s*\(?b\)?|Retirement\s+(?:Savings\s+)?Plan|Pension\s+Plan|Savings\s+Plan|Profit[- ]Sharing\s+Plan)[A-Za-z ]*?)[ \t]*$/im)
+  if (planNameMatch) {
+    const planName = planNameMatch[1].trim()
+    // "ACME CORP 401(K) PLAN" -> "Acme Corp 401(k) Plan"
+    data.planName =
+      planName === planName.toUpperCase() ? toTitleCase(planName).replace(/\((\w)\)/g, (_match, letter) => `(${letter.toLowerCase()})`) : planName
+  }
+
+  const employerMatch = text.match(/(?:Plan\s+Sponsor|Employer)[ \t]*:[ \t]*([A-Z][A-Za-z0-9&.,' \-]{2,50})/)
   if (employerMatch) {
     data.employerName = employerMatch[1].trim()
-    data.employers = [{ name: employerMatch[1].trim(), income: wages }]
   }
 
+  const holderMatch = text.match(
+    /(?:Participant(?:[ \t]+Name)?|Account[ \t]+(?:Holder|Owner)(?:[ \t]+Name)?|Prepared[ \t]+for|Member(?:[ \t]+Name)?)[ \t]*:?[ \t]*([A-Z][A-Za-z.'\-]+(?:[ \t]+[A-Z][A-Za-z.'\-]*){1,3})/
+  )
+  if (holderMatch) {
+    const name = holderMatch[1].trim()
+    data.accountHolderName = name === name.toUpperCase() ? toTitleCase(name) : name
+  }
+
+  const accountMatch = text.match(/(?:Account|Acct|Participant\s+ID|Member\s+ID)\.?[ \t]*(?:Number|No\.?|#)?[ \t]*:[ \t]*([X*x•\d\- ]{4,24})/i)
+  const accountNumberLast4 = accountMatch ? lastFourDigits(accountMatch[1].trim()) : null
+  if (accountNumberLast4) {
+    data.accountNumberLast4 = accountNumberLast4
+  }
+
+  // Statement period, or the date the balance is as of
+  const period = parseStatementPeriod(text)
+  if (period.periodStart && period.periodEnd) {
+    data.statementStartDate = period.periodStart
+    data.statementEndDate = period.periodEnd
+  } else {
+    const asOfMatch = text.match(new RegExp(`(?:as\\s+of|balance\\s+on|statement\\s+date)[ \\t]*:?[ \\t]*${STATEMENT_DATE}`, 'i'))
+    const asOf = asOfMatch ? parseCourtDate(asOfMatch[1]) : null
+    if (asOf) {
+      data.statementEndDate = asOf
+    }
+  }
+
+  const amounts: Record<string, string> = {
+    beginningBalance: String.raw`(?:Beginning|Opening|Starting|Previous)\s+(?:Account\s+)?(?:Balance|Value)`,
+    endingBalance: String.raw`(?:Ending|Closing)\s+(?:Account\s+)?(?:Balance|Value)|Total\s+Account\s+(?:Balance|Value)|Account\s+(?:Balance|Value)\s+as\s+of[^\n$]*?|Current\s+(?:Account\s+)?(?:Balance|Value)`,
+    vestedBalance: String.raw`Vested\s+(?:Account\s+)?(?:Balance|Value|Amount)`,
+    employeeContributions: String.raw`(?:Employee|Participant|Your|Elective|Salary\s+Deferral|Pre-?tax)\s+Contributions?`,
+    employerContributions: String.raw`(?:Employer|Company|Matching)\s+(?:Match(?:ing)?\s+)?Contributions?|Employer\s+Match`,
+    ytdContributions: String.raw`(?:Year[\s-]to[\s-]Date|YTD)\s+Contributions|(?:Total\s+)?Contributions\s+(?:Year[\s-]to[\s-]Date|YTD)`,
+    loanBalance: String.raw`(?:Outstanding\s+)?Loan\s+Balance`,
+    monthlyBenefit: String.raw`(?:Accrued\s+)?Monthly\s+Benefit|Accrued\s+Benefit`,
+  }
+  for (const [field, label] of Object.entries(amounts)) {
+    const amount = findStatementAmount(text, label)
+    if (amount !== null) data[field] = amount
+  }
+  // IRAs list a single contributions line
+  if (data.employeeContributions == null && data.employerContributions == null && data.planType !== 'pension') {
+    const contributions = findStatementAmount(text, String.raw`(?:^|\n)[ \t]*Contributions`)
+    if (contributions !== null) data.employeeContributions = contributions
+  }
+
+  const entryMatch = text.match(
+    new RegExp(`(?:Plan\\s+Entry\\s+Date|Date\\s+of\\s+Participation|Participation\\s+Date|Date\\s+(?:Account\\s+)?Opened|Account\\s+Opened|Enrollment\\s+Date)[ \\t]*:?[ \\t]*${STATEMENT_DATE}`, 'i')
+  )
+  const planEntryDate = entryMatch ? parseCourtDate(entryMatch[1]) : null
+  if (planEntryDate) {
+    data.planEntryDate = planEntryDate
+  }
+
+  return data
+}
+
+// Lenders and servicers named on mortgage and auto loan statements that don't label them
+const LOAN_LENDERS =
+  /\b(Rocket\s+Mortgage|Quicken\s+Loans|Mr\.\s*Cooper|Nationstar(?:\s+Mortgage)?|Wells\s+Fargo(?:\s+(?:Home\s+Mortgage|Auto))?|Chase(?:\s+(?:Home\s+Lending|Auto))?|Bank\s+of\s+America|U\.?S\.?\s+Bank|PennyMac|Freedom\s+Mortgage|Lakeview\s+Loan\s+Servicing|NewRez|Shellpoint(?:\s+Mortgage\s+Servicing)?|Flagstar(?:\s+Bank)?|loanDepot|Guild\s+Mortgage|Truist|PNC(?:\s+Bank)?|America\s+First\s+Credit\s+Union|Mountain\s+America\s+Credit\s+Union|Ally(?:\s+Financial|\s+Bank)?|Toyota\s+(?:Financial\s+Services|Motor\s+Credit)|(?:American\s+)?Honda\s+Financial\s+Services|Ford\s+(?:Motor\s+)?Credit|GM\s+Financial|Capital\s+One(?:\s+Auto\s+Finance)?|Santander\s+Consumer(?:\s+USA)?|Nissan\s+Motor\s+Acceptance(?:\s+Company)?|Hyundai\s+Motor\s+Finance|Kia\s+(?:Motors\s+)?Finance|Credit\s+Acceptance|Westlake\s+Financial)\b/i
+
+// Makes as printed on titles and loan statements, used when the year, make and model aren't labeled
+const VEHICLE_MAKES = String.raw`Acura|Audi|BMW|Buick|Cadillac|Chevrolet|Chevy|Chrysler|Dodge|Ford|GMC|Honda|Hyundai|Infiniti|Jeep|Kia|Land\s+Rover|Lexus|Lincoln|Mazda|Mercedes(?:-Benz)?|Mitsubishi|Nissan|Porsche|Ram|Subaru|Tesla|Toyota|Volkswagen|VW|Volvo`
+
+// 17-character VIN - never contains I, O or Q
+const VIN = String.raw`([A-HJ-NPR-Z0-9]{17})`
+
+/**
+ * Name after one of a document's name labels, in title case if printed in capitals
+ */
+function findLabeledName(text: string, labelPattern: string): string | null {
+  const match = text.match(new RegExp(`(?:${labelPattern})[ \\t]*:?[ \\t]*([A-Z][A-Za-z.'\\-]+(?:[ \\t]+[A-Z][A-Za-z.'\\-]*){1,3})`))
+  if (!match) return null
+  const name = match[1].trim()
+  return name === name.toUpperCase() ? toTitleCase(name) : name
+}
+
+/**
+ * Lender or servicer - labeled, or a known name anywhere on the statement
+ */
+function findLoanLender(text: string): string | null {
+  const match =
+    text.match(/(?:Lender|(?:Loan\s+)?Servicer|Lienholder|Serviced\s+by)[ \t]*:[ \t]*([A-Z][A-Za-z0-9&.,' \-]{2,50})/) || text.match(LOAN_LENDERS)
+  return match ? match[1].trim().replace(/[,.]$/, '') : null
+}
+
+/**
+ * Property address after its label, on the same line or the next, with the city/state/ZIP line if it follows
+ * e.g. "Property Address: 1234 E 500 S\nSalt Lake City, UT 84102" -> "1234 E 500 S, Salt Lake City, UT 84102"
+ */
+function findPropertyAddress(text: string): string | null {
+  const match = text.match(
+    /(?:Property\s+(?:Address|Location)|Situs(?:\s+Address)?|Location\s+of\s+Property|Collateral(?:\s+Address)?)[ \t]*:?[ \t]*\n?[ \t]*(\d+[ \t]+[A-Za-z0-9.#' \-]+?(?:,[ \t]*[A-Za-z .'\-]+?)?(?:,?[ \t]*[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?)?)[ \t]*(?:\n[ \t]*([A-Za-z .'\-]+,[ \t]*[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?))?[ \t]*(?:\n|$)/i
+  )
+  if (!match) return null
+  return [match[1].trim(), match[2]?.trim()].filter(Boolean).join(', ')
+}
+
+function findInterestRate(text: string): number | null {
+  const match = text.match(/(?:Interest\s+Rate|Annual\s+Percentage\s+Rate|\bAPR\b)[^\n\d%]*?(\d{1,2}(?:\.\d{1,4})?)[ \t]*%/i)
+  return match ? parseFloat(match[1]) : null
+}
+
+function findStatementDate(text: string): string | null {
+  const match = text.match(new RegExp(`(?:Statement\\s+Date|Statement\\s+as\\s+of|Date\\s+of\\s+Statement)[ \\t]*:?[ \\t]*${STATEMENT_DATE}`, 'i'))
+  return match ? parseCourtDate(match[1]) : null
+}
+
+/**
+ * Year, make and model - labeled fields, or a "2019 HONDA ACCORD" line
+ */
+function parseVehicleDescription(text: string): { year: number | null; make: string | null; model: string | null } {
+  const formatWord = (value: string) => (value.length > 3 && /^[A-Z ]+$/.test(value) ? toTitleCase(value) : value)
+  const yearMatch = text.match(/(?:Model\s+Year|Vehicle\s+Year|\bYear|\bYR)[ \t]*:?[ \t]*((?:19|20)\d{2})\b/i)
+  const makeMatch = text.match(/\bMake[ \t]*:?[ \t]*([A-Z][A-Za-z\-]+(?:[ \t]+Rover|-Benz)?)/i)
+  const modelMatch = text.match(/\bModel(?![ \t]+Year)[ \t]*:?[ \t]*([A-Z0-9][A-Za-z0-9\-]*(?:[ \t]+[A-Z0-9][A-Za-z0-9\-]*)?)/i)
+  if (yearMatch && makeMatch && modelMatch) {
+    return { year: Number(yearMatch[1]), make: formatWord(makeMatch[1]), model: formatWord(modelMatch[1]) }
+  }
+
+  const lineMatch = text.match(new RegExp(`\\b((?:19|20)\\d{2})[ \\t]+(${VEHICLE_MAKES})[ \\t]+([A-Z0-9][A-Za-z0-9\\-]*(?:[ \\t]+[A-Z0-9][A-Za-z0-9\\-]*)?)`, 'i'))
+  if (lineMatch) {
+    return { year: Number(lineMatch[1]), make: formatWord(lineMatch[2]), model: formatWord(lineMatch[3].split(/[ \t]+(?=VIN\b)/i)[0]) }
+  }
+  return {
+    year: yearMatch ? Number(yearMatch[1]) : null,
+    make: makeMatch ? formatWord(makeMatch[1]) : null,
+    model: modelMatch ? formatWord(modelMatch[1]) : null,
+  }
+}
+
+function findVin(text: string): string | null {
+  const match =
+    text.match(new RegExp(`(?:VIN|Vehicle\\s+Identification\\s+(?:Number|No\\.?)|Vehicle\\s+ID)[ \\t]*(?:#|No\\.?)?[ \\t]*:?[ \\t]*${VIN}\\b`, 'i')) ||
+    text.match(/\b(?=[A-HJ-NPR-Z0-9]*\d)(?=[A-HJ-NPR-Z0-9]*[A-Z])([A-HJ-NPR-Z0-9]{17})\b/)
+  return match ? match[1].toUpperCase() : null
+}
+
+/**
+ * Parse mortgage statement
+ * Extracts: Lender, borrower, loan number, property address, statement date, principal balance, payment, escrow, rate
+ */
+function parseMortgageStatement(text: string): Record<string, any> {
+  const data: Record<string, any> = {}
+
+  const lenderName = findLoanLender(text)
+  if (lenderName) data.lenderName = lenderName
+
+  const borrowerName = findLabeledName(text, String.raw`Borrower(?:\(s\))?(?:[ \t]+Name)?|Mortgagor|Prepared[ \t]+for`)
+  if (borrowerName) data.borrowerName = borrowerName
+
+  const loanMatch = text.match(/(?:Loan|Account|Acct)\.?[ \t]*(?:Number|No\.?|#)[ \t]*:?[ \t]*([X*x•\d\- ]{4,24})/i)
+  const loanNumberLast4 = loanMatch ? lastFourDigits(loanMatch[1].trim()) : null
+  if (loanNumberLast4) data.loanNumberLast4 = loanNumberLast4
+
+  const propertyAddress = findPropertyAddress(text)
+  if (propertyAddress) data.propertyAddress = propertyAddress
+
+  const statementDate = findStatementDate(text)
+  if (statementDate) data.statementDate = statementDate
+
+  const amounts: Record<string, string> = {
+    principalBalance: String.raw`(?:Outstanding\s+|Unpaid\s+|Current\s+)?Principal\s+Balance|Unpaid\s+Principal|Loan\s+Balance`,
+    monthlyPayment: String.raw`Regular\s+(?:Monthly\s+)?Payment|Monthly\s+Payment(?:\s+Amount)?|Payment\s+Amount|Current\s+Payment\s+Due`,
+    escrowBalance: String.raw`Escrow\s+(?:Account\s+)?Balance`,
+  }
+  for (const [field, label] of Object.entries(amounts)) {
+    const amount = findStatementAmount(text, label)
+    if (amount !== null) data[field] = amount
+  }
+
+  const interestRate = findInterestRate(text)
+  if (interestRate !== null) data.interestRate = interestRate
+
+  return data
+}
+
+/**
+ * Parse property tax notice or valuation notice
+ * Extracts: Owner, parcel number, property address, tax year, market and taxable values, annual tax
+ */
+function parsePropertyTaxNotice(text: string): Record<string, any> {
+  const data: Record<string, any> = {}
+
+  const ownerName = findLabeledName(text, String.raw`Owner(?:\(s\))?(?:[ \t]+(?:Name|of[ \t]+Record))?|Taxpayer(?:[ \t]+Name)?`)
+  if (ownerName) data.ownerName = ownerName
+
+  const parcelMatch = text.match(/(?:Parcel|APN|Serial)(?:\s+(?:Number|No\.?|ID|#))?[ \t]*:?[ \t]*(\d[0-9A-Z\-.]{4,24})/i)
+  if (parcelMatch) data.parcelNumber = parcelMatch[1]
+
+  const propertyAddress = findPropertyAddress(text)
+  if (propertyAddress) data.propertyAddress = propertyAddress
+
+  const taxYearMatch = text.match(
+    /Tax\s+Year[ \t]*:?[ \t]*((?:19|20)\d{2})|\b((?:19|20)\d{2})\s+(?:Property\s+Tax(?:es)?|Notice\s+of\s+(?:Property|Valuation)|Tax\s+(?:Notice|Bill|Statement))\b/i
+  )
+  if (taxYearMatch) data.taxYear = Number(taxYearMatch[1] || taxYearMatch[2])
+
+  const amounts: Record<string, string> = {
+    marketValue: String.raw`(?:Total\s+)?(?:Fair\s+)?(?:Market|Appraised)\s+Value`,
+    assessedValue: String.raw`(?:Total\s+)?(?:Taxable|Assessed)\s+Value`,
+    taxAmount: String.raw`(?:Total\s+)?(?:Property\s+)?Tax(?:es)?\s+(?:Due|Amount|Charged|Levied)|Total\s+(?:Property\s+)?Tax(?:es)?|Net\s+Tax(?:es)?`,
+  }
+  for (const [field, label] of Object.entries(amounts)) {
+    const amount = findStatementAmount(text, label)
+    if (amount !== null) data[field] = amount
+  }
+
+  return data
+}
+
+/**
+ * Parse vehicle certificate of title
+ * Extracts: VIN, year, make, model, owners, title number, issue date, lienholder
+ */
+function parseVehicleTitle(text: string): Record<string, any> {
+  const data: Record<string, any> = {}
+
+  const vin = findVin(text)
+  if (vin) data.vin = vin
+
+  const vehicle = parseVehicleDescription(text)
+  if (vehicle.year) data.year = vehicle.year
+  if (vehicle.make) data.make = vehicle.make
+  if (vehicle.model) data.model = vehicle.model
+
+  // "JOHN A DOE AND JANE DOE" or "JOHN A DOE OR JANE DOE"
+  const ownerMatch = text.match(
+    /(?:Registered\s+Owner(?:\(s\)|s)?|Owner(?:\(s\)|s)?(?:\s+Name)?)[ \t]*:?[ \t]*([A-Z][A-Za-z.'\-]+(?:[ \t]+[A-Z][A-Za-z.'\-]*)*?(?:[ \t]+(?:AND|OR|&)[ \t]+[A-Z][A-Za-z.'\-]+(?:[ \t]+[A-Z][A-Za-z.'\-]*)*)?)[ \t]*(?:\n|$)/
+  )
+  if (ownerMatch) {
+    const owners = ownerMatch[1]
+      .split(/[ \t]+(?:AND|OR|&)[ \t]+/i)
+      .map((name) => (name === name.toUpperCase() ? toTitleCase(name.trim()) : name.trim()))
+      .filter(Boolean)
+    if (owners.length > 0) data.ownerNames = owners
+  }
+
+  const titleMatch = text.match(/Title\s+(?:Number|No\.?|#)[ \t]*:?[ \t]*([A-Z0-9][A-Z0-9\-]{4,19})/i)
+  if (titleMatch) data.titleNumber = titleMatch[1]
+
+  const issueMatch = text.match(new RegExp(`(?:Issue(?:d)?\\s+Date|Date\\s+(?:of\\s+)?Issue|Date\\s+Issued|Title\\s+Date)[ \\t]*:?[ \\t]*${STATEMENT_DATE}`, 'i'))
+  const issueDate = issueMatch ? parseCourtDate(issueMatch[1]) : null
+  if (issueDate) data.issueDate = issueDate
+
+  const lienMatch = text.match(/(?:First\s+)?Lien\s*holder(?:\s+Name)?[ \t]*:?[ \t]*([A-Z][A-Za-z0-9&.,' \-]{2,50})/i)
+  if (lienMatch && !/^none\b/i.test(lienMatch[1].trim())) {
+    data.lienholderName = lienMatch[1].trim().replace(/[,.]$/, '')
+  }
+
+  return data
+}
+
+/**
+ * Parse auto loan statement
+ * Extracts: Lender, borrower, account number, VIN, vehicle, statement date, payoff balance, payment, APR
+ */
+function parseAutoLoanStatement(text: string): Record<string, any> {
+  const data: Record<string, any> = {}
+
+  const lenderName = findLoanLender(text)
+  if (lenderName) data.lenderName = lenderName
+
+  const borrowerName = findLabeledName(text, String.raw`Borrower(?:\(s\))?(?:[ \t]+Name)?|Account[ \t]+Holder|Customer(?:[ \t]+Name)?|Prepared[ \t]+for`)
+  if (borrowerName) data.borrowerName = borrowerName
+
+  const accountMatch = text.match(/(?:Account|Acct|Loan|Contract)\.?[ \t]*(?:Number|No\.?|#)[ \t]*:?[ \t]*([X*x•\d\- ]{4,24})/i)
+  const accountNumberLast4 = accountMatch ? lastFourDigits(accountMatch[1].trim()) : null
+  if (accountNumberLast4) data.accountNumberLast4 = accountNumberLast4
+
+  const vin = findVin(text)
+  if (vin) data.vin = vin
+
+  const vehicle = parseVehicleDescription(text)
+  if (vehicle.make && vehicle.model) {
+    data.vehicleDescription = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ')
+  }
+
+  const statementDate = findStatementDate(text)
+  if (statementDate) data.statementDate = statementDate
+
+  const amounts: Record<string, string> = {
+    principalBalance: String.raw`(?:Estimated\s+)?Payoff\s+(?:Amount|Balance)|(?:Outstanding\s+|Unpaid\s+|Current\s+)?Principal\s+Balance|(?:Current\s+)?Loan\s+Balance`,
+    monthlyPayment: String.raw`(?:Regular\s+|Monthly\s+)?Payment\s+Amount|Monthly\s+Payment|Regular\s+Payment`,
+  }
+  for (const [field, label] of Object.entries(amounts)) {
+    const amount = findStatementAmount(text, label)
+    if (amount !== null) data[field] = amount
+  }
+
+  const interestRate = findInterestRate(text)
+  if (interestRate !== null) data.interestRate = interestRate
+
+  return data
+}
+
+// Box amount after a form label - needs cents or a thousands separator, so a tax year ("2023") or the next box's
+// number is never read as a value
+const FORM_BOX_AMOUNT = String.raw`[\s:$]*\$?(\d{1,3}(?:,\d{3})+(?:\.\d{2})?|\d+\.\d{2})(?![\d,])`
+
+/**
+ * Label of a numbered form box - "1 Nonemployee compensation" or "Box 1 Nonemployee compensation",
+ * so the form title or instructions using the same words don't match
+ */
+const formBox = (number: string, label: string): RegExp =>
+  new RegExp(String.raw`(?:\bbox\s*)?(?<![\w.,$])(?:${number})\.?\s+${label}`, 'i')
+
+const W2_BOXES: Record<string, RegExp> = {
+  wages: formBox('1', String.raw`Wages,?\s+tips,?\s+other\s+comp(?:ensation|\.)?`),
+  federalTaxWithheld: formBox('2', String.raw`Federal\s+income\s+tax\s+withheld`),
+  socialSecurityWages: formBox('3', String.raw`Social\s+security\s+wages`),
+  socialSecurityTaxWithheld: formBox('4', String.raw`Social\s+security\s+tax\s+withheld`),
+  medicareWages: formBox('5', String.raw`Medicare\s+wages(?:\s+and\s+tips)?`),
+  medicareTaxWithheld: formBox('6', String.raw`Medicare\s+tax\s+withheld`),
+  socialSecurityTips: formBox('7', String.raw`Social\s+security\s+tips`),
+  allocatedTips: formBox('8', String.raw`Allocated\s+tips`),
+  dependentCareBenefits: formBox('10', String.raw`Dependent\s+care\s+benefits`),
+  nonqualifiedPlans: formBox('11', String.raw`Nonqualified\s+plans`),
+  stateWages: formBox('16', String.raw`State\s+wages,?\s+tips,?\s+etc\.?`),
+  stateIncomeTax: formBox('17', String.raw`State\s+income\s+tax`),
+}
+
+// Only the variant's own boxes are read - "Other income" or "Rents" elsewhere on a 1099-INT are not income
+const FORM_1099_BOXES: Record<Form1099Variant, Record<string, RegExp>> = {
+  NEC: { nonemployeeCompensation: formBox('1', String.raw`Nonemployee\s+compensation`) },
+  MISC: {
+    rents: formBox('1', String.raw`Rents\b`),
+    royalties: formBox('2', String.raw`Royalties\b`),
+    otherIncome: formBox('3', String.raw`Other\s+income\b`),
+  },
+  INT: { interestIncome: formBox('1', String.raw`Interest\s+income`) },
+  DIV: {
+    ordinaryDividends: formBox('1a', String.raw`Total\s+ordinary\s+dividends`),
+    qualifiedDividends: formBox('1b', String.raw`Qualified\s+dividends`),
+    capitalGainDistributions: formBox('2a', String.raw`Total\s+capital\s+gain\s+distr(?:ibutions|\.)?`),
+  },
+  R: {
+    grossDistribution: formBox('1', String.raw`Gross\s+distribution`),
+    taxableAmount: formBox('2a', String.raw`Taxable\s+amount(?!\s+not)`),
+  },
+}
+
+// Withholding boxes - box 4 on every variant; the state box is 5 (NEC), 14 (R), 16 (MISC, DIV) or 17 (INT)
+const FORM_1099_WITHHOLDING_BOXES: Record<string, RegExp> = {
+  federalTaxWithheld: formBox('4', String.raw`Federal\s+income\s+tax\s+withheld`),
+  stateTaxWithheld: formBox('5|14|16|17', String.raw`State\s+(?:income\s+)?tax\s+withheld`),
+}
+
+const FORM_1099_TITLES: Array<[Form1099Variant, RegExp]> = [
+  ['NEC', /Nonemployee\s+Compensation/i],
+  ['MISC', /Miscellaneous\s+(?:Information|Income)/i],
+  ['INT', /Interest\s+Income/i],
+  ['DIV', /Dividends\s+and\s+Distributions/i],
+  ['R', /Distributions\s+From\s+Pensions/i],
+]
+
+/**
+ * Read each labelled box amount into data, from the PDF layout when it has the label
+ */
+function parseFormBoxes(
+  text: string,
+  layout: DocumentLayout | undefined,
+  boxes: Record<string, RegExp>,
+  data: Record<string, any>
+): void {
+  Object.entries(boxes).forEach(([key, labelPattern]) => {
+    const match = text.match(new RegExp(labelPattern.source + FORM_BOX_AMOUNT, 'i'))
+    const amount = layoutAmountOr(layout, labelPattern, match)
+    if (amount !== null && amount >= 0 && amount < 10000000) {
+      data[key] = amount
+    }
+  })
+}
+
+/**
+ * Last 4 digits of an SSN, EIN or TIN - the full number is never kept
+ */
+function lastFourDigits(value: string): string | null {
+  const digits = value.replace(/\D/g, '')
+  return digits.length >= 4 && /\d$/.test(value) ? digits.slice(-4) : null
+}
+
+/**
+ * Tax year printed on a W-2 or 1099
+ */
+function parseFormTaxYear(text: string): number | null {
+  const yearMatch =
+    text.match(/(?:Wage\s+and\s+Tax\s+Statement|calendar\s+year|tax\s+year)\s*(20\d{2})\b/i) || text.match(/\b(20\d{2})\b/)
+  return yearMatch ? parseInt(yearMatch[1], 10) : null
+}
+
+/**
+ * Box 13 checkbox - true when marked, false when the label is there unmarked, null when not found
+ */
+function parseFormCheckbox(text: string, labelPattern: RegExp): boolean | null {
+  const match = text.match(new RegExp(labelPattern.source + String.raw`\s*(\[?\s*[X✓✔☒]\s*\]?(?=\s|$))?`, 'i'))
+  if (!match) return null
+  return Boolean(match[1])
+}
+
+/**
+ * Parse Form W-2 (Wage and Tax Statement)
+ * Extracts: Employee and employer identity, boxes 1-17
+ */
+function parseW2(text: string, layout?: DocumentLayout): Record<string, any> {
+  const data: Record<string, any> = {}
+
+  data.taxYear = parseFormTaxYear(text)
+
+  const ssnMatch = text.match(/Employee's\s+social\s+security\s+(?:number|no\.?)[\s:]*([\dX*]{3}-?[\dX*]{2}-?[\dX*]{4})/i)
+  if (ssnMatch) {
+    data.employeeSsnLast4 = lastFourDigits(ssnMatch[1])
+  }
+  const einMatch = text.match(/Employer\s+identification\s+(?:number|no\.?)(?:\s*\(EIN\))?[\s:]*([\dX*]{2}-?[\dX*]{7})/i)
+  if (einMatch) {
+    data.employerEinLast4 = lastFourDigits(einMatch[1])
+  }
+
+  const employeeMatch = text.match(
+    /Employee's (?:first )?name(?:,? and (?:middle )?initial)?(?:\s+Last name)?(?:\s+Suff\.?)?[\s:]*([A-Z][A-Za-z'\-]+(?:\s+[A-Z]\.?)?(?:\s+[A-Z][A-Za-z'\-]+)+)/
+  )
+  if (employeeMatch) {
+    data.employeeFullName = employeeMatch[1].trim()
+  }
+
+  // Box c - name on the first line, address on the following lines through the ZIP code
+  const employerBlockMatch = text.match(/Employer's name,? address,? and ZIP code[ \t:]*\n?([\s\S]*?\b\d{5}(?:-\d{4})?)\b/i)
+  if (employerBlockMatch) {
+    const lines = employerBlockMatch[1]
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+    if (lines.length > 1) {
+      data.employerName = lines[0]
+      data.employerAddress = lines.slice(1).join(', ')
+    }
+  }
+  if (!data.employerName) {
+    const employerNameMatch = text.match(
+      /Employer's name(?:,? address,? and ZIP code)?[\s:]*([A-Z][A-Z0-9&,.'\-]*(?:[ \t]+[A-Z&][A-Z0-9&,.'\-]*)*)/
+    )
+    if (employerNameMatch) {
+      data.employerName = employerNameMatch[1].trim()
+    }
+  }
+
+  parseFormBoxes(text, layout, W2_BOXES, data)
+
+  // Box 12 - code and amount, e.g. "12a D 2,000.00"
+  const box12: Array<{ code: string; amount: number | null }> = []
+  const box12Pattern = /\b12[a-d][\s:]+(?:See instructions for box 12\s+)?(?:Code\s+)?([A-HJ-NP-Z]{1,2})\s+\$?([\d,]+\.\d{2}|\d[\d,]{2,})/g
+  let box12Match: RegExpExecArray | null
+  while ((box12Match = box12Pattern.exec(text)) !== null) {
+    box12.push({ code: box12Match[1], amount: parseFloat(box12Match[2].replace(/,/g, '')) })
+  }
+  if (box12.length > 0) {
+    data.box12 = box12
+  }
+
+  data.statutoryEmployee = parseFormCheckbox(text, /Statutory\s+employee/)
+  data.retirementPlan = parseFormCheckbox(text, /Retirement\s+plan/)
+  data.thirdPartySickPay = parseFormCheckbox(text, /Third-?\s*party\s+sick\s+pay/)
+
+  const box14Match = text.match(/\b14\s+Other[ \t:]*([^\n]*?)(?=\s+15\s+State|\n|$)/i)
+  if (box14Match && box14Match[1].trim()) {
+    data.box14Other = box14Match[1].trim()
+  }
+
+  const stateMatch = text.match(/\b15\s+State\s+(?:Employer's state ID (?:number|no\.?)\s+)?([A-Z]{2})\b/)
+  if (stateMatch) {
+    data.state = stateMatch[1]
+  }
+
+  applyTaxFormIncome(data, 'w2')
+  return data
+}
+
+/**
+ * Parse Form 1099 (NEC, MISC, INT, DIV or R)
+ * Extracts: Variant, payer and recipient identity, the variant's income boxes, withholding
+ */
+function parse1099(text: string, layout?: DocumentLayout): Record<string, any> {
+  const data: Record<string, any> = {}
+
+  const variantMatch = text.match(/\b1099-?\s*(NEC|MISC|INT|DIV|R)\b/i)
+  const variant: Form1099Variant | null = variantMatch
+    ? (variantMatch[1].toUpperCase() as Form1099Variant)
+    : FORM_1099_TITLES.find(([, titlePattern]) => titlePattern.test(text))?.[0] ?? null
+  data.formVariant = variant
+  data.taxYear = parseFormTaxYear(text)
+
+  const payerNameMatch = text.match(
+    /PAYER'S name,? street address[^\n]*?(?:telephone (?:no\.|number))?[\s:]*([A-Z][A-Z0-9&,.'\-]*(?:[ \t]+[A-Z&][A-Z0-9&,.'\-]*)*)/
+  )
+  if (payerNameMatch) {
+    data.payerName = payerNameMatch[1].trim()
+  }
+  const payerTinMatch = text.match(/PAYER'S\s+(?:TIN|federal identification number)[\s:]*([\dX*]{2,3}-?[\dX*]{2,3}-?[\dX*]{4})/i)
+  if (payerTinMatch) {
+    data.payerTinLast4 = lastFourDigits(payerTinMatch[1])
+  }
+  const recipientTinMatch = text.match(
+    /RECIPIENT'S\s+(?:TIN|identification number)[\s:]*([\dX*]{2,3}-?[\dX*]{2,3}-?[\dX*]{4})/i
+  )
+  if (recipientTinMatch) {
+    data.recipientTinLast4 = lastFourDigits(recipientTinMatch[1])
+  }
+  const recipientNameMatch = text.match(/RECIPIENT'S name[\s:]*([A-Z][A-Za-z'\-]+(?:\s+[A-Z]\.?)?(?:\s+[A-Z][A-Za-z'\-]+)+)/)
+  if (recipientNameMatch) {
+    data.recipientName = recipientNameMatch[1].trim()
+  }
+
+  if (variant) {
+    parseFormBoxes(text, layout, FORM_1099_BOXES[variant], data)
+  }
+  parseFormBoxes(text, layout, FORM_1099_WITHHOLDING_BOXES, data)
+
+  if (variant === 'R') {
+    const codeMatch = text.match(/Distribution\s+code\(s\)\s+(?:IRA\/\s*SEP\/\s*SIMPLE\s+)?([1-9A-Z]{1,2})\b/)
+    if (codeMatch) {
+      data.distributionCode = codeMatch[1]
+    }
+  }
+  const stateMatch = text.match(/State\/Payer's state (?:no\.|number)\s+([A-Z]{2})\b/)
+  if (stateMatch) {
+    data.state = stateMatch[1]
+  }
+
+  applyTaxFormIncome(data, '1099')
   return data
 }
 
+/**
+ * Map W-2 and 1099 boxes to the income columns and employer list
+ * W-2 box 1 is wages; 1099-NEC is self-employment; MISC rents are rental; INT and DIV are investment; 1099-R is other income
+ */
+function applyTaxFormIncome(data: Record<string, any>, documentType: 'w2' | '1099'): void {
+  const amount = (value: any): number | null =>
+    value != null && value !== '' && !isNaN(Number(value)) ? Number(value) : null
+
+  if (documentType === 'w2') {
+    const wages = amount(data.wages)
+    if (wages === null) return
+    data.wageIncome = wages
+    data.annualIncome = wages
+    data.monthlyIncome = Math.round((wages / 12) * 100) / 100
+    if (data.employerName) {
+      data.employers = [{ name: data.employerName, income: wages, incomeType: 'wage' }]
+    }
+    return
+  }
+
+  const payer = (income: number | null, incomeType: 'self_employment' | 'other') => {
+    if (data.payerName && income !== null && income > 0) {
+      data.employers = [{ name: data.payerName, income, incomeType }]
+    }
+  }
+  switch (data.formVariant as Form1099Variant | null) {
+    case 'NEC': {
+      const compensation = amount(data.nonemployeeCompensation)
+      if (compensation !== null) {
+        data.selfEmploymentIncome = compensation
+      }
+      payer(compensation, 'self_employment')
+      break
+    }
+    case 'MISC': {
+      const rents = amount(data.rents)
+      if (rents !== null) {
+        data.rentalIncome = rents
+      }
+      const other = (amount(data.royalties) ?? 0) + (amount(data.otherIncome) ?? 0)
+      payer(other > 0 ? other : null, 'other')
+      break
+    }
+    case 'INT': {
+      const interest = amount(data.interestIncome)
+      if (interest !== null) {
+        data.investmentIncome = interest
+      }
+      break
+    }
+    case 'DIV': {
+      const dividends = amount(data.ordinaryDividends)
+      const gains = amount(data.capitalGainDistributions)
+      if (dividends !== null || gains !== null) {
+        data.investmentIncome = (dividends ?? 0) + (gains ?? 0)
+      }
+      break
+    }
+    case 'R':
+      // Box 2a is often blank ("taxable amount not determined") - fall back to the gross distribution
+      payer(amount(data.taxableAmount) ?? amount(data.grossDistribution), 'other')
+      break
+  }
+}
+
 /**
  * Process document: extract text and parse it
  */
 export async function processDocument(
-  file: File,
+  file: File | File[],
   documentType: string,
   onProgress?: (progress: number) => void
 ): Promise<ProcessedDocument> {
+  // Several files are processed as one document, in the order given
+  const files = Array.isArray(file) ? file : [file]
   try {
     logger.debug('Starting document processing', {
-      fileName: file.name,
-      fileType: file.type,
-      fileSize: file.size,
+      fileNames: files.map((f) => f.name),
+      fileTypes: files.map((f) => f.type),
+      fileSize: files.reduce((total, f) => total + f.size, 0),
       documentType,
     })
 
     // Extract text
-    const ocrResult = await extractTextFromFile(file, (progress) => {
+    const ocrResult = await extractTextFromFiles(files, (progress) => {
       if (onProgress) {
         onProgress(progress * 0.8) // 80% for OCR
       }
     })
 
-    if (!ocrResult.success) {
+    // The barcode on the back of a license is more reliable than OCR of the front
+    const barcode = documentType === 'driversLicense' ? await decodeLicenseBarcode(files) : null
+    const barcodeData = barcode?.data ?? null
+    const notice = barcode && barcode.status !== 'decoded' ? LICENSE_BARCODE_NOTICES[barcode.status] : undefined
+
+    if (!ocrResult.success && !barcodeData) {
       logger.error('OCR extraction failed', { error: ocrResult.error })
       return {
         success: false,
         documentType,
         extractedData: {},
         rawText: '',
+        extractionMethod: 'regex',
         error: ocrResult.error,
       }
     }
@@ -1338,11 +2774,20 @@ export async function processDocument(
     }
 
     logger.debug('Parsing document text', { documentType })
-    let extractedData = parseDocumentText(ocrResult.text, documentType)
+    let extractedData = parseDocumentText(ocrResult.text, documentType, ocrResult.layout)
+
+    // Barcode fields take precedence over the OCR ones
+    if (barcodeData) {
+      extractedData = {
+        ...extractedData,
+        ...barcodeData,
+        rawText: extractedData.rawText,
+      }
+    }
 
     // Check if we should use Gemini fallback
-    const useGemini = shouldUseGemini(extractedData, documentType)
-    let extractionMethod = 'regex'
+    const useGemini = !barcodeData && shouldUseGemini(extractedData, documentType)
+    let extractionMethod: ExtractionMethod = barcodeData ? 'barcode' : 'regex'
 
     if (useGemini) {
       try {
@@ -1361,6 +2806,26 @@ export async function processDocument(
           rawText: extractedData.rawText, // Preserve rawText
         }
 
+        // Gemini's period gross replaces the regex figures
+        if (documentType === 'payStub') {
+          applyPayStubIncome(extractedData)
+        }
+        // Gemini's transaction list replaces the regex one
+        if (documentType === 'bankStatement') {
+          applyBankTransactions(extractedData)
+        }
+        // Gemini's box values replace the regex income figures
+        if (documentType === 'w2' || documentType === '1099') {
+          applyTaxFormIncome(extractedData, documentType)
+        }
+        if (documentType === 'priorCourtOrder') {
+          applyPriorOrderDetails(extractedData)
+        }
+        // Gemini's period dates and net income replace the regex figures
+        if (documentType === 'profitAndLoss') {
+          applyProfitAndLossIncome(extractedData)
+        }
+
         extractionMethod = 'gemini'
         logger.debug('Gemini extraction complete', {
           extractedKeys: Object.keys(extractedData).filter(k => k !== 'rawText').length,
@@ -1389,6 +2854,8 @@ export async function processDocument(
       documentType,
       extractedData,
       rawText: ocrResult.text,
+      extractionMethod,
+      notice,
     }
   } catch (error: any) {
     logger.error('Document processing error', {
@@ -1400,6 +2867,7 @@ export async function processDocument(
       documentType,
       extractedData: {},
       rawText: '',
+      extractionMethod: 'regex',
       error: error.message || 'Processing failed',
     }
   }
@@ -0,0 +1,201 @@
+/**
+ * Packet Service - Fills the Utah divorce forms from normalized data and merges them into one PDF
+ */
+
+import { PDFDocument, PDFCheckBox, PDFDropdown, PDFRadioGroup, PDFTextField, StandardFonts, rgb } from 'pdf-lib'
+import type { PDFFont, PDFPage } from 'pdf-lib'
+import { logger } from '../utils/logger'
+import { formatMyCaseValue } from './mycaseFieldMap'
+import { FORM_TEMPLATES, getValueAtPath } from './formTemplates'
+import type { FormTemplate, FormTemplateId, FormFieldMapping, PacketData } from './formTemplates'
+
+export interface PacketFormResult {
+  id: FormTemplateId
+  title: string
+  usedTemplate: boolean // false when a summary page stood in for a missing template PDF
+  courtReady: boolean // Court PDF with verified field names, all of them found - otherwise stamped not court-ready
+  filledFields: number
+  missingFields: string[] // Mapped field names the template PDF doesn't have
+}
+
+export interface FormPacket {
+  bytes: Uint8Array
+  forms: PacketFormResult[]
+}
+
+// Summary page layout (US Letter, points)
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const LINE_HEIGHT = 16
+const BANNER_HEIGHT = 24
+
+const NOT_COURT_READY = 'NOT COURT-READY - DO NOT FILE'
+
+// The standard PDF fonts only cover Latin-1
+const toPdfText = (value: string | number) => String(value).replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+/**
+ * Value for one mapped field, formatted for the form
+ */
+export function getFieldValue(data: PacketData, mapping: FormFieldMapping): string | number | null {
+  const raw = mapping.value ? mapping.value(data) : mapping.path ? getValueAtPath(data, mapping.path) : null
+  return formatMyCaseValue(raw, mapping.format || 'text')
+}
+
+/**
+ * Forms that apply to this case, in packet order
+ */
+export function getPacketTemplates(data: PacketData): FormTemplate[] {
+  return FORM_TEMPLATES.filter((template) => !template.include || template.include(data))
+}
+
+async function loadTemplatePdf(template: FormTemplate): Promise<PDFDocument | null> {
+  try {
+    const response = await fetch(template.file)
+    const contentType = response.headers.get('content-type') || ''
+    // The dev server answers unknown paths with index.html
+    if (!response.ok || contentType.includes('text/html')) return null
+    return await PDFDocument.load(await response.arrayBuffer())
+  } catch (error) {
+    logger.warn('Could not load form template', { id: template.id, error })
+    return null
+  }
+}
+
+/**
+ * Fill a template's AcroForm fields, then flatten so the values print as part of the page
+ */
+function fillTemplate(pdf: PDFDocument, template: FormTemplate, data: PacketData): Omit<PacketFormResult, 'id' | 'title'> {
+  const form = pdf.getForm()
+  const fieldNames = new Set(form.getFields().map((field) => field.getName()))
+  const missingFields: string[] = []
+  let filledFields = 0
+
+  template.fields.forEach((mapping) => {
+    if (!fieldNames.has(mapping.field)) {
+      missingFields.push(mapping.field)
+      return
+    }
+    const value = getFieldValue(data, mapping)
+    if (value === null) return
+
+    const field = form.getField(mapping.field)
+    const text = toPdfText(value)
+    if (field instanceof PDFTextField) {
+      field.setText(text)
+    } else if (field instanceof PDFCheckBox) {
+      if (text === 'Yes') field.check()
+      else field.uncheck()
+    } else if (field instanceof PDFDropdown || field instanceof PDFRadioGroup) {
+      const option = field.getOptions().find((o) => o.toLowerCase() === text.toLowerCase())
+      if (!option) return
+      field.select(option)
+    } else {
+      return
+    }
+    filledFields++
+  })
+
+  if (missingFields.length > 0) {
+    logger.warn('Form template is missing mapped fields', { id: template.id, missingFields })
+  }
+  form.flatten()
+  return { usedTemplate: true, courtReady: template.fieldsVerified && missingFields.length === 0, filledFields, missingFields }
+}
+
+/**
+ * Red banner across the top of a page that must not be filed
+ */
+function stampNotCourtReady(page: PDFPage, font: PDFFont): void {
+  const { width, height } = page.getSize()
+  page.drawRectangle({ x: 0, y: height - BANNER_HEIGHT, width, height: BANNER_HEIGHT, color: rgb(0.75, 0.1, 0.1) })
+  page.drawText(NOT_COURT_READY, { x: MARGIN, y: height - BANNER_HEIGHT + 8, size: 11, font, color: rgb(1, 1, 1) })
+}
+
+/**
+ * Summary pages listing each mapped value, used when the blank court PDF isn't installed
+ */
+function addSummaryPages(
+  packet: PDFDocument,
+  template: FormTemplate,
+  data: PacketData,
+  fonts: { regular: PDFFont; bold: PDFFont }
+): Omit<PacketFormResult, 'id' | 'title'> {
+  const addPage = () => {
+    const added = packet.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    stampNotCourtReady(added, fonts.bold)
+    return added
+  }
+  let page = addPage()
+  let y = PAGE_HEIGHT - MARGIN - BANNER_HEIGHT
+
+  page.drawText(toPdfText(template.title), { x: MARGIN, y, size: 16, font: fonts.bold })
+  y -= LINE_HEIGHT * 1.5
+  page.drawText('This is not the court form - copy these values onto the official form from utcourts.gov.', {
+    x: MARGIN,
+    y,
+    size: 10,
+    font: fonts.regular,
+    color: rgb(0.4, 0.4, 0.4),
+  })
+  y -= LINE_HEIGHT * 2
+
+  let filledFields = 0
+  template.fields.forEach((mapping) => {
+    const value = getFieldValue(data, mapping)
+    if (value !== null) filledFields++
+
+    if (y < MARGIN) {
+      page = addPage()
+      y = PAGE_HEIGHT - MARGIN - BANNER_HEIGHT
+    }
+    page.drawText(`${mapping.label}:`, { x: MARGIN, y, size: 10, font: fonts.bold })
+    page.drawText(value === null ? '-' : toPdfText(value), { x: MARGIN + 230, y, size: 10, font: fonts.regular })
+    y -= LINE_HEIGHT
+  })
+
+  return { usedTemplate: false, courtReady: false, filledFields, missingFields: [] }
+}
+
+/**
+ * Build the court packet: each applicable form filled from the data, merged in order
+ */
+export async function generateFormPacket(data: PacketData): Promise<FormPacket> {
+  const packet = await PDFDocument.create()
+  packet.setTitle('Divorce Forms Packet')
+  const fonts = {
+    regular: await packet.embedFont(StandardFonts.Helvetica),
+    bold: await packet.embedFont(StandardFonts.HelveticaBold),
+  }
+
+  const forms: PacketFormResult[] = []
+  for (const template of getPacketTemplates(data)) {
+    const templatePdf = await loadTemplatePdf(template)
+    if (templatePdf) {
+      const result = fillTemplate(templatePdf, template, data)
+      const pages = await packet.copyPages(templatePdf, templatePdf.getPageIndices())
+      pages.forEach((page) => {
+        // A court PDF filled through placeholder or missing field names is incomplete
+        if (!result.courtReady) stampNotCourtReady(page, fonts.bold)
+        packet.addPage(page)
+      })
+      forms.push({ id: template.id, title: template.title, ...result })
+    } else {
+      forms.push({ id: template.id, title: template.title, ...addSummaryPages(packet, template, data, fonts) })
+    }
+  }
+
+  logger.debug('Generated form packet', {
+    forms: forms.map((f) => ({ id: f.id, usedTemplate: f.usedTemplate, courtReady: f.courtReady })),
+  })
+  return { bytes: await packet.save(), forms }
+}
+
+/**
+ * AcroForm field names in a template PDF - for writing its mapping in formTemplates.ts
+ */
+export async function listTemplateFields(template: FormTemplate): Promise<string[]> {
+  const pdf = await loadTemplatePdf(template)
+  return pdf ? pdf.getForm().getFields().map((field) => field.getName()) : []
+}
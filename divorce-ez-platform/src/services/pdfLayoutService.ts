@@ -0,0 +1,183 @@
+/**
+ * PDF Layout Service - Rebuilds lines, columns and label/value pairs from PDF.js text items
+ */
+
+// Minimal shape of a PDF.js TextItem (transform is [scaleX, skewX, skewY, scaleY, x, y])
+export interface PdfTextItem {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+}
+
+export interface LayoutCell {
+  text: string
+  x: number
+  width: number
+}
+
+export interface LayoutLine {
+  page: number
+  y: number
+  cells: LayoutCell[]
+  text: string
+}
+
+export interface LabelValuePair {
+  label: string
+  value: string
+  page: number
+}
+
+export interface DocumentLayout {
+  lines: LayoutLine[]
+  pairs: LabelValuePair[]
+  text: string
+}
+
+// Items within half a line height of each other share a line
+const SAME_LINE_TOLERANCE = 0.5
+// A horizontal gap wider than this many font heights starts a new column
+const COLUMN_GAP = 1.2
+// Gaps wider than this many font heights get a space between words
+const WORD_GAP = 0.15
+// Cells on a line are joined with a wide gap so regexes can still see the column break
+const COLUMN_SEPARATOR = '   '
+
+const AMOUNT_PATTERN = /^\(?-?\$?\s*-?[\d,]*\d(?:\.\d+)?\.?\)?$/
+const DATE_PATTERN = /^\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}$/
+// Form line references such as "1", "2b" or "11" sitting between a label and its amount
+const LINE_REFERENCE_PATTERN = /^\d{1,2}[a-z]?$/i
+
+const isValueCell = (text: string) => AMOUNT_PATTERN.test(text) || DATE_PATTERN.test(text)
+const isLabelCell = (text: string) => /[a-z]{2,}/i.test(text) && !isValueCell(text)
+
+/**
+ * Group one page's text items into lines (top to bottom) of column cells (left to right)
+ */
+export function buildPageLayout(items: PdfTextItem[], pageNumber: number): LayoutLine[] {
+  const positioned = items
+    .filter((item) => item.str.trim().length > 0)
+    .map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]) || 10,
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+
+  const rows: Array<{ y: number; height: number; items: typeof positioned }> = []
+  positioned.forEach((item) => {
+    const row = rows.find((r) => Math.abs(r.y - item.y) <= Math.max(r.height, item.height) * SAME_LINE_TOLERANCE)
+    if (row) {
+      row.items.push(item)
+    } else {
+      rows.push({ y: item.y, height: item.height, items: [item] })
+    }
+  })
+
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map((row) => {
+      const cells: LayoutCell[] = []
+      row.items
+        .sort((a, b) => a.x - b.x)
+        .forEach((item) => {
+          const last = cells[cells.length - 1]
+          const gap = last ? item.x - (last.x + last.width) : Infinity
+          if (last && gap < item.height * COLUMN_GAP) {
+            last.text += (gap > item.height * WORD_GAP ? ' ' : '') + item.text
+            last.width = item.x + item.width - last.x
+          } else {
+            cells.push({ text: item.text, x: item.x, width: item.width })
+          }
+        })
+
+      const trimmed = cells
+        .map((cell) => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }))
+        .filter((cell) => cell.text.length > 0)
+      return { page: pageNumber, y: row.y, cells: trimmed, text: trimmed.map((cell) => cell.text).join(COLUMN_SEPARATOR) }
+    })
+}
+
+/**
+ * Pair label cells with the value in the next column, plus "Label: value" cells
+ * For tables with several value columns (current / YTD) the first value is used
+ */
+export function extractLabelValuePairs(lines: LayoutLine[]): LabelValuePair[] {
+  const pairs: LabelValuePair[] = []
+
+  lines.forEach((line) => {
+    line.cells.forEach((cell, index) => {
+      const colon = cell.text.match(/^([^:]{2,60}):\s*(.+)$/)
+      if (colon && isLabelCell(colon[1])) {
+        pairs.push({ label: colon[1].trim(), value: colon[2].trim(), page: line.page })
+        return
+      }
+      if (!isLabelCell(cell.text)) return
+
+      let next = line.cells[index + 1]
+      if (next && LINE_REFERENCE_PATTERN.test(next.text) && line.cells[index + 2] && isValueCell(line.cells[index + 2].text)) {
+        next = line.cells[index + 2]
+      }
+      if (!next) return
+
+      // Text values only pair on simple two-column rows ("Employee Name | Jane Doe")
+      if (isValueCell(next.text) || (line.cells.length === 2 && index === 0) || cell.text.endsWith(':')) {
+        pairs.push({ label: cell.text.replace(/:$/, '').trim(), value: next.text, page: line.page })
+      }
+    })
+  })
+
+  return pairs
+}
+
+/**
+ * Build the layout for a whole document from each page's lines
+ */
+export function buildDocumentLayout(pages: LayoutLine[][]): DocumentLayout {
+  const lines = pages.flat()
+  return {
+    lines,
+    pairs: extractLabelValuePairs(lines),
+    text: pages.map((page) => page.map((line) => line.text).join('\n')).join('\n\n'),
+  }
+}
+
+/**
+ * Value for the first label matching the pattern
+ */
+export function findLayoutValue(layout: DocumentLayout | undefined, labelPattern: RegExp): string | null {
+  return layout?.pairs.find((pair) => labelPattern.test(pair.label))?.value || null
+}
+
+/**
+ * Amount for the first label matching the pattern with a numeric value ("(1,200.00)" is negative)
+ */
+export function findLayoutAmount(layout: DocumentLayout | undefined, labelPattern: RegExp): number | null {
+  const pair = layout?.pairs.find((p) => labelPattern.test(p.label) && AMOUNT_PATTERN.test(p.value))
+  if (!pair) return null
+
+  const negative = /^\(.*\)$/.test(pair.value) || pair.value.includes('-')
+  const amount = parseFloat(pair.value.replace(/[^\d.]/g, '').replace(/\.$/, ''))
+  if (isNaN(amount)) return null
+  return negative ? -amount : amount
+}
+
+/**
+ * Combine the layouts of several files that make up one document, numbering pages continuously
+ */
+export function combineDocumentLayouts(layouts: DocumentLayout[]): DocumentLayout {
+  let pageOffset = 0
+  const lines = layouts.flatMap((layout) => {
+    const offset = pageOffset
+    pageOffset += Math.max(0, ...layout.lines.map((line) => line.page))
+    return layout.lines.map((line) => ({ ...line, page: line.page + offset }))
+  })
+  return {
+    lines,
+    pairs: extractLabelValuePairs(lines),
+    text: layouts.map((layout) => layout.text).join('\n\n'),
+  }
+}
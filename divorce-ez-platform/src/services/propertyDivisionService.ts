@@ -0,0 +1,154 @@
+/**
+ * Property Division Service - Asset/debt division totals and equalization payment
+ */
+
+import { getAssetEquity } from './securedPropertyService'
+import type { AssetRow, DebtRow, PropertyAllocationRow, AllocationAssignee } from '../types'
+
+export interface DivisionItem {
+  kind: 'asset' | 'debt'
+  id: string
+  label: string
+  amount: number // Divided amount - asset value (its marital portion when one is set) or debt balance
+  isSeparate: boolean // Separate property is listed but excluded from equalization
+  separatePortion: number | null // Retirement accounts - part of the value from before the marriage, kept out of the division
+  assignedTo: AllocationAssignee | null // null = not yet allocated
+  spouse1Amount: number
+  spouse2Amount: number
+  equity: number | null // Homes and vehicles with linked loans - value less their balances
+  securedBy: string | null // Mortgages and auto loans - the asset the loan is linked to
+}
+
+export interface DivisionResult {
+  items: DivisionItem[]
+  spouse1Assets: number
+  spouse2Assets: number
+  spouse1Debts: number
+  spouse2Debts: number
+  spouse1Net: number
+  spouse2Net: number
+  maritalNetEstate: number
+  equalizationPayment: number // Amount the payor pays to make net shares equal
+  equalizationPayorSpouseNumber: 1 | 2 | null
+  unallocatedCount: number
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Spouse 1's fraction (0-1) of an item under an allocation
+ */
+export function getSpouse1Fraction(allocation: Pick<PropertyAllocationRow, 'assigned_to' | 'spouse1_percentage'>): number {
+  if (allocation.assigned_to === 'spouse1') return 1
+  if (allocation.assigned_to === 'spouse2') return 0
+  const percentage = allocation.spouse1_percentage ?? 50
+  return Math.min(Math.max(percentage, 0), 100) / 100
+}
+
+function buildItem(
+  kind: 'asset' | 'debt',
+  id: string,
+  label: string,
+  amount: number,
+  isSeparate: boolean,
+  allocation: PropertyAllocationRow | undefined
+): DivisionItem {
+  if (!allocation) {
+    return {
+      kind,
+      id,
+      label,
+      amount,
+      isSeparate,
+      separatePortion: null,
+      assignedTo: null,
+      spouse1Amount: 0,
+      spouse2Amount: 0,
+      equity: null,
+      securedBy: null,
+    }
+  }
+  const spouse1Amount = round2(amount * getSpouse1Fraction(allocation))
+  return {
+    kind,
+    id,
+    label,
+    amount,
+    isSeparate,
+    separatePortion: null,
+    assignedTo: allocation.assigned_to,
+    spouse1Amount,
+    spouse2Amount: round2(amount - spouse1Amount),
+    equity: null,
+    securedBy: null,
+  }
+}
+
+/**
+ * Calculate each spouse's share of the marital estate and the equalization payment
+ */
+export function calculateDivision(assets: AssetRow[], debts: DebtRow[], allocations: PropertyAllocationRow[]): DivisionResult {
+  const assetAllocations = new Map(allocations.filter((a) => a.asset_id).map((a) => [a.asset_id as string, a]))
+  const debtAllocations = new Map(allocations.filter((a) => a.debt_id).map((a) => [a.debt_id as string, a]))
+  const assetLabel = (asset: AssetRow) => asset.asset_name || asset.bank_name || asset.asset_type
+
+  const items: DivisionItem[] = [
+    ...assets.map((asset) => {
+      // Only the marital portion of a retirement account is divided when the statement split it
+      const value = Number(asset.approximate_value) || 0
+      const maritalPortion = asset.marital_portion != null && asset.ownership_type !== 'separate' ? Number(asset.marital_portion) || 0 : null
+      return {
+        ...buildItem(
+          'asset',
+          asset.id,
+          assetLabel(asset),
+          maritalPortion ?? value,
+          asset.ownership_type === 'separate',
+          assetAllocations.get(asset.id)
+        ),
+        separatePortion:
+          maritalPortion === null
+            ? null
+            : asset.separate_portion != null
+              ? Number(asset.separate_portion) || 0
+              : round2(Math.max(value - maritalPortion, 0)),
+        equity: getAssetEquity(asset, debts)?.equity ?? null,
+      }
+    }),
+    ...debts.map((debt) => {
+      const securedAsset = debt.secured_asset_id ? assets.find((asset) => asset.id === debt.secured_asset_id) : undefined
+      return {
+        ...buildItem('debt', debt.id, debt.creditor_name || debt.debt_type, Number(debt.approximate_balance) || 0, false, debtAllocations.get(debt.id)),
+        securedBy: securedAsset ? assetLabel(securedAsset) : null,
+      }
+    }),
+  ]
+
+  const marital = items.filter((item) => !item.isSeparate && item.assignedTo !== null)
+  const sum = (kind: 'asset' | 'debt', field: 'spouse1Amount' | 'spouse2Amount') =>
+    round2(marital.filter((item) => item.kind === kind).reduce((total, item) => total + item[field], 0))
+
+  const spouse1Assets = sum('asset', 'spouse1Amount')
+  const spouse2Assets = sum('asset', 'spouse2Amount')
+  const spouse1Debts = sum('debt', 'spouse1Amount')
+  const spouse2Debts = sum('debt', 'spouse2Amount')
+  const spouse1Net = round2(spouse1Assets - spouse1Debts)
+  const spouse2Net = round2(spouse2Assets - spouse2Debts)
+
+  // Half the difference in net shares moves from the spouse receiving more to the other
+  const difference = round2((spouse1Net - spouse2Net) / 2)
+
+  return {
+    items,
+    spouse1Assets,
+    spouse2Assets,
+    spouse1Debts,
+    spouse2Debts,
+    spouse1Net,
+    spouse2Net,
+    maritalNetEstate: round2(spouse1Net + spouse2Net),
+    equalizationPayment: Math.abs(difference),
+    equalizationPayorSpouseNumber: difference > 0 ? 1 : difference < 0 ? 2 : null,
+    unallocatedCount: items.filter((item) => !item.isSeparate && item.assignedTo === null).length,
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Provenance Service - Records which document and extraction method produced each normalized value
+ */
+
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+import type { ExtractionMethod, FieldProvenanceRow } from '../types'
+
+export interface ExtractionSource {
+  documentId: string
+  documentType: string
+  extractionMethod: ExtractionMethod
+  rawText?: string | null
+  taxYear?: number | null
+}
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  driversLicense: "driver's license",
+  taxReturn: 'tax return',
+  payStub: 'pay stub',
+  bankStatement: 'bank statement',
+  w2: 'W-2',
+  '1099': '1099',
+  marriageCertificate: 'marriage certificate',
+  priorCourtOrder: 'prior court order',
+  profitAndLoss: 'profit and loss statement',
+  retirementStatement: 'retirement statement',
+  mortgageStatement: 'mortgage statement',
+  propertyTaxNotice: 'property tax notice',
+  vehicleTitle: 'vehicle title',
+  autoLoanStatement: 'auto loan statement',
+}
+
+const SNIPPET_CONTEXT = 40
+
+// Tables with one row per item - their provenance names the row
+const ROW_TABLES = ['children', 'employers', 'assets', 'debts']
+
+// Provenance recorded before migration V21 has no row_id
+const rowIdOf = (row: FieldProvenanceRow): string => row.row_id || ''
+
+/**
+ * Human-readable document label, e.g. "2023 tax return"
+ */
+export function getDocumentLabel(documentType: string, taxYear?: number | null): string {
+  const label = DOCUMENT_LABELS[documentType] || documentType
+  return taxYear ? `${taxYear} ${label}` : label
+}
+
+/**
+ * Candidate spellings of a value as it may appear in OCR text
+ */
+function getSearchTerms(value: unknown): string[] {
+  if (typeof value === 'number') {
+    return [
+      value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+      value.toLocaleString('en-US'),
+      value.toFixed(2),
+      String(value),
+    ]
+  }
+  const str = String(value).trim()
+  const isoDate = str.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (isoDate) {
+    const [, year, month, day] = isoDate
+    return [`${month}/${day}/${year}`, `${Number(month)}/${Number(day)}/${year}`, `${month}-${day}-${year}`, str]
+  }
+  return [str]
+}
+
+/**
+ * Find the raw text surrounding a value, or null if it cannot be located
+ */
+export function findSourceSnippet(rawText: string | null | undefined, value: unknown): string | null {
+  if (!rawText || value === null || value === undefined || value === '' || typeof value === 'boolean') return null
+
+  const haystack = rawText.toLowerCase()
+  for (const term of getSearchTerms(value)) {
+    if (!term) continue
+    const index = haystack.indexOf(term.toLowerCase())
+    if (index === -1) continue
+
+    const start = Math.max(index - SNIPPET_CONTEXT, 0)
+    const end = Math.min(index + term.length + SNIPPET_CONTEXT, rawText.length)
+    const snippet = rawText.slice(start, end).replace(/\s+/g, ' ').trim()
+    return `${start > 0 ? '…' : ''}${snippet}${end < rawText.length ? '…' : ''}`
+  }
+  return null
+}
+
+/**
+ * Build provenance rows for the non-empty columns written to a normalized table
+ * Child, employer, asset and debt rows pass their id as rowId
+ */
+export function buildProvenanceRows(
+  userId: string,
+  source: ExtractionSource,
+  tableName: string,
+  spouseNumber: 1 | 2,
+  updates: Record<string, any>,
+  rowId = ''
+): Omit<FieldProvenanceRow, 'id'>[] {
+  const extractedAt = new Date().toISOString()
+  const documentLabel = getDocumentLabel(source.documentType, source.taxYear)
+
+  return Object.entries(updates)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+    .map(([columnName, value]) => ({
+      user_id: userId,
+      document_id: source.documentId,
+      table_name: tableName,
+      column_name: columnName,
+      spouse_number: spouseNumber,
+      row_id: rowId,
+      extraction_method: source.extractionMethod,
+      document_label: documentLabel,
+      source_snippet: Array.isArray(value) ? null : findSourceSnippet(source.rawText, value),
+      extracted_at: extractedAt,
+    }))
+}
+
+/**
+ * Record provenance rows, replacing any earlier source for the same column
+ */
+export async function recordFieldProvenance(rows: Omit<FieldProvenanceRow, 'id'>[]): Promise<void> {
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('field_provenance')
+    .upsert(rows, { onConflict: 'user_id,table_name,column_name,spouse_number,row_id' })
+
+  if (error) throw error
+  logger.debug('Recorded field provenance', { count: rows.length })
+}
+
+/**
+ * Get all provenance rows for a user
+ */
+export async function getFieldProvenance(userId: string): Promise<FieldProvenanceRow[]> {
+  const { data, error } = await supabase.from('field_provenance').select('*').eq('user_id', userId)
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Look up the provenance for one column
+ */
+export function findProvenance(
+  provenance: FieldProvenanceRow[],
+  tableName: string,
+  columnName: string,
+  spouseNumber: 1 | 2 = 1,
+  rowId = ''
+): FieldProvenanceRow | undefined {
+  return provenance.find(
+    (row) =>
+      row.table_name === tableName &&
+      row.column_name === columnName &&
+      row.spouse_number === spouseNumber &&
+      rowIdOf(row) === rowId
+  )
+}
+
+/**
+ * Point provenance at the ids rebuilt rows were given back (map from the rebuilt id to the previous one)
+ */
+export async function remapRowProvenance(userId: string, tableName: string, ids: Map<string, string>): Promise<void> {
+  for (const [rebuiltId, previousId] of ids) {
+    if (rebuiltId === previousId) continue
+    const { error } = await supabase
+      .from('field_provenance')
+      .update({ row_id: previousId })
+      .eq('user_id', userId)
+      .eq('table_name', tableName)
+      .eq('row_id', rebuiltId)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * Drop provenance for child, employer, asset and debt rows that no longer exist
+ */
+export async function pruneRowProvenance(userId: string): Promise<void> {
+  for (const tableName of ROW_TABLES) {
+    const { data, error: rowsError } = await supabase.from(tableName).select('id').eq('user_id', userId)
+    if (rowsError) throw rowsError
+
+    const keepIds = (data || []).map((row: { id: string }) => row.id)
+    let query = supabase.from('field_provenance').delete().eq('user_id', userId).eq('table_name', tableName).neq('row_id', '')
+    if (keepIds.length > 0) {
+      query = query.not('row_id', 'in', `(${keepIds.join(',')})`)
+    }
+    const { error } = await query
+
+    if (error) throw error
+  }
+}
+
+/**
+ * Clear provenance for a user (before re-aggregation)
+ */
+export async function clearFieldProvenance(userId: string): Promise<void> {
+  const { error } = await supabase.from('field_provenance').delete().eq('user_id', userId)
+  if (error) throw error
+}
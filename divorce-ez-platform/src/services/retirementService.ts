@@ -0,0 +1,161 @@
+/**
+ * Retirement Service - Balances from 401(k), IRA and pension statements and their marital/separate portions
+ * The portion earned before the marriage date is separate; what was added during the marriage is marital
+ */
+
+import type { RetirementPlanType } from '../types'
+
+export interface RetirementStatementSummary {
+  documentId: string | null
+  planName: string | null
+  planType: RetirementPlanType | null
+  administrator: string | null
+  accountNumberLast4: string | null
+  periodStart: string | null // YYYY-MM-DD
+  periodEnd: string | null // YYYY-MM-DD, the balance is as of this date
+  beginningBalance: number | null
+  endingBalance: number | null
+  contributions: number | null // Employee and employer contributions during the statement period
+  planEntryDate: string | null
+}
+
+export type RetirementDivisionMethod = 'premaritalStatement' | 'statementSpansMarriage' | 'openedDuringMarriage' | 'contributions'
+
+export interface RetirementDivision {
+  balance: number
+  balanceAsOf: string | null
+  maritalPortion: number | null // null when the statements can't tell
+  separatePortion: number | null
+  method: RetirementDivisionMethod | null
+  note: string | null
+}
+
+const PLAN_TYPE_LABELS: Record<RetirementPlanType, string> = {
+  '401k': '401(k)',
+  '403b': '403(b)',
+  '457b': '457(b)',
+  tsp: 'Thrift Savings Plan',
+  ira: 'IRA',
+  roth_ira: 'Roth IRA',
+  sep_ira: 'SEP IRA',
+  pension: 'Pension',
+  other: 'Retirement account',
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+const toNumber = (value: any): number | null => (value != null && value !== '' && !isNaN(Number(value)) ? Number(value) : null)
+const toDate = (value: any): string | null => (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null)
+
+export function getRetirementPlanLabel(planType: RetirementPlanType | null): string {
+  return PLAN_TYPE_LABELS[planType || 'other']
+}
+
+/**
+ * Statement fields used for the balance and division (regex and Gemini formats)
+ */
+export function toRetirementStatementSummary(extractedData: Record<string, any>, documentId: string | null = null): RetirementStatementSummary {
+  const employee = toNumber(extractedData.employeeContributions)
+  const employer = toNumber(extractedData.employerContributions)
+  return {
+    documentId,
+    planName: extractedData.planName || null,
+    planType: extractedData.planType || null,
+    administrator: extractedData.administrator || null,
+    accountNumberLast4: extractedData.accountNumberLast4 || null,
+    periodStart: toDate(extractedData.statementStartDate),
+    periodEnd: toDate(extractedData.statementEndDate),
+    beginningBalance: toNumber(extractedData.beginningBalance),
+    endingBalance: toNumber(extractedData.endingBalance),
+    contributions: employee === null && employer === null ? null : round2((employee ?? 0) + (employer ?? 0)),
+    planEntryDate: toDate(extractedData.planEntryDate),
+  }
+}
+
+/**
+ * Asset name for a statement's account, e.g. "Fidelity Investments 401(k)"
+ */
+export function getRetirementAssetName(statement: RetirementStatementSummary): string {
+  return statement.planName || [statement.administrator, getRetirementPlanLabel(statement.planType)].filter(Boolean).join(' ')
+}
+
+/**
+ * Whether two statements are for the same account - same last 4 digits, or the same administrator and plan when a number is missing
+ */
+export function isSameRetirementAccount(a: RetirementStatementSummary, b: RetirementStatementSummary): boolean {
+  if (a.accountNumberLast4 && b.accountNumberLast4) return a.accountNumberLast4 === b.accountNumberLast4
+  const key = (s: RetirementStatementSummary) => `${(s.administrator || '').toLowerCase()}|${s.planType || ''}|${(s.planName || '').toLowerCase()}`
+  return key(a) === key(b)
+}
+
+/**
+ * Marital and separate portions of one account's latest balance from its statements
+ * Uses, in order: a statement ending on or before the marriage date (its balance is separate), a statement whose period
+ * spans the marriage date (its beginning balance), an account opened during the marriage (all marital), or the
+ * contributions on statements after the marriage date (marital at least)
+ */
+export function computeRetirementDivision(statements: RetirementStatementSummary[], marriageDate: string | null): RetirementDivision | null {
+  const dated = statements
+    .filter((s) => s.endingBalance !== null)
+    .sort((a, b) => (a.periodEnd || '').localeCompare(b.periodEnd || ''))
+  const latest = dated[dated.length - 1]
+  if (!latest || latest.endingBalance === null) return null
+
+  const balance = latest.endingBalance
+  const division = (separate: number, method: RetirementDivisionMethod, note: string): RetirementDivision => {
+    const separatePortion = round2(Math.min(Math.max(separate, 0), balance))
+    return { balance, balanceAsOf: latest.periodEnd, maritalPortion: round2(balance - separatePortion), separatePortion, method, note }
+  }
+  const undivided = (note: string): RetirementDivision => ({
+    balance,
+    balanceAsOf: latest.periodEnd,
+    maritalPortion: null,
+    separatePortion: null,
+    method: null,
+    note,
+  })
+
+  const marriage = toDate(marriageDate)
+  if (!marriage) {
+    return undivided('Enter your marriage date to split this balance into marital and separate portions.')
+  }
+  if (!latest.periodEnd) {
+    return undivided('The statement date could not be read.')
+  }
+
+  const premarital = dated.filter((s) => s.periodEnd && s.periodEnd <= marriage)
+  if (premarital.length > 0) {
+    const statement = premarital[premarital.length - 1]
+    return division(
+      statement.endingBalance as number,
+      'premaritalStatement',
+      `The ${statement.periodEnd} balance before the marriage is separate; growth on it since is counted as marital.`
+    )
+  }
+
+  const spanning = dated.find((s) => s.periodStart && s.periodEnd && s.periodStart <= marriage && s.periodEnd > marriage && s.beginningBalance !== null)
+  if (spanning) {
+    return division(
+      spanning.beginningBalance as number,
+      'statementSpansMarriage',
+      `The ${spanning.periodStart} beginning balance is used as the balance at marriage.`
+    )
+  }
+
+  if (latest.planEntryDate && latest.planEntryDate >= marriage) {
+    return division(0, 'openedDuringMarriage', 'The account was opened during the marriage.')
+  }
+
+  // Only statements after the marriage - the contributions they show are marital
+  const maritalContributions = dated
+    .filter((s) => s.periodStart && s.periodStart >= marriage)
+    .reduce((total, s) => total + (s.contributions ?? 0), 0)
+  if (maritalContributions > 0) {
+    return division(
+      balance - maritalContributions,
+      'contributions',
+      'Only contributions on statements after the marriage are counted as marital - upload a statement from around your marriage date for a closer split.'
+    )
+  }
+
+  return undivided('Upload a statement from around your marriage date to split this balance into marital and separate portions.')
+}
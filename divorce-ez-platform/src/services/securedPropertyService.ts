@@ -0,0 +1,172 @@
+/**
+ * Secured Property Service - Homes and vehicles from mortgage, property tax, title and auto loan documents
+ * A mortgage or auto loan is stored as a debt linked to the home or vehicle it is secured by, so equity is the
+ * asset's value less the balances of its linked loans
+ */
+
+import type { AssetRow, DebtRow } from '../types'
+
+export interface SecuredLoan {
+  debtType: 'mortgage' | 'loan'
+  creditorName: string | null
+  balance: number | null
+  monthlyPayment: number | null
+}
+
+export interface SecuredProperty {
+  assetType: 'home' | 'vehicle'
+  assetName: string
+  value: number | null // Market value - only property tax notices state one
+  propertyAddress: string | null
+  vin: string | null
+  loan: SecuredLoan | null // Mortgage and auto loan statements
+}
+
+export interface AssetEquity {
+  securedBalance: number // Linked loan balances
+  equity: number
+}
+
+// Street words as written on statements and as typed by users, reduced to one form for matching
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  drive: 'dr',
+  road: 'rd',
+  lane: 'ln',
+  boulevard: 'blvd',
+  court: 'ct',
+  circle: 'cir',
+  place: 'pl',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+}
+
+const toNumber = (value: any): number | null => (value != null && value !== '' && !isNaN(Number(value)) ? Number(value) : null)
+const toText = (value: any): string | null => (typeof value === 'string' && value.trim() ? value.trim() : null)
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Street line of an address in a comparable form - "1234 East 500 South, Salt Lake City" -> "1234 e 500 s"
+ */
+function normalizeStreetAddress(address: string | null | undefined): string | null {
+  const street = (address || '').split(',')[0].toLowerCase().replace(/[.#]/g, ' ')
+  const words = street.split(/\s+/).filter(Boolean).map((word) => ADDRESS_ABBREVIATIONS[word] || word)
+  return words.length > 0 ? words.join(' ') : null
+}
+
+const normalizeVin = (vin: string | null | undefined): string | null => (vin ? vin.replace(/\s/g, '').toUpperCase() : null)
+
+/**
+ * The home or vehicle on a document and the loan secured by it (regex and Gemini formats)
+ * Returns null for other document types
+ */
+export function toSecuredProperty(extractedData: Record<string, any>, documentType: string): SecuredProperty | null {
+  if (documentType === 'mortgageStatement' || documentType === 'propertyTaxNotice') {
+    const propertyAddress = toText(extractedData.propertyAddress)
+    const street = propertyAddress ? propertyAddress.split(',')[0].trim() : null
+    return {
+      assetType: 'home',
+      assetName: street ? `Home at ${street}` : 'Home',
+      value: documentType === 'propertyTaxNotice' ? toNumber(extractedData.marketValue) : null,
+      propertyAddress,
+      vin: null,
+      loan:
+        documentType === 'mortgageStatement'
+          ? {
+              debtType: 'mortgage',
+              creditorName: toText(extractedData.lenderName),
+              balance: toNumber(extractedData.principalBalance),
+              monthlyPayment: toNumber(extractedData.monthlyPayment),
+            }
+          : null,
+    }
+  }
+
+  if (documentType === 'vehicleTitle' || documentType === 'autoLoanStatement') {
+    const description =
+      documentType === 'vehicleTitle'
+        ? [extractedData.year, toText(extractedData.make), toText(extractedData.model)].filter(Boolean).join(' ')
+        : toText(extractedData.vehicleDescription)
+    return {
+      assetType: 'vehicle',
+      assetName: description || 'Vehicle',
+      value: null,
+      propertyAddress: null,
+      vin: normalizeVin(toText(extractedData.vin)),
+      loan:
+        documentType === 'autoLoanStatement'
+          ? {
+              debtType: 'loan',
+              creditorName: toText(extractedData.lenderName),
+              balance: toNumber(extractedData.principalBalance),
+              monthlyPayment: toNumber(extractedData.monthlyPayment),
+            }
+          : null,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Existing asset for a document's home or vehicle - same VIN or street address, or the only one of its type that
+ * has neither (e.g. a home the user entered by hand)
+ */
+export function findSecuredAsset<T extends Pick<AssetRow, 'asset_type' | 'property_address' | 'vin'>>(
+  assets: T[],
+  property: SecuredProperty
+): T | undefined {
+  const candidates = assets.filter((asset) => asset.asset_type === property.assetType)
+  const street = normalizeStreetAddress(property.propertyAddress)
+  const vin = normalizeVin(property.vin)
+
+  const sameProperty = candidates.find((asset) =>
+    vin ? normalizeVin(asset.vin) === vin : street ? normalizeStreetAddress(asset.property_address) === street : false
+  )
+  if (sameProperty) return sameProperty
+
+  const unidentified = candidates.filter((asset) => !asset.vin && !asset.property_address)
+  if (vin || street) {
+    return unidentified.length === 1 ? unidentified[0] : undefined
+  }
+  return candidates.length === 1 ? candidates[0] : undefined
+}
+
+/**
+ * Existing debt for a document's loan - already linked to the asset, or an unlinked one of the same type and creditor
+ * ("Wells Fargo" matches "Wells Fargo Home Mortgage")
+ */
+export function findSecuredDebt<T extends Pick<DebtRow, 'debt_type' | 'creditor_name' | 'secured_asset_id'>>(
+  debts: T[],
+  loan: SecuredLoan,
+  assetId: string | null
+): T | undefined {
+  const sameType = debts.filter((debt) => debt.debt_type === loan.debtType)
+  const creditor = (loan.creditorName || '').toLowerCase()
+  return (
+    (assetId ? sameType.find((debt) => debt.secured_asset_id === assetId) : undefined) ||
+    sameType.find((debt) => {
+      const debtCreditor = (debt.creditor_name || '').toLowerCase()
+      return !debt.secured_asset_id && !!creditor && !!debtCreditor && (creditor.startsWith(debtCreditor) || debtCreditor.startsWith(creditor))
+    })
+  )
+}
+
+/**
+ * An asset's value less the balances of the loans linked to it
+ * Returns null when no loan is linked
+ */
+export function getAssetEquity(
+  asset: Pick<AssetRow, 'id' | 'approximate_value'>,
+  debts: Pick<DebtRow, 'secured_asset_id' | 'approximate_balance'>[]
+): AssetEquity | null {
+  const linked = debts.filter((debt) => asset.id && debt.secured_asset_id === asset.id)
+  if (linked.length === 0) return null
+  const securedBalance = round2(linked.reduce((total, debt) => total + (Number(debt.approximate_balance) || 0), 0))
+  return { securedBalance, equity: round2((Number(asset.approximate_value) || 0) - securedBalance) }
+}
@@ -0,0 +1,181 @@
+/**
+ * Self-Employment Service - Adjusted self-employment income from a profit & loss statement or Schedule C
+ * Net profit is annualized over the statement period, then the expenses the user flags as add-backs
+ * (depreciation, personal expenses run through the business) are added back (Utah Code 78B-12-203(4))
+ */
+
+import { normalizeIncome } from './incomeNormalizationService'
+import type { BusinessExpenseCategory, BusinessExpenseLine } from '../types'
+
+export type SelfEmploymentSource = 'profitAndLoss' | 'scheduleC'
+
+export interface SelfEmploymentStatement {
+  source: SelfEmploymentSource
+  businessName: string | null
+  periodStart: string | null
+  periodEnd: string | null
+  grossReceipts: number | null
+  totalExpenses: number | null
+  netProfit: number // For the statement period
+  annualFactor: number // Multiplier from the statement period to a year
+  periodUnknown: boolean // P&L without period dates or a stated period - its income can't be annualized
+  expenseLines: BusinessExpenseLine[]
+}
+
+// User's add-backs, stored on the document's extracted data so re-aggregation reuses them
+export interface SelfEmploymentAddBacks {
+  categories: BusinessExpenseCategory[] // Expense categories added back in full
+  personalExpenses: number | null // Annual personal expenses paid by the business that aren't broken out
+}
+
+export interface AdjustedSelfEmploymentIncome {
+  annualNetProfit: number
+  addBackLines: BusinessExpenseLine[] // Statement-period amounts
+  annualAddBacks: number // Flagged lines annualized, plus personal expenses
+  adjustedAnnual: number
+  adjustedMonthly: number
+}
+
+// Schedule C line labels, checked in order - specific labels before the general ones they contain
+const EXPENSE_CATEGORY_RULES: { category: BusinessExpenseCategory; label: string; pattern: RegExp }[] = [
+  { category: 'businessUseOfHome', label: 'Business use of home', pattern: /business\s+use\s+of\s+(?:your\s+)?home|home\s+office/i },
+  { category: 'depreciation', label: 'Depreciation and section 179', pattern: /depreciation|section\s+179|amortization/i },
+  { category: 'depletion', label: 'Depletion', pattern: /depletion/i },
+  { category: 'carAndTruck', label: 'Car and truck', pattern: /\bcar\b|truck|vehicle\s+expense|\bauto\b|mileage|\bfuel\b|\bgas(?:oline)?\b/i },
+  { category: 'contractLabor', label: 'Contract labor', pattern: /contract\s+labor|subcontract|1099\s+contractor/i },
+  { category: 'employeeBenefits', label: 'Employee benefit programs', pattern: /employee\s+benefit/i },
+  { category: 'pensionPlans', label: 'Pension and profit-sharing plans', pattern: /pension|profit[- ]sharing|retirement\s+plan/i },
+  { category: 'legalAndProfessional', label: 'Legal and professional services', pattern: /legal|professional|accounting|bookkeeping/i },
+  { category: 'advertising', label: 'Advertising', pattern: /advertising|marketing|promotion/i },
+  { category: 'commissions', label: 'Commissions and fees', pattern: /commission|merchant\s+fees|bank\s+fees|processing\s+fees/i },
+  { category: 'insurance', label: 'Insurance (other than health)', pattern: /insurance/i },
+  { category: 'interest', label: 'Interest', pattern: /interest|mortgage/i },
+  { category: 'officeExpense', label: 'Office expense', pattern: /office|postage|software/i },
+  { category: 'rentOrLease', label: 'Rent or lease', pattern: /\brent\b|\brental\b|lease/i },
+  { category: 'repairs', label: 'Repairs and maintenance', pattern: /repair|maintenance/i },
+  { category: 'supplies', label: 'Supplies', pattern: /supplies|materials/i },
+  { category: 'taxesAndLicenses', label: 'Taxes and licenses', pattern: /\btax(?:es)?\b|licen[cs]e|permit/i },
+  { category: 'travel', label: 'Travel', pattern: /travel|lodging|airfare|hotel/i },
+  { category: 'meals', label: 'Meals', pattern: /meals|entertainment/i },
+  { category: 'utilities', label: 'Utilities', pattern: /utilit|telephone|\bphone\b|internet|electric/i },
+  { category: 'wages', label: 'Wages', pattern: /wages|salar|payroll/i },
+]
+
+// Usually added back - depreciation and depletion are non-cash deductions
+export const SUGGESTED_ADD_BACKS: BusinessExpenseCategory[] = ['depreciation', 'depletion']
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+const toNumber = (value: any): number | null => (value != null && value !== '' && !isNaN(Number(value)) ? Number(value) : null)
+
+/**
+ * Number of calendar months a period covers when it runs from the 1st of a month to the last day of a month
+ * ("2024-01-01" to "2024-06-30" is 6) - null for other periods, which are prorated by day
+ */
+function wholeMonthsInPeriod(periodStart: string | null | undefined, periodEnd: string | null | undefined): number | null {
+  const start = periodStart ? new Date(`${periodStart}T00:00:00Z`) : null
+  const end = periodEnd ? new Date(`${periodEnd}T00:00:00Z`) : null
+  if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) return null
+  const dayAfterEnd = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() + 1))
+  if (start.getUTCDate() !== 1 || dayAfterEnd.getUTCDate() !== 1) return null
+  return (dayAfterEnd.getUTCFullYear() - start.getUTCFullYear()) * 12 + dayAfterEnd.getUTCMonth() - start.getUTCMonth()
+}
+
+export function getBusinessExpenseLabel(category: BusinessExpenseCategory): string {
+  return EXPENSE_CATEGORY_RULES.find((rule) => rule.category === category)?.label || 'Other expenses'
+}
+
+/**
+ * Schedule C category for an expense line as written on a P&L
+ */
+export function categorizeBusinessExpense(label: string): BusinessExpenseCategory {
+  return EXPENSE_CATEGORY_RULES.find((rule) => rule.pattern.test(label))?.category || 'other'
+}
+
+const toExpenseLines = (value: any): BusinessExpenseLine[] =>
+  Array.isArray(value)
+    ? value
+        .map((line: any) => ({
+          label: String(line?.label || ''),
+          category: (line?.category as BusinessExpenseCategory) || categorizeBusinessExpense(String(line?.label || '')),
+          amount: toNumber(line?.amount) ?? 0,
+        }))
+        .filter((line) => line.label && line.amount !== 0)
+    : []
+
+/**
+ * The self-employment statement on a P&L or a tax return's Schedule C (regex and Gemini formats)
+ * Returns null when the document has no net profit
+ */
+export function getSelfEmploymentStatement(extractedData: Record<string, any>, documentType: string): SelfEmploymentStatement | null {
+  if (documentType === 'taxReturn') {
+    const scheduleC = extractedData.scheduleC
+    const netProfit = toNumber(scheduleC?.netProfit) ?? toNumber(extractedData.businessIncome)
+    if (netProfit === null) return null
+    return {
+      source: 'scheduleC',
+      businessName: scheduleC?.businessName || null,
+      periodStart: null,
+      periodEnd: null,
+      grossReceipts: toNumber(scheduleC?.grossReceipts),
+      totalExpenses: toNumber(scheduleC?.totalExpenses),
+      netProfit,
+      annualFactor: 1,
+      periodUnknown: false, // A return covers its tax year
+      expenseLines: toExpenseLines(scheduleC?.expenseLines),
+    }
+  }
+
+  if (documentType !== 'profitAndLoss') return null
+  const netProfit = toNumber(extractedData.netIncome)
+  if (netProfit === null) return null
+  // Annual amount for one dollar of the period's profit - left at 1 for a P&L with no stated period or dates,
+  // which is flagged instead of being taken as a full year
+  const hasPeriodDates = !!extractedData.periodStart && !!extractedData.periodEnd
+  const periodUnknown = !hasPeriodDates && !extractedData.statedPeriod
+  const wholeMonths = wholeMonthsInPeriod(extractedData.periodStart, extractedData.periodEnd)
+  const annualFactor = periodUnknown
+    ? 1
+    : wholeMonths
+      ? 12 / wholeMonths
+      : normalizeIncome({
+          periodAmount: 1,
+          payFrequency: extractedData.statedPeriod || null,
+          periodStart: extractedData.periodStart,
+          periodEnd: extractedData.periodEnd,
+        }).annual ?? 1
+  return {
+    source: 'profitAndLoss',
+    businessName: extractedData.businessName || null,
+    periodStart: extractedData.periodStart || null,
+    periodEnd: extractedData.periodEnd || null,
+    grossReceipts: toNumber(extractedData.grossRevenue),
+    totalExpenses: toNumber(extractedData.totalExpenses),
+    netProfit,
+    annualFactor,
+    periodUnknown,
+    expenseLines: toExpenseLines(extractedData.expenseLines),
+  }
+}
+
+/**
+ * Adjusted annual and monthly self-employment income after add-backs
+ */
+export function computeAdjustedSelfEmploymentIncome(
+  statement: SelfEmploymentStatement,
+  addBacks: SelfEmploymentAddBacks | null | undefined
+): AdjustedSelfEmploymentIncome {
+  const annualNetProfit = round2(statement.netProfit * statement.annualFactor)
+  const categories = addBacks?.categories || []
+  const addBackLines = statement.expenseLines.filter((line) => categories.includes(line.category))
+  const periodAddBacks = addBackLines.reduce((total, line) => total + line.amount, 0)
+  const annualAddBacks = round2(periodAddBacks * statement.annualFactor + Math.max(toNumber(addBacks?.personalExpenses) ?? 0, 0))
+  const adjustedAnnual = round2(annualNetProfit + annualAddBacks)
+
+  return {
+    annualNetProfit,
+    addBackLines,
+    annualAddBacks,
+    adjustedAnnual,
+    adjustedMonthly: round2(adjustedAnnual / 12),
+  }
+}
@@ -1,4 +1,45 @@
-export type DocumentType = 'driversLicense' | 'taxReturn' | 'payStub' | 'bankStatement' | 'w2' | '1099' | 'marriageCertificate' | 'priorCourtOrder' | 'profitAndLoss'
+export type DocumentType = 'driversLicense' | 'taxReturn' | 'payStub' | 'bankStatement' | 'w2' | '1099' | 'marriageCertificate' | 'priorCourtOrder' | 'profitAndLoss' | 'retirementStatement' | 'mortgageStatement' | 'propertyTaxNotice' | 'vehicleTitle' | 'autoLoanStatement'
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly' | 'yearly'
+
+export type Form1099Variant = 'NEC' | 'MISC' | 'INT' | 'DIV' | 'R'
+
+export type PriorOrderType = 'custody' | 'support' | 'protective'
+
+export type CustodyKind = 'sole' | 'joint'
+
+export type RetirementPlanType = '401k' | '403b' | '457b' | 'tsp' | 'ira' | 'roth_ira' | 'sep_ira' | 'pension' | 'other'
+
+// Schedule C expense lines (8-27, 30), also used for P&L line items
+export type BusinessExpenseCategory =
+  | 'advertising'
+  | 'carAndTruck'
+  | 'commissions'
+  | 'contractLabor'
+  | 'depletion'
+  | 'depreciation'
+  | 'employeeBenefits'
+  | 'insurance'
+  | 'interest'
+  | 'legalAndProfessional'
+  | 'officeExpense'
+  | 'pensionPlans'
+  | 'rentOrLease'
+  | 'repairs'
+  | 'supplies'
+  | 'taxesAndLicenses'
+  | 'travel'
+  | 'meals'
+  | 'utilities'
+  | 'wages'
+  | 'businessUseOfHome'
+  | 'other'
+
+export interface BusinessExpenseLine {
+  label: string // As written on the document
+  category: BusinessExpenseCategory
+  amount: number
+}
 
 // Gemini extraction result types (matching documentSchemas.ts)
 export interface PayStubExtraction {
@@ -7,7 +48,8 @@ export interface PayStubExtraction {
   employerAddress?: string | null
   payPeriodStart?: string | null
   payPeriodEnd?: string | null
-  payFrequency?: 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null
+  payDate?: string | null
+  payFrequency?: PayFrequency | null
   grossIncomeCurrent?: number | null
   grossIncomeYTD?: number | null
   netIncomeCurrent?: number | null
@@ -41,6 +83,14 @@ export interface BankStatementExtraction {
   endingBalance?: number | null
   totalDeposits?: number | null
   totalWithdrawals?: number | null
+  transactions?: BankStatementTransaction[] | null
+}
+
+export interface BankStatementTransaction {
+  date: string | null
+  description: string
+  amount: number // Negative for withdrawals
+  runningBalance: number | null
 }
 
 export interface TaxReturnExtraction {
@@ -51,18 +101,179 @@ export interface TaxReturnExtraction {
   adjustedGrossIncome?: number | null
   totalIncome?: number | null
   wages?: number | null
+  w2s?: Array<{ employeeName: string | null; employerName: string | null; wages: number | null }> | null
   interestIncome?: number | null
   dividendIncome?: number | null
   businessIncome?: number | null
+  scheduleC?: ScheduleCExtraction | null
   totalTax?: number | null
   refundOrAmountOwed?: number | null
 }
 
+export interface W2Extraction {
+  taxYear?: number | null
+  employeeFullName?: string | null
+  employeeSsnLast4?: string | null
+  employerName?: string | null
+  employerAddress?: string | null
+  employerEinLast4?: string | null
+  wages?: number | null
+  federalTaxWithheld?: number | null
+  socialSecurityWages?: number | null
+  socialSecurityTaxWithheld?: number | null
+  medicareWages?: number | null
+  medicareTaxWithheld?: number | null
+  socialSecurityTips?: number | null
+  allocatedTips?: number | null
+  dependentCareBenefits?: number | null
+  nonqualifiedPlans?: number | null
+  box12?: Array<{ code: string; amount: number | null }> | null
+  statutoryEmployee?: boolean | null
+  retirementPlan?: boolean | null
+  thirdPartySickPay?: boolean | null
+  box14Other?: string | null
+  state?: string | null
+  stateWages?: number | null
+  stateIncomeTax?: number | null
+}
+
+export interface Form1099Extraction {
+  formVariant?: Form1099Variant | null
+  taxYear?: number | null
+  payerName?: string | null
+  payerTinLast4?: string | null
+  recipientName?: string | null
+  recipientTinLast4?: string | null
+  nonemployeeCompensation?: number | null
+  rents?: number | null
+  royalties?: number | null
+  otherIncome?: number | null
+  interestIncome?: number | null
+  ordinaryDividends?: number | null
+  qualifiedDividends?: number | null
+  capitalGainDistributions?: number | null
+  grossDistribution?: number | null
+  taxableAmount?: number | null
+  distributionCode?: string | null
+  federalTaxWithheld?: number | null
+  stateTaxWithheld?: number | null
+  state?: string | null
+}
+
+export interface ScheduleCExtraction {
+  businessName?: string | null
+  grossReceipts?: number | null // Line 1
+  totalExpenses?: number | null // Line 28
+  netProfit?: number | null // Line 31, negative for a loss
+  expenseLines?: BusinessExpenseLine[] | null
+}
+
+export interface ProfitAndLossExtraction {
+  businessName?: string | null
+  periodStart?: string | null // YYYY-MM-DD
+  periodEnd?: string | null // YYYY-MM-DD
+  grossRevenue?: number | null
+  totalExpenses?: number | null
+  netIncome?: number | null // Negative for a loss
+  expenseLines?: BusinessExpenseLine[] | null
+}
+
+export interface RetirementStatementExtraction {
+  planName?: string | null
+  planType?: RetirementPlanType | null
+  administrator?: string | null // Plan administrator or custodian, e.g. "Fidelity Investments"
+  employerName?: string | null // Plan sponsor, employer plans only
+  accountHolderName?: string | null
+  accountNumberLast4?: string | null
+  statementStartDate?: string | null // YYYY-MM-DD
+  statementEndDate?: string | null // YYYY-MM-DD, the date the balance is as of
+  beginningBalance?: number | null
+  endingBalance?: number | null
+  vestedBalance?: number | null
+  employeeContributions?: number | null // During the statement period
+  employerContributions?: number | null // During the statement period
+  ytdContributions?: number | null
+  loanBalance?: number | null // Outstanding plan loan
+  planEntryDate?: string | null // YYYY-MM-DD, date the account was opened or participation began
+  monthlyBenefit?: number | null // Pensions - accrued monthly benefit at retirement age
+}
+
+export interface MortgageStatementExtraction {
+  lenderName?: string | null // Lender or loan servicer
+  borrowerName?: string | null
+  loanNumberLast4?: string | null
+  propertyAddress?: string | null
+  statementDate?: string | null // YYYY-MM-DD
+  principalBalance?: number | null
+  monthlyPayment?: number | null // Regular payment including escrow
+  escrowBalance?: number | null
+  interestRate?: number | null // Percent
+}
+
+export interface PropertyTaxNoticeExtraction {
+  ownerName?: string | null
+  parcelNumber?: string | null
+  propertyAddress?: string | null
+  taxYear?: number | null
+  marketValue?: number | null
+  assessedValue?: number | null // Taxable value
+  taxAmount?: number | null // Annual
+}
+
+export interface VehicleTitleExtraction {
+  ownerNames?: string[] | null
+  vin?: string | null
+  year?: number | null
+  make?: string | null
+  model?: string | null
+  titleNumber?: string | null
+  issueDate?: string | null // YYYY-MM-DD
+  lienholderName?: string | null
+}
+
+export interface AutoLoanStatementExtraction {
+  lenderName?: string | null
+  borrowerName?: string | null
+  accountNumberLast4?: string | null
+  vin?: string | null
+  vehicleDescription?: string | null // e.g. "2019 Honda Accord"
+  statementDate?: string | null // YYYY-MM-DD
+  principalBalance?: number | null // Payoff balance
+  monthlyPayment?: number | null
+  interestRate?: number | null // APR, percent
+}
+
+export interface PriorCourtOrderExtraction {
+  caseNumber?: string | null
+  courtName?: string | null
+  county?: string | null
+  state?: string | null
+  judgeName?: string | null
+  petitionerName?: string | null
+  respondentName?: string | null
+  orderTypes?: PriorOrderType[] | null
+  orderDate?: string | null // YYYY-MM-DD
+  expirationDate?: string | null // YYYY-MM-DD, protective orders
+  childSupportAmount?: number | null // Monthly
+  alimonyAmount?: number | null // Monthly
+  supportPayorName?: string | null
+  legalCustody?: CustodyKind | null
+  physicalCustody?: CustodyKind | null
+  parentTimeSchedule?: string | null
+  restrainedPartyName?: string | null
+  protectedPartyNames?: string[] | null
+  noContact?: boolean | null
+  stayAwayDistanceFeet?: number | null
+  contactRestrictions?: string[] | null
+}
+
 export interface Document {
   id: string
   user_id: string
   file_name: string
   file_path: string | null
+  file_paths?: string[] | null // All pages, in order, for documents uploaded as several files
+  spouse_number?: 1 | 2 | null // Whose document it is; null for older uploads (treated as spouse 1)
   document_type: DocumentType
   uploaded_at: string
   status: 'uploaded' | 'processing' | 'processed' | 'failed'
@@ -107,7 +318,7 @@ export interface FinancialInfo {
     investment?: number
     rental?: number
     sources?: string[]
-    payFrequency?: 'weekly' | 'biweekly' | 'monthly' | 'yearly'
+    payFrequency?: PayFrequency
   }
   employers?: Array<{
     name: string
@@ -251,12 +462,17 @@ export interface IncomeRow {
   total_income: number | null
   adjusted_gross_income: number | null
   income_type: string | null // 'employment', 'self_employed', 'benefits', 'mixed'
-  pay_frequency: 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null
+  pay_frequency: PayFrequency | null
   overtime: number | null
   bonuses: number | null
+  split_method?: IncomeSplitMethod | null // Set when the figures are this spouse's share of a joint tax return
+  split_percentage?: number | null // This spouse's share of the joint return's income
   last_updated: string
 }
 
+// How a married-filing-jointly return was divided between the spouses
+export type IncomeSplitMethod = 'w2' | 'manual'
+
 export interface EmployerRow {
   id: string
   user_id: string
@@ -291,6 +507,11 @@ export interface AssetRow {
   ownership_type: string | null // 'joint' or 'separate'
   bank_name: string | null
   account_number: string | null
+  balance_as_of?: string | null // YYYY-MM-DD, statement date of approximate_value (retirement accounts)
+  marital_portion?: number | null // Part of the balance earned during the marriage
+  separate_portion?: number | null // Part of the balance from before the marriage
+  property_address?: string | null // Homes
+  vin?: string | null // Vehicles
   last_updated: string
 }
 
@@ -301,6 +522,7 @@ export interface DebtRow {
   creditor_name: string | null
   approximate_balance: number | null
   monthly_payment: number | null
+  secured_asset_id?: string | null // Home or vehicle the mortgage or loan is secured by
   last_updated: string
 }
 
@@ -334,6 +556,35 @@ export interface CourtInfoRow {
   last_updated: string
 }
 
+// One prior court order (custody, support or protective) - one row per uploaded order
+export interface PriorOrderRow {
+  id: string
+  user_id: string
+  document_id: string
+  case_number: string | null
+  court_name: string | null
+  county: string | null
+  state: string | null
+  judge_name: string | null
+  petitioner_name: string | null
+  respondent_name: string | null
+  order_types: PriorOrderType[] | null
+  order_date: string | null
+  expiration_date: string | null // Protective orders
+  child_support_amount: number | null // Monthly
+  alimony_amount: number | null // Monthly
+  support_payor_name: string | null
+  legal_custody: CustodyKind | null
+  physical_custody: CustodyKind | null
+  parent_time_schedule: string | null
+  restrained_party_name: string | null
+  protected_party_names: string[] | null
+  no_contact: boolean | null
+  stay_away_distance_feet: number | null
+  contact_restrictions: string[] | null
+  last_updated: string
+}
+
 // Aggregated normalized form data (for extension compatibility)
 export interface NormalizedFormData {
   personal_info: PersonalInfoRow | null
@@ -347,3 +598,125 @@ export interface NormalizedFormData {
   marriage_info: MarriageInfoRow | null
   court_info: CourtInfoRow | null
 }
+
+// ============================================================================
+// Calculations
+// ============================================================================
+
+export type PhysicalCustodyWorksheet = 'sole' | 'joint' | 'split'
+
+export interface ChildSupportCalculationRow {
+  id: string
+  user_id: string
+  schedule_version: string
+  schedule_official: boolean // Calculated from the statutory table - only then is it autofilled into MyCase or the packet
+  custody_worksheet: PhysicalCustodyWorksheet
+  number_of_children: number
+  spouse1_monthly_income: number
+  spouse2_monthly_income: number
+  combined_monthly_income: number
+  spouse1_income_percentage: number
+  spouse2_income_percentage: number
+  base_combined_obligation: number
+  adjusted_combined_obligation: number
+  spouse1_share: number
+  spouse2_share: number
+  spouse1_obligation: number
+  spouse2_obligation: number
+  obligor_spouse_number: 1 | 2 | null
+  monthly_support_amount: number
+  spouse1_annual_overnights: number | null
+  spouse2_annual_overnights: number | null
+  last_updated: string
+}
+
+export type AllocationAssignee = 'spouse1' | 'spouse2' | 'split'
+
+export interface PropertyAllocationRow {
+  id: string
+  user_id: string
+  asset_id: string | null // Exactly one of asset_id / debt_id is set
+  debt_id: string | null
+  assigned_to: AllocationAssignee
+  spouse1_percentage: number | null // Only used when assigned_to is 'split' (0-100)
+  last_updated: string
+}
+
+export type DeclarationItemType = 'income' | 'deduction' | 'expense'
+
+export interface FinancialDeclarationItemRow {
+  id: string
+  user_id: string
+  spouse_number: 1 | 2
+  item_type: DeclarationItemType
+  category: string // Key from the category lists in financialDeclarationService
+  monthly_amount: number | null
+  notes: string | null
+  last_updated: string
+}
+
+export interface BankTransactionRow {
+  id: string
+  user_id: string
+  document_id: string // Bank statement the transaction came from
+  spouse_number: 1 | 2
+  transaction_date: string | null
+  description: string
+  amount: number // Negative for money out
+  running_balance: number | null
+  category: string | null // Declaration expense category key, or 'income' / 'transfer' / 'cash'; null when no rule matched
+  is_recurring: boolean
+  recurrence_frequency: PayFrequency | null
+  last_updated: string
+}
+
+// ============================================================================
+// Provenance
+// ============================================================================
+
+export type ExtractionMethod = 'regex' | 'gemini' | 'barcode'
+
+export interface FieldProvenanceRow {
+  id: string
+  user_id: string
+  document_id: string
+  table_name: string // Normalized table, e.g. 'personal_info', 'income'
+  column_name: string
+  spouse_number: 1 | 2 // Spouse the row belongs to (1 for single-row tables)
+  row_id: string // Child, employer, asset or debt the value was written to, '' for single-row tables (migration V21)
+  extraction_method: ExtractionMethod
+  document_label: string // e.g. '2023 tax return'
+  source_snippet: string | null // Raw text around the matched value
+  extracted_at: string
+}
+
+export interface ConflictCandidate {
+  value: any
+  document_id: string | null // null when the value was entered manually
+  document_label: string
+  extraction_method: ExtractionMethod | null
+}
+
+export interface FieldConflictRow {
+  id: string
+  user_id: string
+  table_name: string
+  column_name: string
+  spouse_number: 1 | 2
+  candidates: ConflictCandidate[]
+  status: 'open' | 'resolved'
+  resolved_value: any // Applied on every later migration/re-aggregation once resolved
+  detected_at: string
+  resolved_at: string | null
+}
+
+export interface FieldLockRow {
+  id: string
+  user_id: string
+  table_name: string
+  column_name: string
+  spouse_number: 1 | 2
+  row_id: string // Asset, debt or employer the column belongs to, '' for single-row tables (migration V20)
+  value: any // The user's value, restored after re-aggregation
+  locked_at: string
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Builds the MyCase field map for the Chrome extension (loaded by scripts/content.js)
+export default defineConfig({
+  build: {
+    outDir: resolve(__dirname, '../lib'),
+    emptyOutDir: false,
+    lib: {
+      entry: resolve(__dirname, 'src/services/mycaseFieldMap.ts'),
+      name: 'DivorceEzFieldMap',
+      formats: ['iife'],
+      fileName: () => 'mycase-field-map.js'
+    }
+  }
+})
@@ -0,0 +1 @@
+var DivorceEzFieldMap=function(m){"use strict";const I=/\b(enter|please|required|optional|field|input|text|box)\b/gi,F=/\b(respondent|spouse|spouse's|other\s*(party|parent)|parent\s*2|partner)\b/i,j=/\b(petitioner|parent\s*1)\b/i,f=/\b(support|obligation|worksheet|overnights?|combined)\b/i,g=/\b(child|children|dependents?|minor|kids)\b/i,A={single:"Single",married_joint:"Married Filing Jointly",married_separate:"Married Filing Separately",head_of_household:"Head of Household"},p="child_support_calculations",$=.9,O=.8,D=.6,s=(e,t)=>r=>({table:e,column:t.replace("{spouse}",String(r)),spouseNumber:1}),a=(e,t)=>r=>({table:e,column:t,spouseNumber:r}),l=e=>t=>t===1?{table:"personal_info",column:e,spouseNumber:1}:{table:"spouse_info",column:e,spouseNumber:2},h=e=>{var t;return(t=e.child_support)!=null&&t.schedule_official?e.child_support:null},i=(e,t)=>t===1?e.personal_info:e.spouse_info,c=(e,t)=>e.income.find(r=>r.spouse_number===t)||{},_=(e,t)=>e.expenses.find(r=>r.spouse_number===t)||{},v=e=>{const t=e.reduce((r,o)=>r+(o||0),0);return t>0?t:null},k=["first","second","third","fourth","fifth","sixth"],x=(e,t)=>{const r=t.match(/\b(?:child|dependent)\s*#?\s*(\d+)\b/i),o=k.findIndex(u=>new RegExp(`\\b${u}\\s+(child|dependent)\\b`,"i").test(t)),n=r?parseInt(r[1],10)-1:Math.max(o,0);return e.children[n]||null},C=[{id:"childSupport.baseCombinedObligation",match:[f,/\bbase\b/i,/\bobligation\b/i],source:s(p,"base_combined_obligation"),format:"currency",value:e=>{var t;return(t=h(e))==null?void 0:t.base_combined_obligation}},{id:"childSupport.combinedMonthlyIncome",match:[f,/\bcombined\b/i,/\bincome\b/i],source:s(p,"combined_monthly_income"),format:"currency",value:e=>{var t;return(t=h(e))==null?void 0:t.combined_monthly_income}},{id:"childSupport.incomePercentage",match:[f,/\bpercent(age)?\b|%/i],perSpouse:!0,source:s(p,"spouse{spouse}_income_percentage"),format:"number",value:(e,t)=>{var r;return(r=h(e))==null?void 0:r[`spouse${t}_income_percentage`]}},{id:"childSupport.overnights",match:[f,/\bovernights?\b/i],perSpouse:!0,source:s(p,"spouse{spouse}_annual_overnights"),format:"number",value:(e,t)=>{var r;return(r=h(e))==null?void 0:r[`spouse${t}_annual_overnights`]}},{id:"childSupport.share",match:[f,/\bshare\b/i],perSpouse:!0,source:s(p,"spouse{spouse}_share"),format:"currency",value:(e,t)=>{var r;return(r=h(e))==null?void 0:r[`spouse${t}_share`]}},{id:"childSupport.monthlyIncome",match:[f,/\b(gross|monthly)\b/i,/\bincome\b/i],perSpouse:!0,source:s(p,"spouse{spouse}_monthly_income"),format:"currency",value:(e,t)=>{var r;return(r=h(e))==null?void 0:r[`spouse${t}_monthly_income`]}},{id:"childSupport.obligation",match:[f,/\bobligation\b/i],perSpouse:!0,source:s(p,"spouse{spouse}_obligation"),format:"currency",value:(e,t)=>{var r;return(r=h(e))==null?void 0:r[`spouse${t}_obligation`]}},{id:"childSupport.monthlySupportAmount",match:[/\bchild\s*support\b/i,/\b(amount|monthly|total|pay|payment)\b/i],source:s(p,"monthly_support_amount"),format:"currency",value:e=>{var t;return(t=h(e))==null?void 0:t.monthly_support_amount}},{id:"children.count",match:[g,/\b(how\s*many|number\s*of|count)\b/i],format:"number",value:e=>{var t;return e.children.length||((t=h(e))==null?void 0:t.number_of_children)}},{id:"children.hasMinorChildren",match:[/\b(do|does|are\s*there|have|has)\b/i,/\bminor\s*children\b|\bchildren\b/i],exclude:/\b(name|birth|dob)\b/i,format:"yesNo",value:e=>{var t;return((t=e.court_info)==null?void 0:t.has_minor_children)??(e.children.length>0?!0:null)}},{id:"children.name",match:[g,/\bname\b/i],source:s("children","full_name"),format:"text",value:(e,t,r)=>{var o;return(o=x(e,r))==null?void 0:o.full_name}},{id:"children.dateOfBirth",match:[g,/\b(dob|birth|birthdate|birthday|born)\b/i],source:s("children","date_of_birth"),format:"date",value:(e,t,r)=>{var o;return(o=x(e,r))==null?void 0:o.date_of_birth}},{id:"children.names",match:[/\b(children|dependents)\b/i],exclude:/\b(custody|parent[- ]?time|overnights?|support)\b/i,format:"text",value:e=>e.children.map(t=>t.full_name).filter(Boolean).join(", ")},{id:"marriage.nameAtMarriage",match:[/\bname\b/i,/\b(at\s*(the\s*)?(time\s*of\s*)?(the\s*)?marriage|before\s*(the\s*)?marriage|maiden|prior\s*name)\b/i],perSpouse:!0,source:s("marriage_info","spouse{spouse}_name_at_marriage"),format:"text",value:(e,t)=>{var r;return(r=e.marriage_info)==null?void 0:r[`spouse${t}_name_at_marriage`]}},{id:"marriage.date",match:[/\b(marriage|married)\b/i,/\b(date|when)\b/i],source:s("marriage_info","marriage_date"),format:"date",value:e=>{var t;return(t=e.marriage_info)==null?void 0:t.marriage_date}},{id:"marriage.place",match:[/\b(marriage|married)\b/i,/\b(place|location|where|city|county|state)\b/i],source:s("marriage_info","marriage_place"),format:"text",value:e=>{var t;return(t=e.marriage_info)==null?void 0:t.marriage_place}},{id:"marriage.dateOfSeparation",match:[/\bseparat(e|ed|ion)\b/i,/\b(date|when)\b/i],source:s("marriage_info","date_of_separation"),format:"date",value:e=>{var t;return(t=e.marriage_info)==null?void 0:t.date_of_separation}},{id:"person.firstName",match:[/\b(first|given)\s*name\b|\b(fname|firstname|first_name)\b/i],perSpouse:!0,source:l("first_name"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.first_name}},{id:"person.middleName",match:[/\bmiddle\s*name\b|\b(mname|middlename|middle_name|middle\s*initial)\b/i],perSpouse:!0,source:l("middle_name"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.middle_name}},{id:"person.lastName",match:[/\b(last|family)\s*name\b|\b(lname|lastname|last_name|surname)\b/i],perSpouse:!0,source:l("last_name"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.last_name}},{id:"person.fullName",match:[/\b(full\s*name|fullname|full_name|legal\s*name|name)\b/i],exclude:/\b(first|last|middle|maiden|given|surname|employer|company|bank|business|court|judge)\b/i,perSpouse:!0,format:"text",value:(e,t)=>{const r=i(e,t);return r?[r.first_name,r.middle_name,r.last_name].filter(Boolean).join(" "):null}},{id:"person.dateOfBirth",match:[/\b(dob|date\s*of\s*birth|dateofbirth|date_of_birth|birth\s*date|birthdate|birthday|born)\b/i],perSpouse:!0,source:l("date_of_birth"),format:"date",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.date_of_birth}},{id:"person.ssnLast4",match:[/\b(ssn|social\s*security|socialsecurity|social_security|ss\s*#)/i],perSpouse:!0,source:l("ssn_last_4"),format:"ssnLast4",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.ssn_last_4}},{id:"person.driverLicenseState",match:[/\b(driver'?s?\s*license|license|dl)\b/i,/\b(state|st|issued)\b/i],exclude:/\b(marriage|business|professional)\b/i,perSpouse:!0,source:l("driver_license_state"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.driver_license_state}},{id:"person.driverLicenseNumber",match:[/\b(driver'?s?\s*license|driverslicense|drivers_license|license|dl)\b/i],exclude:/\b(marriage|business|professional)\b/i,perSpouse:!0,source:l("driver_license_number"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.driver_license_number}},{id:"person.phone",match:[/\b(phone|telephone|mobile|cell|cellphone|phonenumber|phone_number)\b/i],perSpouse:!0,source:l("phone"),format:"phone",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.phone}},{id:"person.email",match:[/\b(email|e-mail|e_mail|emailaddress|email_address)\b/i],perSpouse:!0,source:l("email"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.email}},{id:"person.addressStreet",match:[/\b(street|address|addr|streetaddress|street_address|line\s*1|line1)\b/i],exclude:/\b(city|state|zip|postal|email)\b/i,perSpouse:!0,source:l("address_street"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.address_street}},{id:"person.addressCity",match:[/\b(city|town)\b/i],exclude:/\b(state|zip|postal|street)\b/i,perSpouse:!0,source:l("address_city"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.address_city}},{id:"person.addressState",match:[/\b(state|st)\b/i],exclude:/\b(zip|postal|city|street|filing|status)\b/i,perSpouse:!0,source:l("address_state"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.address_state}},{id:"person.addressZipCode",match:[/\b(zip|postal|zipcode|zip_code|postalcode|postal_code)\b/i],perSpouse:!0,source:l("address_zip_code"),format:"text",value:(e,t)=>{var r;return(r=i(e,t))==null?void 0:r.address_zip_code}},{id:"court.utahResidencyYears",match:[/\butah\b/i,/\b(resident|residency|resided|lived|live)\b/i],source:s("personal_info","utah_residency_years"),format:"number",value:e=>{var t;return(t=e.personal_info)==null?void 0:t.utah_residency_years}},{id:"court.county",match:[/\bcounty\b/i],source:s("court_info","county"),format:"text",value:e=>{var t;return(t=e.court_info)==null?void 0:t.county}},{id:"court.hasDomesticViolence",match:[/\b(domestic\s*violence|protective\s*order|abuse)\b/i],source:s("court_info","has_domestic_violence"),format:"yesNo",value:e=>{var t;return(t=e.court_info)==null?void 0:t.has_domestic_violence}},{id:"court.hasPriorOrders",match:[/\b(prior|previous|existing|other)\b/i,/\b(orders?|cases?)\b/i],source:s("court_info","has_prior_orders"),format:"yesNo",value:e=>{var t;return(t=e.court_info)==null?void 0:t.has_prior_orders}},{id:"person.filingStatus",match:[/\b(filing|tax)\b/i,/\bstatus\b/i],source:s("personal_info","filing_status"),format:"text",value:e=>{var r;const t=(r=e.personal_info)==null?void 0:r.filing_status;return t?A[t]:null}},{id:"income.grossMonthly",match:[/\b(monthly|per\s*month|month)\b/i,/\b(income|earnings|pay|wages?|salary)\b/i],exclude:/\bnet\b/i,perSpouse:!0,source:a("income","gross_monthly_income"),format:"currency",value:(e,t)=>c(e,t).gross_monthly_income},{id:"income.grossAnnual",match:[/\b(annual|yearly|per\s*year|year)\b/i,/\b(income|earnings|pay|wages?|salary)\b/i],exclude:/\bnet\b/i,perSpouse:!0,source:a("income","gross_annual_income"),format:"currency",value:(e,t)=>c(e,t).gross_annual_income},{id:"income.adjustedGross",match:[/\b(adjusted\s*gross|agi|adjustedgross|adjusted_gross|line\s*11)\b/i],perSpouse:!0,source:a("income","adjusted_gross_income"),format:"currency",value:(e,t)=>c(e,t).adjusted_gross_income??c(e,t).gross_annual_income},{id:"income.total",match:[/\b(total\s*income|line\s*9)\b/i],perSpouse:!0,source:a("income","total_income"),format:"currency",value:(e,t)=>c(e,t).total_income??c(e,t).gross_annual_income},{id:"income.selfEmployment",match:[/\b(self|self[- ]?employment|self[- ]?employed|business)\b/i,/\b(income|earnings|pay)\b/i],perSpouse:!0,source:a("income","self_employment_income"),format:"currency",value:(e,t)=>c(e,t).self_employment_income},{id:"income.investment",match:[/\b(investment|interest|dividends?)\b/i,/\b(income|earnings)\b/i],perSpouse:!0,source:a("income","investment_income"),format:"currency",value:(e,t)=>c(e,t).investment_income},{id:"income.rental",match:[/\b(rental|rent)\b/i,/\b(income|earnings)\b/i],perSpouse:!0,source:a("income","rental_income"),format:"currency",value:(e,t)=>c(e,t).rental_income},{id:"income.overtime",match:[/\b(overtime|ot)\b/i],perSpouse:!0,source:a("income","overtime"),format:"currency",value:(e,t)=>c(e,t).overtime},{id:"income.bonuses",match:[/\b(bonus|bonuses|commissions?)\b/i],perSpouse:!0,source:a("income","bonuses"),format:"currency",value:(e,t)=>c(e,t).bonuses},{id:"income.wages",match:[/\b(wages?|salary|salaried|employment)\b/i],exclude:/\b(self|business|investment|rental)\b/i,perSpouse:!0,source:a("income","wage_income"),format:"currency",value:(e,t)=>c(e,t).wage_income},{id:"income.gross",match:[/\b(income|earnings|gross\s*pay|grosspay)\b/i],exclude:/\bnet\b/i,perSpouse:!0,source:a("income","gross_annual_income"),format:"currency",value:(e,t)=>c(e,t).gross_annual_income??c(e,t).gross_monthly_income},{id:"employers.name",match:[/\b(employers?|company|work|employer_name|company_name|employername|companyname)\b/i],perSpouse:!0,source:a("employers","employer_name"),format:"text",value:(e,t,r)=>{const o=e.employers.filter(n=>n.spouse_number===t).map(n=>n.employer_name).filter(Boolean);return/\b(all|list|employers)\b/i.test(r)?o.join(", "):o[0]}},{id:"expenses.healthInsurance",match:[/\b(health|medical|dental)\b/i,/\b(insurance|premiums?)\b/i],perSpouse:!0,source:a("expenses","monthly_health_insurance"),format:"currency",value:(e,t)=>_(e,t).monthly_health_insurance},{id:"expenses.insurancePremiums",match:[/\b(insurance|premiums?)\b/i],perSpouse:!0,source:a("expenses","monthly_insurance_premiums"),format:"currency",value:(e,t)=>_(e,t).monthly_insurance_premiums},{id:"expenses.childcare",match:[/\b(childcare|daycare|child\s*care|day\s*care)\b/i],perSpouse:!0,source:a("expenses","monthly_childcare_cost"),format:"currency",value:(e,t)=>_(e,t).monthly_childcare_cost},{id:"expenses.housing",match:[/\b(housing|rent|mortgage)\b/i],exclude:/\b(income|balance|owed)\b/i,perSpouse:!0,source:a("expenses","monthly_housing_cost"),format:"currency",value:(e,t)=>_(e,t).monthly_housing_cost},{id:"expenses.utilities",match:[/\b(utilities|utility|electric|electricity|water|power)\b/i],perSpouse:!0,source:a("expenses","monthly_utilities"),format:"currency",value:(e,t)=>_(e,t).monthly_utilities},{id:"expenses.transportation",match:[/\b(transportation|car|vehicle|gas|gasoline|auto)\b/i],exclude:/\b(value|worth|loan|balance)\b/i,perSpouse:!0,source:a("expenses","monthly_transportation"),format:"currency",value:(e,t)=>_(e,t).monthly_transportation},{id:"expenses.payrollDeductions",match:[/\b(payroll|paycheck)\b/i,/\bdeductions?\b/i],perSpouse:!0,source:a("expenses","monthly_payroll_deductions"),format:"currency",value:(e,t)=>_(e,t).monthly_payroll_deductions},{id:"expenses.debtPayments",match:[/\b(debts?|loans?|credit\s*cards?)\b/i,/\b(payments?|monthly)\b/i],exclude:/\b(income|asset)\b/i,perSpouse:!0,source:a("expenses","monthly_debt_payments"),format:"currency",value:(e,t)=>_(e,t).monthly_debt_payments},{id:"assets.bankAccountsTotal",match:[/\b(bank|checking|savings|bankaccount|bank_account|account\s*balance)\b/i],format:"currency",value:e=>v(e.assets.filter(t=>t.asset_type==="bank_account").map(t=>t.approximate_value))},{id:"debts.total",match:[/\b(debts?|liability|liabilities|debtamount|debt_amount)\b/i],exclude:/\b(income|asset)\b/i,format:"currency",value:e=>v(e.debts.map(t=>t.approximate_balance))},{id:"assets.total",match:[/\b(assets?|assetvalue|asset_value)\b/i],format:"currency",value:e=>v(e.assets.map(t=>t.approximate_value))}];function N(e){if(e.id){const o=e.ownerDocument.querySelector(`label[for="${e.id}"]`);if(o)return o.textContent||""}const t=e.closest("label");if(t)return t.textContent||"";let r=e.previousElementSibling;for(;r;){if(r.tagName==="LABEL")return r.textContent||"";r=r.previousElementSibling}return""}const B=(e,t)=>Array.from(e.querySelectorAll("input, select, textarea")).some(r=>r!==t&&!(t.type==="radio"&&r.name===t.name));function R(e){let t="",r=e.parentElement;for(let o=0;r&&o<3&&!B(r,e);o++){const n=r.querySelector("label");n!=null&&n.textContent&&(t+=" "+n.textContent.trim());const u=Array.from(r.childNodes).filter(b=>b.nodeType===Node.TEXT_NODE).map(b=>(b.textContent||"").trim()).filter(b=>b.length>0);u.length>0&&(t+=" "+u.join(" "));const d=r.getAttribute("aria-label");d&&(t+=" "+d.trim()),r=r.parentElement}return t.trim()}function P(e){return{name:(e.name||e.id||"").toLowerCase(),label:N(e).toLowerCase(),placeholder:("placeholder"in e&&e.placeholder||"").toLowerCase(),ariaLabel:(e.getAttribute("aria-label")||"").toLowerCase(),dataTestId:(e.getAttribute("data-testid")||"").toLowerCase(),dataName:(e.getAttribute("data-name")||"").toLowerCase(),title:(e.getAttribute("title")||"").toLowerCase(),parentText:R(e).toLowerCase(),type:e.type}}function y(e){return[e.name,e.label,e.placeholder,e.ariaLabel,e.dataTestId,e.dataName,e.title,e.parentText].filter(Boolean).join(" ").toLowerCase().replace(I,"").replace(/\s+/g," ").trim()}function L(e){return F.test(e)&&!j.test(e)?2:1}const S=(e,t)=>{var r;return e.match.every(o=>o.test(t))&&!((r=e.exclude)!=null&&r.test(t))};function E(e){return C.find(t=>S(t,e))||null}function w(e,t){var n,u;if(!t)return{label:"Calculated from your information",adjustment:-.1};if(t.table===p)return{label:"Child support worksheet",adjustment:0};const r=d=>d.table_name===t.table&&d.column_name===t.column&&d.spouse_number===t.spouseNumber;if((n=e.field_locks)!=null&&n.some(r))return{label:"Edited by you",adjustment:.05};const o=(u=e.field_provenance)==null?void 0:u.find(r);return o?o.extraction_method==="barcode"?{label:`${o.document_label} (barcode)`,adjustment:0}:o.extraction_method==="gemini"?{label:`${o.document_label} (AI extraction)`,adjustment:-.05}:{label:`${o.document_label} (text match)`,adjustment:-.15}:{label:"Entered on the platform",adjustment:0}}function z(e,t){const{label:r,ariaLabel:o,placeholder:n,title:u}=e,d=y({label:r,ariaLabel:o,placeholder:n,title:u});if(d&&S(t,d))return $;const b=y({...e,parentText:""});return b&&S(t,b)?O:D}function T(e,t,r="text"){if(e==null||e==="")return null;switch(t){case"date":{const o=String(e).match(/^(\d{4})-(\d{2})-(\d{2})/);return o?r==="date"?`${o[1]}-${o[2]}-${o[3]}`:`${o[2]}/${o[3]}/${o[1]}`:String(e)}case"currency":{const o=typeof e=="number"?e:parseFloat(String(e).replace(/[^\d.-]/g,""));return isNaN(o)?null:o.toFixed(2)}case"phone":{const o=String(e).replace(/\D/g,"").replace(/^1(?=\d{10}$)/,"");return o.length===10?`(${o.slice(0,3)}) ${o.slice(3,6)}-${o.slice(6)}`:String(e)}case"ssnLast4":{const o=String(e).replace(/\D/g,"");return o.length>=4?o.slice(-4):null}case"yesNo":return e?"Yes":"No";case"number":{const o=typeof e=="number"?e:parseFloat(String(e));return isNaN(o)?null:o}default:return String(e).trim()||null}}function Q(e,t){var M;const r=y(e),o=r?E(r):null;if(!o)return null;const n=o.perSpouse?L(r):1,u=((M=o.source)==null?void 0:M.call(o,n))||null,{label:d,adjustment:b}=w(t,u),H=Math.min(.99,Math.max(.1,z(e,o)+b));return{questionId:o.id,spouse:n,value:T(o.value(t,n,r),o.format,e.type),source:u,sourceLabel:d,confidence:Math.round(H*100)/100}}return m.MYCASE_QUESTIONS=C,m.describeValueSource=w,m.findMyCaseQuestion=E,m.formatMyCaseValue=T,m.getMyCaseFieldInfo=P,m.getMyCaseFieldLabel=N,m.getQuestionSpouse=L,m.getQuestionText=y,m.resolveMyCaseField=Q,Object.defineProperty(m,Symbol.toStringTag,{value:"Module"}),m}({});
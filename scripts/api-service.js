@@ -151,7 +151,10 @@ class ApiService {
         assetsRes,
         debtsRes,
         marriageInfoRes,
-        courtInfoRes
+        courtInfoRes,
+        childSupportRes,
+        provenanceRes,
+        fieldLocksRes
       ] = await Promise.all([
         fetch(`${supabaseUrl}/rest/v1/personal_info?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
         fetch(`${supabaseUrl}/rest/v1/spouse_info?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
@@ -162,7 +165,10 @@ class ApiService {
         fetch(`${supabaseUrl}/rest/v1/assets?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
         fetch(`${supabaseUrl}/rest/v1/debts?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
         fetch(`${supabaseUrl}/rest/v1/marriage_info?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
-        fetch(`${supabaseUrl}/rest/v1/court_info?user_id=eq.${user.id}&select=*`, { method: 'GET', headers })
+        fetch(`${supabaseUrl}/rest/v1/court_info?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
+        fetch(`${supabaseUrl}/rest/v1/child_support_calculations?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
+        fetch(`${supabaseUrl}/rest/v1/field_provenance?user_id=eq.${user.id}&select=*`, { method: 'GET', headers }),
+        fetch(`${supabaseUrl}/rest/v1/field_locks?user_id=eq.${user.id}&select=*`, { method: 'GET', headers })
       ])
 
       // Parse responses
@@ -176,6 +182,9 @@ class ApiService {
       const debts = debtsRes.ok ? await debtsRes.json() : []
       const marriageInfo = marriageInfoRes.ok ? (await marriageInfoRes.json())[0] : null
       const courtInfo = courtInfoRes.ok ? (await courtInfoRes.json())[0] : null
+      const childSupport = childSupportRes.ok ? (await childSupportRes.json())[0] : null
+      const fieldProvenance = provenanceRes.ok ? await provenanceRes.json() : []
+      const fieldLocks = fieldLocksRes.ok ? await fieldLocksRes.json() : []
 
       // Get income for spouse 1 (primary)
       const spouse1Income = income.find(i => i.spouse_number === 1) || {}
@@ -267,7 +276,47 @@ class ApiService {
           jurisdictions: courtInfo.jurisdictions || [],
           custodyConstraints: courtInfo.custody_constraints || [],
           hasDomesticViolence: courtInfo.has_domestic_violence
-        } : {}
+        } : {},
+        // Worksheets from the platform's estimated schedule are never autofilled (schedule_official, migration V19)
+        child_support: childSupport && childSupport.schedule_official ? {
+          worksheetType: childSupport.custody_worksheet,
+          numberOfChildren: childSupport.number_of_children,
+          combinedMonthlyIncome: childSupport.combined_monthly_income,
+          baseCombinedObligation: childSupport.base_combined_obligation,
+          adjustedCombinedObligation: childSupport.adjusted_combined_obligation,
+          spouse1: {
+            monthlyIncome: childSupport.spouse1_monthly_income,
+            incomePercentage: childSupport.spouse1_income_percentage,
+            share: childSupport.spouse1_share,
+            obligation: childSupport.spouse1_obligation,
+            overnights: childSupport.spouse1_annual_overnights
+          },
+          spouse2: {
+            monthlyIncome: childSupport.spouse2_monthly_income,
+            incomePercentage: childSupport.spouse2_income_percentage,
+            share: childSupport.spouse2_share,
+            obligation: childSupport.spouse2_obligation,
+            overnights: childSupport.spouse2_annual_overnights
+          },
+          obligorSpouseNumber: childSupport.obligor_spouse_number,
+          monthlySupportAmount: childSupport.monthly_support_amount
+        } : {},
+        // Normalized rows as stored by the platform, read by the MyCase field map (lib/mycase-field-map.js)
+        normalized: {
+          personal_info: personalInfo || null,
+          spouse_info: spouseInfo || null,
+          children,
+          income,
+          employers,
+          expenses,
+          assets,
+          debts,
+          marriage_info: marriageInfo || null,
+          court_info: courtInfo || null,
+          child_support: childSupport || null,
+          field_provenance: fieldProvenance,
+          field_locks: fieldLocks
+        }
       }
 
       // Log data structure for debugging
@@ -276,6 +325,7 @@ class ApiService {
         hasFinancialInfo: !!formData.financial_info && Object.keys(formData.financial_info).length > 0,
         hasMarriageInfo: !!formData.marriage_info && Object.keys(formData.marriage_info).length > 0,
         hasCourtInfo: !!formData.court_info && Object.keys(formData.court_info).length > 0,
+        hasChildSupport: !!formData.child_support && Object.keys(formData.child_support).length > 0,
         personalInfoKeys: Object.keys(formData.personal_info),
         financialInfoKeys: Object.keys(formData.financial_info),
         hasIncome: !!formData.financial_info.income,
@@ -85,6 +85,8 @@ async function getDataWithFallback() {
             financial_info: formData.financial_info || {},
             marriage_info: formData.marriage_info || {},
             court_info: formData.court_info || {},
+            child_support: formData.child_support || {},
+            normalized: formData.normalized || null,
             synced: true,
           });
           return {
@@ -92,6 +94,8 @@ async function getDataWithFallback() {
             financial_info: formData.financial_info || {},
             marriage_info: formData.marriage_info || {},
             court_info: formData.court_info || {},
+            child_support: formData.child_support || {},
+            normalized: formData.normalized || null,
             synced: true,
           };
         }
@@ -133,6 +137,8 @@ async function syncFromPlatform() {
         financial_info: formData.financial_info || {},
         marriage_info: formData.marriage_info || {},
         court_info: formData.court_info || {},
+        child_support: formData.child_support || {},
+        normalized: formData.normalized || null,
         synced: true,
         syncedAt: new Date().toISOString(),
       };
@@ -12,6 +12,14 @@ let isInitialized = false;
 let filledFields = new Set(); // Track which fields have been filled to prevent re-filling
 let isUICollapsed = false; // Track if UI is collapsed
 
+// Preview confidence: legacy pattern matches get a flat score; values below the threshold start out skipped
+const LEGACY_MATCH_CONFIDENCE = 0.5;
+const AUTO_ACCEPT_CONFIDENCE = 0.6;
+
+// Ways a yes/no answer is written - the field map formats booleans as 'Yes'/'No', checkboxes default to 'on'
+const YES_VALUES = ['yes', 'y', 'true', '1', 'on'];
+const NO_VALUES = ['no', 'n', 'false', '0', 'off'];
+
 // Initialize immediately and on various events
 console.log('🔧 Divorce EZ Content Script loaded');
 
@@ -304,9 +312,15 @@ function createAutoFillUI(data, errorMessage = null) {
         } else {
           filledFields.clear();
         }
-        fillForms(response.data);
-        status.textContent = 'Forms filled!';
-        status.style.color = '#4CAF50';
+        const proposals = collectFieldProposals(response.data);
+        if (proposals.length > 0) {
+          showFillPreview(proposals);
+          status.textContent = `Review ${proposals.length} field(s) before filling`;
+          status.style.color = '#2196F3';
+        } else {
+          status.textContent = 'No matching fields found';
+          status.style.color = '#ff9800';
+        }
       } else {
         status.textContent = 'No data available. Please sync first.';
         status.style.color = '#ff9800';
@@ -404,126 +418,361 @@ function createAutoFillUI(data, errorMessage = null) {
 }
 
 /**
- * Fill forms with extracted data
+ * Collect a proposed value for every detected field, without writing anything
  * Also handles standalone inputs (not in forms)
  */
-function fillForms(data) {
+function collectFieldProposals(data) {
   if (!data) {
-    console.log('⚠️ No data provided to fillForms');
-    return;
+    console.log('⚠️ No data provided to collectFieldProposals');
+    return [];
   }
 
-  console.log('🔍 Starting auto-fill with data:', {
-    hasPersonalInfo: !!data.personal_info,
-    hasFinancialInfo: !!data.financial_info,
-    personalInfoKeys: data.personal_info ? Object.keys(data.personal_info) : [],
-    financialInfoKeys: data.financial_info ? Object.keys(data.financial_info) : [],
-    hasIncome: !!(data.financial_info && data.financial_info.income),
-    incomeKeys: data.financial_info && data.financial_info.income ? Object.keys(data.financial_info.income) : []
-  });
-
   // Ensure filledFields is a Set (in case it got reset somehow)
   if (!(filledFields instanceof Set)) {
     console.warn('⚠️ filledFields was not a Set, reinitializing...');
     filledFields = new Set();
   }
 
-  let filledCount = 0;
-  const filledFieldsLog = []; // For logging only, not for tracking
-
-  // Find all forms
-  const forms = document.querySelectorAll('form');
-  console.log(`📋 Found ${forms.length} form(s)`);
+  const proposals = [];
+  const inputs = document.querySelectorAll('input, textarea, select');
+  console.log(`📝 Found ${inputs.length} input(s)`);
 
-  forms.forEach(form => {
-    const inputs = form.querySelectorAll('input, textarea, select');
-    console.log(`📝 Form has ${inputs.length} input(s)`);
-    
-    inputs.forEach(input => {
-      // Create unique identifier for this field
-      const fieldId = `${input.name || input.id || ''}_${input.type}_${input.form?.id || 'noform'}`;
-      
-      // Skip if already filled (unless field is empty)
-      if (filledFields.has(fieldId) && input.value && input.value.trim() !== '') {
-        return;
-      }
-      
-      const fieldName = getFieldName(input);
-      const value = mapDataToField(fieldName, data);
-      
-      if (value !== null) {
-        // Only fill if field is empty or was previously filled by us
-        if (!input.value || input.value.trim() === '' || filledFields.has(fieldId)) {
-          fillField(input, value);
-          filledFields.add(fieldId); // Mark as filled
-          filledCount++;
-          
-          // Track filled fields for debugging
-          const fieldIdentifier = fieldName.name || fieldName.id || fieldName.label || 'unknown';
-          filledFieldsLog.push({
-            field: fieldIdentifier,
-            value: value,
-            type: input.type
-          });
-          console.log(`✅ Filled field: ${fieldIdentifier} = ${value} (type: ${input.type})`);
-          
-          // Add visual indicator
-          addFieldIndicator(input, true);
-        }
-      }
-    });
-  });
-
-  // Also check for standalone inputs (not in forms) - MyCase might use these
-  const standaloneInputs = document.querySelectorAll('input:not(form input), textarea:not(form textarea), select:not(form select)');
-  console.log(`📝 Found ${standaloneInputs.length} standalone input(s)`);
-  
-  standaloneInputs.forEach(input => {
-    // Skip if already in a form
-    if (input.closest('form')) {
+  inputs.forEach(input => {
+    if (input.type === 'hidden' || input.type === 'submit' || input.type === 'button' || input.closest('#divorce-ez-preview')) {
       return;
     }
-    
+
     // Create unique identifier for this field
-    const fieldId = `${input.name || input.id || ''}_${input.type}_standalone`;
-    
-    // Skip if already filled (unless field is empty)
-    if (filledFields.has(fieldId) && input.value && input.value.trim() !== '') {
+    const fieldId = `${input.name || input.id || ''}_${input.type}_${input.form?.id || (input.closest('form') ? 'noform' : 'standalone')}`;
+
+    // Only propose fields that are empty or were previously filled by us
+    if (input.value && input.value.trim() !== '' && !filledFields.has(fieldId) &&
+        input.type !== 'checkbox' && input.type !== 'radio') {
       return;
     }
-    
-    const fieldName = getFieldName(input);
-    const value = mapDataToField(fieldName, data);
-    
-    if (value !== null) {
-      // Only fill if field is empty or was previously filled by us
-      if (!input.value || input.value.trim() === '' || filledFields.has(fieldId)) {
-        fillField(input, value);
-        filledFields.add(fieldId); // Mark as filled
-        filledCount++;
-        
-        const fieldIdentifier = fieldName.name || fieldName.id || fieldName.label || 'unknown';
-        console.log(`✅ Filled standalone field: ${fieldIdentifier} = ${value}`);
-        
-        addFieldIndicator(input, true);
-      }
+
+    const proposal = getFieldProposal(input, fieldId, data);
+    if (proposal) {
+      proposals.push(proposal);
     }
   });
 
-  // Log summary
-  console.log(`📊 Auto-fill complete: Filled ${filledCount} field(s)`, filledFieldsLog);
+  console.log(`📊 Found ${proposals.length} field(s) to review`, proposals.map(p => ({
+    field: p.label,
+    value: p.value,
+    source: p.sourceLabel,
+    confidence: p.confidence
+  })));
+  return proposals;
+}
 
-  // Update status
-  const status = document.getElementById('divorce-ez-status');
-  if (status) {
-    if (filledCount > 0) {
-      status.textContent = `Filled ${filledCount} field(s)`;
-      status.style.color = '#4CAF50';
-    } else {
-      status.textContent = 'No matching fields found';
-      status.style.color = '#ff9800';
+/**
+ * Proposed value for one input, with where it came from and how sure we are
+ */
+function getFieldProposal(input, fieldId, data) {
+  const fieldInfo = getFieldName(input);
+  let value = null;
+  let sourceLabel = 'Matched by field wording';
+  let confidence = LEGACY_MATCH_CONFIDENCE;
+
+  const resolution = typeof DivorceEzFieldMap !== 'undefined' && data.normalized
+    ? DivorceEzFieldMap.resolveMyCaseField(fieldInfo, data.normalized)
+    : null;
+  if (resolution) {
+    value = resolution.value;
+    sourceLabel = resolution.sourceLabel;
+    confidence = resolution.confidence;
+  } else {
+    value = mapDataToField(fieldInfo, data);
+  }
+
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const isChoice = input.type === 'checkbox' || input.type === 'radio';
+  // A radio group yields one input per option - only the option matching the value is proposed
+  const checked = isChoice ? getChoiceState(input, value) : null;
+  if (isChoice && checked === null) {
+    return null;
+  }
+
+  const label = (getLabelForInput(input) || input.getAttribute('aria-label') || input.placeholder ||
+    input.getAttribute('title') || input.name || input.id || 'Unlabeled field').replace(/\s+/g, ' ').trim();
+
+  return {
+    input,
+    fieldId,
+    label: label.length > 80 ? `${label.slice(0, 77)}...` : label,
+    value: isChoice ? (checked ? 'Checked' : 'Not checked') : String(value),
+    isChoice,
+    checked,
+    sourceLabel,
+    confidence,
+    accepted: confidence >= AUTO_ACCEPT_CONFIDENCE
+  };
+}
+
+/**
+ * Yes/no meaning of a value - true, false, or null when it isn't a yes/no answer
+ */
+function toYesNo(value) {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = String(value).trim().toLowerCase();
+  if (YES_VALUES.includes(text)) return true;
+  if (NO_VALUES.includes(text)) return false;
+  return null;
+}
+
+/**
+ * Checked state a checkbox or radio option should get for a value, or null when the value isn't for this option
+ * A yes/no answer sets a checkbox (a "No" checkbox the other way round) and checks the radio option that means the
+ * same; any other value checks the option with that value
+ */
+function getChoiceState(input, value) {
+  const answer = toYesNo(value);
+  if (answer !== null) {
+    const optionAnswer = toYesNo(input.value);
+    if (input.type === 'checkbox') {
+      return optionAnswer === null ? answer : answer === optionAnswer;
+    }
+    if (optionAnswer !== null) {
+      return answer === optionAnswer ? true : null;
     }
   }
+  return input.value.trim().toLowerCase() === String(value).trim().toLowerCase() ? true : null;
+}
+
+/**
+ * Show the proposed values so the user can accept, edit or skip each one before filling
+ */
+function showFillPreview(proposals) {
+  const existingPreview = document.getElementById('divorce-ez-preview');
+  if (existingPreview) {
+    existingPreview.remove();
+  }
+
+  const panel = document.createElement('div');
+  panel.id = 'divorce-ez-preview';
+  panel.style.cssText = `
+    position: fixed;
+    top: 20px;
+    right: 340px;
+    z-index: 10001;
+    background: #fff;
+    border: 2px solid #2196F3;
+    border-radius: 8px;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+    font-family: Arial, sans-serif;
+    font-size: 13px;
+    width: 420px;
+    max-height: 80vh;
+    display: flex;
+    flex-direction: column;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = 'padding: 12px 15px; border-bottom: 1px solid #eee;';
+  const title = document.createElement('div');
+  title.textContent = 'Review Before Filling';
+  title.style.cssText = 'font-weight: bold; color: #333; font-size: 16px; margin-bottom: 4px;';
+  const intro = document.createElement('div');
+  intro.textContent = 'Accept, edit or skip each value. Nothing is written to the court form until you click Fill.';
+  intro.style.cssText = 'color: #666; font-size: 12px;';
+  header.appendChild(title);
+  header.appendChild(intro);
+
+  const list = document.createElement('div');
+  list.style.cssText = 'overflow-y: auto; padding: 8px 15px; flex: 1;';
+
+  const fillButton = document.createElement('button');
+  const updateFillButton = () => {
+    const count = proposals.filter(p => p.accepted).length;
+    fillButton.textContent = `Fill ${count} Accepted Field(s)`;
+    fillButton.disabled = count === 0;
+    fillButton.style.opacity = count === 0 ? '0.5' : '1';
+  };
+
+  const rows = proposals.map(proposal => {
+    const row = document.createElement('div');
+    row.style.cssText = 'padding: 8px 0; border-bottom: 1px solid #f0f0f0;';
+
+    const label = document.createElement('div');
+    label.textContent = proposal.label;
+    label.title = 'Show this field on the page';
+    label.style.cssText = 'font-weight: bold; color: #333; cursor: pointer; margin-bottom: 4px;';
+    label.onclick = () => highlightField(proposal.input);
+
+    const valueInput = document.createElement('input');
+    valueInput.type = 'text';
+    valueInput.value = proposal.value;
+    valueInput.disabled = proposal.isChoice;
+    valueInput.style.cssText = 'width: 100%; box-sizing: border-box; padding: 4px 6px; border: 1px solid #ccc; border-radius: 4px; font-size: 13px;';
+    valueInput.oninput = () => {
+      proposal.value = valueInput.value;
+    };
+
+    const meta = document.createElement('div');
+    meta.style.cssText = 'display: flex; justify-content: space-between; align-items: center; margin-top: 4px; gap: 8px;';
+
+    const source = document.createElement('span');
+    const percent = Math.round(proposal.confidence * 100);
+    const confidenceColor = proposal.confidence >= 0.8 ? '#4CAF50' : proposal.confidence >= AUTO_ACCEPT_CONFIDENCE ? '#ff9800' : '#f44336';
+    source.appendChild(document.createTextNode(`${proposal.sourceLabel} · `));
+    const confidence = document.createElement('span');
+    confidence.textContent = `${percent}% match`;
+    confidence.style.color = confidenceColor;
+    source.appendChild(confidence);
+    source.style.cssText = 'color: #666; font-size: 11px;';
+
+    const actions = document.createElement('span');
+    actions.style.cssText = 'display: flex; gap: 4px; flex-shrink: 0;';
+    const acceptButton = document.createElement('button');
+    acceptButton.textContent = 'Accept';
+    const skipButton = document.createElement('button');
+    skipButton.textContent = 'Skip';
+
+    const render = () => {
+      acceptButton.style.cssText = `border: 1px solid #4CAF50; border-radius: 4px; padding: 2px 8px; cursor: pointer; font-size: 12px;
+        background: ${proposal.accepted ? '#4CAF50' : '#fff'}; color: ${proposal.accepted ? '#fff' : '#4CAF50'};`;
+      skipButton.style.cssText = `border: 1px solid #999; border-radius: 4px; padding: 2px 8px; cursor: pointer; font-size: 12px;
+        background: ${proposal.accepted ? '#fff' : '#999'}; color: ${proposal.accepted ? '#999' : '#fff'};`;
+      row.style.opacity = proposal.accepted ? '1' : '0.6';
+      updateFillButton();
+    };
+    acceptButton.onclick = () => {
+      proposal.accepted = true;
+      render();
+    };
+    skipButton.onclick = () => {
+      proposal.accepted = false;
+      render();
+    };
+
+    actions.appendChild(acceptButton);
+    actions.appendChild(skipButton);
+    meta.appendChild(source);
+    meta.appendChild(actions);
+
+    row.appendChild(label);
+    row.appendChild(valueInput);
+    row.appendChild(meta);
+    list.appendChild(row);
+    return render;
+  });
+
+  const footer = document.createElement('div');
+  footer.style.cssText = 'padding: 12px 15px; border-top: 1px solid #eee;';
+
+  const bulkActions = document.createElement('div');
+  bulkActions.style.cssText = 'display: flex; gap: 12px; margin-bottom: 8px; font-size: 12px;';
+  [['Accept All', true], ['Skip All', false]].forEach(([text, accepted]) => {
+    const link = document.createElement('button');
+    link.textContent = text;
+    link.style.cssText = 'background: transparent; border: none; color: #2196F3; cursor: pointer; padding: 0; font-size: 12px;';
+    link.onclick = () => {
+      proposals.forEach(p => {
+        p.accepted = accepted;
+      });
+      rows.forEach(render => render());
+    };
+    bulkActions.appendChild(link);
+  });
+
+  fillButton.style.cssText = `
+    background: #4CAF50;
+    color: white;
+    border: none;
+    padding: 8px 16px;
+    border-radius: 4px;
+    cursor: pointer;
+    width: 100%;
+    margin-bottom: 5px;
+    font-size: 14px;
+  `;
+  fillButton.onclick = () => {
+    const filledCount = fillAcceptedFields(proposals);
+    panel.remove();
+
+    const status = document.getElementById('divorce-ez-status');
+    if (status) {
+      status.textContent = filledCount > 0 ? `Filled ${filledCount} field(s)` : 'No fields filled';
+      status.style.color = filledCount > 0 ? '#4CAF50' : '#ff9800';
+    }
+  };
+
+  const cancelButton = document.createElement('button');
+  cancelButton.textContent = 'Cancel';
+  cancelButton.style.cssText = `
+    background: #fff;
+    color: #666;
+    border: 1px solid #ccc;
+    padding: 8px 16px;
+    border-radius: 4px;
+    cursor: pointer;
+    width: 100%;
+    font-size: 14px;
+  `;
+  cancelButton.onclick = () => {
+    panel.remove();
+    const status = document.getElementById('divorce-ez-status');
+    if (status) {
+      status.textContent = 'Auto-fill cancelled';
+      status.style.color = '#666';
+    }
+  };
+
+  footer.appendChild(bulkActions);
+  footer.appendChild(fillButton);
+  footer.appendChild(cancelButton);
+
+  panel.appendChild(header);
+  panel.appendChild(list);
+  panel.appendChild(footer);
+  document.body.appendChild(panel);
+
+  rows.forEach(render => render());
+  console.log('✅ Auto-fill preview shown');
+}
+
+/**
+ * Write the accepted proposals to the court form
+ */
+function fillAcceptedFields(proposals) {
+  let filledCount = 0;
+  const filledFieldsLog = []; // For logging only, not for tracking
+
+  proposals.filter(p => p.accepted).forEach(proposal => {
+    fillField(proposal.input, proposal.value, proposal.checked);
+    filledFields.add(proposal.fieldId); // Mark as filled
+    filledCount++;
+
+    filledFieldsLog.push({
+      field: proposal.label,
+      value: proposal.value,
+      type: proposal.input.type
+    });
+
+    // Add visual indicator
+    addFieldIndicator(proposal.input, true);
+  });
+
+  console.log(`📊 Auto-fill complete: Filled ${filledCount} field(s)`, filledFieldsLog);
+  return filledCount;
+}
+
+/**
+ * Scroll to a field on the page and outline it briefly
+ */
+function highlightField(input) {
+  input.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  const previousOutline = input.style.outline;
+  input.style.outline = '3px solid #2196F3';
+  setTimeout(() => {
+    input.style.outline = previousOutline;
+  }, 2000);
 }
 
 /**
@@ -577,6 +826,11 @@ function addFieldIndicator(input, filled) {
  * Get field name/identifier from input element
  */
 function getFieldName(input) {
+  // Same collection the platform's fixture tests cover (lib/mycase-field-map.js)
+  if (typeof DivorceEzFieldMap !== 'undefined') {
+    return DivorceEzFieldMap.getMyCaseFieldInfo(input);
+  }
+
   // Try multiple methods to identify the field
   const name = input.name || input.id || '';
   const label = getLabelForInput(input);
@@ -644,6 +898,10 @@ function getParentText(input) {
  * Get label text for an input element
  */
 function getLabelForInput(input) {
+  if (typeof DivorceEzFieldMap !== 'undefined') {
+    return DivorceEzFieldMap.getMyCaseFieldLabel(input);
+  }
+
   // Try to find associated label
   if (input.id) {
     const label = document.querySelector(`label[for="${input.id}"]`);
@@ -669,6 +927,15 @@ function getLabelForInput(input) {
  * Improved matching with better pattern recognition
  */
 function mapDataToField(fieldInfo, data) {
+  // Typed question map built from the platform (lib/mycase-field-map.js) reads the normalized rows;
+  // the pattern matching below only covers fields it doesn't know and data synced before it existed
+  if (typeof DivorceEzFieldMap !== 'undefined' && data.normalized) {
+    const resolution = DivorceEzFieldMap.resolveMyCaseField(fieldInfo, data.normalized);
+    if (resolution) {
+      return resolution.value;
+    }
+  }
+
   const { name, label, placeholder, ariaLabel, dataTestId, dataName, title, parentText, type } = fieldInfo;
   // Combine all field identifiers for better matching
   const searchText = `${name} ${label} ${placeholder} ${ariaLabel} ${dataTestId} ${dataName} ${title} ${parentText}`.toLowerCase();
@@ -683,10 +950,46 @@ function mapDataToField(fieldInfo, data) {
   const financialInfo = data.financial_info || {};
   const marriageInfo = data.marriage_info || {};
   const courtInfo = data.court_info || {};
+  const childSupport = data.child_support || {};
   
   // Ensure income object exists (fallback to empty object if missing)
   const income = financialInfo.income || {};
 
+  // Child support worksheet fields - checked before name/children/income matching,
+  // since worksheet labels mention "spouse", "children" and "income"
+  if (childSupport.worksheetType && 
+      normalizedSearch.match(/\b(support|obligation|worksheet|overnights?|combined)\b/i)) {
+    const isOtherParent = !!normalizedSearch.match(/\b(respondent|spouse|other\s*parent|father|mother|parent\s*2)\b/i) && 
+      !normalizedSearch.match(/\b(petitioner|your|parent\s*1)\b/i);
+    const parent = isOtherParent ? (childSupport.spouse2 || {}) : (childSupport.spouse1 || {});
+
+    if (normalizedSearch.match(/\b(base)\b/i) && normalizedSearch.match(/\b(obligation)\b/i)) {
+      return childSupport.baseCombinedObligation ?? null;
+    }
+    if (normalizedSearch.match(/\b(combined)\b/i) && normalizedSearch.match(/\b(income)\b/i)) {
+      return childSupport.combinedMonthlyIncome ?? null;
+    }
+    if (normalizedSearch.match(/\b(percent|percentage|%)\b/i)) {
+      return parent.incomePercentage ?? null;
+    }
+    if (normalizedSearch.match(/\b(overnights?)\b/i)) {
+      return parent.overnights ?? null;
+    }
+    if (normalizedSearch.match(/\b(share)\b/i)) {
+      return parent.share ?? null;
+    }
+    if (normalizedSearch.match(/\b(gross|monthly)\b/i) && normalizedSearch.match(/\b(income)\b/i)) {
+      return parent.monthlyIncome ?? null;
+    }
+    if (normalizedSearch.match(/\b(obligation)\b/i)) {
+      return parent.obligation ?? null;
+    }
+    if (normalizedSearch.match(/\b(child\s*support)\b/i) && 
+        normalizedSearch.match(/\b(amount|monthly|total|pay|payment)\b/i)) {
+      return childSupport.monthlySupportAmount ?? null;
+    }
+  }
+
   // Name fields - improved matching
   // Check for first name (more specific patterns first)
   if (normalizedSearch.match(/\b(first|fname|given|firstname|first_name)\b/i) && 
@@ -943,13 +1246,11 @@ function mapDataToField(fieldInfo, data) {
 /**
  * Fill a form field with value
  */
-function fillField(input, value) {
+function fillField(input, value, checked) {
   try {
-    // Set value
+    // Set value - checkboxes and radios take the checked state worked out for the proposal
     if (input.type === 'checkbox' || input.type === 'radio') {
-      if (input.value === value || input.value === String(value)) {
-        input.checked = true;
-      }
+      input.checked = checked;
     } else {
       input.value = value;
     }
@@ -967,6 +1268,12 @@ function fillField(input, value) {
  * Clear all form fields
  */
 function clearAllFields() {
+  // Close the preview first so its value inputs aren't cleared with the court form
+  const preview = document.getElementById('divorce-ez-preview');
+  if (preview) {
+    preview.remove();
+  }
+
   const forms = document.querySelectorAll('form');
   forms.forEach(form => {
     const inputs = form.querySelectorAll('input, textarea, select');